@@ -1,7 +1,7 @@
 import { describe } from '@jest/globals'
 
 import { API } from '@harrytwright/api/dist/core'
-import { ConfigService } from '@menubook/core'
+import { ConfigService, DatabaseOnlyStorage } from '@menubook/core'
 import { createDatabase, migrate } from '@menubook/sqlite'
 import { EventEmitter } from 'events'
 import { jsonArrayFrom, jsonObjectFrom } from 'kysely/helpers/sqlite'
@@ -33,7 +33,9 @@ describe('App', () => {
         },
       })
         .register('events', new EventEmitter())
-        .register('globalConfig', new ConfigService('./tmp/dir')),
+        .register('globalConfig', new ConfigService('./tmp/dir'))
+        .register('storage', new DatabaseOnlyStorage())
+        .register('workspace', './tmp/dir'),
       false
     )
   })
@@ -14,11 +14,14 @@ import {
   AppController,
   DevToolsController,
   EventsController,
+  ExportController,
   HealthcheckController,
   InfoController,
   IngredientsController,
   RecipesController,
+  SalesController,
   SuppliersController,
+  VarianceController,
 } from './controllers'
 
 import { Setting } from '@harrytwright/api/dist/core/decorators/helpers/settings.decorator'
@@ -37,6 +40,9 @@ import { expressRequestHandler } from './modules/sentry/middleware/wrapper'
   SuppliersController,
   IngredientsController,
   RecipesController,
+  SalesController,
+  VarianceController,
+  ExportController,
   AnalyticsController,
   EventsController,
   AppController,
@@ -50,6 +56,7 @@ import { expressRequestHandler } from './modules/sentry/middleware/wrapper'
 @useMiddleware(require('cookie-parser')())
 @useMiddleware(require('./middleware/demo').demo)
 @useMiddleware(express.static(path.join(__dirname, '../public')))
+@useMiddleware(require('./middleware/money').money)
 @useMiddleware(
   require('./modules/auth/middleware/authentication').Authentication
 )
@@ -1,25 +1,60 @@
 import { controller, Inject, path } from '@harrytwright/api/dist/core'
-import type { DatabaseContext, Supplier } from '@menubook/core'
-import { ConfigService, slugify } from '@menubook/core'
+import { BadRequest } from '@hndlr/errors'
+import type {
+  DatabaseContext,
+  DBIngredient,
+  MoneyFormat,
+  NutritionValues,
+  Supplier,
+} from '@menubook/core'
+import {
+  ALLERGEN_LABELS,
+  ALLERGENS,
+  ConfigService,
+  menuEngineeringCSV,
+  methodData,
+  NUTRIENTS,
+  parseAllergens,
+  parseNutrition,
+  parseSimulationOverride,
+  slugify,
+  toMinorUnits,
+} from '@menubook/core'
 import express from 'express'
 import { Insertable, Updateable } from 'kysely'
 
 import { DemoPersistenceManager } from '../datastore/sqlite.demo'
 import { SupplierMapper } from '../mappers/supplier.mapper'
+import { Auth } from '../modules/auth/classes/auth'
 import {
   ingredientApiSchema,
+  priceListApiSchema,
+  recipeApiCostLineSchema,
+  recipeApiMethodSchema,
   recipeApiSchema,
+  saleApiSchema,
+  spendApiSchema,
   SupplierApiData,
   supplierApiSchema,
 } from '../schemas'
 import CalculatorImpl from '../services/calculator.service'
+import ExportServiceImpl from '../services/export.service'
 import IngredientServiceImpl from '../services/ingredient.service'
+import PhotoServiceImpl from '../services/photo.service'
+import PriceListServiceImpl from '../services/price-list.service'
 import RecipeServiceImpl from '../services/recipe.service'
+import SalesServiceImpl from '../services/sales.service'
 import SupplierServiceImpl from '../services/supplier.service'
+import VarianceServiceImpl from '../services/variance.service'
 import type { ServerRequest } from '../types/response.json.type'
+import { parseScaleTarget } from './recipes.controller'
+import { parsePeriod } from './sales.controller'
 
 const inDemoMode = process.env.DEMO === 'true'
 
+// Photos are uploaded as the raw request body, the app wide parsers skip them
+const photoParser = express.raw({ type: 'image/*', limit: '10mb' })
+
 /**
  * Check if demo mode is enabled
  */
@@ -33,6 +68,22 @@ function isDemoEnabled(): boolean {
 const VALID_ENTITY_TYPES = ['suppliers', 'ingredients', 'recipes'] as const
 type EntityType = (typeof VALID_ENTITY_TYPES)[number]
 
+/**
+ * An ingredient's declared allergens, one row per regulated allergen
+ */
+function ingredientAllergens(ingredient: DBIngredient) {
+  const { contains, mayContain } = parseAllergens(ingredient.allergens)
+  return ALLERGENS.map((allergen) => ({
+    allergen,
+    label: ALLERGEN_LABELS[allergen],
+    level: contains.includes(allergen)
+      ? 'contains'
+      : mayContain.includes(allergen)
+        ? 'may_contain'
+        : null,
+  }))
+}
+
 function isValidEntityType(type: string): type is EntityType {
   return VALID_ENTITY_TYPES.includes(type as EntityType)
 }
@@ -47,7 +98,12 @@ export class AppController {
     @Inject('database') private readonly ctx: DatabaseContext,
     private readonly calculator: CalculatorImpl,
     private readonly demo: DemoPersistenceManager,
-    private readonly serviceMapper: SupplierMapper
+    private readonly serviceMapper: SupplierMapper,
+    private readonly sales: SalesServiceImpl,
+    private readonly variance: VarianceServiceImpl,
+    private readonly priceList: PriceListServiceImpl,
+    private readonly photos: PhotoServiceImpl,
+    private readonly exports: ExportServiceImpl
   ) {}
 
   /**
@@ -113,6 +169,29 @@ export class AppController {
     }
   }
 
+  /**
+   * A recipe's allergens for the editor, null when they can't be worked out
+   */
+  private async recipeAllergens(slug: string) {
+    try {
+      return await this.calculator.allergens(slug)
+    } catch (error) {
+      return null
+    }
+  }
+
+  /**
+   * A recipe's nutrition per portion for the editor, null when it can't be
+   * worked out
+   */
+  private async recipeNutrition(slug: string) {
+    try {
+      return await this.calculator.nutrition(slug)
+    } catch (error) {
+      return null
+    }
+  }
+
   /**
    * GET / - Redirect to recipes (default view)
    */
@@ -152,7 +231,7 @@ export class AppController {
     try {
       const parsed = recipeApiSchema.parse(req.body)
       const slug = parsed.slug || (await slugify(parsed.name))
-      await this.recipes.create(slug, parsed)
+      await this.recipes.create(slug, parsed, 'ui', Auth.subjectOf(req))
 
       // Use HX-Redirect to navigate to the new recipe
       res.setHeader('HX-Redirect', `/recipes/${slug}`)
@@ -197,10 +276,14 @@ export class AppController {
     try {
       const costResult = await this.calculator.cost(slug)
       const marginResult = await this.calculator.margin(costResult)
+      const pricing = await this.calculator.suggestPrice(costResult)
       cost = {
         total: costResult.totalCost,
         breakdown: costResult.tree,
+        issues: costResult.issues,
+        costLines: costResult.costLines,
         margin: marginResult,
+        pricing,
       }
     } catch (error) {
       // Cost calculation failed, continue without it
@@ -210,6 +293,79 @@ export class AppController {
       recipes,
       recipe,
       cost,
+      allergens: await this.recipeAllergens(slug),
+      nutrition: await this.recipeNutrition(slug),
+    })
+  }
+
+  /**
+   * GET /recipes/:slug/allergens - Printable allergen sheet for a recipe
+   */
+  @path('/recipes/:slug/allergens')
+  async getRecipeAllergenSheet(req: express.Request, res: express.Response) {
+    const { slug } = req.params
+
+    if (!(await this.recipes.exists(slug))) {
+      return res.status(404).send('Recipe not found')
+    }
+
+    const allergens = await this.calculator.allergens(slug)
+    return res.render('print/allergen-sheet', {
+      title: allergens.recipe.name,
+      sheets: [allergens],
+      skipped: [],
+    })
+  }
+
+  /**
+   * GET /recipes/:slug/batch - Printable batch sheet, scaled with
+   * `?portions=` or `?yield=`
+   */
+  @path('/recipes/:slug/batch')
+  async getRecipeBatchSheet(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    const { slug } = req.params
+
+    if (!(await this.recipes.exists(slug))) {
+      return res.status(404).send('Recipe not found')
+    }
+
+    try {
+      const target = parseScaleTarget(req.query)
+      const batch = await this.calculator.scale(slug, target)
+      return res.render('print/batch-sheet', { batch })
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  /**
+   * GET /allergens - Printable allergen sheet for every menu item
+   */
+  @path('/allergens')
+  async getAllergenSheet(req: express.Request, res: express.Response) {
+    const recipes = (await this.recipes.find()).filter(
+      (recipe) =>
+        recipe.class === 'menu_item' && recipe.stage !== 'discontinued'
+    )
+
+    const sheets = []
+    const skipped: { name: string; error: string }[] = []
+    for (const recipe of recipes) {
+      try {
+        sheets.push(await this.calculator.allergens(recipe.slug))
+      } catch (error) {
+        skipped.push({ name: recipe.name, error: (error as Error).message })
+      }
+    }
+
+    return res.render('print/allergen-sheet', {
+      title: 'Menu Allergens',
+      sheets: sheets.sort((a, b) => a.recipe.name.localeCompare(b.recipe.name)),
+      skipped,
     })
   }
 
@@ -226,7 +382,7 @@ export class AppController {
 
     try {
       const parsed = recipeApiSchema.parse(req.body)
-      await this.recipes.update(slug, parsed)
+      await this.recipes.update(slug, parsed, 'ui', Auth.subjectOf(req))
 
       // Re-fetch and return updated editor
       const recipes = await this.recipes.find()
@@ -236,10 +392,14 @@ export class AppController {
       try {
         const costResult = await this.calculator.cost(slug)
         const marginResult = await this.calculator.margin(costResult)
+        const pricing = await this.calculator.suggestPrice(costResult)
         cost = {
           total: costResult.totalCost,
           breakdown: costResult.tree,
+          issues: costResult.issues,
+          costLines: costResult.costLines,
           margin: marginResult,
+          pricing,
         }
       } catch (error) {
         // Cost calculation failed
@@ -247,7 +407,15 @@ export class AppController {
 
       // Close modal via header
       res.setHeader('HX-Trigger', 'closeModal')
-      return res.render('islands/recipe-editor', { recipes, recipe, cost })
+      const allergens = await this.recipeAllergens(slug)
+      const nutrition = await this.recipeNutrition(slug)
+      return res.render('islands/recipe-editor', {
+        recipes,
+        recipe,
+        cost,
+        allergens,
+        nutrition,
+      })
     } catch (error) {
       return next(error)
     }
@@ -321,10 +489,15 @@ export class AppController {
         return res.status(400).send('Unit is required')
       }
 
-      await this.recipes.addIngredient(slug, ingredientSlug, {
-        quantity: quantity ? parseFloat(quantity) : undefined,
-        unit,
-      })
+      await this.recipes.addIngredient(
+        slug,
+        ingredientSlug,
+        {
+          quantity: quantity ? parseFloat(quantity) : undefined,
+          unit,
+        },
+        'ui'
+      )
 
       // Re-fetch and return updated editor
       const recipes = await this.recipes.find()
@@ -334,17 +507,29 @@ export class AppController {
       try {
         const costResult = await this.calculator.cost(slug)
         const marginResult = await this.calculator.margin(costResult)
+        const pricing = await this.calculator.suggestPrice(costResult)
         cost = {
           total: costResult.totalCost,
           breakdown: costResult.tree,
+          issues: costResult.issues,
+          costLines: costResult.costLines,
           margin: marginResult,
+          pricing,
         }
       } catch (error) {
         // Cost calculation failed
       }
 
       res.setHeader('HX-Trigger', 'closeModal')
-      return res.render('islands/recipe-editor', { recipes, recipe, cost })
+      const allergens = await this.recipeAllergens(slug)
+      const nutrition = await this.recipeNutrition(slug)
+      return res.render('islands/recipe-editor', {
+        recipes,
+        recipe,
+        cost,
+        allergens,
+        nutrition,
+      })
     } catch (error) {
       return next(error)
     }
@@ -362,7 +547,12 @@ export class AppController {
     const { slug, ingredientSlug } = req.params
 
     try {
-      await this.recipes.removeIngredient(slug, ingredientSlug)
+      await this.recipes.removeIngredient(
+        slug,
+        ingredientSlug,
+        'ui',
+        Auth.subjectOf(req)
+      )
 
       // Re-fetch and return updated editor
       const recipes = await this.recipes.find()
@@ -372,16 +562,250 @@ export class AppController {
       try {
         const costResult = await this.calculator.cost(slug)
         const marginResult = await this.calculator.margin(costResult)
+        const pricing = await this.calculator.suggestPrice(costResult)
         cost = {
           total: costResult.totalCost,
           breakdown: costResult.tree,
+          issues: costResult.issues,
+          costLines: costResult.costLines,
           margin: marginResult,
+          pricing,
         }
       } catch (error) {
         // Cost calculation failed
       }
 
-      return res.render('islands/recipe-editor', { recipes, recipe, cost })
+      const allergens = await this.recipeAllergens(slug)
+      const nutrition = await this.recipeNutrition(slug)
+      return res.render('islands/recipe-editor', {
+        recipes,
+        recipe,
+        cost,
+        allergens,
+        nutrition,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  /**
+   * GET /recipes/:slug/costs/add - Packaging and overhead line modal
+   */
+  @path('/recipes/:slug/costs/add')
+  async getCostLinePicker(req: express.Request, res: express.Response) {
+    const { slug } = req.params
+    const recipe = await this.recipes.findById(slug, true)
+    const ingredients = await this.ingredients.find()
+
+    if (!recipe) {
+      return res.status(404).send('Recipe not found')
+    }
+
+    return res.render('modals/cost-line-picker', {
+      recipe,
+      ingredients,
+    })
+  }
+
+  /**
+   * POST /recipes/:slug/costs - Add a packaging or overhead line to a recipe
+   */
+  @path('/recipes/:slug/costs')
+  async postRecipeCostLine(
+    req: ServerRequest<{ slug: string }, unknown, Record<string, any>>,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    const { slug } = req.params
+
+    try {
+      const line = recipeApiCostLineSchema.parse(
+        this.transformCostLineFormData(
+          req.body,
+          await this.config.getMoneyFormat()
+        )
+      )
+      await this.recipes.addCostLine(slug, line, 'ui', Auth.subjectOf(req))
+
+      res.setHeader('HX-Trigger', 'closeModal')
+      return this.renderRecipeEditor(res, slug)
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  /**
+   * DELETE /recipes/:slug/costs/:index - Remove one of a recipe's own cost lines
+   */
+  @path('/recipes/:slug/costs/:index')
+  async deleteRecipeCostLine(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    const { slug, index } = req.params
+
+    try {
+      await this.recipes.removeCostLine(
+        slug,
+        parseInt(index, 10),
+        'ui',
+        Auth.subjectOf(req)
+      )
+      return this.renderRecipeEditor(res, slug)
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  /**
+   * GET /recipes/:slug/method/edit - Method, equipment and plating modal
+   */
+  @path('/recipes/:slug/method/edit')
+  async getRecipeMethodForm(req: express.Request, res: express.Response) {
+    const { slug } = req.params
+    const recipe = await this.recipes.findById(slug, false)
+
+    if (!recipe) {
+      return res.status(404).send('Recipe not found')
+    }
+
+    return res.render('modals/recipe-method', { recipe })
+  }
+
+  /**
+   * PUT /recipes/:slug/method - Replace a recipe's method, keeping its photos
+   */
+  @path('/recipes/:slug/method')
+  async putRecipeMethod(
+    req: ServerRequest<{ slug: string }, unknown, Record<string, any>>,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    const { slug } = req.params
+    const recipe = await this.recipes.findById(slug, false)
+
+    if (!recipe) {
+      return res.status(404).send('Recipe not found')
+    }
+
+    try {
+      const method = recipeApiMethodSchema.parse(
+        this.transformMethodFormData(req.body)
+      )
+      await this.recipes.updateMethod(
+        slug,
+        { ...method, photos: methodData(recipe)?.photos },
+        'ui',
+        Auth.subjectOf(req)
+      )
+
+      res.setHeader('HX-Trigger', 'closeModal')
+      return this.renderRecipeEditor(res, slug)
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  /**
+   * POST /recipes/:slug/photos?name=&caption= - Upload a photo, sent as the
+   * request body
+   */
+  @path('/recipes/:slug/photos')
+  async postRecipePhoto(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    const { slug } = req.params
+
+    try {
+      await new Promise<void>((resolve, reject) =>
+        photoParser(req, res, (error) => (error ? reject(error) : resolve()))
+      )
+
+      if (!Buffer.isBuffer(req.body) || typeof req.query.name !== 'string') {
+        throw new BadRequest('Expected an image body and a `name`')
+      }
+
+      await this.photos.add(
+        slug,
+        {
+          filename: req.query.name,
+          data: req.body,
+          caption:
+            typeof req.query.caption === 'string'
+              ? req.query.caption
+              : undefined,
+        },
+        Auth.subjectOf(req)
+      )
+
+      return this.renderRecipeEditor(res, slug)
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  /**
+   * GET /recipes/:slug/photos/:index - A recipe photo, from wherever it is kept
+   */
+  @path('/recipes/:slug/photos/:index')
+  async getRecipePhoto(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    const { slug, index } = req.params
+
+    try {
+      const photo = await this.photos.read(slug, parseInt(index, 10))
+      return res
+        .set('X-Content-Type-Options', 'nosniff')
+        .type(photo.contentType)
+        .send(photo.data)
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  /**
+   * DELETE /recipes/:slug/photos/:index - Remove a photo from a recipe
+   */
+  @path('/recipes/:slug/photos/:index')
+  async deleteRecipePhoto(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    const { slug, index } = req.params
+
+    try {
+      await this.photos.remove(slug, parseInt(index, 10), Auth.subjectOf(req))
+      return this.renderRecipeEditor(res, slug)
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  /**
+   * GET /recipes/:slug/spec-card - Printable spec card as PDF
+   */
+  @path('/recipes/:slug/spec-card')
+  async getRecipeSpecCard(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const pdf = await this.exports.recipeSpecPDF(req.params.slug)
+      res.setHeader('Content-Type', 'application/pdf')
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${req.params.slug}-spec-card.pdf"`
+      )
+      return res.send(pdf)
     } catch (error) {
       return next(error)
     }
@@ -427,7 +851,7 @@ export class AppController {
       const parsed = ingredientApiSchema.parse(formData)
       const slug = parsed.slug || (await slugify(parsed.name))
       const supplierSlug = req.body.supplierId || 'generic'
-      await this.ingredients.create(slug, parsed, supplierSlug)
+      await this.ingredients.create(slug, parsed, supplierSlug, 'ui')
 
       res.setHeader('HX-Redirect', `/ingredients/${slug}`)
       return res.status(201).send('')
@@ -452,6 +876,7 @@ export class AppController {
     return res.render('components/ingredient-form', {
       ingredient,
       suppliers,
+      nutrition: parseNutrition(ingredient.nutrition),
     })
   }
 
@@ -476,6 +901,8 @@ export class AppController {
       ingredient,
       suppliers,
       usedIn,
+      allergens: ingredientAllergens(ingredient),
+      nutrition: parseNutrition(ingredient.nutrition),
     })
   }
 
@@ -495,7 +922,14 @@ export class AppController {
       const formData = this.transformIngredientFormData(req.body)
       const parsed = ingredientApiSchema.parse(formData)
       const supplierSlug = req.body.supplierId || 'generic'
-      await this.ingredients.update(slug, parsed, supplierSlug)
+
+      // Allergens are edited on their own, keep what is already declared
+      if (await this.ingredients.exists(slug)) {
+        const existing = await this.ingredients.findById(slug)
+        parsed.allergens = parseAllergens(existing.allergens)
+      }
+
+      await this.ingredients.update(slug, parsed, supplierSlug, 'ui')
 
       const ingredients = await this.ingredients.find()
       const ingredient = await this.ingredients.findById(slug)
@@ -506,6 +940,40 @@ export class AppController {
         ingredients,
         ingredient,
         suppliers,
+        allergens: ingredientAllergens(ingredient),
+        nutrition: parseNutrition(ingredient.nutrition),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  /**
+   * PUT /ingredients/:slug/allergens - Update the allergens declared for an
+   * ingredient
+   */
+  @path('/ingredients/:slug/allergens')
+  async putIngredientAllergens(
+    req: ServerRequest<{ slug: string }, unknown, Record<string, any>>,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    const { slug } = req.params
+    const level = (allergen: string) => req.body[`allergen-${allergen}`]
+
+    try {
+      const ingredient = await this.ingredients.updateAllergens(slug, {
+        contains: ALLERGENS.filter((a) => level(a) === 'contains'),
+        mayContain: ALLERGENS.filter((a) => level(a) === 'may_contain'),
+      })
+
+      return res.render('islands/ingredient-editor', {
+        ingredients: await this.ingredients.find(),
+        ingredient,
+        suppliers: await this.suppliers.find(),
+        usedIn: await this.recipes.findByIngredientSlug(slug),
+        allergens: ingredientAllergens(ingredient),
+        nutrition: parseNutrition(ingredient.nutrition),
       })
     } catch (error) {
       return next(error)
@@ -675,6 +1143,89 @@ export class AppController {
     }
   }
 
+  /**
+   * GET /suppliers/:slug/order-sheet - Printable order sheet as PDF
+   */
+  @path('/suppliers/:slug/order-sheet')
+  async getSupplierOrderSheet(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const pdf = await this.exports.supplierOrderPDF(req.params.slug)
+      res.setHeader('Content-Type', 'application/pdf')
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${req.params.slug}-order-sheet.pdf"`
+      )
+      return res.send(pdf)
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  /**
+   * POST /suppliers/:slug/prices/preview - Dry run of a price list upload
+   */
+  @path('/suppliers/:slug/prices/preview')
+  async postSupplierPricesPreview(
+    req: ServerRequest<{ slug: string }, unknown, Record<string, any>>,
+    res: express.Response
+  ) {
+    try {
+      const { csv } = priceListApiSchema.parse(req.body)
+      const preview = await this.priceList.preview(req.params.slug, csv)
+      return res.render('components/price-list-preview', { preview, csv })
+    } catch (error: any) {
+      return res.render('components/price-list-preview', {
+        error: error.message,
+      })
+    }
+  }
+
+  /**
+   * POST /suppliers/:slug/prices - Save the prices from a price list
+   */
+  @path('/suppliers/:slug/prices')
+  async postSupplierPrices(
+    req: ServerRequest<
+      { slug: string },
+      unknown,
+      Record<string, any>,
+      express.Request['query']
+    >,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    const { slug } = req.params
+
+    try {
+      const { csv } = priceListApiSchema.parse(req.body)
+      const priceList = await this.priceList.apply(slug, csv, 'ui')
+
+      const allSuppliers = await this.suppliers.find()
+      const supplier = await this.suppliers.findById(slug)
+      const allIngredients = await this.ingredients.find()
+      const ingredients = allIngredients.filter((i) => i.supplierSlug === slug)
+
+      const suppliers = allSuppliers.map((s) => ({
+        ...s,
+        ingredientCount: allIngredients.filter((i) => i.supplierSlug === s.slug)
+          .length,
+      }))
+
+      return this.render(req, res, 'suppliers', 'Suppliers', {
+        suppliers,
+        supplier,
+        ingredients,
+        priceList,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  }
+
   /**
    * DELETE /suppliers/:slug - Delete supplier
    */
@@ -807,7 +1358,7 @@ export class AppController {
     }
 
     try {
-      await this.createEntity(type, req.body)
+      await this.createEntity(type, req.body, Auth.subjectOf(req))
       const items = await this.getEntityList(type)
       const listView = `${type.slice(0, -1)}-list`
 
@@ -839,7 +1390,7 @@ export class AppController {
     }
 
     try {
-      await this.updateEntity(type, slug, req.body)
+      await this.updateEntity(type, slug, req.body, Auth.subjectOf(req))
       const items = await this.getEntityList(type)
       const listView = `${type.slice(0, -1)}-list`
 
@@ -884,6 +1435,10 @@ export class AppController {
    */
   @path('/margin')
   async getMargin(req: express.Request, res: express.Response) {
+    // `?band=` switches the figures to one of the recipes' price bands
+    const band = typeof req.query.band === 'string' ? req.query.band : ''
+    const bands = new Set<string>()
+
     try {
       const allRecipes = await this.recipes.find()
       const margins = await Promise.all(
@@ -893,16 +1448,24 @@ export class AppController {
             try {
               const cost = await this.calculator.cost(recipe.slug)
               const marginResult = await this.calculator.margin(cost)
+              marginResult.bands.forEach((price) => bands.add(price.band))
+
+              // Recipes without the band keep their standard price
+              const banded = marginResult.bands.find(
+                (price) => price.band === band
+              )
+              const shown = banded ?? marginResult
               return {
                 slug: recipe.slug,
                 name: recipe.name,
                 class: recipe.class,
-                sellPrice: recipe.sellPrice,
-                includesVat: recipe.includesVat,
-                foodCost: marginResult.cost,
-                profit: marginResult.profit,
-                actualMargin: marginResult.actualMargin,
-                targetMargin: marginResult.targetMargin,
+                sellPrice: shown.customerPrice,
+                includesVat: shown.vatApplicable ? 1 : 0,
+                band: banded ? band : null,
+                foodCost: shown.cost,
+                profit: shown.profit,
+                actualMargin: shown.actualMargin,
+                targetMargin: shown.targetMargin,
               }
             } catch (error: any) {
               return {
@@ -921,7 +1484,11 @@ export class AppController {
           })
       )
 
-      return this.render(req, res, 'margin', 'Margin Calculator', { margins })
+      return this.render(req, res, 'margin', 'Margin Calculator', {
+        margins,
+        band,
+        bands: [...bands].sort(),
+      })
     } catch (error) {
       return this.render(req, res, 'margin', 'Margin Calculator', {
         margins: [],
@@ -930,6 +1497,205 @@ export class AppController {
     }
   }
 
+  /**
+   * GET /margin/simulate - What-if margin simulator
+   */
+  @path('/margin/simulate')
+  async getMarginSimulation(req: express.Request, res: express.Response) {
+    const input =
+      typeof req.query.overrides === 'string' ? req.query.overrides : ''
+    const lines = input
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+
+    if (lines.length === 0) {
+      return this.render(req, res, 'simulate', 'Margin Simulator', { input })
+    }
+
+    try {
+      const result = await this.calculator.simulate(
+        lines.map(parseSimulationOverride)
+      )
+      return this.render(req, res, 'simulate', 'Margin Simulator', {
+        input,
+        result,
+      })
+    } catch (error: any) {
+      return this.render(req, res, 'simulate', 'Margin Simulator', {
+        input,
+        error: error.message,
+      })
+    }
+  }
+
+  /**
+   * GET /margin/engineering - Menu engineering matrix
+   */
+  @path('/margin/engineering')
+  async getMarginEngineering(req: express.Request, res: express.Response) {
+    const period = parsePeriod(req.query)
+    const data = {
+      from: period.from ?? '',
+      to: period.to ?? '',
+    }
+
+    try {
+      const report = await this.sales.engineering(period)
+      return this.render(req, res, 'engineering', 'Menu Engineering', {
+        ...data,
+        report,
+      })
+    } catch (error: any) {
+      return this.render(req, res, 'engineering', 'Menu Engineering', {
+        ...data,
+        error: error.message,
+      })
+    }
+  }
+
+  /**
+   * GET /margin/costing-pack - Active menu items by category as PDF
+   */
+  @path('/margin/costing-pack')
+  async getMarginCostingPack(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const pdf = await this.exports.costingPackPDF()
+      res.setHeader('Content-Type', 'application/pdf')
+      res.setHeader(
+        'Content-Disposition',
+        'attachment; filename="costing-pack.pdf"'
+      )
+      return res.send(pdf)
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  /**
+   * GET /margin/engineering/export - Menu engineering matrix as CSV
+   */
+  @path('/margin/engineering/export')
+  async getMarginEngineeringExport(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const report = await this.sales.engineering(parsePeriod(req.query))
+      res.setHeader('Content-Type', 'text/csv')
+      res.setHeader(
+        'Content-Disposition',
+        'attachment; filename="menu-engineering.csv"'
+      )
+      return res.send(menuEngineeringCSV(report))
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  /**
+   * POST /margin/engineering/sales - Record sales by hand
+   */
+  @path('/margin/engineering/sales')
+  async postMarginEngineeringSales(
+    req: ServerRequest<
+      never,
+      unknown,
+      Record<string, any>,
+      express.Request['query']
+    >,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      await this.sales.record(saleApiSchema.parse(req.body), 'ui')
+
+      const period = parsePeriod(req.query)
+      const query = new URLSearchParams(period as Record<string, string>)
+      res.setHeader('HX-Redirect', `/margin/engineering?${query}`)
+      return res.status(201).send('')
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  /**
+   * GET /margin/variance - Theoretical vs actual food cost
+   */
+  @path('/margin/variance')
+  async getMarginVariance(req: express.Request, res: express.Response) {
+    const period = parsePeriod(req.query)
+    const data = {
+      from: period.from ?? '',
+      to: period.to ?? '',
+      ingredients: await this.ingredients.find(),
+    }
+
+    // Both ends are needed to match the spend to the sales
+    if (!data.from || !data.to) {
+      return this.render(req, res, 'variance', 'Food Cost Variance', data)
+    }
+
+    try {
+      const [report, spend] = await Promise.all([
+        this.variance.report(data),
+        this.variance.findSpend(data),
+      ])
+      return this.render(req, res, 'variance', 'Food Cost Variance', {
+        ...data,
+        report,
+        spend,
+      })
+    } catch (error: any) {
+      return this.render(req, res, 'variance', 'Food Cost Variance', {
+        ...data,
+        error: error.message,
+      })
+    }
+  }
+
+  /**
+   * POST /margin/variance/spend - Enter the spend on an ingredient, the form
+   * takes pounds
+   */
+  @path('/margin/variance/spend')
+  async postMarginVarianceSpend(
+    req: ServerRequest<
+      never,
+      unknown,
+      Record<string, any>,
+      express.Request['query']
+    >,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const body = { ...req.body }
+      const format = await this.config.getMoneyFormat()
+      for (const key of ['purchases', 'openingStock', 'closingStock']) {
+        if (body[key] !== undefined && body[key] !== '') {
+          body[key] = toMinorUnits(parseFloat(body[key]), format)
+        } else {
+          delete body[key]
+        }
+      }
+
+      await this.variance.recordSpend(spendApiSchema.parse(body))
+
+      const period = parsePeriod(req.query)
+      const query = new URLSearchParams(period as Record<string, string>)
+      res.setHeader('HX-Redirect', `/margin/variance?${query}`)
+      return res.status(201).send('')
+    } catch (error) {
+      return next(error)
+    }
+  }
+
   /**
    * GET /settings - Settings page or modal
    */
@@ -960,13 +1726,20 @@ export class AppController {
     req: ServerRequest<
       never,
       unknown,
-      { vat?: string; marginTarget?: string; defaultPriceIncludesVat?: string }
+      {
+        vat?: string
+        marginTarget?: string
+        defaultPriceIncludesVat?: string
+        currency?: string
+        locale?: string
+      }
     >,
     res: express.Response,
     next: express.NextFunction
   ) {
     try {
-      const { vat, marginTarget, defaultPriceIncludesVat } = req.body
+      const { vat, marginTarget, defaultPriceIncludesVat, currency, locale } =
+        req.body
 
       const updates: Record<string, any> = {}
 
@@ -979,6 +1752,15 @@ export class AppController {
         updates.marginTarget = parseFloat(marginTarget)
       }
 
+      // Every view formats money with these, so only keep ones Intl accepts
+      if (currency && /^[A-Za-z]{3}$/.test(currency.trim())) {
+        updates.currency = currency.trim().toUpperCase()
+      }
+
+      if (locale && isSupportedLocale(locale.trim())) {
+        updates.locale = locale.trim()
+      }
+
       // Checkbox: present = true, absent = false
       updates.defaultPriceIncludesVat =
         defaultPriceIncludesVat === 'on' || defaultPriceIncludesVat === '1'
@@ -1085,7 +1867,7 @@ export class AppController {
     }
   }
 
-  private async createEntity(type: EntityType, data: any) {
+  private async createEntity(type: EntityType, data: any, author?: string) {
     switch (type) {
       case 'suppliers': {
         const parsed = this.serviceMapper.mapJSONToEntity(
@@ -1098,17 +1880,22 @@ export class AppController {
         const parsed = ingredientApiSchema.parse(data)
         const slug = parsed.slug || (await slugify(parsed.name))
         const supplierSlug = data.supplierId || 'generic'
-        return this.ingredients.create(slug, parsed, supplierSlug)
+        return this.ingredients.create(slug, parsed, supplierSlug, 'ui')
       }
       case 'recipes': {
         const parsed = recipeApiSchema.parse(data)
         const slug = parsed.slug || (await slugify(parsed.name))
-        return this.recipes.create(slug, parsed)
+        return this.recipes.create(slug, parsed, 'ui', author)
       }
     }
   }
 
-  private async updateEntity(type: EntityType, slug: string, data: any) {
+  private async updateEntity(
+    type: EntityType,
+    slug: string,
+    data: any,
+    author?: string
+  ) {
     switch (type) {
       case 'suppliers': {
         const parsed = this.serviceMapper.mapJSONToEntity(
@@ -1119,11 +1906,11 @@ export class AppController {
       case 'ingredients': {
         const parsed = ingredientApiSchema.parse(data)
         const supplierSlug = data.supplierId || 'generic'
-        return this.ingredients.update(slug, parsed, supplierSlug)
+        return this.ingredients.update(slug, parsed, supplierSlug, 'ui')
       }
       case 'recipes': {
         const parsed = recipeApiSchema.parse(data)
-        return this.recipes.update(slug, parsed)
+        return this.recipes.update(slug, parsed, 'ui', author)
       }
     }
   }
@@ -1154,10 +1941,140 @@ export class AppController {
           body.includesVat === 'on' ||
           body.includesVat === '1' ||
           body.includesVat === true,
+        currency: body.purchaseCurrency
+          ? String(body.purchaseCurrency).trim().toUpperCase()
+          : undefined,
       },
       supplier: body.supplierId,
       conversionRate: body.conversionRule || undefined,
+      density: body.density || undefined,
+      yieldPercent: body.yieldPercent
+        ? parseFloat(body.yieldPercent)
+        : undefined,
+      sku: body.sku || undefined,
+      nutrition: this.transformNutritionFormData(body),
       notes: body.notes || undefined,
     }
   }
+
+  /**
+   * Each step row sends a `step` and a `holdMinutes`, a lone row arrives as
+   * plain strings rather than lists
+   */
+  private transformMethodFormData(body: Record<string, any>) {
+    const list = (value: unknown): string[] =>
+      value === undefined ? [] : [value].flat().map(String)
+
+    const holds = list(body.holdMinutes)
+    const steps = list(body.step).flatMap((step, index) =>
+      step.trim()
+        ? [
+            {
+              step: step.trim(),
+              holdMinutes: holds[index]
+                ? parseInt(holds[index], 10)
+                : undefined,
+            },
+          ]
+        : []
+    )
+
+    return {
+      steps,
+      equipment: list(body.equipment)
+        .join('\n')
+        .split('\n')
+        .map((item) => item.trim())
+        .filter(Boolean),
+      plating: body.plating?.trim() || undefined,
+    }
+  }
+
+  /**
+   * Re-fetch a recipe after a change and render its editor island
+   */
+  private async renderRecipeEditor(res: express.Response, slug: string) {
+    const recipes = await this.recipes.find()
+    const recipe = await this.recipes.findById(slug, true)
+
+    let cost = null
+    try {
+      const costResult = await this.calculator.cost(slug)
+      const marginResult = await this.calculator.margin(costResult)
+      const pricing = await this.calculator.suggestPrice(costResult)
+      cost = {
+        total: costResult.totalCost,
+        breakdown: costResult.tree,
+        issues: costResult.issues,
+        costLines: costResult.costLines,
+        margin: marginResult,
+        pricing,
+      }
+    } catch (error) {
+      // Cost calculation failed
+    }
+
+    const allergens = await this.recipeAllergens(slug)
+    const nutrition = await this.recipeNutrition(slug)
+    return res.render('islands/recipe-editor', {
+      recipes,
+      recipe,
+      cost,
+      allergens,
+      nutrition,
+    })
+  }
+
+  /**
+   * The cost line form has one set of fields per type, only the chosen
+   * type's fields are read
+   */
+  private transformCostLineFormData(
+    body: Record<string, any>,
+    format: MoneyFormat
+  ) {
+    switch (body.type) {
+      case 'packaging':
+        return {
+          type: body.type,
+          slug: body.ingredientSlug,
+          unit: body.unit,
+          notes: body.notes || undefined,
+        }
+      case 'fixed':
+        return {
+          type: body.type,
+          name: body.name,
+          pence: toMinorUnits(parseFloat(body.amount), format),
+        }
+      default:
+        return {
+          type: body.type,
+          name: body.name,
+          percent: parseFloat(body.amount),
+        }
+    }
+  }
+
+  /**
+   * Nutrition fields are optional as a set, left blank they clear the values
+   */
+  private transformNutritionFormData(body: Record<string, any>) {
+    const values = NUTRIENTS.map((nutrient) => body[`nutrition-${nutrient}`])
+    if (values.every((value) => value === undefined || value === '')) {
+      return undefined
+    }
+
+    return Object.fromEntries(
+      NUTRIENTS.map((nutrient, i) => [nutrient, parseFloat(values[i]) || 0])
+    ) as NutritionValues
+  }
+}
+
+function isSupportedLocale(locale: string) {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0
+  } catch {
+    return false
+  }
 }
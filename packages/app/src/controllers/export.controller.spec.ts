@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals'
+
+import { BuilderContext } from '@harrytwright/api/dist/builders/builder'
+import { API } from '@harrytwright/api/dist/core'
+import { jsonArrayFrom, jsonObjectFrom } from 'kysely/helpers/sqlite'
+import supertest from 'supertest'
+
+import { ConfigService } from '@menubook/core'
+import { createDatabase, migrate } from '@menubook/sqlite'
+import { EventEmitter } from 'events'
+import { cleanup, generateApplet } from '../../jest/testing-suite'
+import SupplierServiceImpl from '../services/supplier.service'
+import { ExportController } from './export.controller'
+
+describe('ExportController', () => {
+  let applet: BuilderContext
+  let request: supertest.Agent
+
+  beforeAll(async () => {
+    try {
+      const { config } = await import('../config')
+      config.load()
+
+      const database = createDatabase()
+      await migrate(database, 'up')
+
+      applet = API.register('database', {
+        db: database,
+        helpers: {
+          jsonArrayFrom,
+          jsonObjectFrom,
+        },
+      })
+        .register('events', new EventEmitter())
+        .register('globalConfig', new ConfigService('./tmp/dir'))
+        .create(generateApplet(ExportController), config)
+
+      await applet.listen()
+
+      await applet.container
+        .get<SupplierServiceImpl>(SupplierServiceImpl)!
+        .create('test-supplier', { name: 'Test Supplier' })
+
+      const server = applet?.server?.raw
+      request = supertest.agent(server!)
+    } catch (err) {
+      await cleanup(applet)
+      return Promise.reject(err)
+    }
+  })
+
+  afterAll(async () => {
+    await applet.container
+      .get<SupplierServiceImpl>(SupplierServiceImpl)
+      ?.delete('test-supplier')
+    await cleanup(applet)
+  })
+
+  describe('/api/export', () => {
+    describe('GET', () => {
+      test('should download the workbook as xlsx', async () => {
+        const response = await request
+          .get('/api/export?format=xlsx')
+          .responseType('blob')
+
+        expect(response.status).toBe(200)
+        expect(response.headers['content-type']).toBe(
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        )
+        expect(response.headers['content-disposition']).toBe(
+          'attachment; filename="margin-export.xlsx"'
+        )
+        // A zip archive
+        expect((response.body as Buffer).readUInt32LE(0)).toBe(0x04034b50)
+      })
+
+      test('should return 400 for other formats', async () => {
+        const response = await request.get('/api/export?format=ods')
+
+        expect(response.status).toBe(400)
+      })
+    })
+  })
+})
@@ -0,0 +1,39 @@
+import { controller, path } from '@harrytwright/api/dist/core'
+import { BadRequest } from '@hndlr/errors'
+import express from 'express'
+
+import ExportServiceImpl from '../services/export.service'
+
+const XLSX_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+@controller('/api/export')
+export class ExportController {
+  constructor(private readonly service: ExportServiceImpl) {}
+
+  @path('/')
+  async getExport(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const { format } = req.query
+      if (format !== 'xlsx') {
+        throw new BadRequest(
+          `Unsupported export format '${format ?? ''}', expected xlsx`
+        )
+      }
+
+      const workbook = await this.service.workbookXLSX()
+      res.setHeader('Content-Type', XLSX_CONTENT_TYPE)
+      res.setHeader(
+        'Content-Disposition',
+        'attachment; filename="margin-export.xlsx"'
+      )
+      return res.send(workbook)
+    } catch (error) {
+      return next(error)
+    }
+  }
+}
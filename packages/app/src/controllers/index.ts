@@ -2,8 +2,11 @@ export * from './analytics.controller'
 export * from './app.controller'
 export * from './dev-tools.controller'
 export * from './events.controller'
+export * from './export.controller'
 export * from './healthcheck.controller'
 export * from './info.controller'
 export * from './ingredients.controller'
 export * from './recipes.controller'
+export * from './sales.controller'
 export * from './suppliers.controller'
+export * from './variance.controller'
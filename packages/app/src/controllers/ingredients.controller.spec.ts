@@ -114,6 +114,92 @@ describe('IngredientsController', () => {
           ?.delete('new-sugar')
       })
 
+      test('should store the declared allergens', async () => {
+        const response = await request.post('/api/ingredients').send({
+          name: 'New Pesto',
+          slug: 'new-pesto',
+          category: 'Sauces',
+          purchase: { cost: 350, unit: '190g', vat: false },
+          allergens: { contains: ['milk', 'nuts'], mayContain: ['peanuts'] },
+        })
+
+        expect(response.status).toBe(201)
+        expect(response.body.allergens).toEqual({
+          contains: ['milk', 'nuts'],
+          mayContain: ['peanuts'],
+        })
+
+        const fetched = await request.get('/api/ingredients/new-pesto')
+        expect(fetched.body.allergens).toEqual(response.body.allergens)
+
+        await applet.container
+          .get<IngredientServiceImpl>(IngredientServiceImpl)
+          ?.delete('new-pesto')
+      })
+
+      test('should store nutrition per 100g', async () => {
+        const nutrition = {
+          energy: 389,
+          fat: 6.9,
+          saturates: 1.2,
+          carbohydrate: 66,
+          sugars: 1,
+          protein: 17,
+          salt: 0,
+        }
+        const response = await request.post('/api/ingredients').send({
+          name: 'New Oats',
+          slug: 'new-oats',
+          category: 'Dry Goods',
+          purchase: { cost: 120, unit: '1kg', vat: false },
+          nutrition,
+        })
+
+        expect(response.status).toBe(201)
+        expect(response.body.nutrition).toEqual(nutrition)
+
+        await applet.container
+          .get<IngredientServiceImpl>(IngredientServiceImpl)
+          ?.delete('new-oats')
+      })
+
+      test('should store the density', async () => {
+        const response = await request.post('/api/ingredients').send({
+          name: 'New Honey',
+          slug: 'new-honey',
+          category: 'Dry Goods',
+          purchase: { cost: 450, unit: '454g', vat: false },
+          density: '1 cup = 340g',
+        })
+
+        expect(response.status).toBe(201)
+        expect(response.body.density).toBe('1 cup = 340g')
+
+        await applet.container
+          .get<IngredientServiceImpl>(IngredientServiceImpl)
+          ?.delete('new-honey')
+      })
+
+      test('should store the yield', async () => {
+        const response = await request.post('/api/ingredients').send({
+          name: 'New Leeks',
+          slug: 'new-leeks',
+          category: 'Vegetables',
+          purchase: { cost: 250, unit: '1kg', vat: false },
+          yieldPercent: 62.5,
+        })
+
+        expect(response.status).toBe(201)
+        expect(response.body.yieldPercent).toBe(62.5)
+
+        const fetched = await request.get('/api/ingredients/new-leeks')
+        expect(fetched.body.yieldPercent).toBe(62.5)
+
+        await applet.container
+          .get<IngredientServiceImpl>(IngredientServiceImpl)
+          ?.delete('new-leeks')
+      })
+
       test('should return 409 on duplicate slug', async () => {
         const response = await request.post('/api/ingredients').send({
           name: 'Test Flour',
@@ -264,6 +350,27 @@ describe('IngredientsController', () => {
     })
   })
 
+  describe('/api/ingredients/:slug/prices', () => {
+    test('should return the price history newest first', async () => {
+      const response = await request.get('/api/ingredients/test-flour/prices')
+
+      expect(response.status).toBe(200)
+      expect(response.body.length).toBeGreaterThan(0)
+      expect(response.body[0]).toMatchObject({
+        purchase: { cost: 150, unit: '1kg', vat: false },
+        source: 'api',
+      })
+      expect(response.body[0].effectiveFrom).toBeDefined()
+    })
+
+    test('should return 404 for missing ingredient', async () => {
+      const response = await request.get('/api/ingredients/non-existent/prices')
+
+      expect(response.status).toBe(404)
+      expect(response.body.error).toBeDefined()
+    })
+  })
+
   describe('/api/ingredients/:slug/recipes', () => {
     test('should return recipes that use the ingredient', async () => {
       const recipes =
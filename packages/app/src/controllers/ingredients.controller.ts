@@ -1,6 +1,12 @@
 import { controller, path } from '@harrytwright/api/dist/core'
 import { NotFound } from '@hndlr/errors'
-import { DBIngredient, DBIngredientWithSupplier, slugify } from '@menubook/core'
+import {
+  DBIngredient,
+  DBIngredientWithSupplier,
+  parseAllergens,
+  parseNutrition,
+  slugify,
+} from '@menubook/core'
 import express from 'express'
 
 import { JSONIngredient } from '../mappers/ingredients.mapper'
@@ -74,6 +80,26 @@ export class IngredientsController {
     return res.status(200).json(recipes)
   }
 
+  @path('/:slug/prices')
+  async getIngredientPrices(req: express.Request, res: express.Response) {
+    const { slug } = req.params
+    const prices = await this.service.priceHistory(slug)
+
+    return res.status(200).json(
+      prices.map((price) => ({
+        purchase: {
+          unit: price.purchaseUnit,
+          cost: price.purchaseCost,
+          vat: Boolean(price.includesVat),
+          currency: price.purchaseCurrency ?? undefined,
+        },
+        effectiveFrom: price.effectiveFrom,
+        source: price.source,
+        createdAt: price.createdAt,
+      }))
+    )
+  }
+
   @path('/:slug')
   async putIngredientBySlug(
     req: express.Request,
@@ -126,8 +152,15 @@ function mapToData(
       unit: data.purchaseUnit,
       cost: data.purchaseCost,
       vat: Boolean(data.includesVat),
+      currency: data.purchaseCurrency ?? undefined,
     },
     conversionRule: data.conversionRule ?? undefined,
+    density: data.density ?? undefined,
+    yieldPercent:
+      data.yieldPercent == null ? undefined : Number(data.yieldPercent),
+    sku: data.sku ?? undefined,
+    allergens: parseAllergens(data.allergens),
+    nutrition: parseNutrition(data.nutrition) ?? undefined,
     lastPurchased: data.lastPurchased ?? undefined,
     supplier: data.supplierSlug
       ? 'supplierName' in data
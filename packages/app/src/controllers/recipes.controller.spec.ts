@@ -198,6 +198,25 @@ describe('RecipesController', () => {
         expect(response.status).toBe(404)
         expect(response.body.error).toBeDefined()
       })
+
+      test.each([
+        '../../etc/passwd',
+        'recipes/photo-recipe.yaml',
+        'data:text/html,<script>alert(1)</script>',
+      ])('should return 400 for the photo %s', async (photo) => {
+        const response = await request.post('/api/recipes').send({
+          name: 'Photo Recipe',
+          slug: 'photo-recipe',
+          stage: 'development',
+          class: 'menu_item',
+          costing: { price: 500 },
+          ingredients: [],
+          method: { photos: [{ path: photo }] },
+        })
+
+        expect(response.status).toBe(400)
+        expect(response.body.error.message).toContain('Photo must be an image')
+      })
     })
   })
 
@@ -268,6 +287,34 @@ describe('RecipesController', () => {
         }
       })
 
+      test('should keep the method when it is left out', async () => {
+        const recipe = {
+          name: 'Focaccia',
+          slug: 'focaccia',
+          class: 'menu_item',
+          costing: { price: 350 },
+          ingredients: [],
+        }
+        const method = {
+          steps: [{ step: 'Prove until doubled', holdMinutes: 60 }],
+          equipment: ['30x40cm tray'],
+          plating: 'Cut into eight',
+        }
+
+        await request.post('/api/recipes').send({ ...recipe, method })
+        const response = await request
+          .put('/api/recipes/focaccia')
+          .send({ ...recipe, costing: { price: 375 } })
+
+        expect(response.status).toBe(200)
+        expect(response.body).toMatchObject({
+          sellPrice: 375,
+          platingNotes: 'Cut into eight',
+          methodSteps: method.steps,
+          equipment: method.equipment,
+        })
+      })
+
       test('should return 400 on slug mismatch', async () => {
         const response = await request.put('/api/recipes/test-bread').send({
           name: 'Test',
@@ -339,6 +386,158 @@ describe('RecipesController', () => {
         })
         // The response should contain cost/margin calculation fields
         expect(response.body).toHaveProperty('cost')
+        expect(response.body.issues).toEqual([])
+      })
+
+      test('should list lines that could not be costed', async () => {
+        const recipeService =
+          applet.container.get<RecipeServiceImpl>(RecipeServiceImpl)!
+        const scone = {
+          slug: 'test-scone',
+          name: 'Test Scone',
+          stage: 'development' as const,
+          class: 'menu_item' as const,
+          costing: { price: 300 },
+          ingredients: [
+            {
+              slug: 'test-flour',
+              type: 'ingredient' as const,
+              with: { unit: '1 cup' },
+            },
+          ],
+        }
+        const id = await recipeService.upsert(scone.slug, scone)
+        await recipeService.upsertIngredients(id!, scone)
+
+        const response = await request.get('/api/recipes/test-scone/calculate')
+
+        expect(response.status).toBe(200)
+        expect(response.body.issues).toEqual([
+          expect.objectContaining({
+            recipe: 'test-scone',
+            line: 1,
+            slug: 'test-flour',
+            reason: 'unconvertible_unit',
+            units: { from: '1 cup', to: '1kg' },
+          }),
+        ])
+
+        await recipeService.delete('test-scone')
+      })
+
+      test('should report other costs apart from the food cost', async () => {
+        const created = await request.post('/api/recipes').send({
+          name: 'Test Wrap',
+          slug: 'test-wrap',
+          stage: 'development',
+          class: 'menu_item',
+          costing: { price: 1000, margin: 25, vat: false },
+          ingredients: [{ slug: 'test-flour', unit: '200g' }],
+          costs: [
+            { type: 'fixed', name: 'Napkin', pence: 10 },
+            { type: 'percent', name: 'Platform fee', percent: 10 },
+          ],
+        })
+        expect(created.status).toBe(201)
+
+        const response = await request.get('/api/recipes/test-wrap/calculate')
+
+        expect(response.status).toBe(200)
+        expect(response.body.nonFoodCost).toBe(110)
+        expect(response.body.contribution).toBe(
+          1000 - response.body.foodCost - 110
+        )
+        expect(response.body.costLines).toEqual([
+          expect.objectContaining({ name: 'Napkin', cost: 10 }),
+          expect.objectContaining({ name: 'Platform fee', cost: 100 }),
+        ])
+
+        await applet.container
+          .get<RecipeServiceImpl>(RecipeServiceImpl)
+          ?.delete('test-wrap')
+      })
+
+      test('should work out a margin for each price band', async () => {
+        const created = await request.post('/api/recipes').send({
+          name: 'Test Bap',
+          slug: 'test-bap',
+          stage: 'development',
+          class: 'menu_item',
+          costing: {
+            price: 1200,
+            margin: 25,
+            vat: true,
+            bands: [{ name: 'delivery', price: 1500, commission: 20 }],
+          },
+          ingredients: [{ slug: 'test-flour', unit: '10g' }],
+        })
+        expect(created.status).toBe(201)
+
+        // Updates that leave the bands out keep them
+        await request.put('/api/recipes/test-bap').send({
+          name: 'Test Bap',
+          stage: 'active',
+          class: 'menu_item',
+          costing: { price: 1200, margin: 25, vat: true },
+          ingredients: [{ slug: 'test-flour', unit: '10g' }],
+        })
+
+        const response = await request.get('/api/recipes/test-bap/calculate')
+
+        expect(response.status).toBe(200)
+        expect(response.body.bands).toEqual([
+          expect.objectContaining({
+            band: 'delivery',
+            customerPrice: 1500,
+            sellPrice: 1250,
+            commission: 300,
+          }),
+        ])
+
+        await applet.container
+          .get<RecipeServiceImpl>(RecipeServiceImpl)
+          ?.delete('test-bap')
+      })
+
+      test('should suggest a price that meets the target margin', async () => {
+        const response = await request.get('/api/recipes/test-bread/calculate')
+
+        expect(response.status).toBe(200)
+        expect(response.body.pricing).toMatchObject({
+          targetMargin: response.body.targetMargin,
+          minimum: {
+            exVat: expect.any(Number),
+            incVat: expect.any(Number),
+          },
+        })
+        expect(response.body.pricing.sellPrice).toBeGreaterThanOrEqual(
+          response.body.pricing.minimum.incVat
+        )
+      })
+
+      test('should report ingredients without a price before any history', async () => {
+        const historic = await request.get(
+          '/api/recipes/test-bread/calculate?asOf=2000-01-01'
+        )
+
+        expect(historic.status).toBe(200)
+        expect(historic.body.cost).toBe(0)
+        expect(historic.body.issues).toEqual([
+          expect.objectContaining({
+            slug: 'test-flour',
+            reason: 'unknown_price',
+            dates: { asOf: '2000-01-01', firstPrice: expect.any(String) },
+          }),
+        ])
+      })
+
+      test('should return 400 for an invalid asOf date', async () => {
+        const response = await request.get(
+          '/api/recipes/test-bread/calculate?asOf=not-a-date'
+        )
+
+        expect(response.status).toBe(400)
+        expect(response.body.error).toBeDefined()
       })
 
       test('should return 404 for non-existent recipe', async () => {
@@ -352,6 +551,214 @@ describe('RecipesController', () => {
     })
   })
 
+  describe('/api/recipes/:slug/revisions', () => {
+    test('should list revisions newest first', async () => {
+      const response = await request.get('/api/recipes/test-bread/revisions')
+
+      expect(response.status).toBe(200)
+      expect(response.body.length).toBeGreaterThan(0)
+      expect(response.body[0]).toMatchObject({
+        data: { name: 'Test Bread' },
+        ingredients: [expect.objectContaining({ slug: 'test-flour' })],
+      })
+    })
+
+    test('should record revisions made through the API', async () => {
+      const response = await request.get('/api/recipes/test-bread/revisions')
+
+      expect(response.body[0].source).toBe('api')
+      // Unauthenticated, so there is no one to record
+      expect(response.body[0].author).toBeNull()
+    })
+
+    test('should diff and roll back revisions', async () => {
+      await request.put('/api/recipes/test-bread/ingredients/test-flour').send({
+        unit: '600g',
+      })
+
+      const revisions = await request.get('/api/recipes/test-bread/revisions')
+      const [latest, previous] = revisions.body
+
+      const diff = await request.get(
+        `/api/recipes/test-bread/revisions/diff?from=${previous.revision}&to=${latest.revision}`
+      )
+
+      expect(diff.status).toBe(200)
+      expect(diff.body.ingredients.changed).toEqual([
+        expect.objectContaining({ slug: 'test-flour' }),
+      ])
+
+      const rollback = await request.post(
+        `/api/recipes/test-bread/revisions/${previous.revision}/rollback`
+      )
+
+      expect(rollback.status).toBe(200)
+      expect(rollback.body.revision).toBe(latest.revision + 1)
+      expect(rollback.body.ingredients).toEqual([
+        expect.objectContaining({ slug: 'test-flour', unit: '500g' }),
+      ])
+    })
+
+    test('should return 400 for an invalid revision', async () => {
+      const response = await request.get(
+        '/api/recipes/test-bread/revisions/diff?from=abc&to=1'
+      )
+
+      expect(response.status).toBe(400)
+    })
+
+    test('should return 404 for a missing revision', async () => {
+      const response = await request.get(
+        '/api/recipes/test-bread/revisions/999'
+      )
+
+      expect(response.status).toBe(404)
+    })
+
+    test('should return 404 for a missing recipe', async () => {
+      const response = await request.get('/api/recipes/non-existent/revisions')
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('/api/recipes/:slug/effective', () => {
+    test('should show where each line comes from', async () => {
+      const created = await request.post('/api/recipes').send({
+        name: 'Test Wholemeal',
+        slug: 'test-wholemeal',
+        extends: 'test-bread',
+        override: [{ slug: 'test-flour', unit: '300g' }],
+      })
+      expect(created.status).toBe(201)
+
+      const response = await request.get(
+        '/api/recipes/test-wholemeal/effective'
+      )
+
+      expect(response.status).toBe(200)
+      expect(response.body.lineage).toEqual(['test-bread', 'test-wholemeal'])
+      expect(response.body.ingredients).toEqual([
+        expect.objectContaining({
+          slug: 'test-flour',
+          unit: '300g',
+          source: 'test-wholemeal',
+          overrides: 'test-bread',
+        }),
+      ])
+
+      await request.delete('/api/recipes/test-wholemeal')
+    })
+
+    test('should remove inherited lines rather than copy the rest', async () => {
+      await request.post('/api/recipes').send({
+        name: 'Test Flatbread',
+        slug: 'test-flatbread',
+        extends: 'test-bread',
+      })
+
+      await request.delete('/api/recipes/test-flatbread/ingredients/test-flour')
+      const response = await request.get(
+        '/api/recipes/test-flatbread/effective'
+      )
+
+      expect(response.body.ingredients).toEqual([])
+      expect(response.body.removed).toEqual([
+        expect.objectContaining({
+          slug: 'test-flour',
+          source: 'test-bread',
+          removedBy: 'test-flatbread',
+        }),
+      ])
+
+      await request.delete('/api/recipes/test-flatbread')
+    })
+
+    test('should return 404 for a missing recipe', async () => {
+      const response = await request.get('/api/recipes/non-existent/effective')
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('/api/recipes/:slug/scale', () => {
+    test('should scale the recipe to a number of portions', async () => {
+      const response = await request.get(
+        '/api/recipes/test-bread/scale?portions=40'
+      )
+
+      expect(response.status).toBe(200)
+      expect(response.body).toMatchObject({
+        recipe: { slug: 'test-bread', name: 'Test Bread' },
+        factor: 40,
+        portions: 40,
+      })
+      expect(response.body.lines).toEqual([
+        expect.objectContaining({ slug: 'test-flour', amount: 20, unit: 'kg' }),
+      ])
+    })
+
+    test('should return 400 without portions or a yield', async () => {
+      const response = await request.get('/api/recipes/test-bread/scale')
+
+      expect(response.status).toBe(400)
+    })
+
+    test('should return 404 for a missing recipe', async () => {
+      const response = await request.get(
+        '/api/recipes/non-existent/scale?portions=10'
+      )
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('/api/recipes/:slug/allergens', () => {
+    test('should roll up the allergens of the ingredients', async () => {
+      await applet.container
+        .get<IngredientServiceImpl>(IngredientServiceImpl)!
+        .upsert(
+          'test-flour',
+          {
+            slug: 'test-flour',
+            name: 'Test Flour',
+            category: 'Dry Goods',
+            purchase: { cost: 150, unit: '1kg', vat: false },
+            allergens: { contains: ['gluten'], mayContain: ['sesame'] },
+          },
+          'test-supplier'
+        )
+
+      const response = await request.get('/api/recipes/test-bread/allergens')
+
+      expect(response.status).toBe(200)
+      expect(response.body).toMatchObject({
+        recipe: { slug: 'test-bread', name: 'Test Bread' },
+        contains: ['gluten'],
+        mayContain: ['sesame'],
+      })
+      expect(response.body.matrix[0]).toEqual({
+        allergen: 'gluten',
+        label: 'Cereals containing gluten',
+        level: 'contains',
+        sources: [
+          {
+            slug: 'test-flour',
+            name: 'Test Flour',
+            level: 'contains',
+            via: [],
+          },
+        ],
+      })
+    })
+
+    test('should return 404 for a missing recipe', async () => {
+      const response = await request.get('/api/recipes/non-existent/allergens')
+
+      expect(response.status).toBe(404)
+    })
+  })
+
   describe('/api/recipes/:slug/ingredients/:ingredientSlug', () => {
     describe('PUT', () => {
       test('should add an ingredient to a recipe', async () => {
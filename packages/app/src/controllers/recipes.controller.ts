@@ -1,8 +1,10 @@
 import { controller, path } from '@harrytwright/api/dist/core'
-import { NotFound } from '@hndlr/errors'
+import { BadRequest, NotFound } from '@hndlr/errors'
+import type { ScaleTarget } from '@menubook/core'
 import { slugify } from '@menubook/core'
 import express from 'express'
 
+import { Auth } from '../modules/auth/classes/auth'
 import { RecipeApiData, recipeApiSchema } from '../schemas'
 import CalculatorImpl from '../services/calculator.service'
 import RecipeServiceImpl from '../services/recipe.service'
@@ -31,7 +33,12 @@ export class RecipesController {
       const parsed = recipeApiSchema.parse(req.body)
       const slug = parsed.slug || (await slugify(parsed.name))
 
-      const result = await this.service.create(slug, parsed)
+      const result = await this.service.create(
+        slug,
+        parsed,
+        'api',
+        Auth.subjectOf(req)
+      )
 
       return res.status(201).json(result)
     } catch (error) {
@@ -51,6 +58,13 @@ export class RecipesController {
     return res.status(200).json(data)
   }
 
+  @path('/:slug/effective')
+  async getRecipeEffective(req: express.Request, res: express.Response) {
+    const { slug } = req.params
+    const data = await this.service.effective(slug)
+    return res.status(200).json(data)
+  }
+
   @path('/:slug/calculate')
   async getRecipeCalculation(req: express.Request, res: express.Response) {
     const { slug } = req.params
@@ -59,15 +73,106 @@ export class RecipesController {
       throw new NotFound(`Recipe with slug '${slug}' not found`)
     }
 
-    const costResult = await this.calculator.cost(slug)
+    // Optional `?asOf=` costs the recipe at historic ingredient prices
+    let asOf: Date | undefined
+    if (typeof req.query.asOf === 'string') {
+      asOf = new Date(req.query.asOf)
+      if (isNaN(asOf.getTime())) {
+        throw new BadRequest(`Invalid asOf date '${req.query.asOf}'`)
+      }
+    }
+
+    const costResult = await this.calculator.cost(slug, 0, undefined, asOf)
     const marginResult = await this.calculator.margin(costResult)
+    const pricing = await this.calculator.suggestPrice(costResult)
 
     return res.status(200).json({
       recipe: slug,
       ...marginResult,
+      pricing,
+      issues: costResult.issues,
+      costLines: costResult.costLines,
     })
   }
 
+  @path('/:slug/scale')
+  async getRecipeScale(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    const { slug } = req.params
+
+    if (!(await this.service.exists(slug))) {
+      throw new NotFound(`Recipe with slug '${slug}' not found`)
+    }
+
+    try {
+      const target = parseScaleTarget(req.query)
+      return res.status(200).json(await this.calculator.scale(slug, target))
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  @path('/:slug/allergens')
+  async getRecipeAllergens(req: express.Request, res: express.Response) {
+    const { slug } = req.params
+
+    if (!(await this.service.exists(slug))) {
+      throw new NotFound(`Recipe with slug '${slug}' not found`)
+    }
+
+    return res.status(200).json(await this.calculator.allergens(slug))
+  }
+
+  @path('/:slug/revisions')
+  async getRecipeRevisions(req: express.Request, res: express.Response) {
+    const { slug } = req.params
+    const revisions = await this.service.revisions(slug)
+    return res.status(200).json(revisions)
+  }
+
+  @path('/:slug/revisions/diff')
+  async getRecipeRevisionDiff(req: express.Request, res: express.Response) {
+    const { slug } = req.params
+    const from = parseRevision(req.query.from)
+    const to = parseRevision(req.query.to)
+
+    const diff = await this.service.diffRevisions(slug, from, to)
+    return res.status(200).json(diff)
+  }
+
+  @path('/:slug/revisions/:revision')
+  async getRecipeRevision(req: express.Request, res: express.Response) {
+    const { slug, revision } = req.params
+    const result = await this.service.findRevision(
+      slug,
+      parseRevision(revision)
+    )
+    return res.status(200).json(result)
+  }
+
+  @path('/:slug/revisions/:revision/rollback')
+  async postRecipeRevisionRollback(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const { slug, revision } = req.params
+      const result = await this.service.rollback(
+        slug,
+        parseRevision(revision),
+        'api',
+        Auth.subjectOf(req)
+      )
+      return res.status(200).json(result)
+    } catch (error) {
+      return next(error)
+    }
+  }
+
   @path('/:slug')
   async putRecipeBySlug(
     req: express.Request,
@@ -78,7 +183,12 @@ export class RecipesController {
       const { slug } = req.params
       const parsed = recipeApiSchema.parse(req.body)
 
-      const result = await this.service.update(slug, parsed)
+      const result = await this.service.update(
+        slug,
+        parsed,
+        'api',
+        Auth.subjectOf(req)
+      )
 
       return res.status(200).json(result)
     } catch (error) {
@@ -119,10 +229,13 @@ export class RecipesController {
         })
       }
 
-      const result = await this.service.addIngredient(slug, ingredientSlug, {
-        quantity,
-        unit,
-      })
+      const result = await this.service.addIngredient(
+        slug,
+        ingredientSlug,
+        { quantity, unit },
+        'api',
+        Auth.subjectOf(req)
+      )
 
       return res.status(200).json(result)
     } catch (error) {
@@ -139,7 +252,12 @@ export class RecipesController {
     try {
       const { slug, ingredientSlug } = req.params
 
-      const result = await this.service.removeIngredient(slug, ingredientSlug)
+      const result = await this.service.removeIngredient(
+        slug,
+        ingredientSlug,
+        'api',
+        Auth.subjectOf(req)
+      )
 
       return res.status(200).json(result)
     } catch (error) {
@@ -147,3 +265,33 @@ export class RecipesController {
     }
   }
 }
+
+function parseRevision(value: unknown): number {
+  const revision = Number(value)
+  if (!Number.isInteger(revision) || revision < 1) {
+    throw new BadRequest(`Invalid revision '${value}'`)
+  }
+  return revision
+}
+
+/**
+ * Read `?portions=40` or `?yield=5l` for scaling a recipe. A bare number as
+ * the yield, as typed into the batch sheet form, is read as portions.
+ */
+export function parseScaleTarget(query: Record<string, unknown>): ScaleTarget {
+  const { portions, yield: target } = query
+
+  if (typeof portions === 'string' && portions) {
+    const count = Number(portions)
+    if (!(count > 0)) throw new BadRequest(`Invalid portions '${portions}'`)
+    return { portions: count }
+  }
+
+  if (typeof target === 'string' && target.trim()) {
+    return /^\d+(\.\d+)?$/.test(target.trim())
+      ? { portions: Number(target) }
+      : { yield: target.trim() }
+  }
+
+  throw new BadRequest('Scale to a number of `portions` or a `yield`')
+}
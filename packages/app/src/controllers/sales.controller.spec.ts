@@ -0,0 +1,189 @@
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals'
+
+import { BuilderContext } from '@harrytwright/api/dist/builders/builder'
+import { API } from '@harrytwright/api/dist/core'
+import { jsonArrayFrom, jsonObjectFrom } from 'kysely/helpers/sqlite'
+import supertest from 'supertest'
+
+import { ConfigService } from '@menubook/core'
+import { createDatabase, migrate } from '@menubook/sqlite'
+import { EventEmitter } from 'events'
+import { cleanup, generateApplet } from '../../jest/testing-suite'
+import IngredientServiceImpl from '../services/ingredient.service'
+import RecipeServiceImpl from '../services/recipe.service'
+import SupplierServiceImpl from '../services/supplier.service'
+import { SalesController } from './sales.controller'
+
+describe('SalesController', () => {
+  let applet: BuilderContext
+  let request: supertest.Agent
+
+  beforeAll(async () => {
+    try {
+      const { config } = await import('../config')
+      config.load()
+
+      const database = createDatabase()
+      await migrate(database, 'up')
+
+      applet = API.register('database', {
+        db: database,
+        helpers: {
+          jsonArrayFrom,
+          jsonObjectFrom,
+        },
+      })
+        .register('events', new EventEmitter())
+        .register('globalConfig', new ConfigService('./tmp/dir'))
+        .create(generateApplet(SalesController), config)
+
+      await applet.listen()
+
+      await applet.container
+        .get<SupplierServiceImpl>(SupplierServiceImpl)!
+        .create('test-supplier', { name: 'Test Supplier' })
+
+      await applet.container
+        .get<IngredientServiceImpl>(IngredientServiceImpl)!
+        .upsert(
+          'test-flour',
+          {
+            slug: 'test-flour',
+            name: 'Test Flour',
+            category: 'Dry Goods',
+            purchase: { cost: 150, unit: '1kg', vat: false },
+          },
+          'test-supplier'
+        )
+
+      const recipe = {
+        slug: 'test-bread',
+        name: 'Test Bread',
+        stage: 'active' as const,
+        class: 'menu_item' as const,
+        costing: { price: 500, margin: 30, vat: true },
+        ingredients: [
+          {
+            slug: 'test-flour',
+            type: 'ingredient' as const,
+            with: { unit: '500g' },
+          },
+        ],
+      }
+
+      const recipeService =
+        applet.container.get<RecipeServiceImpl>(RecipeServiceImpl)!
+      const recipeId = await recipeService.upsert('test-bread', recipe)
+      if (recipeId) {
+        await recipeService.upsertIngredients(recipeId, recipe)
+      }
+
+      const server = applet?.server?.raw
+      request = supertest.agent(server!)
+    } catch (err) {
+      await cleanup(applet)
+      return Promise.reject(err)
+    }
+  })
+
+  afterAll(async () => {
+    await applet.container
+      .get<RecipeServiceImpl>(RecipeServiceImpl)
+      ?.delete('test-bread')
+    await applet.container
+      .get<IngredientServiceImpl>(IngredientServiceImpl)
+      ?.delete('test-flour')
+    await applet.container
+      .get<SupplierServiceImpl>(SupplierServiceImpl)
+      ?.delete('test-supplier')
+    await cleanup(applet)
+  })
+
+  describe('/api/sales', () => {
+    let id: number
+
+    describe('POST', () => {
+      test('should record sales for a recipe', async () => {
+        const response = await request.post('/api/sales').send({
+          recipe: 'test-bread',
+          quantity: '24',
+          periodStart: '2026-03-02',
+          periodEnd: '2026-03-08',
+        })
+
+        expect(response.status).toBe(201)
+        expect(response.body).toMatchObject({
+          quantity: 24,
+          periodStart: '2026-03-02',
+          periodEnd: '2026-03-08',
+          source: 'api',
+        })
+        id = response.body.id
+      })
+
+      test('should return 404 for an unknown recipe', async () => {
+        const response = await request.post('/api/sales').send({
+          recipe: 'missing',
+          quantity: 1,
+          periodStart: '2026-03-02',
+          periodEnd: '2026-03-08',
+        })
+
+        expect(response.status).toBe(404)
+        expect(response.body.error).toBeDefined()
+      })
+
+      test('should return 400 for a negative quantity', async () => {
+        const response = await request.post('/api/sales').send({
+          recipe: 'test-bread',
+          quantity: -1,
+          periodStart: '2026-03-02',
+          periodEnd: '2026-03-08',
+        })
+
+        expect(response.status).toBe(400)
+        expect(response.body.error.message).toContain("Invalid quantity '-1'")
+      })
+    })
+
+    describe('GET', () => {
+      test('should list sales within the period', async () => {
+        const response = await request.get('/api/sales?from=2026-03-01')
+
+        expect(response.status).toBe(200)
+        expect(response.body).toEqual([
+          expect.objectContaining({ slug: 'test-bread', quantity: 24 }),
+        ])
+
+        const empty = await request.get('/api/sales?from=2026-04-01')
+        expect(empty.body).toHaveLength(0)
+      })
+    })
+
+    describe('GET /engineering', () => {
+      test('should classify menu items', async () => {
+        const response = await request.get('/api/sales/engineering')
+
+        expect(response.status).toBe(200)
+        expect(response.body.totalSold).toBe(24)
+        expect(response.body.items).toEqual([
+          expect.objectContaining({
+            slug: 'test-bread',
+            sold: 24,
+            classification: 'star',
+          }),
+        ])
+      })
+    })
+
+    describe('DELETE /:id', () => {
+      test('should delete a sales entry', async () => {
+        const response = await request.delete(`/api/sales/${id}`)
+        expect(response.status).toBe(204)
+
+        const missing = await request.delete(`/api/sales/${id}`)
+        expect(missing.status).toBe(404)
+      })
+    })
+  })
+})
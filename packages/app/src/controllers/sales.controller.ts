@@ -0,0 +1,69 @@
+import { controller, path } from '@harrytwright/api/dist/core'
+import { BadRequest } from '@hndlr/errors'
+import type { SalesPeriod } from '@menubook/core'
+import express from 'express'
+
+import { SaleApiData, saleApiSchema } from '../schemas'
+import SalesServiceImpl from '../services/sales.service'
+import type { ServerRequest } from '../types/response.json.type'
+
+@controller('/api/sales')
+export class SalesController {
+  constructor(private readonly service: SalesServiceImpl) {}
+
+  @path('/')
+  async getSales(req: express.Request, res: express.Response) {
+    const data = await this.service.find(parsePeriod(req.query))
+    return res.status(200).json(data)
+  }
+
+  @path('/')
+  async postSale(
+    req: ServerRequest<never, unknown, SaleApiData>,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const parsed = saleApiSchema.parse(req.body)
+      const result = await this.service.record(parsed, 'api')
+      return res.status(201).json(result)
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  @path('/engineering')
+  async getEngineering(req: express.Request, res: express.Response) {
+    const data = await this.service.engineering(parsePeriod(req.query))
+    return res.status(200).json(data)
+  }
+
+  @path('/:id')
+  async deleteSale(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const id = Number(req.params.id)
+      if (!Number.isInteger(id)) {
+        throw new BadRequest(`Invalid sales entry '${req.params.id}'`)
+      }
+
+      await this.service.delete(id)
+      return res.status(204).end()
+    } catch (error) {
+      return next(error)
+    }
+  }
+}
+
+/**
+ * Read an optional `?from=&to=` date range from the query string
+ */
+export function parsePeriod(query: express.Request['query']): SalesPeriod {
+  const period: SalesPeriod = {}
+  if (typeof query.from === 'string' && query.from) period.from = query.from
+  if (typeof query.to === 'string' && query.to) period.to = query.to
+  return period
+}
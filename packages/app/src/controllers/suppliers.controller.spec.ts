@@ -9,6 +9,7 @@ import { ConfigService } from '@menubook/core'
 import { createDatabase, migrate } from '@menubook/sqlite'
 import { EventEmitter } from 'events'
 import { cleanup, generateApplet } from '../../jest/testing-suite'
+import IngredientServiceImpl from '../services/ingredient.service'
 import SupplierServiceImpl from '../services/supplier.service'
 import { SuppliersController } from './suppliers.controller'
 
@@ -178,4 +179,94 @@ describe('SuppliersController', () => {
       })
     })
   })
+
+  describe('/api/suppliers/:slug/prices', () => {
+    const csv = [
+      'Product Code,Description,Pack Size,Net Price',
+      ',Demo Flour,16kg,12.50',
+      'X-1,Unknown,1kg,1.00',
+    ].join('\n')
+
+    beforeAll(async () => {
+      await applet.container
+        .get<IngredientServiceImpl>(IngredientServiceImpl)!
+        .upsert(
+          'demo-flour',
+          {
+            slug: 'demo-flour',
+            name: 'Demo Flour',
+            category: 'Dry Goods',
+            purchase: { cost: 1000, unit: '16kg', vat: false },
+          },
+          'demo-001'
+        )
+    })
+
+    afterAll(async () => {
+      await applet.container
+        .get<IngredientServiceImpl>(IngredientServiceImpl)
+        ?.delete('demo-flour')
+    })
+
+    describe('POST /preview', () => {
+      test('should preview the price changes', async () => {
+        const response = await request
+          .post('/api/suppliers/demo-001/prices/preview')
+          .send({ csv })
+
+        expect(response.status).toBe(200)
+        expect(response.body).toMatchObject({
+          supplier: 'demo-001',
+          changes: [
+            {
+              slug: 'demo-flour',
+              matchedBy: 'name',
+              before: { unit: '16kg', cost: 1000 },
+              after: { unit: '16kg', cost: 1250 },
+              percent: 25,
+            },
+          ],
+          unmatched: [{ line: 3, sku: 'X-1' }],
+        })
+
+        const flour = await applet.container
+          .get<IngredientServiceImpl>(IngredientServiceImpl)!
+          .findById('demo-flour')
+        expect(flour.purchaseCost).toBe(1000)
+      })
+
+      test('should return 400 for a malformed price list', async () => {
+        const response = await request
+          .post('/api/suppliers/demo-001/prices/preview')
+          .send({ csv: 'name,size\nFlour,1kg' })
+
+        expect(response.status).toBe(400)
+        expect(response.body.error.message).toContain('missing the price')
+      })
+
+      test('should return 404 for non-existent supplier', async () => {
+        const response = await request
+          .post('/api/suppliers/non-existent/prices/preview')
+          .send({ csv })
+
+        expect(response.status).toBe(404)
+      })
+    })
+
+    describe('POST', () => {
+      test('should save the new prices', async () => {
+        const response = await request
+          .post('/api/suppliers/demo-001/prices')
+          .send({ csv })
+
+        expect(response.status).toBe(200)
+        expect(response.body.changes).toHaveLength(1)
+
+        const flour = await applet.container
+          .get<IngredientServiceImpl>(IngredientServiceImpl)!
+          .findById('demo-flour')
+        expect(flour.purchaseCost).toBe(1250)
+      })
+    })
+  })
 })
@@ -5,7 +5,12 @@ import express from 'express'
 
 import { Insertable, Updateable } from 'kysely'
 import { SupplierMapper } from '../mappers/supplier.mapper'
-import { SupplierApiData } from '../schemas'
+import {
+  PriceListApiData,
+  priceListApiSchema,
+  SupplierApiData,
+} from '../schemas'
+import PriceListServiceImpl from '../services/price-list.service'
 import SupplierServiceImpl from '../services/supplier.service'
 import type { ServerRequest } from '../types/response.json.type'
 
@@ -13,7 +18,8 @@ import type { ServerRequest } from '../types/response.json.type'
 export class SuppliersController {
   constructor(
     private readonly service: SupplierServiceImpl,
-    private readonly mapper: SupplierMapper
+    private readonly mapper: SupplierMapper,
+    private readonly priceList: PriceListServiceImpl
   ) {}
 
   @path('/')
@@ -90,4 +96,36 @@ export class SuppliersController {
       return next(error)
     }
   }
+
+  @path('/:slug/prices/preview')
+  async postSupplierPricesPreview(
+    req: ServerRequest<{ slug: string }, unknown, PriceListApiData>,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const { csv } = priceListApiSchema.parse(req.body)
+      const preview = await this.priceList.preview(req.params.slug, csv)
+
+      return res.status(200).json(preview)
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  @path('/:slug/prices')
+  async postSupplierPrices(
+    req: ServerRequest<{ slug: string }, unknown, PriceListApiData>,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const { csv } = priceListApiSchema.parse(req.body)
+      const result = await this.priceList.apply(req.params.slug, csv, 'api')
+
+      return res.status(200).json(result)
+    } catch (error) {
+      return next(error)
+    }
+  }
 }
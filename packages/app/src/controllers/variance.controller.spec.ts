@@ -0,0 +1,205 @@
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals'
+
+import { BuilderContext } from '@harrytwright/api/dist/builders/builder'
+import { API } from '@harrytwright/api/dist/core'
+import { jsonArrayFrom, jsonObjectFrom } from 'kysely/helpers/sqlite'
+import supertest from 'supertest'
+
+import { ConfigService, SalesService } from '@menubook/core'
+import { createDatabase, migrate } from '@menubook/sqlite'
+import { EventEmitter } from 'events'
+import { cleanup, generateApplet } from '../../jest/testing-suite'
+import IngredientServiceImpl from '../services/ingredient.service'
+import RecipeServiceImpl from '../services/recipe.service'
+import SupplierServiceImpl from '../services/supplier.service'
+import { VarianceController } from './variance.controller'
+
+describe('VarianceController', () => {
+  let applet: BuilderContext
+  let request: supertest.Agent
+
+  beforeAll(async () => {
+    try {
+      const { config } = await import('../config')
+      config.load()
+
+      const database = createDatabase()
+      await migrate(database, 'up')
+
+      const context = {
+        db: database,
+        helpers: {
+          jsonArrayFrom,
+          jsonObjectFrom,
+        },
+      }
+
+      applet = API.register('database', context)
+        .register('events', new EventEmitter())
+        .register('globalConfig', new ConfigService('./tmp/dir'))
+        .create(generateApplet(VarianceController), config)
+
+      await applet.listen()
+
+      await applet.container
+        .get<SupplierServiceImpl>(SupplierServiceImpl)!
+        .create('test-supplier', { name: 'Test Supplier' })
+
+      await applet.container
+        .get<IngredientServiceImpl>(IngredientServiceImpl)!
+        .upsert(
+          'test-flour',
+          {
+            slug: 'test-flour',
+            name: 'Test Flour',
+            category: 'Dry Goods',
+            purchase: {
+              cost: 15000,
+              unit: '1kg',
+              vat: false,
+              effectiveFrom: '2026-01-01T00:00:00.000Z',
+            },
+          },
+          'test-supplier'
+        )
+
+      const recipe = {
+        slug: 'test-bread',
+        name: 'Test Bread',
+        stage: 'active' as const,
+        class: 'menu_item' as const,
+        costing: { price: 500, margin: 30, vat: true },
+        ingredients: [
+          {
+            slug: 'test-flour',
+            type: 'ingredient' as const,
+            with: { unit: '500g' },
+          },
+        ],
+      }
+
+      const recipeService =
+        applet.container.get<RecipeServiceImpl>(RecipeServiceImpl)!
+      const recipeId = await recipeService.upsert('test-bread', recipe)
+      if (recipeId) {
+        await recipeService.upsertIngredients(recipeId, recipe)
+      }
+
+      await new SalesService(context).record('test-bread', {
+        quantity: 10,
+        periodStart: '2026-03-02',
+        periodEnd: '2026-03-08',
+      })
+
+      const server = applet?.server?.raw
+      request = supertest.agent(server!)
+    } catch (err) {
+      await cleanup(applet)
+      return Promise.reject(err)
+    }
+  })
+
+  afterAll(async () => {
+    await applet.container
+      .get<RecipeServiceImpl>(RecipeServiceImpl)
+      ?.delete('test-bread')
+    await applet.container
+      .get<IngredientServiceImpl>(IngredientServiceImpl)
+      ?.delete('test-flour')
+    await applet.container
+      .get<SupplierServiceImpl>(SupplierServiceImpl)
+      ?.delete('test-supplier')
+    await cleanup(applet)
+  })
+
+  describe('/api/variance', () => {
+    describe('POST /spend', () => {
+      test('should record the spend on an ingredient', async () => {
+        const response = await request.post('/api/variance/spend').send({
+          ingredient: 'test-flour',
+          periodStart: '2026-03-02',
+          periodEnd: '2026-03-08',
+          purchases: '85000',
+          openingStock: 5000,
+          closingStock: 7500,
+        })
+
+        expect(response.status).toBe(201)
+        expect(response.body).toMatchObject({
+          periodStart: '2026-03-02',
+          periodEnd: '2026-03-08',
+          purchases: 85000,
+          openingStock: 5000,
+          closingStock: 7500,
+        })
+      })
+
+      test('should return 404 for an unknown ingredient', async () => {
+        const response = await request.post('/api/variance/spend').send({
+          ingredient: 'missing',
+          periodStart: '2026-03-02',
+          periodEnd: '2026-03-08',
+          purchases: 100,
+        })
+
+        expect(response.status).toBe(404)
+      })
+
+      test('should return 400 for part pence', async () => {
+        const response = await request.post('/api/variance/spend').send({
+          ingredient: 'test-flour',
+          periodStart: '2026-03-02',
+          periodEnd: '2026-03-08',
+          purchases: 10.5,
+        })
+
+        expect(response.status).toBe(400)
+        expect(response.body.error.message).toContain(
+          "Invalid purchases '10.5'"
+        )
+      })
+    })
+
+    describe('GET /spend', () => {
+      test('should list the spend entered for the period', async () => {
+        const response = await request.get(
+          '/api/variance/spend?from=2026-03-01&to=2026-03-31'
+        )
+
+        expect(response.status).toBe(200)
+        expect(response.body).toEqual([
+          expect.objectContaining({ slug: 'test-flour', purchases: 85000 }),
+        ])
+      })
+    })
+
+    describe('GET', () => {
+      test('should compare theoretical and actual food cost', async () => {
+        const response = await request.get(
+          '/api/variance?from=2026-03-01&to=2026-03-31'
+        )
+
+        expect(response.status).toBe(200)
+        // 10 loaves at 500g of £150/kg flour, against 85000 + 5000 - 7500
+        expect(response.body).toMatchObject({
+          theoretical: 75000,
+          actual: 82500,
+          variance: 7500,
+          variancePercent: 10,
+        })
+        expect(response.body.ingredients).toEqual([
+          expect.objectContaining({ slug: 'test-flour', recorded: true }),
+        ])
+        expect(response.body.categories).toEqual([
+          expect.objectContaining({ category: 'Dry Goods', variance: 7500 }),
+        ])
+      })
+
+      test('should return 400 without a period end', async () => {
+        const response = await request.get('/api/variance?from=2026-03-01')
+
+        expect(response.status).toBe(400)
+      })
+    })
+  })
+})
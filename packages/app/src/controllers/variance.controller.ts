@@ -0,0 +1,57 @@
+import { controller, path } from '@harrytwright/api/dist/core'
+import express from 'express'
+
+import { SpendApiData, spendApiSchema } from '../schemas'
+import VarianceServiceImpl from '../services/variance.service'
+import type { ServerRequest } from '../types/response.json.type'
+import { parsePeriod } from './sales.controller'
+
+@controller('/api/variance')
+export class VarianceController {
+  constructor(private readonly service: VarianceServiceImpl) {}
+
+  @path('/')
+  async getVariance(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const { from = '', to = '' } = parsePeriod(req.query)
+      const data = await this.service.report({ from, to })
+      return res.status(200).json(data)
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  @path('/spend')
+  async getSpend(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const { from = '', to = '' } = parsePeriod(req.query)
+      const data = await this.service.findSpend({ from, to })
+      return res.status(200).json(data)
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  @path('/spend')
+  async postSpend(
+    req: ServerRequest<never, unknown, SpendApiData>,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    try {
+      const parsed = spendApiSchema.parse(req.body)
+      const result = await this.service.recordSpend(parsed)
+      return res.status(201).json(result)
+    } catch (error) {
+      return next(error)
+    }
+  }
+}
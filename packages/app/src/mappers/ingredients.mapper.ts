@@ -1,4 +1,8 @@
-import type { DBIngredient } from '@menubook/core'
+import type {
+  DBIngredient,
+  IngredientAllergens,
+  NutritionValues,
+} from '@menubook/core'
 
 import { JSONSupplier } from './supplier.mapper'
 
@@ -12,8 +16,14 @@ export type JSONIngredient = Pick<
     unit: string
     cost: number
     vat: boolean
+    currency?: string
   }
   conversionRule?: string
+  density?: string
+  yieldPercent?: number
+  sku?: string
+  allergens: IngredientAllergens
+  nutrition?: NutritionValues
   lastPurchased?: string
   supplier?: JSONSupplier | string
 }
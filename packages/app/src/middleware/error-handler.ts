@@ -1,8 +1,9 @@
 import log from '@harrytwright/logger'
 import erred from '@hndlr/erred'
-import { Conflict, HTTPError } from '@hndlr/errors'
+import { BadRequest, Conflict, HTTPError } from '@hndlr/errors'
 import * as Sentry from '@sentry/node'
 import type { Request } from 'express'
+import { ZodError } from 'zod'
 
 import { errorHandler } from '../modules/auth/middleware/error.handler'
 
@@ -26,6 +27,16 @@ const handler = erred({
 
 handler.use(errorHandler)
 
+// A request body that fails its schema is the client's mistake, not ours
+handler.use(function (error: Error) {
+  if (!(error instanceof ZodError)) return undefined
+
+  const message = error.issues
+    .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+    .join(', ')
+  return Object.assign(new BadRequest(message), { stack: error.stack })
+})
+
 handler.use(function (error: Error & Record<string, any>, req) {
   if (!error.code) {
     return undefined
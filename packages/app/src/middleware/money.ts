@@ -0,0 +1,24 @@
+import { registerMiddleware } from '@harrytwright/api/dist/core'
+import { currencySymbol, formatMoney } from '@menubook/core'
+
+import ConfigServiceImpl from '../services/config.service'
+import type { MiddlewareReturn } from './demo'
+
+// Gives every view `money(pence)`, `currencySymbol` and the base `currency`,
+// formatted for the workspace's currency and locale
+export const money = registerMiddleware(
+  'money',
+  (config): MiddlewareReturn =>
+    async (req, res, next) => {
+      try {
+        const format = await config.moneyFormat()
+        res.locals.money = (amount: number) => formatMoney(amount, format)
+        res.locals.currencySymbol = currencySymbol(format)
+        res.locals.currency = format.currency
+        return next()
+      } catch (error) {
+        return next(error)
+      }
+    },
+  ConfigServiceImpl
+)
@@ -52,4 +52,14 @@ describe('Auth', () => {
     expect(session.subject).toBe('user-123')
     expect(session.permissions).toEqual(['users:read'])
   })
+
+  it('reads the subject a request was made by', () => {
+    const auth = Auth.fromStrategy(
+      new Strategy('user-123', []),
+      Type.management
+    )
+
+    expect(Auth.subjectOf({ auth })).toBe('user-123')
+    expect(Auth.subjectOf({})).toBeUndefined()
+  })
 })
@@ -83,6 +83,13 @@ export class Auth {
     return new Auth(strategy, type)
   }
 
+  /**
+   * Who made a request, undefined when it was not authenticated
+   */
+  static subjectOf(req: object): string | undefined {
+    return (req as { auth?: Auth }).auth?.subject
+  }
+
   get subject(): string {
     return this.strategy.subject
   }
@@ -1,3 +1,6 @@
 export * from './ingredient.schema'
+export * from './price-list.schema'
 export * from './recipe.schema'
+export * from './sales.schema'
 export * from './supplier.schema'
+export * from './variance.schema'
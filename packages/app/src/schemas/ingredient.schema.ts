@@ -1,4 +1,5 @@
 import type { IngredientResolvedImportData } from '@menubook/core'
+import { ALLERGENS, parseDensity } from '@menubook/core'
 import { z } from 'zod'
 
 /**
@@ -17,9 +18,39 @@ export const ingredientApiSchema = z.object({
       .string()
       .min(1, "Purchase unit is required (e.g., '120g', '1 loaf')"),
     vat: z.boolean().optional().default(false),
+    currency: z
+      .string()
+      .regex(/^[A-Z]{3}$/, 'Currency must be an ISO 4217 code, e.g. EUR')
+      .optional(), // defaults to the base currency
+    effectiveFrom: z.string().datetime().optional(),
   }),
   supplier: z.string().optional(), // Just a slug, defaults to 'generic'
   conversionRate: z.string().optional(),
+  density: z
+    .string()
+    .refine((density) => parseDensity(density) !== null, {
+      message: 'Density must be grams per ml or a rule like "1 cup = 120g"',
+    })
+    .optional(),
+  yieldPercent: z.number().gt(0).max(100).optional(),
+  sku: z.string().optional(),
+  allergens: z
+    .object({
+      contains: z.array(z.enum(ALLERGENS)).default([]),
+      mayContain: z.array(z.enum(ALLERGENS)).default([]),
+    })
+    .optional(),
+  nutrition: z
+    .object({
+      energy: z.number().nonnegative(),
+      fat: z.number().nonnegative(),
+      saturates: z.number().nonnegative(),
+      carbohydrate: z.number().nonnegative(),
+      sugars: z.number().nonnegative(),
+      protein: z.number().nonnegative(),
+      salt: z.number().nonnegative(),
+    })
+    .optional(), // per 100g or 100ml
   notes: z.string().optional(),
   lastPurchased: z.string().datetime().optional(),
 })
@@ -41,9 +72,16 @@ export function toIngredientData(
       cost: data.purchase.cost,
       unit: data.purchase.unit,
       vat: data.purchase.vat,
+      currency: data.purchase.currency,
+      effectiveFrom: data.purchase.effectiveFrom,
     },
     supplier: data.supplier ? { slug: data.supplier } : undefined,
     conversionRate: data.conversionRate,
+    density: data.density,
+    yieldPercent: data.yieldPercent,
+    sku: data.sku,
+    allergens: data.allergens,
+    nutrition: data.nutrition,
     notes: data.notes,
     lastPurchased: data.lastPurchased,
   }
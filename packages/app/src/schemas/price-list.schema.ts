@@ -0,0 +1,10 @@
+import { z } from 'zod'
+
+/**
+ * API schema for a supplier price list, the CSV is sent as text
+ */
+export const priceListApiSchema = z.object({
+  csv: z.string().min(1, 'Price list is required'),
+})
+
+export type PriceListApiData = z.infer<typeof priceListApiSchema>
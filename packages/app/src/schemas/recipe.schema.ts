@@ -1,6 +1,72 @@
-import type { RecipeResolvedImportData } from '@menubook/core'
+import type {
+  RecipeCostLineResolved,
+  RecipeIngredientResolvedReference,
+  RecipeResolvedImportData,
+} from '@menubook/core'
+import { isPhoto } from '@menubook/core'
 import { z } from 'zod'
 
+const recipeApiLineSchema = z.object({
+  slug: z.string().min(1), // Direct slug reference
+  type: z.enum(['ingredient', 'recipe']).optional(), // Auto-detect if omitted
+  unit: z.string().min(1, 'Unit is required'),
+  notes: z.string().optional(),
+  wastePercent: z.number().min(0).lt(100).optional(),
+})
+
+// Packaging references an ingredient by slug, the rest carry their own name
+export const recipeApiCostLineSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('packaging'),
+    slug: z.string().min(1),
+    unit: z.string().min(1, 'Unit is required'),
+    notes: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('fixed'),
+    name: z.string().min(1, 'Name is required'),
+    pence: z.number().int().nonnegative(),
+  }),
+  z.object({
+    type: z.literal('percent'),
+    name: z.string().min(1, 'Name is required'),
+    percent: z.number().min(0).max(100),
+  }),
+])
+
+// `vat` is a flag like the recipe's own, or the rate the price includes
+export const recipeApiPriceBandSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  price: z.number().int().nonnegative(),
+  vat: z.union([z.boolean(), z.number().min(0).lt(1)]).optional(),
+  commission: z.number().min(0).lt(100).optional(),
+})
+
+// Photos are uploaded on their own, the list here can re-order or caption them
+export const recipeApiMethodSchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        step: z.string().min(1, 'Step is required'),
+        holdMinutes: z.number().int().nonnegative().optional(),
+      })
+    )
+    .optional(),
+  equipment: z.array(z.string().min(1)).optional(),
+  plating: z.string().optional(),
+  photos: z
+    .array(
+      z.object({
+        path: z.string().min(1).refine(isPhoto, {
+          message:
+            'Photo must be an image under photos/<recipe>/ or an image data URL',
+        }),
+        caption: z.string().optional(),
+      })
+    )
+    .optional(),
+})
+
 /**
  * API schema for recipe creation/update
  * Clean API format - no slug: prefixes, direct references
@@ -21,23 +87,31 @@ export const recipeApiSchema = z.object({
       price: z.number().int().nonnegative().optional(),
       margin: z.number().int().min(0).max(100).optional(),
       vat: z.boolean().optional(),
+      // Left out on update, the recipe keeps the bands it has
+      bands: z.array(recipeApiPriceBandSchema).optional(),
     })
     .optional(),
   yieldAmount: z.number().positive().optional(),
   yieldUnit: z.string().optional(),
-  ingredients: z
-    .array(
-      z.object({
-        slug: z.string().min(1), // Direct slug reference
-        type: z.enum(['ingredient', 'recipe']).optional(), // Auto-detect if omitted
-        unit: z.string().min(1, 'Unit is required'),
-        notes: z.string().optional(),
-      })
-    )
-    .default([]),
+  labour: z
+    .object({
+      prepMinutes: z.number().int().nonnegative().optional(),
+      cookMinutes: z.number().int().nonnegative().optional(),
+      role: z.string().optional(),
+    })
+    .optional(),
+  // Left out on update, the recipe keeps the method it has
+  method: recipeApiMethodSchema.optional(),
+  ingredients: z.array(recipeApiLineSchema).default([]),
+  costs: z.array(recipeApiCostLineSchema).optional(),
+  // Changes to the lines inherited from the parent, matched by slug
+  remove: z.array(z.string().min(1)).optional(),
+  override: z.array(recipeApiLineSchema).optional(),
 })
 
 export type RecipeApiData = z.infer<typeof recipeApiSchema>
+export type RecipeApiCostLine = z.infer<typeof recipeApiCostLineSchema>
+export type RecipeApiMethod = z.infer<typeof recipeApiMethodSchema>
 
 /**
  * Maps API data to core's resolved format
@@ -57,13 +131,37 @@ export function toRecipeData(
     costing: data.costing,
     yieldAmount: data.yieldAmount,
     yieldUnit: data.yieldUnit,
-    ingredients: data.ingredients.map((ing) => ({
-      slug: ing.slug,
-      type: ing.type || ingredientTypes.get(ing.slug) || 'ingredient',
-      with: {
-        unit: ing.unit,
-        notes: ing.notes,
-      },
-    })),
+    labour: data.labour,
+    method: data.method,
+    remove: data.remove,
+    // Overrides always take their type from the inherited line
+    override: data.override?.map((ing) => toLine(ing, ingredientTypes)),
+    ingredients: data.ingredients.map((ing) => toLine(ing, ingredientTypes)),
+    costs: data.costs?.map(toCostLine),
+  }
+}
+
+function toCostLine(line: RecipeApiCostLine): RecipeCostLineResolved {
+  if (line.type !== 'packaging') return line
+
+  return {
+    type: 'packaging',
+    slug: line.slug,
+    with: { unit: line.unit, notes: line.notes },
+  }
+}
+
+function toLine(
+  ing: RecipeApiData['ingredients'][number],
+  ingredientTypes: Map<string, 'ingredient' | 'recipe'>
+): RecipeIngredientResolvedReference {
+  return {
+    slug: ing.slug,
+    type: ing.type || ingredientTypes.get(ing.slug) || 'ingredient',
+    with: {
+      unit: ing.unit,
+      notes: ing.notes,
+      wastePercent: ing.wastePercent,
+    },
   }
 }
@@ -0,0 +1,15 @@
+import { z } from 'zod'
+
+/**
+ * API schema for recording sales by hand. Numbers are coerced so the same
+ * schema works for JSON and form posts.
+ */
+export const saleApiSchema = z.object({
+  recipe: z.string().min(1, 'Recipe is required'),
+  // Whole, non-negative portions are checked by SalesService
+  quantity: z.coerce.number(),
+  periodStart: z.string().min(1, 'Period start is required'),
+  periodEnd: z.string().min(1, 'Period end is required'),
+})
+
+export type SaleApiData = z.infer<typeof saleApiSchema>
@@ -0,0 +1,16 @@
+import { z } from 'zod'
+
+/**
+ * API schema for entering the spend on an ingredient over a period, money
+ * in pence. Whole, non-negative amounts are checked by VarianceService.
+ */
+export const spendApiSchema = z.object({
+  ingredient: z.string().min(1, 'Ingredient is required'),
+  periodStart: z.string().min(1, 'Period start is required'),
+  periodEnd: z.string().min(1, 'Period end is required'),
+  purchases: z.coerce.number().optional(),
+  openingStock: z.coerce.number().optional(),
+  closingStock: z.coerce.number().optional(),
+})
+
+export type SpendApiData = z.infer<typeof spendApiSchema>
@@ -1,4 +1,10 @@
-import { ConfigService, DatabaseContext } from '@menubook/core'
+import {
+  ConfigService,
+  DatabaseContext,
+  DatabaseOnlyStorage,
+  FileSystemStorage,
+  StorageMode,
+} from '@menubook/core'
 import { EventEmitter } from 'events'
 
 import { App } from './app'
@@ -8,6 +14,11 @@ export type ServerConfig = {
   location: string
   // The database context, if DEMO=true is passed, this is ignored
   database: DatabaseContext
+  // Where the YAML data lives, photos are written relative to it. Defaults to
+  // the location
+  workspaceDir?: string
+  // How recipe photos are stored, defaults to in the database
+  storageMode?: StorageMode
   // Should the browser be opened automatically, defaults to true
   openBrowser?: boolean
   // The passed event emitter, if not passed a new one is created
@@ -59,6 +70,13 @@ export async function main(conf: ServerConfig) {
     .register('globalConfig', new ConfigService(conf.location))
     .register('database', conf.database)
     .register('events', conf.event || new EventEmitter())
+    .register(
+      'storage',
+      conf.storageMode === 'fs'
+        ? new FileSystemStorage()
+        : new DatabaseOnlyStorage()
+    )
+    .register('workspace', conf.workspaceDir || conf.location)
     .load(config)
     .listen()
 
@@ -4,8 +4,12 @@ import {
   ConfigService,
   DatabaseContext,
   IngredientService,
+  NutritionCalculator,
   RecipeResult,
   RecipeService,
+  ScaleTarget,
+  SimulationOverride,
+  Simulator,
   SupplierService,
 } from '@menubook/core'
 
@@ -42,11 +46,62 @@ export default class CalculatorImpl {
     return this.defaultCalculator
   }
 
-  async cost(recipe: string, depth: number = 0, ctx?: DatabaseContext) {
-    return this.calculator(ctx).cost(recipe, depth)
+  async cost(
+    recipe: string,
+    depth: number = 0,
+    ctx?: DatabaseContext,
+    asOf?: Date
+  ) {
+    return this.calculator(ctx).cost(recipe, depth, asOf)
   }
 
   async margin(recipe: RecipeResult, ctx?: DatabaseContext) {
     return this.calculator(ctx).margin(recipe)
   }
+
+  async suggestPrice(recipe: RecipeResult, ctx?: DatabaseContext) {
+    return this.calculator(ctx).suggestPrice(recipe)
+  }
+
+  async scale(recipe: string, target: ScaleTarget, ctx?: DatabaseContext) {
+    return this.calculator(ctx).scaleRecipe(recipe, target)
+  }
+
+  async allergens(recipe: string, ctx?: DatabaseContext) {
+    return this.calculator(ctx).allergens(recipe)
+  }
+
+  async nutrition(recipe: string, ctx?: DatabaseContext) {
+    const _ctx = ctx || this.demo.ctx()
+    if (_ctx) {
+      const ingredient = new IngredientService(_ctx, new SupplierService(_ctx))
+      return new NutritionCalculator(
+        new RecipeService(_ctx, ingredient, this.conf),
+        ingredient
+      ).nutrition(recipe)
+    }
+
+    return new NutritionCalculator(
+      this.recipe.defaultRecipe,
+      this.ingredient.defaultIngredient
+    ).nutrition(recipe)
+  }
+
+  async simulate(overrides: SimulationOverride[], ctx?: DatabaseContext) {
+    const _ctx = ctx || this.demo.ctx()
+    if (_ctx) {
+      const ingredient = new IngredientService(_ctx, new SupplierService(_ctx))
+      return new Simulator(
+        new RecipeService(_ctx, ingredient, this.conf),
+        ingredient,
+        this.conf
+      ).run(overrides)
+    }
+
+    return new Simulator(
+      this.recipe.defaultRecipe,
+      this.ingredient.defaultIngredient,
+      this.conf
+    ).run(overrides)
+  }
 }
@@ -0,0 +1,13 @@
+import { Inject, register } from '@harrytwright/api/dist/core'
+import type { MoneyFormat } from '@menubook/core'
+import { ConfigService } from '@menubook/core'
+
+// Lets middleware, which is resolved by class, reach the global config
+@register('singleton')
+export default class ConfigServiceImpl {
+  constructor(@Inject('globalConfig') private readonly conf: ConfigService) {}
+
+  moneyFormat(): Promise<MoneyFormat> {
+    return this.conf.getMoneyFormat()
+  }
+}
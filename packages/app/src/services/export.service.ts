@@ -0,0 +1,92 @@
+import { Inject, register } from '@harrytwright/api/dist/core'
+import { NotFound } from '@hndlr/errors'
+import type { DatabaseContext } from '@menubook/core'
+import {
+  Calculator,
+  ConfigService,
+  ExportService,
+  IngredientService,
+  RecipeService,
+  SupplierService,
+} from '@menubook/core'
+
+import { DemoPersistenceManager } from '../datastore/sqlite.demo'
+import IngredientServiceImpl from './ingredient.service'
+import RecipeServiceImpl from './recipe.service'
+import SupplierServiceImpl from './supplier.service'
+
+// Basically a wrapper around the ExportService to work with the DI side of the webapp
+@register('singleton')
+export default class ExportServiceImpl {
+  readonly defaultExport: ExportService = new ExportService(
+    this.ctx,
+    this.supplier.defaultSupplier,
+    this.ingredient.defaultIngredient,
+    this.recipe.defaultRecipe,
+    new Calculator(
+      this.recipe.defaultRecipe,
+      this.ingredient.defaultIngredient,
+      this.conf
+    )
+  )
+
+  constructor(
+    @Inject('database') private readonly ctx: DatabaseContext,
+    @Inject('globalConfig') private readonly conf: ConfigService,
+    private readonly supplier: SupplierServiceImpl,
+    private readonly ingredient: IngredientServiceImpl,
+    private readonly recipe: RecipeServiceImpl,
+    private readonly demo: DemoPersistenceManager
+  ) {}
+
+  private exporter(ctx?: DatabaseContext): ExportService {
+    const _ctx = ctx || this.demo.ctx()
+    if (_ctx) {
+      const supplier = new SupplierService(_ctx)
+      const ingredient = new IngredientService(_ctx, supplier)
+      const recipe = new RecipeService(_ctx, ingredient, this.conf)
+      return new ExportService(
+        _ctx,
+        supplier,
+        ingredient,
+        recipe,
+        new Calculator(recipe, ingredient, this.conf)
+      )
+    }
+    return this.defaultExport
+  }
+
+  async recipeSpecPDF(slug: string, ctx?: DatabaseContext) {
+    if (!(await this.recipe.exists(slug, ctx))) {
+      throw new NotFound(`Recipe with slug '${slug}' not found`)
+    }
+
+    return this.exporter(ctx).exportRecipeSpecPDF(
+      slug,
+      await this.conf.getMoneyFormat()
+    )
+  }
+
+  async costingPackPDF(ctx?: DatabaseContext) {
+    return this.exporter(ctx).exportCostingPackPDF(
+      await this.conf.getMoneyFormat()
+    )
+  }
+
+  async supplierOrderPDF(slug: string, ctx?: DatabaseContext) {
+    if (!(await this.supplier.exists(slug, ctx))) {
+      throw new NotFound(`Supplier with slug '${slug}' not found`)
+    }
+
+    return this.exporter(ctx).exportSupplierOrderPDF(
+      slug,
+      await this.conf.getMoneyFormat()
+    )
+  }
+
+  async workbookXLSX(ctx?: DatabaseContext) {
+    return this.exporter(ctx).exportWorkbookXLSX(
+      await this.conf.getMoneyFormat()
+    )
+  }
+}
@@ -2,7 +2,10 @@ import { Inject, register } from '@harrytwright/api/dist/core'
 import { BadRequest, Conflict, NotFound } from '@hndlr/errors'
 import type {
   DatabaseContext,
+  DBIngredientPrice,
+  IngredientAllergens,
   IngredientResolvedImportData,
+  PriceSource,
 } from '@menubook/core'
 import { IngredientService, SupplierService } from '@menubook/core'
 import type { EventEmitter } from 'events'
@@ -57,15 +60,23 @@ export default class IngredientServiceImpl {
     slug: string,
     data: IngredientResolvedImportData,
     supplierSlug: string = 'generic',
+    source: PriceSource = 'api',
     ctx?: DatabaseContext
   ): Promise<InsertResult> {
-    return this.ingredient(ctx).upsert(slug, data, supplierSlug)
+    return this.ingredient(ctx).upsert(
+      slug,
+      data,
+      supplierSlug,
+      undefined,
+      source
+    )
   }
 
   async create(
     slug: string,
     raw: IngredientApiData,
     supplierSlug: string = 'generic',
+    source: PriceSource = 'api',
     ctx?: DatabaseContext
   ) {
     if (await this.exists(slug, ctx)) {
@@ -80,7 +91,7 @@ export default class IngredientServiceImpl {
     }
 
     const data = toIngredientData(raw, slug)
-    await this.upsert(slug, data, supplierSlug, ctx)
+    await this.upsert(slug, data, supplierSlug, source, ctx)
 
     return this.findAndEmit(slug, 'ingredient.created', ctx)
   }
@@ -89,6 +100,7 @@ export default class IngredientServiceImpl {
     slug: string,
     raw: IngredientApiData,
     supplierSlug: string = 'generic',
+    source: PriceSource = 'api',
     ctx?: DatabaseContext
   ) {
     if (raw.slug && raw.slug !== slug) {
@@ -109,7 +121,21 @@ export default class IngredientServiceImpl {
     }
 
     const data = toIngredientData(raw, slug)
-    await this.upsert(slug, data, supplierSlug, ctx)
+    await this.upsert(slug, data, supplierSlug, source, ctx)
+
+    return this.findAndEmit(slug, 'ingredient.updated', ctx)
+  }
+
+  async updateAllergens(
+    slug: string,
+    allergens: IngredientAllergens,
+    ctx?: DatabaseContext
+  ) {
+    if (!(await this.exists(slug, ctx))) {
+      throw new NotFound(`Ingredient with slug '${slug}' not found`)
+    }
+
+    await this.ingredient(ctx).updateAllergens(slug, allergens)
 
     return this.findAndEmit(slug, 'ingredient.updated', ctx)
   }
@@ -142,6 +168,17 @@ export default class IngredientServiceImpl {
     return this.ingredient(ctx).find()
   }
 
+  async priceHistory(
+    slug: string,
+    ctx?: DatabaseContext
+  ): Promise<DBIngredientPrice[]> {
+    if (!(await this.exists(slug, ctx))) {
+      throw new NotFound(`Ingredient with slug '${slug}' not found`)
+    }
+
+    return this.ingredient(ctx).priceHistory(slug)
+  }
+
   private async findAndEmit(
     slug: string,
     event: string,
@@ -0,0 +1,118 @@
+import { Inject, register } from '@harrytwright/api/dist/core'
+import { BadRequest, NotFound } from '@hndlr/errors'
+import type {
+  DatabaseContext,
+  RecipeMethodData,
+  StorageService,
+} from '@menubook/core'
+import { isPhoto, methodData, photoContentType } from '@menubook/core'
+
+import RecipeServiceImpl from './recipe.service'
+
+export interface RecipePhotoUpload {
+  /** The uploaded file's name, its extension gives the image type */
+  filename: string
+  data: Buffer
+  caption?: string
+}
+
+// Keeps recipe photos through the configured StorageService, on disk beside
+// the YAML or inlined in the database, and the recipe's list of them in step
+@register('singleton')
+export default class PhotoServiceImpl {
+  constructor(
+    @Inject('storage') private readonly storage: StorageService,
+    @Inject('workspace') private readonly workspace: string,
+    private readonly recipes: RecipeServiceImpl
+  ) {}
+
+  private async method(
+    slug: string,
+    ctx?: DatabaseContext
+  ): Promise<RecipeMethodData> {
+    const recipe = await this.recipes.findById(slug, false, ctx)
+    if (!recipe) {
+      throw new NotFound(`Recipe with slug '${slug}' not found`)
+    }
+
+    return methodData(recipe) ?? {}
+  }
+
+  private photo(method: RecipeMethodData, slug: string, index: number) {
+    const photo = method.photos?.[index]
+    if (!photo) {
+      throw new NotFound(`Recipe '${slug}' has no photo ${index}`)
+    }
+
+    return photo
+  }
+
+  async add(
+    slug: string,
+    upload: RecipePhotoUpload,
+    author?: string,
+    ctx?: DatabaseContext
+  ) {
+    if (!upload.data.length) {
+      throw new BadRequest('Photo is empty')
+    }
+    if (!photoContentType(upload.filename)) {
+      throw new BadRequest(
+        `Unsupported photo '${upload.filename}', expected an image`
+      )
+    }
+
+    const method = await this.method(slug, ctx)
+    const path = await this.storage.writePhoto(
+      slug,
+      upload.filename,
+      upload.data,
+      this.workspace
+    )
+
+    // Re-uploading a file of the same name replaces it in place
+    const photos = (method.photos ?? []).filter((photo) => photo.path !== path)
+    photos.push({ path, caption: upload.caption || undefined })
+
+    await this.recipes.updateMethod(
+      slug,
+      { ...method, photos },
+      'ui',
+      author,
+      ctx
+    )
+  }
+
+  async read(slug: string, index: number, ctx?: DatabaseContext) {
+    const { path } = this.photo(await this.method(slug, ctx), slug, index)
+    // Recipes saved before photos were checked may point anywhere, only ever
+    // send back an image from this recipe's own folder
+    if (!isPhoto(path, slug)) {
+      throw new BadRequest(`Recipe '${slug}' photo ${index} is not an image`)
+    }
+
+    return {
+      data: await this.storage.readPhoto(path, this.workspace),
+      contentType: photoContentType(path)!,
+    }
+  }
+
+  async remove(
+    slug: string,
+    index: number,
+    author?: string,
+    ctx?: DatabaseContext
+  ) {
+    const method = await this.method(slug, ctx)
+    const { path } = this.photo(method, slug, index)
+
+    await this.recipes.updateMethod(
+      slug,
+      { ...method, photos: method.photos!.filter((_, i) => i !== index) },
+      'ui',
+      author,
+      ctx
+    )
+    await this.storage.deletePhoto(path, this.workspace)
+  }
+}
@@ -0,0 +1,79 @@
+import { Inject, register } from '@harrytwright/api/dist/core'
+import { BadRequest } from '@hndlr/errors'
+import type {
+  DatabaseContext,
+  PriceListPreview,
+  PriceListRow,
+  PriceSource,
+} from '@menubook/core'
+import {
+  ConfigService,
+  IngredientService,
+  parsePriceListCSV,
+  PriceListService,
+  RecipeService,
+  SupplierService,
+} from '@menubook/core'
+
+import { DemoPersistenceManager } from '../datastore/sqlite.demo'
+import IngredientServiceImpl from './ingredient.service'
+import RecipeServiceImpl from './recipe.service'
+
+// Basically a wrapper around the PriceListService to work with the DI side of the webapp
+@register('singleton')
+export default class PriceListServiceImpl {
+  readonly defaultPriceList: PriceListService = new PriceListService(
+    this.ctx,
+    this.ingredient.defaultIngredient,
+    this.recipe.defaultRecipe,
+    this.conf
+  )
+
+  constructor(
+    @Inject('database') private readonly ctx: DatabaseContext,
+    @Inject('globalConfig') private readonly conf: ConfigService,
+    private readonly ingredient: IngredientServiceImpl,
+    private readonly recipe: RecipeServiceImpl,
+    private readonly demo: DemoPersistenceManager
+  ) {}
+
+  private priceList(ctx?: DatabaseContext): PriceListService {
+    const _ctx = ctx || this.demo.ctx()
+    if (_ctx) {
+      const ingredient = new IngredientService(_ctx, new SupplierService(_ctx))
+      return new PriceListService(
+        _ctx,
+        ingredient,
+        new RecipeService(_ctx, ingredient, this.conf),
+        this.conf
+      )
+    }
+    return this.defaultPriceList
+  }
+
+  // A malformed file is the uploader's mistake, not ours
+  private parse(csv: string): PriceListRow[] {
+    try {
+      return parsePriceListCSV(csv)
+    } catch (error) {
+      throw new BadRequest((error as Error).message)
+    }
+  }
+
+  preview(
+    supplier: string,
+    csv: string,
+    ctx?: DatabaseContext
+  ): Promise<PriceListPreview> {
+    return this.priceList(ctx).preview(supplier, this.parse(csv))
+  }
+
+  apply(
+    supplier: string,
+    csv: string,
+    source: PriceSource,
+    ctx?: DatabaseContext
+  ): Promise<PriceListPreview> {
+    return this.priceList(ctx).apply(supplier, this.parse(csv), source)
+  }
+}
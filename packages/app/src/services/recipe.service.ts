@@ -2,19 +2,28 @@ import { Inject, register } from '@harrytwright/api/dist/core'
 import { BadRequest, Conflict, NotFound } from '@hndlr/errors'
 import type {
   DatabaseContext,
+  EffectiveRecipe,
+  RecipeCostLineLookup,
+  RecipeIngredientsLookup,
+  RecipeMethodData,
   RecipeResolvedImportData,
+  RecipeRevisionDiff,
+  RecipeRevisionEntry,
   RecipeWithIngredients,
+  RevisionSource,
 } from '@menubook/core'
 import {
   ConfigService,
   IngredientService,
+  methodData,
+  priceBandsData,
   RecipeService,
   SupplierService,
 } from '@menubook/core'
 import type { EventEmitter } from 'events'
 
 import { DemoPersistenceManager } from '../datastore/sqlite.demo'
-import { RecipeApiData, toRecipeData } from '../schemas'
+import { RecipeApiCostLine, RecipeApiData, toRecipeData } from '../schemas'
 import IngredientServiceImpl from './ingredient.service'
 
 // Basically a wrapper around the RecipeService to work with the DI side of the webapp
@@ -72,7 +81,13 @@ export default class RecipeServiceImpl {
     return this.recipe(ctx).upsert(slug, data, defaultPriceIncludesVat)
   }
 
-  async create(slug: string, raw: RecipeApiData, ctx?: DatabaseContext) {
+  async create(
+    slug: string,
+    raw: RecipeApiData,
+    source: RevisionSource = 'api',
+    author?: string,
+    ctx?: DatabaseContext
+  ) {
     if (await this.exists(slug, ctx)) {
       throw new Conflict(`Recipe with slug '${slug}' already exists`)
     }
@@ -102,12 +117,18 @@ export default class RecipeServiceImpl {
       throw new Error('Failed to create recipe')
     }
 
-    await this.upsertIngredients(recipeId, data, ctx)
+    await this.upsertIngredients(recipeId, data, source, author, ctx)
 
     return this.findAndEmit(slug, 'recipe.created', ctx)
   }
 
-  async update(slug: string, raw: RecipeApiData, ctx?: DatabaseContext) {
+  async update(
+    slug: string,
+    raw: RecipeApiData,
+    source: RevisionSource = 'api',
+    author?: string,
+    ctx?: DatabaseContext
+  ) {
     if (raw.slug && raw.slug !== slug) {
       throw new BadRequest(
         `Slug mismatch: expected '${slug}' but received '${raw.slug}'`
@@ -138,13 +159,20 @@ export default class RecipeServiceImpl {
     )
 
     const data = toRecipeData(raw, slug, ingredientTypes)
+    if (!data.costing?.bands) {
+      data.costing = { ...data.costing, bands: priceBandsData(existing) }
+    }
+    if (!data.method) {
+      data.method = methodData(existing)
+    }
+
     const recipeId = await this.upsert(slug, data, true, ctx)
 
     if (!recipeId) {
       throw new Error('Failed to update recipe')
     }
 
-    await this.upsertIngredients(recipeId, data, ctx)
+    await this.upsertIngredients(recipeId, data, source, author, ctx)
 
     return this.findAndEmit(slug, 'recipe.updated', ctx)
   }
@@ -203,21 +231,26 @@ export default class RecipeServiceImpl {
   upsertIngredients(
     recipeId: number,
     data: RecipeResolvedImportData,
+    source: RevisionSource = 'api',
+    author?: string,
     ctx?: DatabaseContext
   ) {
-    return this.recipe(ctx).upsertIngredients(recipeId, data)
+    return this.recipe(ctx).upsertIngredients(recipeId, data, source, author)
+  }
+
+  effective(slug: string, ctx?: DatabaseContext): Promise<EffectiveRecipe> {
+    return this.recipe(ctx).effective(slug)
   }
 
   async addIngredient(
     recipeSlug: string,
     ingredientSlug: string,
     data: { quantity?: number; unit: string },
+    source: RevisionSource = 'api',
+    author?: string,
     ctx?: DatabaseContext
   ) {
-    const recipe = await this.findById(recipeSlug, true, ctx)
-    if (!recipe) {
-      throw new NotFound(`Recipe with slug '${recipeSlug}' not found`)
-    }
+    const recipe = await this.findOwnLines(recipeSlug, ctx)
 
     // Detect ingredient type
     let type: 'ingredient' | 'recipe'
@@ -231,89 +264,194 @@ export default class RecipeServiceImpl {
       )
     }
 
-    // Build updated ingredients list
-    const existingIngredients = recipe.ingredients || []
     const unitStr =
       data.quantity != null ? `${data.quantity}${data.unit}` : data.unit
+    const line = { slug: ingredientSlug, type, unit: unitStr }
 
-    // Filter out if already exists, then add
-    const filteredIngredients = existingIngredients.filter(
+    // Filter out if already exists, then add. Inherited lines are overridden
+    // rather than added a second time
+    const { lines } = recipe
+    const others = lines.ingredients.filter(
       (ing) => ing.slug !== ingredientSlug
     )
-    const updatedIngredients = [
-      ...filteredIngredients.map((ing) => ({
-        slug: ing.slug,
-        type: ing.type,
-        with: { unit: ing.unit, notes: ing.notes || undefined },
-      })),
-      { slug: ingredientSlug, type, with: { unit: unitStr } },
-    ]
 
-    // Build the update payload
-    const raw: RecipeApiData = {
-      name: recipe.name,
-      stage: recipe.stage || 'development',
-      class: recipe.class || 'menu_item',
-      costing: {
-        price: recipe.sellPrice,
-        margin: recipe.targetMargin || undefined,
-        vat: recipe.includesVat === 1,
-      },
-      extends: recipe.parent || undefined,
-      ingredients: updatedIngredients.map((ing) => ({
-        slug: ing.slug,
-        type: ing.type,
-        unit: ing.with.unit,
-      })),
-    }
+    const updated = recipe.inherits(ingredientSlug)
+      ? {
+          ...lines,
+          override: [
+            ...lines.override.filter((ing) => ing.slug !== ingredientSlug),
+            line,
+          ],
+          remove: lines.remove.filter((slug) => slug !== ingredientSlug),
+        }
+      : { ...lines, ingredients: [...others, line] }
 
-    const ingredientTypes = new Map<string, 'ingredient' | 'recipe'>()
-    for (const ing of updatedIngredients) {
-      ingredientTypes.set(ing.slug, ing.type)
-    }
+    return this.saveLines(recipe.effective, updated, source, author, ctx)
+  }
 
-    const recipeData = toRecipeData(raw, recipeSlug, ingredientTypes)
-    const recipeId = await this.upsert(recipeSlug, recipeData, true, ctx)
+  async removeIngredient(
+    recipeSlug: string,
+    ingredientSlug: string,
+    source: RevisionSource = 'api',
+    author?: string,
+    ctx?: DatabaseContext
+  ) {
+    const recipe = await this.findOwnLines(recipeSlug, ctx)
 
-    if (!recipeId) {
-      throw new Error('Failed to update recipe')
+    const hadIngredient = recipe.effective.ingredients.some(
+      (ing) => ing.slug === ingredientSlug
+    )
+
+    if (!hadIngredient) {
+      throw new NotFound(
+        `Ingredient '${ingredientSlug}' not found in recipe '${recipeSlug}'`
+      )
     }
 
-    await this.upsertIngredients(recipeId, recipeData, ctx)
+    const { lines } = recipe
+    const updated = {
+      ...lines,
+      ingredients: lines.ingredients.filter(
+        (ing) => ing.slug !== ingredientSlug
+      ),
+      override: lines.override.filter((ing) => ing.slug !== ingredientSlug),
+      // Inherited lines can only be dropped with a removal
+      remove: recipe.inherits(ingredientSlug)
+        ? [...lines.remove, ingredientSlug]
+        : lines.remove,
+    }
 
-    return this.findAndEmit(recipeSlug, 'recipe.updated', ctx)
+    return this.saveLines(recipe.effective, updated, source, author, ctx)
   }
 
-  async removeIngredient(
+  async addCostLine(
     recipeSlug: string,
-    ingredientSlug: string,
+    line: RecipeApiCostLine,
+    source: RevisionSource = 'api',
+    author?: string,
     ctx?: DatabaseContext
   ) {
-    const recipe = await this.findById(recipeSlug, true, ctx)
-    if (!recipe) {
-      throw new NotFound(`Recipe with slug '${recipeSlug}' not found`)
+    const recipe = await this.findOwnLines(recipeSlug, ctx)
+
+    if (
+      line.type === 'packaging' &&
+      !(await this.ingredient.exists(line.slug, ctx))
+    ) {
+      throw new NotFound(`Packaging item with slug '${line.slug}' not found`)
     }
 
-    const existingIngredients = recipe.ingredients || []
-    const hadIngredient = existingIngredients.some(
-      (ing) => ing.slug === ingredientSlug
+    const { lines } = recipe
+    return this.saveLines(
+      recipe.effective,
+      { ...lines, costs: [...lines.costs, line] },
+      source,
+      author,
+      ctx
     )
+  }
 
-    if (!hadIngredient) {
+  /**
+   * Remove one of the recipe's own cost lines, `index` counts those alone.
+   * Inherited cost lines can only be removed from the parent.
+   */
+  async removeCostLine(
+    recipeSlug: string,
+    index: number,
+    source: RevisionSource = 'api',
+    author?: string,
+    ctx?: DatabaseContext
+  ) {
+    const recipe = await this.findOwnLines(recipeSlug, ctx)
+
+    const { lines } = recipe
+    if (!lines.costs[index]) {
       throw new NotFound(
-        `Ingredient '${ingredientSlug}' not found in recipe '${recipeSlug}'`
+        `Cost line ${index} not found in recipe '${recipeSlug}'`
       )
     }
 
-    // Build updated ingredients list without the removed one
-    const updatedIngredients = existingIngredients
-      .filter((ing) => ing.slug !== ingredientSlug)
-      .map((ing) => ({
-        slug: ing.slug,
-        type: ing.type,
-        with: { unit: ing.unit, notes: ing.notes || undefined },
-      }))
+    return this.saveLines(
+      recipe.effective,
+      { ...lines, costs: lines.costs.filter((_, i) => i !== index) },
+      source,
+      author,
+      ctx
+    )
+  }
+
+  /**
+   * Split a recipe back into its own lines, overrides and removals, so single
+   * line edits keep inherited lines inherited instead of copying them in
+   */
+  private async findOwnLines(slug: string, ctx?: DatabaseContext) {
+    if (!(await this.exists(slug, ctx))) {
+      throw new NotFound(`Recipe with slug '${slug}' not found`)
+    }
+
+    const effective = await this.effective(slug, ctx)
+
+    const toApiLine = (ing: RecipeIngredientsLookup) => ({
+      slug: ing.slug,
+      type: ing.type,
+      unit: ing.unit,
+      notes: ing.notes || undefined,
+      wastePercent: ing.wastePercent ?? undefined,
+    })
+
+    const toApiCostLine = (line: RecipeCostLineLookup): RecipeApiCostLine => {
+      switch (line.type) {
+        case 'packaging':
+          return {
+            type: 'packaging',
+            slug: line.slug!,
+            unit: line.unit,
+            notes: line.notes || undefined,
+          }
+        case 'fixed':
+          return { type: 'fixed', name: line.name, pence: line.amount ?? 0 }
+        case 'percent':
+          return {
+            type: 'percent',
+            name: line.name,
+            percent: line.amount ?? 0,
+          }
+      }
+    }
+
+    const own = effective.ingredients.filter((ing) => ing.source === slug)
+    const remove = effective.removed
+      .filter((line) => line.removedBy === slug)
+      .map((line) => line.slug)
+
+    return {
+      effective,
+      lines: {
+        ingredients: own.filter((ing) => !ing.overrides).map(toApiLine),
+        override: own.filter((ing) => ing.overrides).map(toApiLine),
+        remove,
+        costs: effective.costs
+          .filter((line) => line.source === slug)
+          .map(toApiCostLine),
+      },
+      inherits: (ingredientSlug: string) =>
+        remove.includes(ingredientSlug) ||
+        effective.ingredients.some(
+          (ing) =>
+            ing.slug === ingredientSlug &&
+            (ing.source !== slug || ing.overrides)
+        ),
+    }
+  }
 
+  private async saveLines(
+    recipe: EffectiveRecipe,
+    lines: Pick<RecipeApiData, 'ingredients' | 'remove' | 'override'> & {
+      costs: RecipeApiCostLine[]
+    },
+    source: RevisionSource,
+    author?: string,
+    ctx?: DatabaseContext
+  ) {
     // Build the update payload
     const raw: RecipeApiData = {
       name: recipe.name,
@@ -323,30 +461,96 @@ export default class RecipeServiceImpl {
         price: recipe.sellPrice,
         margin: recipe.targetMargin || undefined,
         vat: recipe.includesVat === 1,
+        bands: priceBandsData(recipe),
       },
       extends: recipe.parent || undefined,
-      ingredients: updatedIngredients.map((ing) => ({
-        slug: ing.slug,
-        type: ing.type,
-        unit: ing.with.unit,
-      })),
+      labour: {
+        prepMinutes: recipe.prepMinutes ?? undefined,
+        cookMinutes: recipe.cookMinutes ?? undefined,
+        role: recipe.labourRole ?? undefined,
+      },
+      method: methodData(recipe),
+      ...lines,
     }
 
     const ingredientTypes = new Map<string, 'ingredient' | 'recipe'>()
-    for (const ing of updatedIngredients) {
-      ingredientTypes.set(ing.slug, ing.type)
+    for (const ing of lines.ingredients) {
+      if (ing.type) ingredientTypes.set(ing.slug, ing.type)
     }
 
-    const recipeData = toRecipeData(raw, recipeSlug, ingredientTypes)
-    const recipeId = await this.upsert(recipeSlug, recipeData, true, ctx)
+    const recipeData = toRecipeData(raw, recipe.slug, ingredientTypes)
+    const recipeId = await this.upsert(recipe.slug, recipeData, true, ctx)
 
     if (!recipeId) {
       throw new Error('Failed to update recipe')
     }
 
-    await this.upsertIngredients(recipeId, recipeData, ctx)
+    await this.upsertIngredients(recipeId, recipeData, source, author, ctx)
+
+    return this.findAndEmit(recipe.slug, 'recipe.updated', ctx)
+  }
+
+  async revisions(
+    slug: string,
+    ctx?: DatabaseContext
+  ): Promise<RecipeRevisionEntry[]> {
+    if (!(await this.exists(slug, ctx))) {
+      throw new NotFound(`Recipe with slug '${slug}' not found`)
+    }
+
+    return this.recipe(ctx).revisions(slug)
+  }
+
+  findRevision(
+    slug: string,
+    revision: number,
+    ctx?: DatabaseContext
+  ): Promise<RecipeRevisionEntry> {
+    return this.recipe(ctx).findRevision(slug, revision)
+  }
+
+  diffRevisions(
+    slug: string,
+    from: number,
+    to: number,
+    ctx?: DatabaseContext
+  ): Promise<RecipeRevisionDiff> {
+    return this.recipe(ctx).diffRevisions(slug, from, to)
+  }
+
+  async rollback(
+    slug: string,
+    revision: number,
+    source: RevisionSource = 'api',
+    author?: string,
+    ctx?: DatabaseContext
+  ) {
+    const restored = await this.recipe(ctx).rollback(
+      slug,
+      revision,
+      source,
+      author
+    )
+    await this.findAndEmit(slug, 'recipe.updated', ctx)
+    return restored
+  }
 
-    return this.findAndEmit(recipeSlug, 'recipe.updated', ctx)
+  /**
+   * Replace the recipe's method without going through the full update
+   */
+  async updateMethod(
+    slug: string,
+    method: RecipeMethodData | undefined,
+    source: RevisionSource = 'api',
+    author?: string,
+    ctx?: DatabaseContext
+  ) {
+    if (!(await this.exists(slug, ctx))) {
+      throw new NotFound(`Recipe with slug '${slug}' not found`)
+    }
+
+    await this.recipe(ctx).updateMethod(slug, method, source, author)
+    return this.findAndEmit(slug, 'recipe.updated', ctx)
   }
 
   private async detectIngredientTypes(
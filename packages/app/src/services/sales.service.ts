@@ -0,0 +1,88 @@
+import { Inject, register } from '@harrytwright/api/dist/core'
+import { NotFound } from '@hndlr/errors'
+import type {
+  DatabaseContext,
+  MenuEngineeringReport,
+  SaleSource,
+  SalesPeriod,
+} from '@menubook/core'
+import {
+  ConfigService,
+  DashboardService,
+  IngredientService,
+  RecipeService,
+  SalesService,
+  SupplierService,
+} from '@menubook/core'
+
+import { DemoPersistenceManager } from '../datastore/sqlite.demo'
+import type { SaleApiData } from '../schemas'
+import IngredientServiceImpl from './ingredient.service'
+import RecipeServiceImpl from './recipe.service'
+
+// Basically a wrapper around the SalesService to work with the DI side of the webapp
+@register('singleton')
+export default class SalesServiceImpl {
+  readonly defaultSales: SalesService = new SalesService(this.ctx)
+  readonly defaultDashboard: DashboardService = new DashboardService(
+    this.ctx,
+    this.recipe.defaultRecipe,
+    this.ingredient.defaultIngredient,
+    this.conf
+  )
+
+  constructor(
+    @Inject('database') private readonly ctx: DatabaseContext,
+    @Inject('globalConfig') private readonly conf: ConfigService,
+    private readonly ingredient: IngredientServiceImpl,
+    private readonly recipe: RecipeServiceImpl,
+    private readonly demo: DemoPersistenceManager
+  ) {}
+
+  private sales(ctx?: DatabaseContext): SalesService {
+    const _ctx = ctx || this.demo.ctx()
+    return _ctx ? new SalesService(_ctx) : this.defaultSales
+  }
+
+  private dashboard(ctx?: DatabaseContext): DashboardService {
+    const _ctx = ctx || this.demo.ctx()
+    if (_ctx) {
+      const ingredient = new IngredientService(_ctx, new SupplierService(_ctx))
+      return new DashboardService(
+        _ctx,
+        new RecipeService(_ctx, ingredient, this.conf),
+        ingredient,
+        this.conf
+      )
+    }
+    return this.defaultDashboard
+  }
+
+  async record(data: SaleApiData, source: SaleSource, ctx?: DatabaseContext) {
+    if (!(await this.recipe.exists(data.recipe, ctx))) {
+      throw new NotFound(`Recipe with slug '${data.recipe}' not found`)
+    }
+
+    const { recipe, ...entry } = data
+    return this.sales(ctx).record(recipe, { ...entry, source })
+  }
+
+  find(period: SalesPeriod = {}, ctx?: DatabaseContext) {
+    return this.sales(ctx).find(period)
+  }
+
+  async delete(id: number, ctx?: DatabaseContext): Promise<boolean> {
+    const deleted = await this.sales(ctx).delete(id)
+    if (!deleted) {
+      throw new NotFound(`Sales entry '${id}' not found`)
+    }
+    return deleted
+  }
+
+  engineering(
+    period: SalesPeriod = {},
+    ctx?: DatabaseContext
+  ): Promise<MenuEngineeringReport> {
+    return this.dashboard(ctx).getMenuEngineering(period)
+  }
+}
@@ -0,0 +1,72 @@
+import { Inject, register } from '@harrytwright/api/dist/core'
+import { NotFound } from '@hndlr/errors'
+import type {
+  DatabaseContext,
+  VariancePeriod,
+  VarianceReport,
+} from '@menubook/core'
+import {
+  ConfigService,
+  IngredientService,
+  RecipeService,
+  SupplierService,
+  VarianceService,
+} from '@menubook/core'
+
+import { DemoPersistenceManager } from '../datastore/sqlite.demo'
+import type { SpendApiData } from '../schemas'
+import IngredientServiceImpl from './ingredient.service'
+import RecipeServiceImpl from './recipe.service'
+
+// Basically a wrapper around the VarianceService to work with the DI side of the webapp
+@register('singleton')
+export default class VarianceServiceImpl {
+  readonly defaultVariance: VarianceService = new VarianceService(
+    this.ctx,
+    this.recipe.defaultRecipe,
+    this.ingredient.defaultIngredient,
+    this.conf
+  )
+
+  constructor(
+    @Inject('database') private readonly ctx: DatabaseContext,
+    @Inject('globalConfig') private readonly conf: ConfigService,
+    private readonly ingredient: IngredientServiceImpl,
+    private readonly recipe: RecipeServiceImpl,
+    private readonly demo: DemoPersistenceManager
+  ) {}
+
+  private variance(ctx?: DatabaseContext): VarianceService {
+    const _ctx = ctx || this.demo.ctx()
+    if (_ctx) {
+      const ingredient = new IngredientService(_ctx, new SupplierService(_ctx))
+      return new VarianceService(
+        _ctx,
+        new RecipeService(_ctx, ingredient, this.conf),
+        ingredient,
+        this.conf
+      )
+    }
+    return this.defaultVariance
+  }
+
+  report(
+    period: VariancePeriod,
+    ctx?: DatabaseContext
+  ): Promise<VarianceReport> {
+    return this.variance(ctx).report(period)
+  }
+
+  findSpend(period: VariancePeriod, ctx?: DatabaseContext) {
+    return this.variance(ctx).findSpend(period)
+  }
+
+  async recordSpend(data: SpendApiData, ctx?: DatabaseContext) {
+    if (!(await this.ingredient.exists(data.ingredient, ctx))) {
+      throw new NotFound(`Ingredient with slug '${data.ingredient}' not found`)
+    }
+
+    const { ingredient, ...entry } = data
+    return this.variance(ctx).recordSpend(ingredient, entry)
+  }
+}
@@ -0,0 +1,189 @@
+import fs from 'fs/promises'
+import path from 'path'
+
+import log from '@harrytwright/logger'
+import { Command } from 'commander'
+
+import {
+  Calculator,
+  ConfigService,
+  ExportService,
+  IngredientService,
+  RecipeService,
+  SupplierService,
+} from '@menubook/core'
+import { createDatabaseContext } from '../lib/database'
+import { isInitialised } from '../utils/is-initialised'
+
+/**
+ * Export commands
+ *
+ * Printable documents and spreadsheets built from the database, written to
+ * a file in the current directory unless `--output` says otherwise. The YAML
+ * export is a directory of import files that `margin import` reads back into
+ * the same suppliers, ingredients and recipes, for moving between workspaces.
+ * It leaves out the price history, revisions and sales.
+ */
+
+async function services(cmd: Command, scope: string) {
+  const { location, working, database: dbName } = cmd.optsWithGlobals()
+
+  // Use location if provided, otherwise fall back to working (deprecated)
+  const locationDir = location || working
+
+  if (!(await isInitialised(locationDir))) {
+    log.error(
+      scope,
+      'margin is not yet initialised. Call `$ margin initialise` first'
+    )
+    process.exit(409)
+  }
+
+  const { context } = createDatabaseContext({
+    database: dbName,
+    locationDir,
+  })
+
+  const config = new ConfigService(locationDir)
+  const supplier = new SupplierService(context)
+  const ingredient = new IngredientService(context, supplier)
+  const recipe = new RecipeService(context, ingredient, config)
+
+  return {
+    config,
+    exporter: new ExportService(
+      context,
+      supplier,
+      ingredient,
+      recipe,
+      new Calculator(recipe, ingredient, config)
+    ),
+  }
+}
+
+async function write(file: string, data: Buffer, scope: string) {
+  const target = path.resolve(process.cwd(), file)
+  await fs.writeFile(target, data)
+  log.info(scope, `Wrote ${target}`)
+}
+
+async function writeAll(
+  dir: string,
+  files: Map<string, string>,
+  scope: string
+) {
+  const target = path.resolve(process.cwd(), dir)
+  for (const [file, content] of files) {
+    await fs.mkdir(path.dirname(path.join(target, file)), { recursive: true })
+    await fs.writeFile(path.join(target, file), content)
+  }
+  log.info(scope, `Wrote ${files.size} files to ${target}`)
+}
+
+const formats = ['xlsx', 'yaml'] as const
+type Format = (typeof formats)[number]
+
+const documents = ['recipe', 'costing-pack', 'supplier'] as const
+type Document = (typeof documents)[number]
+
+const pdf = new Command()
+  .name('pdf')
+  .description(
+    'Print a recipe spec card, the menu costing pack or a supplier order sheet'
+  )
+  .argument('<document>', `What to print: ${documents.join(', ')}`)
+  .argument('[slug]', 'The recipe or supplier, for spec cards and order sheets')
+  .option('-o, --output <file>', 'Where to write the PDF')
+  .action(async (document: Document, slug: string | undefined, opts, cmd) => {
+    log.silly('cli', { args: cmd.parent?.rawArgs }, cmd.parent?.rawArgs || [])
+
+    const { output } = cmd.optsWithGlobals()
+
+    if (!documents.includes(document)) {
+      log.error(
+        'export.pdf',
+        `Unknown document '${document}', expected one of ${documents.join(', ')}`
+      )
+      process.exit(1)
+    }
+
+    if (document !== 'costing-pack' && !slug) {
+      log.error('export.pdf', `A ${document} slug is required`)
+      process.exit(1)
+    }
+
+    const { config, exporter } = await services(cmd, 'export.pdf')
+
+    try {
+      const format = await config.getMoneyFormat()
+
+      switch (document) {
+        case 'recipe':
+          return await write(
+            output || `${slug}-spec-card.pdf`,
+            await exporter.exportRecipeSpecPDF(slug!, format),
+            'export.pdf'
+          )
+        case 'supplier':
+          return await write(
+            output || `${slug}-order-sheet.pdf`,
+            await exporter.exportSupplierOrderPDF(slug!, format),
+            'export.pdf'
+          )
+        case 'costing-pack':
+          return await write(
+            output || 'costing-pack.pdf',
+            await exporter.exportCostingPackPDF(format),
+            'export.pdf'
+          )
+      }
+    } catch (error: any) {
+      log.error('export.pdf', error.message)
+      process.exit(1)
+    }
+  })
+
+export const exportCommand = new Command()
+  .name('export')
+  .description(
+    'Export the data as a spreadsheet, or print documents with `export pdf`'
+  )
+  .option('--format <format>', `Format of the export: ${formats.join(', ')}`)
+  .option(
+    '-o, --output <file>',
+    'Where to write the export, a directory for yaml'
+  )
+  .action(async (opts, cmd) => {
+    log.silly('cli', { args: cmd.parent?.rawArgs }, cmd.parent?.rawArgs || [])
+
+    const { format: type, output } = cmd.optsWithGlobals()
+
+    if (!formats.includes(type)) {
+      log.error(
+        'export',
+        `Unsupported export format '${type ?? ''}', expected --format ${formats.join(' or ')}`
+      )
+      process.exit(1)
+    }
+
+    const { config, exporter } = await services(cmd, 'export')
+
+    try {
+      switch (type as Format) {
+        case 'xlsx':
+          return await write(
+            output || 'margin-export.xlsx',
+            await exporter.exportWorkbookXLSX(await config.getMoneyFormat()),
+            'export'
+          )
+        case 'yaml': {
+          const { files } = await exporter.exportAll({ roundTrip: true })
+          return await writeAll(output || 'margin-export', files, 'export')
+        }
+      }
+    } catch (error: any) {
+      log.error('export', error.message)
+      process.exit(1)
+    }
+  })
+  .addCommand(pdf)
@@ -14,6 +14,7 @@ import {
   Importer,
   IngredientService,
   RecipeService,
+  SalesService,
   SupplierService,
 } from '@menubook/core'
 import { createDatabaseContext } from '../lib/database'
@@ -26,6 +27,146 @@ import { isInitialised } from '../utils/is-initialised'
  * Automatically detects entity types from YAML/JSON files
  */
 
+/**
+ * POS sales import
+ *
+ * Imports sales exports (CSV) and manages how POS item names or PLUs map
+ * onto recipes. Exports with no date column are per-item totals for the
+ * period given with `--from` and `--to`. Items that can't be matched are
+ * listed so they can be mapped with `--map` or hidden with `--ignore`, then
+ * the export re-imported.
+ */
+
+const collect = (value: string, total: string[]) => [...total, value]
+
+const sales = new Command()
+  .name('sales')
+  .description('Import POS sales exports (CSV) and map their items to recipes')
+  .argument(
+    '[files...]',
+    'CSV sales exports with date, item (name or PLU), quantity and optional gross revenue columns',
+    (value, total = []) => {
+      return [...(total as string[]), path.resolve(process.cwd(), value)]
+    },
+    [] as string[]
+  )
+  .option(
+    '--map <item=slug>',
+    'Map a POS item name or PLU to a recipe (repeatable)',
+    collect,
+    [] as string[]
+  )
+  .option(
+    '--ignore <item>',
+    'Stop reporting a POS item that is not a recipe (repeatable)',
+    collect,
+    [] as string[]
+  )
+  .option(
+    '--from <date>',
+    'First day covered by exports without a date column (YYYY-MM-DD)'
+  )
+  .option(
+    '--to <date>',
+    'Last day covered by exports without a date column (YYYY-MM-DD)'
+  )
+  .option('--fail-fast', 'Stop on first error instead of continuing', false)
+  .action(async (files: string[], opts, cmd) => {
+    log.silly('cli', { args: cmd.parent?.rawArgs }, cmd.parent?.rawArgs || [])
+
+    const {
+      location,
+      working,
+      database: dbName,
+      failFast,
+      map,
+      ignore,
+      from,
+      to,
+    } = cmd.optsWithGlobals()
+
+    // Use location if provided, otherwise fall back to working (deprecated)
+    const locationDir = location || working
+
+    if (!(await isInitialised(locationDir))) {
+      log.error(
+        'import.sales',
+        'margin is not yet initialised. Call `$ margin initialise` first'
+      )
+      process.exit(409)
+    }
+
+    if (Boolean(from) !== Boolean(to)) {
+      log.error('import.sales', 'Give both --from and --to for the period')
+      process.exit(1)
+    }
+
+    const { context } = createDatabaseContext({
+      database: dbName,
+      locationDir,
+    })
+
+    const service = new SalesService(context)
+
+    try {
+      for (const pair of map as string[]) {
+        const index = pair.lastIndexOf('=')
+        if (index <= 0) {
+          throw new Error(
+            `Invalid mapping '${pair}', expected '<item>=<recipe-slug>'`
+          )
+        }
+
+        await service.map(pair.slice(0, index).trim(), pair.slice(index + 1))
+      }
+
+      for (const item of ignore as string[]) {
+        await service.ignore(item)
+      }
+    } catch (error: any) {
+      log.error('import.sales', error.message)
+      process.exit(1)
+    }
+
+    if (files.length) {
+      const period = from && to ? { from, to } : undefined
+      const importer = new Importer(context, {
+        failFast,
+        processors: [
+          [
+            'sales',
+            {
+              processor: (importer, data, filePath) =>
+                service.processor(importer, { period, ...data }, filePath),
+            },
+          ],
+        ],
+      })
+
+      let spinner = ora('Importing sales')
+      const { stats } = await importer.import(files)
+      spinner.succeed('Saved to database')
+
+      logSummary(importer, stats, failFast)
+    }
+
+    const unmapped = await service.unmapped()
+    if (unmapped.length === 0) {
+      log.info('import.sales', 'All POS items are mapped')
+      return
+    }
+
+    log.warn(
+      'import.sales',
+      `${unmapped.length} POS item(s) are not mapped to a recipe, their sales were skipped:`
+    )
+    unmapped.forEach((item) => log.warn('import.sales', `  ${item}`))
+    log.warn(
+      'import.sales',
+      "Resolve them with --map '<item>=<recipe-slug>' or --ignore '<item>', then import the export again"
+    )
+  })
+
 export const importCommand = new Command()
   .name('import')
   .description(
@@ -42,6 +183,7 @@ export const importCommand = new Command()
   .option('--root [dir]', 'Set the project root directory for @/ references')
   .option('--fail-fast', 'Stop on first error instead of continuing', false)
   .option('--watch', 'Stay running and watch for file changes')
+  .addCommand(sales)
   .action(async (files, opts, cmd) => {
     log.silly('cli', { args: cmd.parent?.rawArgs }, cmd.parent?.rawArgs || [])
 
@@ -78,6 +220,7 @@ export const importCommand = new Command()
     const supplier = new SupplierService(context)
     const ingredient = new IngredientService(context, supplier)
     const recipe = new RecipeService(context, ingredient, config)
+    const sales = new SalesService(context)
 
     const dataDir = path.resolve(process.cwd(), workspaceDir)
 
@@ -89,6 +232,7 @@ export const importCommand = new Command()
           ['supplier', supplier],
           ['ingredient', ingredient],
           ['recipe', recipe],
+          ['sales', sales],
         ],
       })
 
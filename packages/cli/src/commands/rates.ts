@@ -0,0 +1,130 @@
+import fs from 'fs/promises'
+import path from 'path'
+
+import log from '@harrytwright/logger'
+import { Command } from 'commander'
+
+import {
+  ConfigService,
+  ExchangeRateService,
+  parseExchangeRatesCSV,
+} from '@menubook/core'
+import { createDatabaseContext } from '../lib/database'
+import { ExchangeRateReporter } from '../reporters/ExchangeRateReporter'
+import { isInitialised } from '../utils/is-initialised'
+
+/**
+ * Exchange rate commands
+ *
+ * Rates convert ingredients bought in another currency into the base
+ * currency set in margin.toml. They are kept by hand, nothing is fetched.
+ */
+
+async function services(cmd: Command, scope: string) {
+  const { location, working, database: dbName } = cmd.optsWithGlobals()
+
+  // Use location if provided, otherwise fall back to working (deprecated)
+  const locationDir = location || working
+
+  if (!(await isInitialised(locationDir))) {
+    log.error(
+      scope,
+      'margin is not yet initialised. Call `$ margin initialise` first'
+    )
+    process.exit(409)
+  }
+
+  const { context } = createDatabaseContext({
+    database: dbName,
+    locationDir,
+  })
+
+  return {
+    config: new ConfigService(locationDir),
+    rates: new ExchangeRateService(context),
+  }
+}
+
+const set = new Command()
+  .name('set')
+  .description('Set the rate for a currency, e.g. `rates set EUR 0.86`')
+  .argument('<currency>', 'ISO 4217 code of the foreign currency')
+  .argument('<rate>', 'Base currency units one unit of the currency buys')
+  .option('--from <date>', 'Day the rate starts applying (YYYY-MM-DD)')
+  .action(async (currency: string, rate: string, opts, cmd) => {
+    log.silly('cli', { args: cmd.parent?.rawArgs }, cmd.parent?.rawArgs || [])
+
+    const { from } = cmd.optsWithGlobals()
+    const { config, rates } = await services(cmd, 'rates.set')
+
+    try {
+      const saved = await rates.set({
+        currency,
+        rate: Number(rate),
+        effectiveFrom: from,
+      })
+      log.info(
+        'rates.set',
+        `1 ${saved.currency} = ${Number(saved.rate)} ${await config.getCurrency()} from ${saved.effectiveFrom}`
+      )
+    } catch (error: any) {
+      log.error('rates.set', error.message)
+      process.exit(1)
+    }
+  })
+
+const importer = new Command()
+  .name('import')
+  .description(
+    'Set the rates in a CSV file with currency, rate and date columns'
+  )
+  .argument('<file>', 'Exchange rates CSV')
+  .action(async (file: string, opts, cmd) => {
+    log.silly('cli', { args: cmd.parent?.rawArgs }, cmd.parent?.rawArgs || [])
+
+    let rows
+    try {
+      rows = parseExchangeRatesCSV(
+        await fs.readFile(path.resolve(process.cwd(), file), 'utf8')
+      )
+    } catch (error: any) {
+      log.error('rates.import', error.message)
+      process.exit(1)
+    }
+
+    const { rates } = await services(cmd, 'rates.import')
+
+    try {
+      const saved = await rates.setAll(rows)
+      log.info('rates.import', `Set ${saved.length} exchange rate(s)`)
+    } catch (error: any) {
+      log.error('rates.import', error.message)
+      process.exit(1)
+    }
+  })
+
+const list = new Command()
+  .name('list')
+  .description('List the exchange rates, newest first')
+  .argument('[currency]', 'Only list the rates for this currency')
+  .option('--json', 'Output results as JSON', false)
+  .action(async (currency: string | undefined, opts, cmd) => {
+    log.silly('cli', { args: cmd.parent?.rawArgs }, cmd.parent?.rawArgs || [])
+
+    const { json } = cmd.optsWithGlobals()
+    const { config, rates } = await services(cmd, 'rates.list')
+
+    new ExchangeRateReporter(json).report(
+      await rates.find(currency),
+      await config.getCurrency()
+    )
+  })
+
+export const rates = new Command()
+  .name('rates')
+  .description(
+    'Handle the exchange rates for ingredients bought in other currencies'
+  )
+  .addCommand(set)
+  .addCommand(importer)
+  .addCommand(list)
@@ -9,14 +9,20 @@ import {
   ConfigService,
   Importer,
   IngredientService,
+  parseSimulationOverride,
   RecipeService,
+  Simulator,
   SupplierService,
 } from '@menubook/core'
 import { createDatabaseContext } from '../lib/database'
 import { runCalculations } from '../lib/runner'
+import { BatchSheetReporter } from '../reporters/BatchSheetReporter'
 import { DefaultReporter } from '../reporters/DefaultReporter'
 import { JSONReporter } from '../reporters/JSONReporter'
+import { RepriceReporter } from '../reporters/RepriceReporter'
+import { SimulationReporter } from '../reporters/SimulationReporter'
 import { SummaryReporter } from '../reporters/SummaryReporter'
+import type { RepriceChange } from '../reporters/types'
 import { isInitialised } from '../utils/is-initialised'
 
 /**
@@ -116,10 +122,17 @@ const calculate = new Command()
   .description('Calculate cost and margin for one or more recipes')
   .argument('<slugs...>', 'Recipe slugs to calculate')
   .option('--json', 'Output results as JSON', false)
+  .option('--strict', 'Fail when any recipe line could not be costed', false)
   .action(async (slugs: string[], opts, cmd) => {
     log.silly('cli', { args: cmd.parent?.rawArgs }, cmd.parent?.rawArgs || [])
 
-    const { location, working, database: dbName, json } = cmd.optsWithGlobals()
+    const {
+      location,
+      working,
+      database: dbName,
+      json,
+      strict,
+    } = cmd.optsWithGlobals()
 
     // Use location if provided, otherwise fall back to working (deprecated)
     const locationDir = location || working
@@ -147,7 +160,10 @@ const calculate = new Command()
     const calculator = new Calculator(recipeService, ingredient, config)
 
     // Choose reporter based on --json flag
-    const reporter = json ? new JSONReporter() : new DefaultReporter()
+    const moneyFormat = await config.getMoneyFormat()
+    const reporter = json
+      ? new JSONReporter(moneyFormat)
+      : new DefaultReporter(moneyFormat)
 
     // Run calculations
     const results = await runCalculations(
@@ -162,6 +178,16 @@ const calculate = new Command()
     if (failed > 0) {
       process.exit(1)
     }
+
+    const issues = results.results.flatMap((r) => r.success?.cost.issues ?? [])
+    if (strict && issues.length > 0) {
+      log.error(
+        'recipe.calculate',
+        '%d recipe line(s) could not be costed, failing in strict mode',
+        issues.length
+      )
+      process.exit(1)
+    }
   })
 
 /**
@@ -216,7 +242,10 @@ const report = new Command()
     const calculator = new Calculator(recipeService, ingredient, config)
 
     // Choose reporter based on --json flag
-    const reporter = json ? new JSONReporter() : new SummaryReporter()
+    const moneyFormat = await config.getMoneyFormat()
+    const reporter = json
+      ? new JSONReporter(moneyFormat)
+      : new SummaryReporter(moneyFormat)
 
     // Run calculations
     const results = await runCalculations(
@@ -233,6 +262,243 @@ const report = new Command()
     }
   })
 
+/**
+ * Reprice command
+ * */
+
+const reprice = new Command()
+  .name('reprice')
+  .description(
+    "Suggest sell prices that meet each recipe's target margin, optionally saving them"
+  )
+  .argument('[slugs...]', 'Recipe slugs to reprice (default: all menu items)')
+  .option('--apply', 'Write the suggested prices back to the recipes', false)
+  .option(
+    '--all',
+    'Also reprice recipes that already meet their target (may lower prices)',
+    false
+  )
+  .option('--json', 'Output results as JSON', false)
+  .action(async (slugs: string[], opts, cmd) => {
+    log.silly('cli', { args: cmd.parent?.rawArgs }, cmd.parent?.rawArgs || [])
+
+    const {
+      location,
+      working,
+      database: dbName,
+      apply,
+      all,
+      json,
+    } = cmd.optsWithGlobals()
+
+    // Use location if provided, otherwise fall back to working (deprecated)
+    const locationDir = location || working
+
+    if (!(await isInitialised(locationDir))) {
+      log.error(
+        'recipe.reprice',
+        'margin is not yet initialised. Call `$ margin initialise` first'
+      )
+      process.exit(409)
+    }
+
+    const { context } = createDatabaseContext({
+      database: dbName,
+      locationDir,
+    })
+
+    // Initialize services
+    const config = new ConfigService(locationDir)
+    const supplier = new SupplierService(context)
+    const ingredient = new IngredientService(context, supplier)
+    const recipeService = new RecipeService(context, ingredient, config)
+
+    if (slugs.length === 0) {
+      const menuItems = await context.db
+        .selectFrom('Recipe')
+        .select('slug')
+        .where('class', '=', 'menu_item')
+        .execute()
+
+      slugs = menuItems.map((r) => r.slug)
+    }
+
+    if (slugs.length === 0) {
+      log.warn('recipe.reprice', 'No recipes found in database')
+      return
+    }
+
+    const calculator = new Calculator(recipeService, ingredient, config)
+    const reporter = new RepriceReporter(json, await config.getMoneyFormat())
+
+    const results = await runCalculations(
+      calculator,
+      recipeService,
+      slugs,
+      reporter
+    )
+
+    const changes: RepriceChange[] = []
+    for (const { recipe, success } of results.results) {
+      if (!success?.pricing) continue
+      if (!all && success.margin.meetsTarget) continue
+      if (success.pricing.sellPrice === recipe.sellPrice) continue
+
+      changes.push({
+        slug: recipe.slug,
+        name: recipe.name,
+        from: recipe.sellPrice,
+        to: success.pricing.sellPrice,
+        margin: success.margin,
+        pricing: success.pricing,
+      })
+    }
+
+    if (apply) {
+      for (const change of changes) {
+        await recipeService.updateSellPrice(change.slug, change.to, 'cli')
+      }
+    }
+
+    reporter.report(changes, apply)
+
+    // Exit with error code if any failures
+    const failed = results.results.filter((r: any) => r.failureMessage).length
+    if (failed > 0) {
+      process.exit(1)
+    }
+  })
+
+/**
+ * Simulate command
+ * */
+
+const simulate = new Command()
+  .name('simulate')
+  .description('Show how hypothetical price changes would affect margins')
+  .argument(
+    '<overrides...>',
+    "Overrides such as 'cheddar +15%', 'price category:burgers +50p' or 'vat 0.125'"
+  )
+  .option('--recipes <slugs...>', 'Only simulate these recipes')
+  .option('--json', 'Output results as JSON', false)
+  .action(async (overrides: string[], opts, cmd) => {
+    log.silly('cli', { args: cmd.parent?.rawArgs }, cmd.parent?.rawArgs || [])
+
+    const {
+      location,
+      working,
+      database: dbName,
+      recipes,
+      json,
+    } = cmd.optsWithGlobals()
+
+    // Use location if provided, otherwise fall back to working (deprecated)
+    const locationDir = location || working
+
+    if (!(await isInitialised(locationDir))) {
+      log.error(
+        'recipe.simulate',
+        'margin is not yet initialised. Call `$ margin initialise` first'
+      )
+      process.exit(409)
+    }
+
+    let parsed
+    try {
+      parsed = overrides.map(parseSimulationOverride)
+    } catch (error: any) {
+      log.error('recipe.simulate', error.message)
+      process.exit(1)
+    }
+
+    const { context } = createDatabaseContext({
+      database: dbName,
+      locationDir,
+    })
+
+    // Initialize services
+    const config = new ConfigService(locationDir)
+    const supplier = new SupplierService(context)
+    const ingredient = new IngredientService(context, supplier)
+    const recipeService = new RecipeService(context, ingredient, config)
+
+    const simulator = new Simulator(recipeService, ingredient, config)
+    const result = await simulator.run(parsed, recipes)
+
+    new SimulationReporter(json, await config.getMoneyFormat()).report(result)
+
+    if (result.failures.length > 0) {
+      process.exit(1)
+    }
+  })
+
+/**
+ * Scale command
+ * */
+
+const scale = new Command()
+  .name('scale')
+  .description('Scale a recipe into a batch sheet')
+  .argument('<slug>', 'Recipe slug to scale')
+  .option('--portions <count>', 'Number of portions to make', parseFloat)
+  .option('--yield <amount>', "Target yield, such as '5l' or '2.5kg'")
+  .option('--json', 'Output results as JSON', false)
+  .action(async (slug: string, opts, cmd) => {
+    log.silly('cli', { args: cmd.parent?.rawArgs }, cmd.parent?.rawArgs || [])
+
+    const {
+      location,
+      working,
+      database: dbName,
+      portions,
+      yield: target,
+      json,
+    } = cmd.optsWithGlobals()
+
+    // Use location if provided, otherwise fall back to working (deprecated)
+    const locationDir = location || working
+
+    if (!(await isInitialised(locationDir))) {
+      log.error(
+        'recipe.scale',
+        'margin is not yet initialised. Call `$ margin initialise` first'
+      )
+      process.exit(409)
+    }
+
+    if ((portions === undefined) === (target === undefined)) {
+      log.error('recipe.scale', 'Scale to either --portions or a --yield')
+      process.exit(1)
+    }
+
+    const { context } = createDatabaseContext({
+      database: dbName,
+      locationDir,
+    })
+
+    // Initialize services
+    const config = new ConfigService(locationDir)
+    const supplier = new SupplierService(context)
+    const ingredient = new IngredientService(context, supplier)
+    const recipeService = new RecipeService(context, ingredient, config)
+
+    const calculator = new Calculator(recipeService, ingredient, config)
+
+    let batch
+    try {
+      batch = await calculator.scaleRecipe(
+        slug,
+        portions !== undefined ? { portions } : { yield: target }
+      )
+    } catch (error: any) {
+      log.error('recipe.scale', error.message)
+      process.exit(1)
+    }
+
+    new BatchSheetReporter(json, await config.getMoneyFormat()).report(batch)
+  })
+
 /**
  * Main command
  * */
@@ -243,3 +509,6 @@ export const recipe = new Command()
   .addCommand(importer)
   .addCommand(calculate)
   .addCommand(report)
+  .addCommand(reprice)
+  .addCommand(simulate)
+  .addCommand(scale)
@@ -0,0 +1,77 @@
+import log from '@harrytwright/logger'
+import { Command } from 'commander'
+
+import {
+  ConfigService,
+  IngredientService,
+  RecipeService,
+  SupplierService,
+  VarianceService,
+} from '@menubook/core'
+import { createDatabaseContext } from '../lib/database'
+import { VarianceReporter } from '../reporters/VarianceReporter'
+import { isInitialised } from '../utils/is-initialised'
+
+/**
+ * Variance command
+ *
+ * Theoretical food cost of the sales recorded over a period against the
+ * spend entered for it, broken down by category and ingredient
+ */
+
+const variance = new Command()
+  .name('variance')
+  .description('Compare theoretical food cost with actual spend over a period')
+  .requiredOption('--from <date>', 'First day of the period (YYYY-MM-DD)')
+  .requiredOption('--to <date>', 'Last day of the period (YYYY-MM-DD)')
+  .option('--json', 'Output results as JSON', false)
+  .action(async (opts, cmd) => {
+    log.silly('cli', { args: cmd.parent?.rawArgs }, cmd.parent?.rawArgs || [])
+
+    const {
+      location,
+      working,
+      database: dbName,
+      from,
+      to,
+      json,
+    } = cmd.optsWithGlobals()
+
+    // Use location if provided, otherwise fall back to working (deprecated)
+    const locationDir = location || working
+
+    if (!(await isInitialised(locationDir))) {
+      log.error(
+        'report.variance',
+        'margin is not yet initialised. Call `$ margin initialise` first'
+      )
+      process.exit(409)
+    }
+
+    const { context } = createDatabaseContext({
+      database: dbName,
+      locationDir,
+    })
+
+    // Initialize services
+    const config = new ConfigService(locationDir)
+    const supplier = new SupplierService(context)
+    const ingredient = new IngredientService(context, supplier)
+    const recipe = new RecipeService(context, ingredient, config)
+
+    const service = new VarianceService(context, recipe, ingredient, config)
+
+    try {
+      new VarianceReporter(json, await config.getMoneyFormat()).report(
+        await service.report({ from, to })
+      )
+    } catch (error: any) {
+      log.error('report.variance', error.message)
+      process.exit(1)
+    }
+  })
+
+export const report = new Command()
+  .name('report')
+  .description('Reports across recipes, sales and spend')
+  .addCommand(variance)
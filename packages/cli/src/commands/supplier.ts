@@ -1,11 +1,21 @@
+import fs from 'fs/promises'
 import path from 'path'
 
 import log from '@harrytwright/logger'
 import { Command } from 'commander'
 import ora from 'ora'
 
-import { Importer, SupplierService } from '@menubook/core'
+import {
+  ConfigService,
+  Importer,
+  IngredientService,
+  parsePriceListCSV,
+  PriceListService,
+  RecipeService,
+  SupplierService,
+} from '@menubook/core'
 import { createDatabaseContext } from '../lib/database'
+import { PriceListReporter } from '../reporters/PriceListReporter'
 import { isInitialised } from '../utils/is-initialised'
 
 /**
@@ -89,6 +99,83 @@ const importer = new Command()
     }
   })
 
+/**
+ * Price list commands
+ * */
+
+const pricesImport = new Command()
+  .name('import')
+  .description(
+    "Update ingredient prices from a supplier's CSV price list, matched by SKU or name"
+  )
+  .argument('<supplier>', 'Slug of the supplier the price list is from')
+  .argument('<file>', 'Price list CSV with a price and a SKU or name column')
+  .option('--apply', 'Save the new prices, otherwise only preview them', false)
+  .option('--json', 'Output results as JSON', false)
+  .action(async (supplierSlug: string, file: string, opts, cmd) => {
+    log.silly('cli', { args: cmd.parent?.rawArgs }, cmd.parent?.rawArgs || [])
+
+    const {
+      location,
+      working,
+      database: dbName,
+      apply,
+      json,
+    } = cmd.optsWithGlobals()
+
+    // Use location if provided, otherwise fall back to working (deprecated)
+    const locationDir = location || working
+
+    if (!(await isInitialised(locationDir))) {
+      log.error(
+        'supplier.prices',
+        'margin is not yet initialised. Call `$ margin initialise` first'
+      )
+      process.exit(409)
+    }
+
+    let rows
+    try {
+      rows = parsePriceListCSV(
+        await fs.readFile(path.resolve(process.cwd(), file), 'utf8')
+      )
+    } catch (error: any) {
+      log.error('supplier.prices', error.message)
+      process.exit(1)
+    }
+
+    const { context } = createDatabaseContext({
+      database: dbName,
+      locationDir,
+    })
+
+    // Initialize services
+    const config = new ConfigService(locationDir)
+    const supplier = new SupplierService(context)
+    const ingredient = new IngredientService(context, supplier)
+    const recipe = new RecipeService(context, ingredient, config)
+    const service = new PriceListService(context, ingredient, recipe, config)
+
+    try {
+      const preview = apply
+        ? await service.apply(supplierSlug, rows, 'import')
+        : await service.preview(supplierSlug, rows)
+
+      new PriceListReporter(json, await config.getMoneyFormat()).report(
+        preview,
+        apply
+      )
+    } catch (error: any) {
+      log.error('supplier.prices', error.message)
+      process.exit(1)
+    }
+  })
+
+const prices = new Command()
+  .name('prices')
+  .description("Handle a supplier's price lists")
+  .addCommand(pricesImport)
+
 /**
  * Main command
  * */
@@ -97,3 +184,4 @@ export const supplier = new Command()
   .name('supplier')
   .description('Handle the suppliers within the database')
   .addCommand(importer)
+  .addCommand(prices)
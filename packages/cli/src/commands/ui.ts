@@ -91,8 +91,8 @@ export const ui = new Command()
         // port: parseInt(port, 10),
         database: context,
         location: locationDir,
-        // workspaceDir,
-        // storageMode: realmConfig.storageMode,
+        workspaceDir,
+        storageMode: realmConfig.storageMode,
         openBrowser: open,
         // watchFiles: realmConfig.watchFiles,
       })
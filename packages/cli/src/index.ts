@@ -10,10 +10,13 @@ import {
   DEFAULT_WORKING_DIR,
   DEFAULT_WORKSPACE_DIR,
 } from '@menubook/core'
+import { exportCommand } from './commands/export'
 import { importCommand } from './commands/import'
 import { ingredient } from './commands/ingredient'
 import { initialise } from './commands/initialise'
+import { rates } from './commands/rates'
 import { recipe } from './commands/recipe'
+import { report } from './commands/report'
 import { supplier } from './commands/supplier'
 import { ui } from './commands/ui'
 import { getPackageInfo } from './utils/package-info'
@@ -84,6 +87,9 @@ async function main() {
     .addCommand(supplier)
     .addCommand(ingredient)
     .addCommand(recipe)
+    .addCommand(rates)
+    .addCommand(report)
+    .addCommand(exportCommand)
     .addCommand(ui)
 
   program.parse()
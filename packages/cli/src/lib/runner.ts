@@ -48,10 +48,11 @@ export async function runCalculations(
     try {
       const cost = await calculator.cost(slug)
       const margin = await calculator.margin(cost)
+      const pricing = await calculator.suggestPrice(cost)
 
       const result: CalculationResult = {
         recipe: recipeData,
-        success: { cost, margin },
+        success: { cost, margin, pricing },
       }
 
       aggregated.results.push(result)
@@ -1,14 +1,25 @@
 import { WriteStream } from 'tty'
 
-import type { RecipeWithIngredients } from '@menubook/core'
+import type { MoneyFormat, RecipeWithIngredients } from '@menubook/core'
+import { DEFAULT_MONEY_FORMAT, formatMoney } from '@menubook/core'
 import isInteractive from '../utils/isInteractive'
 import { AggregatedResults, CalculationResult, Reporter } from './types'
 
 export default class BaseReporter implements Reporter {
+  // Currency and locale from margin.toml
+  constructor(
+    protected readonly moneyFormat: MoneyFormat = DEFAULT_MONEY_FORMAT
+  ) {}
+
   log(message: string): void {
     process.stderr.write(`${message}\n`)
   }
 
+  // Format a value in minor units, e.g. 1250 -> £12.50
+  protected money(amount: number): string {
+    return formatMoney(amount, this.moneyFormat)
+  }
+
   onStart(recipes: RecipeWithIngredients<false>[]): void | Promise<void> {}
 
   onCalculation(
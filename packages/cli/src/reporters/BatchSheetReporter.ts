@@ -0,0 +1,69 @@
+import chalk from 'chalk'
+
+import type {
+  MoneyFormat,
+  ScaledRecipe,
+  ScaledRecipeLine,
+} from '@menubook/core'
+import BaseReporter from './BaseReporter'
+
+export class BatchSheetReporter extends BaseReporter {
+  constructor(
+    private readonly json: boolean = false,
+    moneyFormat?: MoneyFormat
+  ) {
+    super(moneyFormat)
+  }
+
+  report(batch: ScaledRecipe): void {
+    if (this.json) {
+      // Write to stdout (not stderr like log())
+      process.stdout.write(JSON.stringify(batch, null, 2) + '\n')
+      return
+    }
+
+    const size =
+      batch.portions !== null
+        ? `${batch.portions} portions`
+        : batch.yield
+          ? `${batch.yield.amount} ${batch.yield.unit}`
+          : `${batch.factor}×`
+
+    this.log('')
+    this.log(`⚙ ${chalk.bold(batch.recipe.name)}, batch of ${size}`)
+    this.log('')
+    this.lines(batch.lines, 1)
+    this.log('')
+    this.log(`  Food cost: ${chalk.cyan(this.money(batch.totalCost))}`)
+    if (batch.labourCost > 0) {
+      this.log(`  Labour:    ${this.money(batch.labourCost)}`)
+    }
+
+    if (batch.issues.length > 0) {
+      this.log('')
+      this.log(
+        `${chalk.yellow('⚠')} ${batch.issues.length} line(s) could not be costed, the cost is understated`
+      )
+    }
+    this.log('')
+  }
+
+  private lines(lines: ScaledRecipeLine[], depth: number) {
+    const indent = '  '.repeat(depth)
+
+    for (const line of lines) {
+      // Only worth showing what to weigh out when losses change it
+      const gross =
+        line.grossAmount !== line.amount
+          ? chalk.dim(` (weigh ${line.grossAmount} ${line.unit})`)
+          : ''
+      const warning = line.warning ? ` ${chalk.yellow('⚠')}` : ''
+
+      this.log(
+        `${indent}${line.amount} ${line.unit} ${line.name}${gross} ${chalk.dim(this.money(line.cost))}${warning}`
+      )
+
+      if (line.children) this.lines(line.children, depth + 1)
+    }
+  }
+}
@@ -25,8 +25,14 @@ export class DefaultReporter extends BaseReporter {
     this.log(chalk.bold(`Summary:`))
     this.log('')
 
+    const withIssues = aggregated.results.filter(
+      (r) => r.success?.cost.issues.length
+    ).length
+
     this.log(`${chalk.green('✓')} ${succeeded} succeeded`)
     if (failed > 0) this.log(`${chalk.red('✗')} ${failed} failed`)
+    if (withIssues > 0)
+      this.log(`${chalk.yellow('⚠')} ${withIssues} with costing issues`)
     this.log(`⏱ Completed in ${elapsed}ms`)
     this.log(chalk.reset``)
   }
@@ -46,19 +52,67 @@ export class DefaultReporter extends BaseReporter {
     this.log(`> ${chalk.bold(recipe.name)} (${recipe.slug})`)
     this.log(`${os.EOL}Cost Breakdown:`)
     this.prettyTree(cost.tree)
-    this.log(`  ✨ Total Cost: £${margin.cost}`)
+    this.log(`  ✨ Total Cost: ${this.money(margin.cost)}`)
+
+    if (cost.costLines.length > 0) {
+      this.log(`${os.EOL}Other Costs:`)
+      for (const line of cost.costLines) {
+        const text = `  ${line.name}: ${this.money(line.cost)} (${line.unit})`
+        this.log(line.warning ? `${text} ${chalk.yellow('⚠')}` : text)
+      }
+    }
+
+    if (cost.issues.length > 0) {
+      this.log('')
+      this.log(chalk.yellow('Issues (total cost is unreliable):'))
+      for (const issue of cost.issues) {
+        const where =
+          issue.recipe === recipe.slug
+            ? `line ${issue.line}`
+            : `line ${issue.line} of ${issue.recipe}`
+        this.log(chalk.yellow(`  ⚠ ${where}, ${issue.slug}: ${issue.message}`))
+      }
+    }
 
     this.log('')
     this.log('Pricing & Margin')
-    this.log(`  Sell Price: £${margin.sellPrice} (ex-VAT)`)
+    this.log(`  Sell Price: ${this.money(margin.sellPrice)} (ex-VAT)`)
     this.log(
-      `  Customer Price: £${margin.customerPrice} (${margin.vatApplicable ? `inc VAT £${margin.vatAmount}` : 'VAT not applicable'})`
+      `  Customer Price: ${this.money(margin.customerPrice)} (${margin.vatApplicable ? `inc VAT ${this.money(margin.vatAmount)}` : 'VAT not applicable'})`
     )
-    this.log(`  Profit: £${margin.profit}`)
+    this.log(`  Profit: ${this.money(margin.profit)}`)
     this.log(
       `  Margin: ${(margin.meetsTarget ? chalk.green : chalk.red)(`${margin.actualMargin}%`)} (target: ${margin.targetMargin}%)`
     )
 
+    if (margin.labourCost > 0) {
+      this.log(`  Labour: ${this.money(margin.labourCost)}`)
+      this.log(
+        `  Prime Cost: ${this.money(margin.primeCost)} (prime margin: ${margin.primeMargin}%)`
+      )
+    }
+
+    if (margin.nonFoodCost > 0) {
+      this.log(`  Non-food: ${this.money(margin.nonFoodCost)}`)
+      this.log(
+        `  Contribution: ${this.money(margin.contribution)} (contribution margin: ${margin.contributionMargin}%)`
+      )
+    }
+
+    if (margin.bands.length > 0) {
+      this.log('')
+      this.log('Price Bands')
+      for (const band of margin.bands) {
+        const commission =
+          band.commission > 0
+            ? `, commission ${this.money(band.commission)}`
+            : ''
+        this.log(
+          `  ${band.band}: ${this.money(band.customerPrice)}${commission}, margin ${(band.meetsTarget ? chalk.green : chalk.red)(`${band.actualMargin}%`)}`
+        )
+      }
+    }
+
     this.log('')
     this.log(
       chalk.italic`(${aggregated.numComplete}/${aggregated.numTotal} complete)`
@@ -77,11 +131,15 @@ export class DefaultReporter extends BaseReporter {
 
       // Build the current line
       const connector = isLast ? '└── ' : '├── '
+      const quantity =
+        node.grossAmount !== node.amount
+          ? `${node.amount} ${node.unit} net, ${node.grossAmount} ${node.unit} gross`
+          : `${node.amount} ${node.unit}`
       const line =
         prefix +
         connector +
-        `${node.name}: £${node.cost} (${node.amount} ${node.unit})`
-      this.log(line)
+        `${node.name}: ${this.money(node.cost)} (${quantity})`
+      this.log(node.warning ? `${line} ${chalk.yellow('⚠')}` : line)
 
       // Recursively print children with updated prefix
       if (node.children) {
@@ -0,0 +1,41 @@
+import type { DBExchangeRate } from '@menubook/core'
+import BaseReporter from './BaseReporter'
+
+export class ExchangeRateReporter extends BaseReporter {
+  constructor(private readonly json: boolean = false) {
+    super()
+  }
+
+  report(rates: DBExchangeRate[], base: string): void {
+    if (this.json) {
+      // Write to stdout (not stderr like log())
+      process.stdout.write(
+        JSON.stringify(
+          {
+            base,
+            rates: rates.map((rate) => ({ ...rate, rate: Number(rate.rate) })),
+          },
+          null,
+          2
+        ) + '\n'
+      )
+      return
+    }
+
+    this.log('')
+    if (rates.length === 0) {
+      this.log(`No exchange rates into ${base}`)
+      this.log('')
+      return
+    }
+
+    this.log(`⚙ Exchange rates into ${base}`)
+    this.log('')
+    for (const rate of rates) {
+      this.log(
+        `  1 ${rate.currency} = ${Number(rate.rate)} ${base} from ${rate.effectiveFrom}`
+      )
+    }
+    this.log('')
+  }
+}
@@ -9,6 +9,8 @@ export class JSONReporter extends BaseReporter {
         succeeded: aggregated.results.filter((r) => r.success).length,
         failed: aggregated.results.filter((r) => r.failureMessage).length,
         duration: Date.now() - aggregated.startTime,
+        // Amounts are in this currency's minor unit
+        currency: this.moneyFormat.currency,
       },
       results: aggregated.results.map((result) => {
         if (result.failureMessage) {
@@ -20,7 +22,7 @@ export class JSONReporter extends BaseReporter {
           }
         }
 
-        const { cost, margin } = result.success!
+        const { cost, margin, pricing } = result.success!
 
         return {
           slug: result.recipe.slug,
@@ -29,6 +31,8 @@ export class JSONReporter extends BaseReporter {
           cost: {
             total: margin.cost,
             breakdown: cost.tree,
+            issues: cost.issues,
+            costLines: cost.costLines,
           },
           margin: {
             sellPrice: margin.sellPrice,
@@ -39,7 +43,25 @@ export class JSONReporter extends BaseReporter {
             targetMargin: margin.targetMargin,
             meetsTarget: margin.meetsTarget,
             vatApplicable: margin.vatApplicable,
+            foodCost: margin.foodCost,
+            labourCost: margin.labourCost,
+            primeCost: margin.primeCost,
+            primeMargin: margin.primeMargin,
+            nonFoodCost: margin.nonFoodCost,
+            contribution: margin.contribution,
+            contributionMargin: margin.contributionMargin,
+            bands: margin.bands.map((band) => ({
+              band: band.band,
+              sellPrice: band.sellPrice,
+              customerPrice: band.customerPrice,
+              vatAmount: band.vatAmount,
+              commission: band.commission,
+              profit: band.profit,
+              actualMargin: band.actualMargin,
+              meetsTarget: band.meetsTarget,
+            })),
           },
+          pricing,
         }
       }),
     }
@@ -0,0 +1,94 @@
+import chalk from 'chalk'
+
+import type { MoneyFormat, PriceListPreview } from '@menubook/core'
+import BaseReporter from './BaseReporter'
+
+export class PriceListReporter extends BaseReporter {
+  constructor(
+    private readonly json: boolean = false,
+    moneyFormat?: MoneyFormat
+  ) {
+    super(moneyFormat)
+  }
+
+  report(preview: PriceListPreview, applied: boolean): void {
+    if (this.json) {
+      // Write to stdout (not stderr like log())
+      process.stdout.write(
+        JSON.stringify({ applied, ...preview }, null, 2) + '\n'
+      )
+      return
+    }
+
+    this.log('')
+    this.log(
+      `⚙ ${preview.supplier} price list: ${preview.changes.length} change(s), ` +
+        `${preview.unchanged.length} unchanged, ${preview.unmatched.length} unmatched`
+    )
+    this.log('')
+
+    for (const change of preview.changes) {
+      const arrow =
+        change.after.cost > change.before.cost
+          ? chalk.red('↑')
+          : chalk.green('↓')
+      const percent =
+        change.percent === null
+          ? ''
+          : ` (${change.percent > 0 ? '+' : ''}${change.percent.toFixed(1)}%)`
+
+      this.log(
+        `${arrow} ${chalk.bold(change.name)} (${change.slug}, by ${change.matchedBy}): ` +
+          `${this.money(change.before.cost)}/${change.before.unit} → ` +
+          `${chalk.cyan(`${this.money(change.after.cost)}/${change.after.unit}`)}${percent}`
+      )
+    }
+
+    if (preview.unmatched.length > 0) {
+      this.log('')
+      this.log(`${chalk.yellow('⚠')} Not matched to an ingredient:`)
+      for (const row of preview.unmatched) {
+        this.log(
+          `  line ${row.line}: ${[row.sku, row.name].filter(Boolean).join(' ')}`
+        )
+      }
+    }
+
+    const { impact } = preview
+    if (impact.recipes.length > 0) {
+      this.log('')
+      this.log('Margin impact')
+      for (const recipe of impact.recipes) {
+        const colour = recipe.after.meetsTarget ? chalk.green : chalk.red
+        this.log(
+          `  ${recipe.name} (${recipe.slug}): cost ${this.money(recipe.before.cost)} → ${this.money(recipe.after.cost)}, ` +
+            `margin ${recipe.before.actualMargin}% → ${colour(`${recipe.after.actualMargin}%`)} (target: ${recipe.after.targetMargin}%)`
+        )
+      }
+    }
+
+    for (const failure of impact.failures) {
+      this.log(`${chalk.red('✗')} ${failure.slug}: ${failure.message}`)
+    }
+
+    if (impact.belowTarget.length > 0) {
+      this.log(
+        `${chalk.yellow('⚠')} ${impact.belowTarget.length} recipe(s) drop below target margin: ${impact.belowTarget.join(', ')}`
+      )
+    }
+
+    this.log('')
+    if (preview.changes.length === 0) {
+      this.log(`${chalk.green('✓')} Prices are up to date`)
+    } else if (applied) {
+      this.log(
+        `${chalk.green('✓')} Updated ${preview.changes.length} ingredient price(s)`
+      )
+    } else {
+      this.log(
+        `${chalk.yellow('⚠')} Dry run, ${preview.changes.length} ingredient price(s) not updated. Re-run with --apply to save them`
+      )
+    }
+    this.log('')
+  }
+}
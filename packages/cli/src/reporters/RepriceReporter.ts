@@ -0,0 +1,66 @@
+import chalk from 'chalk'
+
+import type { MoneyFormat, RecipeWithIngredients } from '@menubook/core'
+import BaseReporter from './BaseReporter'
+import type {
+  AggregatedResults,
+  CalculationResult,
+  RepriceChange,
+} from './types'
+
+export class RepriceReporter extends BaseReporter {
+  constructor(
+    private readonly json: boolean = false,
+    moneyFormat?: MoneyFormat
+  ) {
+    super(moneyFormat)
+  }
+
+  onCalculation(
+    recipe: RecipeWithIngredients<true>,
+    result: CalculationResult,
+    aggregated: AggregatedResults
+  ): void | Promise<void> {
+    if (this.json || !result.failureMessage) return
+
+    const name = recipe?.name || result.recipe?.name || 'Unknown'
+    this.log(`${chalk.red('✗')} ${name}: ${result.failureMessage}`)
+  }
+
+  report(changes: RepriceChange[], applied: boolean): void {
+    if (this.json) {
+      // Write to stdout (not stderr like log())
+      process.stdout.write(JSON.stringify({ applied, changes }, null, 2) + '\n')
+      return
+    }
+
+    this.log('')
+
+    if (changes.length === 0) {
+      this.log(`${chalk.green('✓')} No recipes need repricing`)
+      this.log('')
+      return
+    }
+
+    for (const change of changes) {
+      const basis = change.pricing.vatApplicable ? 'inc-VAT' : 'ex-VAT'
+      const arrow = change.to > change.from ? chalk.red('↑') : chalk.green('↓')
+
+      this.log(
+        `${arrow} ${chalk.bold(change.name)} (${change.slug}): ` +
+          `${this.money(change.from)} → ${chalk.cyan(this.money(change.to))} ${basis} ` +
+          `(margin: ${change.margin.actualMargin}%, target: ${change.pricing.targetMargin}%)`
+      )
+    }
+
+    this.log('')
+    if (applied) {
+      this.log(`${chalk.green('✓')} Updated ${changes.length} recipe price(s)`)
+    } else {
+      this.log(
+        `${chalk.yellow('⚠')} Dry run, ${changes.length} recipe price(s) not updated. Re-run with --apply to save them`
+      )
+    }
+    this.log('')
+  }
+}
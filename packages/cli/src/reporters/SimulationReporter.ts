@@ -0,0 +1,59 @@
+import chalk from 'chalk'
+
+import type { MoneyFormat, SimulationResult } from '@menubook/core'
+import BaseReporter from './BaseReporter'
+
+export class SimulationReporter extends BaseReporter {
+  constructor(
+    private readonly json: boolean = false,
+    moneyFormat?: MoneyFormat
+  ) {
+    super(moneyFormat)
+  }
+
+  report(result: SimulationResult): void {
+    if (this.json) {
+      // Write to stdout (not stderr like log())
+      process.stdout.write(JSON.stringify(result, null, 2) + '\n')
+      return
+    }
+
+    this.log('')
+    this.log(
+      `⚙ Simulated ${result.overrides.length} override(s), ${result.recipes.length} recipe(s) affected`
+    )
+    this.log('')
+
+    for (const recipe of result.recipes) {
+      const { before, after } = recipe
+      const colour = after.meetsTarget ? chalk.green : chalk.red
+      const change =
+        recipe.marginChange >= 0
+          ? chalk.green(`+${recipe.marginChange}`)
+          : chalk.red(`${recipe.marginChange}`)
+
+      this.log(`> ${chalk.bold(recipe.name)} (${recipe.slug})`)
+      this.log(`  Cost: ${this.money(before.cost)} → ${this.money(after.cost)}`)
+      this.log(
+        `  Price: ${this.money(before.customerPrice)} → ${this.money(after.customerPrice)}`
+      )
+      this.log(
+        `  Margin: ${before.actualMargin}% → ${colour(`${after.actualMargin}%`)} (${change}pp, target: ${after.targetMargin}%)`
+      )
+      this.log('')
+    }
+
+    for (const failure of result.failures) {
+      this.log(`${chalk.red('✗')} ${failure.slug}: ${failure.message}`)
+    }
+
+    if (result.belowTarget.length > 0) {
+      this.log(
+        `${chalk.yellow('⚠')} ${result.belowTarget.length} recipe(s) drop below target margin: ${result.belowTarget.join(', ')}`
+      )
+    } else {
+      this.log(`${chalk.green('✓')} No recipes drop below target margin`)
+    }
+    this.log('')
+  }
+}
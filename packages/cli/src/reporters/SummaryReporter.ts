@@ -19,7 +19,12 @@ export class SummaryReporter extends BaseReporter {
     // Just show progress indicator
     const icon = result.success ? chalk.green('✓') : chalk.red('✗')
     const name = recipe?.name || result.recipe?.name || 'Unknown'
-    this.log(`${icon} ${name}`)
+    const issues = result.success?.cost.issues.length ?? 0
+    this.log(
+      issues > 0
+        ? `${icon} ${name} ${chalk.yellow(`⚠ ${issues} costing issue(s)`)}`
+        : `${icon} ${name}`
+    )
 
     if (result.failureMessage) {
       this.log(chalk.red(result.failureMessage))
@@ -62,7 +67,10 @@ export class SummaryReporter extends BaseReporter {
 
       const belowTarget = succeeded.filter(
         (r) => !r.success!.margin.meetsTarget
-      ).length
+      )
+      const withIssues = succeeded.filter(
+        (r) => r.success!.cost.issues.length > 0
+      )
 
       this.log('')
       this.log(chalk.bold('Statistics:'))
@@ -70,16 +78,45 @@ export class SummaryReporter extends BaseReporter {
         `  Average Margin: ${chalk.cyan(`${avgMargin.toFixed(2)}%`)} (range: ${minMargin.toFixed(2)}% - ${maxMargin.toFixed(2)}%)`
       )
       this.log(
-        `  Average Cost: ${chalk.cyan(`£${avgCost.toFixed(2)}`)} (range: £${minCost.toFixed(2)} - £${maxCost.toFixed(2)})`
+        `  Average Cost: ${chalk.cyan(this.money(avgCost))} (range: ${this.money(minCost)} - ${this.money(maxCost)})`
       )
-      this.log(`  Average Profit: ${chalk.cyan(`£${avgProfit.toFixed(2)}`)}`)
+      this.log(`  Average Profit: ${chalk.cyan(this.money(avgProfit))}`)
 
-      if (belowTarget > 0) {
+      if (belowTarget.length > 0) {
         this.log('')
         this.log(
-          `  ${chalk.yellow('⚠')} ${belowTarget} recipe(s) below target margin`
+          `  ${chalk.yellow('⚠')} ${belowTarget.length} recipe(s) below target margin`
         )
       }
+
+      if (withIssues.length > 0) {
+        this.log('')
+        this.log(
+          `  ${chalk.yellow('⚠')} ${withIssues.length} recipe(s) with lines that could not be costed:`
+        )
+        for (const { recipe, success } of withIssues) {
+          for (const issue of success!.cost.issues) {
+            this.log(`    ${recipe.name}: ${issue.slug}, ${issue.message}`)
+          }
+        }
+      }
+
+      // Sub-recipes and templates are never sold, so only price menu items
+      const suggestions = succeeded.filter(
+        (r) => r.recipe.class === 'menu_item' && r.success!.pricing
+      )
+      if (suggestions.length > 0) {
+        this.log('')
+        this.log(chalk.bold('Suggested Prices:'))
+        for (const { recipe, success } of suggestions) {
+          const { margin, pricing } = success!
+          const colour = margin.meetsTarget ? chalk.reset : chalk.yellow
+          this.log(
+            `  ${colour(recipe.name)}: ${this.money(pricing!.currentPrice)} → ${chalk.cyan(this.money(pricing!.sellPrice))} ` +
+              `(${this.money(pricing!.suggested.exVat)} ex-VAT, ${this.money(pricing!.suggested.incVat)} inc-VAT, target: ${pricing!.targetMargin}%)`
+          )
+        }
+      }
     }
 
     this.log('')
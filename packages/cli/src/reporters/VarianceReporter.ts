@@ -0,0 +1,89 @@
+import chalk from 'chalk'
+
+import type {
+  MoneyFormat,
+  VarianceReport,
+  VarianceTotals,
+} from '@menubook/core'
+import BaseReporter from './BaseReporter'
+
+export class VarianceReporter extends BaseReporter {
+  constructor(
+    private readonly json: boolean = false,
+    moneyFormat?: MoneyFormat
+  ) {
+    super(moneyFormat)
+  }
+
+  report(result: VarianceReport): void {
+    if (this.json) {
+      // Write to stdout (not stderr like log())
+      process.stdout.write(JSON.stringify(result, null, 2) + '\n')
+      return
+    }
+
+    this.log('')
+    this.log(
+      `⚙ Food cost variance ${result.period.from} to ${result.period.to}`
+    )
+    this.log('')
+    this.log(`  Theoretical: ${this.money(result.theoretical)}`)
+    this.log(`  Actual:      ${this.money(result.actual)}`)
+    this.log(`  Variance:    ${this.variance(result)}`)
+
+    if (result.theoreticalFoodCost !== null && result.actualFoodCost !== null) {
+      this.log(
+        `  Food cost:   ${result.theoreticalFoodCost.toFixed(1)}% theoretical, ${result.actualFoodCost.toFixed(1)}% actual of ${this.money(result.sales)} sales`
+      )
+    }
+    this.log('')
+
+    if (result.categories.length > 0) {
+      this.log(chalk.bold('By category'))
+      for (const line of result.categories) {
+        this.log(`  ${line.category}: ${this.variance(line)}`)
+      }
+      this.log('')
+    }
+
+    if (result.ingredients.length > 0) {
+      this.log(chalk.bold('By ingredient'))
+      for (const line of result.ingredients) {
+        const missing = line.recorded ? '' : chalk.dim(' (no spend entered)')
+        this.log(
+          `  ${line.name} (${line.slug}): ${this.money(line.theoretical)} → ${this.money(line.actual)}, ${this.variance(line)}${missing}`
+        )
+      }
+      this.log('')
+    }
+
+    for (const recipe of result.recipes) {
+      for (const issue of recipe.issues) {
+        this.log(
+          chalk.yellow(`⚠ ${recipe.slug}, ${issue.slug}: ${issue.message}`)
+        )
+      }
+    }
+
+    for (const skipped of result.skipped) {
+      this.log(`${chalk.red('✗')} ${skipped.slug}: ${skipped.error}`)
+    }
+
+    if (result.recipes.length === 0) {
+      this.log(`${chalk.yellow('⚠')} No sales recorded for this period`)
+      this.log('')
+    }
+  }
+
+  // Overspend is shown in red, underspend in green
+  private variance(totals: VarianceTotals): string {
+    const sign = totals.variance > 0 ? '+' : totals.variance < 0 ? '-' : ''
+    const amount = `${sign}${this.money(Math.abs(totals.variance))}`
+    const percent =
+      totals.variancePercent === null
+        ? ''
+        : ` (${sign === '-' ? '' : sign}${totals.variancePercent.toFixed(1)}%)`
+    const colour = totals.variance > 0 ? chalk.red : chalk.green
+    return colour(`${amount}${percent}`)
+  }
+}
@@ -1,5 +1,6 @@
 import type {
   MarginResult,
+  PriceSuggestion,
   RecipeResult,
   RecipeWithIngredients,
 } from '@menubook/core'
@@ -7,6 +8,7 @@ import type {
 export interface CalculationSuccess {
   cost: RecipeResult
   margin: MarginResult
+  pricing: PriceSuggestion | null
 }
 
 export interface CalculationResult {
@@ -15,6 +17,17 @@ export interface CalculationResult {
   failureMessage?: string
 }
 
+export interface RepriceChange {
+  slug: string
+  name: string
+  /** Current sell price in pence */
+  from: number
+  /** Suggested sell price in pence, on the same VAT basis as `from` */
+  to: number
+  margin: MarginResult
+  pricing: PriceSuggestion
+}
+
 export interface AggregatedResults {
   startTime: number
   results: CalculationResult[]
@@ -34,13 +34,27 @@ export type { DatabaseAdapter } from './datastore/adapter'
 export type { DatabaseContext, JsonHelpers } from './datastore/context'
 
 // Re-export types from @menubook/types for convenience
-export { RecipeClass, RecipeStage } from '@menubook/types'
+export {
+  PriceSource,
+  RecipeClass,
+  RecipeCostType,
+  RecipeStage,
+  RevisionSource,
+  SaleSource,
+} from '@menubook/types'
 export type {
   DB,
+  ExchangeRate,
   Generated,
   Ingredient,
+  IngredientPrice,
+  IngredientSpend,
   Recipe,
   RecipeIngredients,
+  RecipePriceBand,
+  RecipeRevision,
+  RecipeSale,
+  SalesItemMapping,
   Supplier,
   Timestamp,
 } from '@menubook/types'
@@ -49,42 +63,160 @@ export type {
 export {
   ConfigService,
   DashboardService,
+  ExchangeRateService,
   ExportService,
   IngredientService,
+  PriceListService,
   RecipeService,
+  SalesService,
   SupplierService,
+  VarianceService,
+  methodData,
+  priceBandsData,
+  toSalesDay,
+} from './services'
+export type {
+  DBExchangeRate,
+  EffectiveRecipe,
+  ExchangeRateEntry,
+  MenuEngineeringReport,
+  PriceListChange,
+  PriceListPreview,
+  RecipeCostLineLookup,
+  RecipeIngredientsLookup,
+  RecipePriceBandLookup,
+  RecipeRemovedLine,
+  RecipeWithIngredients,
+  SaleEntry,
+  SalesPeriod,
+  SpendEntry,
+  VarianceCategory,
+  VarianceIngredient,
+  VariancePeriod,
+  VarianceRecipe,
+  VarianceReport,
+  VarianceTotals,
 } from './services'
-export type { RecipeIngredientsLookup, RecipeWithIngredients } from './services'
 export type {
   DBIngredient,
+  DBIngredientPrice,
   DBIngredientWithSupplier,
 } from './services/ingredient'
 
 // Calculator
 export { Calculator } from './lib/calculation/calculator'
+export { classifyMenu, menuEngineeringCSV } from './lib/calculation/engineering'
 export type {
+  MenuEngineeringClass,
+  MenuEngineeringInput,
+  MenuEngineeringItem,
+  MenuEngineeringResult,
+} from './lib/calculation/engineering'
+export {
+  NUTRIENTS,
+  NutritionCalculator,
+  emptyNutrition,
+  parseNutrition,
+  serialiseNutrition,
+} from './lib/calculation/nutrition'
+export type {
+  Nutrient,
+  NutritionGap,
+  NutritionResult,
+  NutritionValues,
+} from './lib/calculation/nutrition'
+export { roundToPricePoint } from './lib/calculation/pricing'
+export type { PricePointOptions } from './lib/calculation/pricing'
+export { Simulator, parseSimulationOverride } from './lib/calculation/simulator'
+export type {
+  SimulatedRecipe,
+  SimulationChange,
+  SimulationOverride,
+  SimulationResult,
+  SimulationTarget,
+} from './lib/calculation/simulator'
+export type {
+  AllergenSource,
   MarginResult,
+  PriceBandMargin,
+  PriceSuggestion,
+  RecipeAllergenRow,
+  RecipeAllergens,
+  RecipeCostLineNode,
   RecipeCostNode,
+  RecipeIssue,
+  RecipeIssueReason,
   RecipeResult,
+  ScaleTarget,
+  ScaledRecipe,
+  ScaledRecipeLine,
 } from './lib/calculation/types'
 export {
   convertUnits,
+  measureOf,
   parseConversionRule,
+  parseDensity,
   parseUnit,
+  toKitchenUnit,
 } from './lib/calculation/units'
 export type {
   Custom,
   Default,
   Fraction,
+  Pack,
   Range,
   Unit,
 } from './lib/calculation/units'
 
+// Allergens
+export {
+  ALLERGENS,
+  ALLERGEN_LABELS,
+  isAllergen,
+  normaliseAllergens,
+  parseAllergens,
+  serialiseAllergens,
+} from './lib/allergens'
+export type {
+  Allergen,
+  AllergenLevel,
+  IngredientAllergens,
+} from './lib/allergens'
+
 // Importer
+export { parseExchangeRatesCSV } from './lib/exchange-rates-csv'
+export type { ExchangeRateRow } from './lib/exchange-rates-csv'
 export { Importer } from './lib/importer'
 export type { ImportOutcome, ImportStats } from './lib/importer'
+export { parsePriceListCSV } from './lib/price-list-csv'
+export type { PriceListRow } from './lib/price-list-csv'
+export { parseSalesCSV } from './lib/sales-csv'
+
+// Tax
+export { parseTaxRules, readTaxRules, resolveTaxRate } from './lib/tax'
+export type { TaxRule, TaxRules, TaxSubject } from './lib/tax'
+
+// Revisions
+export { diffRevisions } from './lib/revisions'
+export type {
+  RecipeRevisionData,
+  RecipeRevisionDiff,
+  RecipeRevisionEntry,
+  RecipeRevisionFieldChange,
+  RecipeRevisionLine,
+  RecipeRevisionLineChange,
+} from './lib/revisions'
+
+// PDF
+export { PdfDocument } from './lib/pdf'
+export type { PdfColumn, PdfRow, PdfTextOptions } from './lib/pdf'
+
+// Spreadsheets
+export { XlsxWorkbook } from './lib/xlsx'
+export type { XlsxCell, XlsxColumn, XlsxStyle, XlsxValue } from './lib/xlsx'
 
 // Storage
+export { isPhoto, photoContentType } from './lib/photos'
 export type {
   StorageMode,
   StorageService,
@@ -118,5 +250,13 @@ export * from './types'
 // Utils
 export * from './utils/constants'
 export { hasChanges } from './utils/has-changes'
+export {
+  DEFAULT_MONEY_FORMAT,
+  currencySymbol,
+  formatMoney,
+  fromMinorUnits,
+  toMinorUnits,
+} from './utils/money'
+export type { MoneyFormat } from './utils/money'
 export { slugify } from './utils/slugify'
 export { tomlWriter } from './utils/toml-writer'
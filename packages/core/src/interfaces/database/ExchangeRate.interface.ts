@@ -0,0 +1,19 @@
+/* eslint-disable */
+
+/**
+ * This file was automatically generated by @lanelink/tools
+ *
+ * Using `json-schema-to-typescript`, `@redocly/openapi-core` and `prisma-kysely`.
+ *
+ * DO NOT MODIFY IT BY HAND. Instead, modify the openapi schemas or the `prisma.schema`
+ * and re-run `@lanelink/tools generate` to regenerate this file
+ * */
+
+import type { ExchangeRate as exchangeRate } from '@menubook/types'
+import type { Insertable, Selectable, Updateable } from 'kysely'
+
+export type ExchangeRate = Selectable<exchangeRate>
+export type NewExchangeRate = Insertable<exchangeRate>
+export type UpdateExchangeRate = Updateable<exchangeRate>
+
+export type ExchangeRateInsertTypes = NewExchangeRate | UpdateExchangeRate
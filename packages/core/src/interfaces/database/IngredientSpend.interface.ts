@@ -0,0 +1,21 @@
+/* eslint-disable */
+
+/**
+ * This file was automatically generated by @lanelink/tools
+ *
+ * Using `json-schema-to-typescript`, `@redocly/openapi-core` and `prisma-kysely`.
+ *
+ * DO NOT MODIFY IT BY HAND. Instead, modify the openapi schemas or the `prisma.schema`
+ * and re-run `@lanelink/tools generate` to regenerate this file
+ * */
+
+import type { IngredientSpend as ingredientSpend } from '@menubook/types'
+import type { Insertable, Selectable, Updateable } from 'kysely'
+
+export type IngredientSpend = Selectable<ingredientSpend>
+export type NewIngredientSpend = Insertable<ingredientSpend>
+export type UpdateIngredientSpend = Updateable<ingredientSpend>
+
+export type IngredientSpendInsertTypes =
+  | NewIngredientSpend
+  | UpdateIngredientSpend
@@ -0,0 +1,21 @@
+/* eslint-disable */
+
+/**
+ * This file was automatically generated by @lanelink/tools
+ *
+ * Using `json-schema-to-typescript`, `@redocly/openapi-core` and `prisma-kysely`.
+ *
+ * DO NOT MODIFY IT BY HAND. Instead, modify the openapi schemas or the `prisma.schema`
+ * and re-run `@lanelink/tools generate` to regenerate this file
+ * */
+
+import type { RecipePriceBand as recipePriceBand } from '@menubook/types'
+import type { Insertable, Selectable, Updateable } from 'kysely'
+
+export type RecipePriceBand = Selectable<recipePriceBand>
+export type NewRecipePriceBand = Insertable<recipePriceBand>
+export type UpdateRecipePriceBand = Updateable<recipePriceBand>
+
+export type RecipePriceBandInsertTypes =
+  | NewRecipePriceBand
+  | UpdateRecipePriceBand
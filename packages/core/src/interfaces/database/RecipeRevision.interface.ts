@@ -0,0 +1,19 @@
+/* eslint-disable */
+
+/**
+ * This file was automatically generated by @lanelink/tools
+ *
+ * Using `json-schema-to-typescript`, `@redocly/openapi-core` and `prisma-kysely`.
+ *
+ * DO NOT MODIFY IT BY HAND. Instead, modify the openapi schemas or the `prisma.schema`
+ * and re-run `@lanelink/tools generate` to regenerate this file
+ * */
+
+import type { RecipeRevision as recipeRevision } from '@menubook/types'
+import type { Insertable, Selectable, Updateable } from 'kysely'
+
+export type RecipeRevision = Selectable<recipeRevision>
+export type NewRecipeRevision = Insertable<recipeRevision>
+export type UpdateRecipeRevision = Updateable<recipeRevision>
+
+export type RecipeRevisionInsertTypes = NewRecipeRevision | UpdateRecipeRevision
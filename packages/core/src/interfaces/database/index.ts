@@ -9,7 +9,14 @@
  * and re-run `@lanelink/tools generate` to regenerate this file
  * */
 
+export * from './ExchangeRate.interface'
 export * from './Ingredient.interface'
+export * from './IngredientPrice.interface'
+export * from './IngredientSpend.interface'
 export * from './Recipe.interface'
 export * from './RecipeIngredients.interface'
+export * from './RecipePriceBand.interface'
+export * from './RecipeRevision.interface'
+export * from './RecipeSale.interface'
+export * from './SalesItemMapping.interface'
 export * from './Supplier.interface'
@@ -0,0 +1,65 @@
+import {
+  normaliseAllergens,
+  parseAllergens,
+  serialiseAllergens,
+} from '../allergens'
+
+describe('allergens', () => {
+  describe('normaliseAllergens', () => {
+    it('should keep the lists in regulation order', () => {
+      expect(
+        normaliseAllergens({
+          contains: ['milk', 'gluten'],
+          mayContain: ['sesame', 'nuts'],
+        })
+      ).toEqual({
+        contains: ['gluten', 'milk'],
+        mayContain: ['nuts', 'sesame'],
+      })
+    })
+
+    it('should only count an allergen listed twice as contains', () => {
+      expect(
+        normaliseAllergens({ contains: ['eggs'], mayContain: ['eggs', 'soya'] })
+      ).toEqual({ contains: ['eggs'], mayContain: ['soya'] })
+    })
+
+    it('should default to nothing declared', () => {
+      expect(normaliseAllergens(undefined)).toEqual({
+        contains: [],
+        mayContain: [],
+      })
+    })
+  })
+
+  describe('serialiseAllergens', () => {
+    it('should store nothing when no allergens are declared', () => {
+      expect(serialiseAllergens({ contains: [], mayContain: [] })).toBeNull()
+      expect(serialiseAllergens(undefined)).toBeNull()
+    })
+
+    it('should round trip through parseAllergens', () => {
+      const stored = serialiseAllergens({
+        contains: ['fish'],
+        mayContain: ['crustaceans'],
+      })
+
+      expect(parseAllergens(stored)).toEqual({
+        contains: ['fish'],
+        mayContain: ['crustaceans'],
+      })
+    })
+  })
+
+  describe('parseAllergens', () => {
+    it('should drop names it does not know', () => {
+      expect(
+        parseAllergens('{"contains":["milk","chocolate"],"mayContain":[]}')
+      ).toEqual({ contains: ['milk'], mayContain: [] })
+    })
+
+    it('should read a missing value as nothing declared', () => {
+      expect(parseAllergens(null)).toEqual({ contains: [], mayContain: [] })
+    })
+  })
+})
@@ -0,0 +1,30 @@
+import { parseExchangeRatesCSV } from '../exchange-rates-csv'
+
+describe('parseExchangeRatesCSV', () => {
+  test('should read currency, rate and day first dates', () => {
+    expect(
+      parseExchangeRatesCSV(
+        [
+          'Currency Code,Exchange Rate,Valid From',
+          'eur,0.86,01/02/2026',
+          'USD,0.79,',
+        ].join('\n')
+      )
+    ).toEqual([
+      { line: 2, currency: 'EUR', rate: 0.86, effectiveFrom: '2026-02-01' },
+      { line: 3, currency: 'USD', rate: 0.79, effectiveFrom: undefined },
+    ])
+  })
+
+  test('should require the currency and rate columns', () => {
+    expect(() => parseExchangeRatesCSV('date,value\n2026-01-01,1')).toThrow(
+      'Exchange rates file is missing the currency column'
+    )
+  })
+
+  test('should name the line of an invalid rate', () => {
+    expect(() =>
+      parseExchangeRatesCSV('currency,rate\nEUR,0.86\nUSD,n/a')
+    ).toThrow("Invalid rate 'n/a' on line 3 of the exchange rates")
+  })
+})
@@ -13,6 +13,7 @@ import type { DatabaseContext } from '../../datastore/context'
 import {
   IngredientResolvedImportData,
   RecipeResolvedImportData,
+  SalesResolvedImportData,
   SupplierResolvedImportData,
 } from '../../schema'
 import { IngredientService } from '../../services/ingredient'
@@ -176,6 +177,27 @@ data:
       expect(supplier?.slug).toBe('asda')
     })
 
+    test('should read CSV files as POS sales exports', async () => {
+      const importer = new Importer(context)
+      const processor = jest.fn().mockResolvedValue('created')
+      importer.addProcessor<SalesResolvedImportData>('sales', processor)
+
+      const salesFile = path.join(tmpDir, 'Week 10.csv')
+      await fs.writeFile(salesFile, 'date,item,qty\n2026-03-02,Burger,12\n')
+
+      const { stats } = await importer.import([salesFile])
+
+      expect(stats.created).toBe(1)
+      expect(processor).toHaveBeenCalledWith(
+        {
+          slug: 'week-10',
+          name: 'Week 10',
+          rows: [{ date: '2026-03-02', item: 'Burger', quantity: 12 }],
+        },
+        salesFile
+      )
+    })
+
     test('should track upserted items', async () => {
       const importer = new Importer(context)
       const supplierService = new SupplierService(context)
@@ -522,6 +544,39 @@ data:
         expect(deps[0]).toBe(path.join(tmpDir, 'recipes/base-pizza.yaml'))
       })
 
+      test('should extract dependencies from extends directives', () => {
+        const importer = new Importer(context, {
+          dataDir: tmpDir,
+          failFast: true,
+        })
+
+        const data = {
+          object: 'recipe',
+          data: {
+            name: 'Pizza Bianca',
+            extends: {
+              uses: './base-pizza.yaml',
+              remove: ['@/ingredients/tomato.yaml', 'slug:basil'],
+              override: [
+                { uses: '@/ingredients/cheese.yaml', with: { unit: '120g' } },
+              ],
+            },
+            ingredients: [],
+          },
+        } as any
+
+        const deps = importer.extractFileDependencies(
+          data,
+          path.join(tmpDir, 'recipes/pizza-bianca.yaml')
+        )
+
+        expect(deps).toEqual([
+          path.join(tmpDir, 'recipes/base-pizza.yaml'),
+          path.join(tmpDir, 'ingredients/tomato.yaml'),
+          path.join(tmpDir, 'ingredients/cheese.yaml'),
+        ])
+      })
+
       test('should extract recipe ingredient path dependencies', () => {
         const importer = new Importer(context, {
           dataDir: tmpDir,
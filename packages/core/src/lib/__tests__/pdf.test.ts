@@ -0,0 +1,65 @@
+import { PdfDocument } from '../pdf'
+
+const read = (doc: PdfDocument) => doc.toBuffer().toString('latin1')
+
+describe('PdfDocument', () => {
+  test('should point the cross-reference table at each object', () => {
+    const pdf = read(new PdfDocument('Test').heading('Hello'))
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true)
+    expect(pdf.endsWith('%%EOF\n')).toBe(true)
+
+    const xref = Number(pdf.match(/startxref\n(\d+)/)![1])
+    expect(pdf.slice(xref, xref + 4)).toBe('xref')
+
+    const offsets = [...pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)]
+    expect(offsets).toHaveLength(7)
+    offsets.forEach(([, offset], index) => {
+      expect(pdf.slice(Number(offset))).toMatch(
+        new RegExp(`^${index + 1} 0 obj\n`)
+      )
+    })
+  })
+
+  test('should escape and encode text for the standard fonts', () => {
+    const pdf = read(
+      new PdfDocument('Test').paragraph('Crème brûlée (vegan) 12,50 €\\ ✓')
+    )
+
+    expect(pdf).toContain('(Crème brûlée \\(vegan\\) 12,50 \x80\\\\ ?) Tj')
+  })
+
+  test('should wrap long paragraphs to the page', () => {
+    const pdf = read(new PdfDocument('Test').paragraph('word '.repeat(60)))
+
+    expect(pdf.match(/\(word[ a-z]*\) Tj/g)!.length).toBeGreaterThan(1)
+  })
+
+  test('should truncate cells that do not fit their column', () => {
+    const pdf = read(
+      new PdfDocument('Test').table(
+        [
+          { header: 'Name', width: 1 },
+          { header: 'Cost', width: 5, align: 'right' },
+        ],
+        [['A very long ingredient name indeed', '£1.00']]
+      )
+    )
+
+    expect(pdf).toMatch(/\(A very[ a-z]*\x85\) Tj/)
+    expect(pdf).toContain('(£1.00) Tj')
+  })
+
+  test('should break onto new pages and repeat the table header', () => {
+    const rows = Array.from({ length: 100 }, (_, index) => [`Row ${index}`])
+    const pdf = read(
+      new PdfDocument('Test').table([{ header: 'Item', width: 1 }], rows)
+    )
+
+    const pages = Number(pdf.match(/\/Count (\d+)/)![1])
+    expect(pages).toBeGreaterThan(1)
+    expect(pdf.match(/\(Item\) Tj/g)).toHaveLength(pages)
+    expect(pdf).toContain(`(Page ${pages} of ${pages}) Tj`)
+    expect(pdf).toContain('(Row 99) Tj')
+  })
+})
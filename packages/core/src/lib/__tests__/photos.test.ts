@@ -0,0 +1,47 @@
+import { isPhoto, photoContentType, toDataUrl } from '../photos'
+
+describe('photos', () => {
+  describe('photoContentType', () => {
+    it('should type an image from its extension', () => {
+      expect(photoContentType('photos/focaccia/tray.JPG')).toBe('image/jpeg')
+      expect(photoContentType('photos/focaccia/tray.webp')).toBe('image/webp')
+    })
+
+    it('should not type anything but an image', () => {
+      expect(photoContentType('photos/focaccia/notes.txt')).toBeUndefined()
+      expect(photoContentType('data:text/html,<script>')).toBeUndefined()
+    })
+  })
+
+  describe('isPhoto', () => {
+    it('should accept an image under the photos folder', () => {
+      expect(isPhoto('photos/focaccia/tray.jpg')).toBe(true)
+      expect(isPhoto('photos/focaccia/tray.jpg', 'focaccia')).toBe(true)
+    })
+
+    it('should accept an image data URL', () => {
+      expect(isPhoto(toDataUrl('tray.png', Buffer.from('png')))).toBe(true)
+    })
+
+    it('should reject a path out of the photos folder', () => {
+      expect(isPhoto('../../etc/passwd')).toBe(false)
+      expect(isPhoto('photos/../ingredients/flour.jpg')).toBe(false)
+      expect(isPhoto('photos/focaccia/../../secret.jpg')).toBe(false)
+      expect(isPhoto('/photos/focaccia/tray.jpg')).toBe(false)
+    })
+
+    it('should reject a file that is not an image', () => {
+      expect(isPhoto('photos/focaccia/notes.txt')).toBe(false)
+      expect(isPhoto('recipes/focaccia.yaml')).toBe(false)
+    })
+
+    it('should reject a data URL that is not an image', () => {
+      expect(isPhoto('data:text/html,<script>alert(1)</script>')).toBe(false)
+      expect(isPhoto('data:image/svg+xml;base64,PHN2Zz4=')).toBe(false)
+    })
+
+    it("should reject another recipe's photo", () => {
+      expect(isPhoto('photos/ciabatta/loaf.jpg', 'focaccia')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,70 @@
+import { parseListPrice, parsePriceListCSV } from '../price-list-csv'
+
+describe('parsePriceListCSV', () => {
+  test('should read rows using common wholesaler headers', () => {
+    const rows = parsePriceListCSV(
+      [
+        'Product Code,Description,Pack Size,Net Price',
+        '104520,Plain Flour,16kg,"£1,012.50"',
+        ',Caster Sugar,,2.10',
+      ].join('\n')
+    )
+
+    expect(rows).toEqual([
+      {
+        line: 2,
+        sku: '104520',
+        name: 'Plain Flour',
+        unit: '16kg',
+        cost: 101250,
+      },
+      {
+        line: 3,
+        sku: undefined,
+        name: 'Caster Sugar',
+        unit: undefined,
+        cost: 210,
+      },
+    ])
+  })
+
+  test('should accept a list with only SKUs', () => {
+    expect(parsePriceListCSV('sku,price\nAB-1,3')).toEqual([
+      { line: 2, sku: 'AB-1', name: undefined, unit: undefined, cost: 300 },
+    ])
+  })
+
+  test('should require a price column', () => {
+    expect(() => parsePriceListCSV('sku,name\n1,Flour')).toThrow(
+      'Price list is missing the price column'
+    )
+  })
+
+  test('should require something to match on', () => {
+    expect(() => parsePriceListCSV('pack size,price\n1kg,3')).toThrow(
+      'Price list needs a SKU or product name column'
+    )
+  })
+
+  test('should name the line of a bad price', () => {
+    expect(() =>
+      parsePriceListCSV('name,price\nFlour,1.00\nSugar,POA')
+    ).toThrow("Invalid price 'POA' on line 3 of the price list")
+  })
+
+  test('should reject an empty file', () => {
+    expect(() => parsePriceListCSV('')).toThrow('Price list is empty')
+  })
+})
+
+describe('parseListPrice', () => {
+  test('should convert pounds to pence', () => {
+    expect(parseListPrice('£12.345')).toBe(1235)
+    expect(parseListPrice('0')).toBe(0)
+  })
+
+  test('should reject blank and negative prices', () => {
+    expect(() => parseListPrice('')).toThrow("Invalid price ''")
+    expect(() => parseListPrice('-1')).toThrow("Invalid price '-1'")
+  })
+})
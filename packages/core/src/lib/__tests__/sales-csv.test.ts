@@ -0,0 +1,81 @@
+import { parseSaleDate, parseSaleRevenue, parseSalesCSV } from '../sales-csv'
+
+describe('parseSalesCSV', () => {
+  test('should read rows using common POS headers', () => {
+    const data = parseSalesCSV(
+      [
+        'Business Date,Item Name,Qty,Gross Sales',
+        '02/03/2026,Steak Frites,4,"£1,080.00"',
+        '2026-03-03,Burger,12,',
+      ].join('\n'),
+      'march'
+    )
+
+    expect(data).toEqual({
+      object: 'sales',
+      data: {
+        name: 'march',
+        rows: [
+          {
+            date: '2026-03-02',
+            item: 'Steak Frites',
+            quantity: 4,
+            revenue: 108000,
+          },
+          {
+            date: '2026-03-03',
+            item: 'Burger',
+            quantity: 12,
+            revenue: undefined,
+          },
+        ],
+      },
+    })
+  })
+
+  test('should accept a PLU column without revenue', () => {
+    const data = parseSalesCSV('date,plu,quantity\n2026-03-02,1001,3', 'day')
+
+    expect(data.data).toMatchObject({
+      rows: [{ date: '2026-03-02', item: '1001', quantity: 3 }],
+    })
+  })
+
+  test('should name missing columns', () => {
+    expect(() => parseSalesCSV('date,total\n2026-03-02,10.00', 'day')).toThrow(
+      'Sales export is missing the item, quantity columns'
+    )
+  })
+
+  test('should leave the date off per-item totals', () => {
+    const data = parseSalesCSV('item,qty\nBurger,120', 'march')
+
+    expect(data.data).toMatchObject({
+      rows: [{ date: undefined, item: 'Burger', quantity: 120 }],
+    })
+  })
+
+  test('should report the line of a bad row', () => {
+    expect(() =>
+      parseSalesCSV(
+        'date,item,qty\n2026-03-02,Burger,3\nyesterday,Soup,1',
+        'day'
+      )
+    ).toThrow("Invalid sale date 'yesterday' on line 3 of the sales export")
+  })
+})
+
+describe('parseSaleDate', () => {
+  test('should read slashed dates day first', () => {
+    expect(parseSaleDate('1/12/2026')).toBe('2026-12-01')
+    expect(parseSaleDate('2026-03-02 18:45:00')).toBe('2026-03-02')
+  })
+})
+
+describe('parseSaleRevenue', () => {
+  test('should convert pounds to pence', () => {
+    expect(parseSaleRevenue('12.5')).toBe(1250)
+    expect(parseSaleRevenue('')).toBeUndefined()
+    expect(() => parseSaleRevenue('n/a')).toThrow("Invalid revenue 'n/a'")
+  })
+})
@@ -0,0 +1,95 @@
+import { parseTaxRules, resolveTaxRate } from '../tax'
+
+const rules = parseTaxRules(`
+location = "uk"
+
+[locations.uk.rates]
+standard = 0.2
+reduced = 0.05
+zero = 0
+
+[[locations.uk.rules]]
+name = "Zero-rated food"
+applies = "ingredient"
+categories = ["Dairy", "produce"]
+rate = "zero"
+
+[[locations.uk.rules]]
+name = "Hospitality reduced rate"
+applies = "recipe"
+categories = ["mains"]
+rate = "reduced"
+from = "2020-07-15"
+to = "2021-09-30"
+
+[[locations.uk.rules]]
+name = "Takeaway"
+applies = "recipe"
+categories = ["cold takeaway"]
+rate = 0
+
+[locations.ie.rates]
+standard = 0.23
+`)
+
+describe('resolveTaxRate', () => {
+  test('should match rules on category and what they apply to', () => {
+    expect(
+      resolveTaxRate(rules, { applies: 'ingredient', category: 'dairy' })
+    ).toBe(0)
+    expect(
+      resolveTaxRate(rules, { applies: 'recipe', category: 'cold takeaway' })
+    ).toBe(0)
+    // Dairy is only zero-rated when bought in
+    expect(
+      resolveTaxRate(rules, { applies: 'recipe', category: 'dairy' })
+    ).toBe(0.2)
+  })
+
+  test('should only apply a rule within its dates', () => {
+    const subject = { applies: 'recipe' as const, category: 'mains' }
+
+    expect(
+      resolveTaxRate(rules, { ...subject, date: new Date('2020-07-15') })
+    ).toBe(0.05)
+    expect(
+      resolveTaxRate(rules, { ...subject, date: new Date('2021-09-30') })
+    ).toBe(0.05)
+    expect(
+      resolveTaxRate(rules, { ...subject, date: new Date('2021-10-01') })
+    ).toBe(0.2)
+  })
+
+  test('should use the standard rate without a matching rule', () => {
+    expect(resolveTaxRate(rules)).toBe(0.2)
+    expect(resolveTaxRate(rules, { applies: 'ingredient' })).toBe(0.2)
+    expect(
+      resolveTaxRate(
+        { ...rules, location: 'ie' },
+        { applies: 'ingredient', category: 'dairy' }
+      )
+    ).toBe(0.23)
+  })
+})
+
+describe('parseTaxRules', () => {
+  test('should require a regime for the location', () => {
+    expect(() =>
+      parseTaxRules('location = "fr"\n[locations.uk.rates]\nstandard = 0.2')
+    ).toThrow('No regime for `location`')
+  })
+
+  test('should reject rules naming an unknown rate', () => {
+    expect(() =>
+      parseTaxRules(
+        [
+          'location = "uk"',
+          '[locations.uk.rates]',
+          'standard = 0.2',
+          '[[locations.uk.rules]]',
+          'rate = "super-reduced"',
+        ].join('\n')
+      )
+    ).toThrow("Unknown rate 'super-reduced'")
+  })
+})
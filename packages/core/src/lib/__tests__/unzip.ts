@@ -0,0 +1,24 @@
+import { inflateRawSync } from 'zlib'
+
+/**
+ * The files in a zip archive, read from their local headers
+ */
+export function unzip(archive: Buffer): Map<string, string> {
+  const files = new Map<string, string>()
+  let offset = 0
+
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const size = archive.readUInt32LE(offset + 18)
+    const nameLength = archive.readUInt16LE(offset + 26)
+    const extraLength = archive.readUInt16LE(offset + 28)
+    const start = offset + 30 + nameLength + extraLength
+
+    files.set(
+      archive.toString('utf8', offset + 30, offset + 30 + nameLength),
+      inflateRawSync(archive.subarray(start, start + size)).toString('utf8')
+    )
+    offset = start + size
+  }
+
+  return files
+}
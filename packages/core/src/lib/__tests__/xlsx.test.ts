@@ -0,0 +1,85 @@
+import { XlsxWorkbook } from '../xlsx'
+import { unzip } from './unzip'
+
+describe('XlsxWorkbook', () => {
+  test('should package each sheet with the workbook parts', () => {
+    const files = unzip(
+      new XlsxWorkbook()
+        .addSheet('Suppliers', [{ header: 'Name' }], [['Acme']])
+        .addSheet('Costs: [all]', [{ header: 'Name' }], [])
+        .toBuffer()
+    )
+
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+    ])
+    expect(files.get('xl/workbook.xml')).toContain(
+      '<sheet name="Suppliers" sheetId="1" r:id="rId1"/>'
+    )
+    // Characters Excel does not allow in sheet names are dropped
+    expect(files.get('xl/workbook.xml')).toContain('name="Costs   all "')
+  })
+
+  test('should write typed cells and formulas', () => {
+    const files = unzip(
+      new XlsxWorkbook()
+        .addSheet(
+          'Recipes',
+          [
+            { header: 'Name' },
+            { header: 'Price', style: 'money' },
+            { header: 'Cost', style: 'money' },
+            { header: 'Margin', style: 'percent' },
+            { header: 'Vegan' },
+          ],
+          [
+            [
+              'Fish & Chips',
+              12.5,
+              4,
+              { formula: 'IF(B2=0,0,(B2-C2)/B2)', value: 0.68 },
+              false,
+            ],
+          ]
+        )
+        .toBuffer()
+    )
+    const sheet = files.get('xl/worksheets/sheet1.xml')!
+
+    expect(sheet).toContain(
+      '<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>'
+    )
+    expect(sheet).toContain('Fish &amp; Chips')
+    expect(sheet).toContain('<c r="B2" s="2"><v>12.5</v></c>')
+    expect(sheet).toContain(
+      '<c r="D2" s="4"><f>IF(B2=0,0,(B2-C2)/B2)</f><v>0.68</v></c>'
+    )
+    expect(sheet).toContain('<c r="E2" t="b"><v>0</v></c>')
+  })
+
+  test("should format money in the workspace's currency", () => {
+    const styles = unzip(
+      new XlsxWorkbook({ currency: 'JPY', locale: 'ja-JP' })
+        .addSheet('Sheet', [{ header: 'Cost', style: 'money' }], [[1200]])
+        .toBuffer()
+    ).get('xl/styles.xml')
+
+    expect(styles).toContain(
+      'formatCode="&quot;￥&quot;#,##0;-&quot;￥&quot;#,##0"'
+    )
+  })
+
+  test('should not allow two sheets with the same name', () => {
+    const workbook = new XlsxWorkbook().addSheet('Sheet', [], [])
+
+    expect(() => workbook.addSheet('Sheet', [], [])).toThrow(
+      "Sheet 'Sheet' already exists"
+    )
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * The 14 allergens that have to be declared under UK/EU food information
+ * rules, in the order they are listed in the regulations
+ */
+export const ALLERGENS = [
+  'gluten',
+  'crustaceans',
+  'eggs',
+  'fish',
+  'peanuts',
+  'soya',
+  'milk',
+  'nuts',
+  'celery',
+  'mustard',
+  'sesame',
+  'sulphites',
+  'lupin',
+  'molluscs',
+] as const
+
+export type Allergen = (typeof ALLERGENS)[number]
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  gluten: 'Cereals containing gluten',
+  crustaceans: 'Crustaceans',
+  eggs: 'Eggs',
+  fish: 'Fish',
+  peanuts: 'Peanuts',
+  soya: 'Soya',
+  milk: 'Milk',
+  nuts: 'Tree nuts',
+  celery: 'Celery',
+  mustard: 'Mustard',
+  sesame: 'Sesame',
+  sulphites: 'Sulphur dioxide and sulphites',
+  lupin: 'Lupin',
+  molluscs: 'Molluscs',
+}
+
+/**
+ * `contains` is an ingredient of the product, `may_contain` is a cross
+ * contamination risk declared by the supplier
+ */
+export type AllergenLevel = 'contains' | 'may_contain'
+
+export interface IngredientAllergens {
+  contains: Allergen[]
+  mayContain: Allergen[]
+}
+
+export function isAllergen(value: string): value is Allergen {
+  return (ALLERGENS as readonly string[]).includes(value)
+}
+
+/**
+ * Tidy up an allergen declaration. Lists are kept in regulation order and an
+ * allergen listed as both contains and may contain only counts as contains.
+ */
+export function normaliseAllergens(
+  allergens?: Partial<IngredientAllergens> | null
+): IngredientAllergens {
+  const contains = new Set(allergens?.contains ?? [])
+  const mayContain = new Set(allergens?.mayContain ?? [])
+
+  return {
+    contains: ALLERGENS.filter((allergen) => contains.has(allergen)),
+    mayContain: ALLERGENS.filter(
+      (allergen) => mayContain.has(allergen) && !contains.has(allergen)
+    ),
+  }
+}
+
+/**
+ * Read the allergens stored against an ingredient. SQLite's JSON plugin hands
+ * the column back already parsed, other drivers return the raw text. Unknown
+ * names are dropped rather than failing the whole lookup.
+ */
+export function parseAllergens(value: unknown): IngredientAllergens {
+  if (!value) return normaliseAllergens()
+
+  const parsed = (typeof value === 'string' ? JSON.parse(value) : value) as {
+    contains?: string[]
+    mayContain?: string[]
+  }
+  return normaliseAllergens({
+    contains: (parsed.contains ?? []).filter(isAllergen),
+    mayContain: (parsed.mayContain ?? []).filter(isAllergen),
+  })
+}
+
+/**
+ * The stored form of an allergen declaration, null when nothing is declared
+ */
+export function serialiseAllergens(
+  allergens?: Partial<IngredientAllergens> | null
+): string | null {
+  const normalised = normaliseAllergens(allergens)
+  if (!normalised.contains.length && !normalised.mayContain.length) return null
+
+  return JSON.stringify(normalised)
+}
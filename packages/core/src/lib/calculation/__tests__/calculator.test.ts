@@ -0,0 +1,993 @@
+import {
+  createDatabase,
+  jsonArrayFrom,
+  jsonObjectFrom,
+  migrate,
+} from '@menubook/sqlite'
+
+import type { DatabaseContext } from '../../../datastore/context'
+import { RecipeResolvedImportData } from '../../../schema'
+import { ConfigService } from '../../../services/config'
+import { ExchangeRateService } from '../../../services/exchange-rate'
+import { IngredientService } from '../../../services/ingredient'
+import { RecipeService } from '../../../services/recipe'
+import { SupplierService } from '../../../services/supplier'
+import { Calculator } from '../calculator'
+
+jest.mock('../../../services/config', () => {
+  return {
+    ConfigService: jest.fn().mockImplementation(() => ({
+      getVatRate: jest.fn().mockResolvedValue(0.2),
+      getCurrency: jest.fn().mockResolvedValue('GBP'),
+      getMarginTarget: jest.fn().mockResolvedValue(20),
+      getDefaultPriceIncludesVat: jest.fn().mockResolvedValue(true),
+      getWageRates: jest.fn().mockResolvedValue({ chef: 1500, kp: 1200 }),
+    })),
+  }
+})
+
+describe('Calculator', () => {
+  let context: DatabaseContext
+  let ingredients: IngredientService
+  let recipes: RecipeService
+  let calculator: Calculator
+  let config: ConfigService
+
+  const save = async (data: RecipeResolvedImportData) => {
+    const id = await recipes.upsert(data.slug, data)
+    await recipes.upsertIngredients(id!, data)
+  }
+
+  beforeEach(async () => {
+    const db = createDatabase(':memory:')
+    await migrate(db)
+
+    context = { db, helpers: { jsonArrayFrom, jsonObjectFrom } }
+
+    config = new ConfigService('')
+    ingredients = new IngredientService(context, new SupplierService(context))
+    recipes = new RecipeService(context, ingredients, config)
+    calculator = new Calculator(recipes, ingredients, config)
+
+    await db
+      .insertInto('Supplier')
+      .values({ slug: 'generic', name: 'Generic' })
+      .execute()
+
+    // £20/kg, so 2p per gram before any losses
+    await ingredients.upsert('salmon', {
+      slug: 'salmon',
+      name: 'Salmon',
+      category: 'fish',
+      purchase: { unit: '1kg', cost: 2000, vat: false },
+    })
+  })
+
+  afterEach(async () => {
+    await context.db.destroy()
+  })
+
+  describe('purchase cost', () => {
+    test('should read the purchase cost in pence', async () => {
+      // 214p for 120g, as the sample data's ham
+      await ingredients.upsert('ham', {
+        slug: 'ham',
+        name: 'Ham',
+        category: 'meat',
+        purchase: { unit: '120g', cost: 214, vat: false },
+      })
+      await save({
+        slug: 'ham-sandwich',
+        name: 'Ham Sandwich',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 400 },
+        ingredients: [
+          { type: 'ingredient', slug: 'ham', with: { unit: '60g' } },
+        ],
+      })
+
+      const { totalCost } = await calculator.cost('ham-sandwich')
+
+      expect(totalCost).toBe(107)
+    })
+  })
+
+  describe('yield and waste', () => {
+    const plate = (wastePercent?: number): RecipeResolvedImportData => ({
+      slug: 'salmon-plate',
+      name: 'Salmon Plate',
+      stage: 'active',
+      class: 'menu_item',
+      costing: { price: 1500, margin: 70, vat: true },
+      ingredients: [
+        {
+          type: 'ingredient',
+          slug: 'salmon',
+          with: { unit: '110g', wastePercent },
+        },
+      ],
+    })
+
+    test('should cost the net quantity when there are no losses', async () => {
+      await save(plate())
+
+      const { tree, totalCost } = await calculator.cost('salmon-plate')
+
+      expect(totalCost).toBe(220)
+      expect(tree[0]).toMatchObject({ amount: 110, grossAmount: 110 })
+    })
+
+    test('should divide by the ingredient yield', async () => {
+      await ingredients.upsert('salmon', {
+        slug: 'salmon',
+        name: 'Salmon',
+        category: 'fish',
+        purchase: { unit: '1kg', cost: 2000, vat: false },
+        yieldPercent: 55,
+      })
+      await save(plate())
+
+      const { tree, totalCost } = await calculator.cost('salmon-plate')
+
+      expect(totalCost).toBe(400)
+      expect(tree[0]).toMatchObject({ amount: 110, grossAmount: 200 })
+    })
+
+    test('should divide by the waste on the recipe line', async () => {
+      await save(plate(12))
+
+      const { tree, totalCost } = await calculator.cost('salmon-plate')
+
+      expect(totalCost).toBe(250)
+      expect(tree[0]).toMatchObject({ amount: 110, grossAmount: 125 })
+    })
+
+    test('should apply waste to sub-recipe lines', async () => {
+      await save({
+        slug: 'salmon-portion',
+        name: 'Salmon Portion',
+        stage: 'active',
+        class: 'sub_recipe',
+        costing: { price: 0 },
+        yieldAmount: 1,
+        yieldUnit: 'portion',
+        ingredients: [
+          { type: 'ingredient', slug: 'salmon', with: { unit: '110g' } },
+        ],
+      })
+      await save({
+        ...plate(),
+        ingredients: [
+          {
+            type: 'recipe',
+            slug: 'salmon-portion',
+            with: { unit: '1 portion', wastePercent: 50 },
+          },
+        ],
+      })
+
+      const { tree, totalCost } = await calculator.cost('salmon-plate')
+
+      expect(totalCost).toBe(440)
+      expect(tree[0]).toMatchObject({ amount: 1, grossAmount: 2 })
+    })
+  })
+
+  describe('density', () => {
+    const dressing: RecipeResolvedImportData = {
+      slug: 'dressing',
+      name: 'Dressing',
+      stage: 'active',
+      class: 'menu_item',
+      costing: { price: 300 },
+      ingredients: [
+        { type: 'ingredient', slug: 'olive-oil', with: { unit: '2 tbsp' } },
+      ],
+    }
+
+    const oil = (density?: string) =>
+      ingredients.upsert('olive-oil', {
+        slug: 'olive-oil',
+        name: 'Olive Oil',
+        category: 'oils',
+        purchase: { unit: '1kg', cost: 1000, vat: false },
+        density,
+      })
+
+    test('should cost volumes against a weight using the density', async () => {
+      await oil('0.92')
+      await save(dressing)
+
+      const { tree, totalCost } = await calculator.cost('dressing')
+
+      // 2 tbsp is about 29.6ml, so 27.2g at 1p per gram
+      expect(totalCost).toBe(28)
+      expect(tree[0].warning).toBeUndefined()
+    })
+
+    test('should accept the density as a rule', async () => {
+      await oil('1 cup = 218g')
+      await save(dressing)
+
+      const { totalCost } = await calculator.cost('dressing')
+
+      expect(totalCost).toBe(28)
+    })
+
+    test('should keep lines it cannot convert with a warning', async () => {
+      await oil()
+      await save(dressing)
+
+      const { tree, totalCost, issues } = await calculator.cost('dressing')
+
+      expect(totalCost).toBe(0)
+      expect(issues).toEqual([
+        {
+          recipe: 'dressing',
+          line: 1,
+          type: 'ingredient',
+          slug: 'olive-oil',
+          reason: 'unconvertible_unit',
+          message:
+            'Cannot convert 2 tbsp to kg, add a density to convert between weight and volume',
+          units: { from: '2 tbsp', to: '1kg' },
+        },
+      ])
+      expect(tree).toHaveLength(1)
+      expect(tree[0]).toMatchObject({
+        slug: 'olive-oil',
+        cost: 0,
+        warning:
+          'Cannot convert 2 tbsp to kg, add a density to convert between weight and volume',
+      })
+    })
+  })
+
+  describe('issues', () => {
+    test('should charge the whole batch when a sub-recipe cannot be scaled', async () => {
+      await save({
+        slug: 'salmon-batch',
+        name: 'Salmon Batch',
+        stage: 'active',
+        class: 'sub_recipe',
+        costing: { price: 0 },
+        yieldAmount: 4,
+        yieldUnit: 'portion',
+        ingredients: [
+          { type: 'ingredient', slug: 'salmon', with: { unit: '400g' } },
+        ],
+      })
+      await save({
+        slug: 'salmon-plate',
+        name: 'Salmon Plate',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 1500 },
+        ingredients: [
+          { type: 'recipe', slug: 'salmon-batch', with: { unit: '100g' } },
+        ],
+      })
+
+      const { totalCost, issues, tree } = await calculator.cost('salmon-plate')
+
+      expect(totalCost).toBe(800)
+      expect(issues).toEqual([
+        expect.objectContaining({
+          recipe: 'salmon-plate',
+          line: 1,
+          type: 'recipe',
+          slug: 'salmon-batch',
+          reason: 'unscaled_sub_recipe',
+          units: { from: '100g', to: '4 portion' },
+        }),
+      ])
+      expect(tree[0].warning).toBe(issues[0].message)
+    })
+
+    test('should pass up the issues of sub-recipes', async () => {
+      await ingredients.upsert('lemon', {
+        slug: 'lemon',
+        name: 'Lemon',
+        category: 'fruit',
+        purchase: { unit: '1kg', cost: 300, vat: false },
+      })
+      await save({
+        slug: 'salmon-portion',
+        name: 'Salmon Portion',
+        stage: 'active',
+        class: 'sub_recipe',
+        costing: { price: 0 },
+        ingredients: [
+          { type: 'ingredient', slug: 'salmon', with: { unit: '110g' } },
+          { type: 'ingredient', slug: 'lemon', with: { unit: '1 wedge' } },
+        ],
+      })
+      await save({
+        slug: 'salmon-plate',
+        name: 'Salmon Plate',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 1500 },
+        ingredients: [
+          {
+            type: 'recipe',
+            slug: 'salmon-portion',
+            with: { unit: '1 portion' },
+          },
+        ],
+      })
+
+      const { issues } = await calculator.cost('salmon-plate')
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          recipe: 'salmon-portion',
+          line: 2,
+          slug: 'lemon',
+          reason: 'unconvertible_unit',
+          units: { from: '1 wedge', to: '1kg' },
+        }),
+      ])
+    })
+
+    test('should not cost an ingredient before its first price', async () => {
+      await ingredients.upsert('lemon', {
+        slug: 'lemon',
+        name: 'Lemon',
+        category: 'fruit',
+        purchase: {
+          unit: '1kg',
+          cost: 300,
+          vat: false,
+          effectiveFrom: '2026-02-01T00:00:00.000Z',
+        },
+      })
+      await save({
+        slug: 'lemon-posset',
+        name: 'Lemon Posset',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 600 },
+        ingredients: [
+          { type: 'ingredient', slug: 'lemon', with: { unit: '100g' } },
+        ],
+      })
+
+      const { totalCost, issues, tree } = await calculator.cost(
+        'lemon-posset',
+        0,
+        new Date('2026-01-15')
+      )
+
+      expect(totalCost).toBe(0)
+      expect(issues).toEqual([
+        expect.objectContaining({
+          recipe: 'lemon-posset',
+          line: 1,
+          slug: 'lemon',
+          reason: 'unknown_price',
+          message:
+            'No price for Lemon on 2026-01-15, its price history starts on 2026-02-01',
+          dates: { asOf: '2026-01-15', firstPrice: '2026-02-01' },
+        }),
+      ])
+      expect(tree[0].warning).toBe(issues[0].message)
+    })
+  })
+
+  describe('labour', () => {
+    test('should cost minutes at the named wage rate', async () => {
+      await save({
+        slug: 'salmon-plate',
+        name: 'Salmon Plate',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 1200, vat: false },
+        labour: { prepMinutes: 4, cookMinutes: 6, role: 'kp' },
+        ingredients: [
+          { type: 'ingredient', slug: 'salmon', with: { unit: '110g' } },
+        ],
+      })
+
+      const result = await calculator.cost('salmon-plate')
+      const margin = await calculator.margin(result)
+
+      // 10 minutes at £12/hour
+      expect(result.labourCost).toBe(200)
+      expect(margin).toMatchObject({
+        foodCost: 220,
+        labourCost: 200,
+        primeCost: 420,
+        actualMargin: 81.67,
+        primeMargin: 65,
+      })
+    })
+
+    test('should spread batch labour across the yield', async () => {
+      await save({
+        slug: 'salmon-batch',
+        name: 'Salmon Batch',
+        stage: 'active',
+        class: 'sub_recipe',
+        costing: { price: 0 },
+        yieldAmount: 10,
+        yieldUnit: 'portion',
+        labour: { prepMinutes: 60 },
+        ingredients: [
+          { type: 'ingredient', slug: 'salmon', with: { unit: '1kg' } },
+        ],
+      })
+      await save({
+        slug: 'salmon-plate',
+        name: 'Salmon Plate',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 1200 },
+        ingredients: [
+          { type: 'recipe', slug: 'salmon-batch', with: { unit: '2 portion' } },
+        ],
+      })
+
+      const { labourCost } = await calculator.cost('salmon-plate')
+
+      // An hour at the first rate (£15) across 10 portions, 2 used
+      expect(labourCost).toBe(300)
+    })
+
+    test('should raise an issue for an unknown wage rate', async () => {
+      await save({
+        slug: 'salmon-plate',
+        name: 'Salmon Plate',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 1200 },
+        labour: { prepMinutes: 5, role: 'sous' },
+        ingredients: [],
+      })
+
+      const { labourCost, issues } = await calculator.cost('salmon-plate')
+
+      expect(labourCost).toBe(0)
+      expect(issues).toEqual([
+        expect.objectContaining({
+          line: 0,
+          slug: 'salmon-plate',
+          reason: 'unknown_wage_rate',
+        }),
+      ])
+    })
+  })
+
+  describe('cost lines', () => {
+    beforeEach(async () => {
+      // 30p a box
+      await ingredients.upsert('takeaway-box', {
+        slug: 'takeaway-box',
+        name: 'Takeaway Box',
+        category: 'packaging',
+        purchase: { unit: '50 boxes', cost: 1500, vat: false },
+      })
+
+      await save({
+        slug: 'salmon-box',
+        name: 'Salmon Box',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 1200, vat: false },
+        ingredients: [
+          { type: 'ingredient', slug: 'salmon', with: { unit: '110g' } },
+        ],
+        costs: [
+          { type: 'packaging', slug: 'takeaway-box', with: { unit: '1 box' } },
+          { type: 'fixed', name: 'Sauce pot', pence: 8 },
+          { type: 'percent', name: 'Platform fee', percent: 15 },
+        ],
+      })
+    })
+
+    test('should cost non-food lines apart from the food', async () => {
+      const result = await calculator.cost('salmon-box')
+      const margin = await calculator.margin(result)
+
+      expect(result.totalCost).toBe(220)
+      expect(result.costLines).toEqual([
+        {
+          type: 'packaging',
+          slug: 'takeaway-box',
+          name: 'Takeaway Box',
+          unit: '1 box',
+          cost: 30,
+        },
+        { type: 'fixed', slug: null, name: 'Sauce pot', unit: '', cost: 8 },
+        {
+          type: 'percent',
+          slug: null,
+          name: 'Platform fee',
+          unit: '15%',
+          cost: 180,
+        },
+      ])
+      expect(margin).toMatchObject({
+        foodCost: 220,
+        nonFoodCost: 218,
+        actualMargin: 81.67,
+        contribution: 762,
+        contributionMargin: 63.5,
+      })
+    })
+
+    test('should add to the cost lines inherited from a parent', async () => {
+      await save({
+        slug: 'salmon-box-large',
+        name: 'Salmon Box (Large)',
+        stage: 'active',
+        class: 'menu_item',
+        parentSlug: 'salmon-box',
+        ingredients: [],
+        costs: [{ type: 'fixed', name: 'Bag', pence: 5 }],
+      })
+
+      const { costLines } = await calculator.cost('salmon-box-large')
+
+      expect(costLines.map((line) => line.name)).toEqual([
+        'Takeaway Box',
+        'Sauce pot',
+        'Platform fee',
+        'Bag',
+      ])
+    })
+
+    test('should number packaging issues after the ingredients', async () => {
+      await save({
+        slug: 'salmon-box',
+        name: 'Salmon Box',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 1200, vat: false },
+        ingredients: [
+          { type: 'ingredient', slug: 'salmon', with: { unit: '110g' } },
+        ],
+        costs: [
+          { type: 'packaging', slug: 'takeaway-box', with: { unit: '20g' } },
+        ],
+      })
+
+      const { costLines, issues } = await calculator.cost('salmon-box')
+
+      expect(costLines[0]).toMatchObject({
+        cost: 0,
+        warning: expect.any(String),
+      })
+      expect(issues).toEqual([
+        expect.objectContaining({
+          line: 2,
+          slug: 'takeaway-box',
+          reason: 'unconvertible_unit',
+        }),
+      ])
+    })
+  })
+
+  describe('price bands', () => {
+    beforeEach(async () => {
+      await save({
+        slug: 'salmon-plate',
+        name: 'Salmon Plate',
+        stage: 'active',
+        class: 'menu_item',
+        costing: {
+          price: 1200,
+          vat: true,
+          bands: [
+            { name: 'takeaway', price: 1100, vat: false },
+            { name: 'delivery', price: 1500, commission: 30 },
+          ],
+        },
+        ingredients: [
+          { type: 'ingredient', slug: 'salmon', with: { unit: '110g' } },
+        ],
+      })
+    })
+
+    test('should work out a margin for each band', async () => {
+      const margin = await calculator.margin(
+        await calculator.cost('salmon-plate')
+      )
+
+      expect(margin).toMatchObject({
+        sellPrice: 1000,
+        profit: 780,
+        actualMargin: 78,
+        commission: 0,
+      })
+      expect(margin.bands).toEqual([
+        expect.objectContaining({
+          band: 'takeaway',
+          sellPrice: 1100,
+          vatAmount: 0,
+          profit: 880,
+          actualMargin: 80,
+        }),
+        // VAT follows the recipe, the platform takes 30% of the £15
+        expect.objectContaining({
+          band: 'delivery',
+          sellPrice: 1250,
+          vatAmount: 250,
+          commission: 450,
+          profit: 580,
+          actualMargin: expect.closeTo(46.4, 1),
+        }),
+      ])
+    })
+
+    test('should use the bands of the nearest ancestor with any', async () => {
+      await save({
+        slug: 'salmon-plate-large',
+        name: 'Salmon Plate (Large)',
+        stage: 'active',
+        class: 'menu_item',
+        parentSlug: 'salmon-plate',
+        ingredients: [],
+      })
+      await save({
+        slug: 'salmon-plate-lunch',
+        name: 'Salmon Plate (Lunch)',
+        stage: 'active',
+        class: 'menu_item',
+        parentSlug: 'salmon-plate',
+        costing: { bands: [{ name: 'takeaway', price: 900, vat: 0.05 }] },
+        ingredients: [],
+      })
+
+      const inherited = await calculator.margin(
+        await calculator.cost('salmon-plate-large')
+      )
+      const own = await calculator.margin(
+        await calculator.cost('salmon-plate-lunch')
+      )
+
+      expect(inherited.bands.map((band) => band.band)).toEqual([
+        'takeaway',
+        'delivery',
+      ])
+      expect(own.bands).toEqual([
+        expect.objectContaining({
+          band: 'takeaway',
+          sellPrice: 858,
+          vatAmount: 43,
+        }),
+      ])
+    })
+  })
+
+  describe('tax rules', () => {
+    test('should resolve VAT by the ingredient and recipe categories', async () => {
+      jest
+        .mocked(config.getVatRate)
+        .mockImplementation(async (subject) =>
+          subject?.applies === 'ingredient' && subject.category === 'fish'
+            ? 0
+            : subject?.applies === 'recipe' && subject.category === 'mains'
+              ? 0.05
+              : 0.2
+        )
+
+      await ingredients.upsert('salmon', {
+        slug: 'salmon',
+        name: 'Salmon',
+        category: 'fish',
+        purchase: { unit: '1kg', cost: 2000, vat: true },
+      })
+      await save({
+        slug: 'salmon-plate',
+        name: 'Salmon Plate',
+        stage: 'active',
+        class: 'menu_item',
+        category: 'mains',
+        costing: { price: 1050, vat: true },
+        ingredients: [
+          { type: 'ingredient', slug: 'salmon', with: { unit: '110g' } },
+        ],
+      })
+
+      const cost = await calculator.cost('salmon-plate')
+      const margin = await calculator.margin(cost)
+
+      // Zero-rated, so nothing is stripped from the purchase cost
+      expect(cost.totalCost).toBe(220)
+      expect(margin).toMatchObject({ sellPrice: 1000, vatAmount: 50 })
+      expect(config.getVatRate).toHaveBeenCalledWith(
+        expect.objectContaining({ applies: 'recipe', category: 'mains' })
+      )
+    })
+  })
+
+  describe('currencies', () => {
+    beforeEach(async () => {
+      // €12 a bottle, 125ml a glass
+      await ingredients.upsert('rioja', {
+        slug: 'rioja',
+        name: 'Rioja',
+        category: 'drinks',
+        purchase: {
+          unit: '750ml',
+          cost: 1200,
+          vat: false,
+          currency: 'EUR',
+          effectiveFrom: '2026-01-01T00:00:00.000Z',
+        },
+      })
+      await save({
+        slug: 'rioja-glass',
+        name: 'Glass of Rioja',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 700, vat: true },
+        ingredients: [
+          { type: 'ingredient', slug: 'rioja', with: { unit: '125ml' } },
+        ],
+      })
+    })
+
+    test('should convert foreign purchase costs at the rate in effect', async () => {
+      const rates = new ExchangeRateService(context)
+      await rates.set({
+        currency: 'EUR',
+        rate: 0.85,
+        effectiveFrom: '2026-01-01',
+      })
+      await rates.set({
+        currency: 'EUR',
+        rate: 0.9,
+        effectiveFrom: '2026-03-01',
+      })
+
+      const january = await calculator.cost(
+        'rioja-glass',
+        0,
+        new Date('2026-01-15')
+      )
+      const march = await calculator.cost(
+        'rioja-glass',
+        0,
+        new Date('2026-03-15')
+      )
+
+      // €2 a glass
+      expect(january.totalCost).toBe(170)
+      expect(march.totalCost).toBe(180)
+      expect(march.issues).toEqual([])
+    })
+
+    test('should raise an issue without an exchange rate', async () => {
+      const result = await calculator.cost('rioja-glass')
+
+      expect(result.totalCost).toBe(0)
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          slug: 'rioja',
+          reason: 'unknown_exchange_rate',
+          units: { from: 'EUR', to: 'GBP' },
+        }),
+      ])
+    })
+  })
+
+  describe('pack sizes', () => {
+    test('should cost from the inner unit of a multipack', async () => {
+      // £18 for 24 cans
+      await ingredients.upsert('cola', {
+        slug: 'cola',
+        name: 'Cola',
+        category: 'drinks',
+        purchase: { unit: '24 x 330ml cans', cost: 1800, vat: false },
+      })
+      await save({
+        slug: 'cola-can',
+        name: 'Can of Cola',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 250, vat: true },
+        ingredients: [
+          { type: 'ingredient', slug: 'cola', with: { unit: '1 can' } },
+        ],
+      })
+      await save({
+        slug: 'cola-glass',
+        name: 'Glass of Cola',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 200, vat: true },
+        ingredients: [
+          { type: 'ingredient', slug: 'cola', with: { unit: '165ml' } },
+        ],
+      })
+
+      const can = await calculator.cost('cola-can')
+      const glass = await calculator.cost('cola-glass')
+
+      expect(can.totalCost).toBe(75)
+      expect(glass.totalCost).toBe(38)
+      expect(can.issues).toEqual([])
+    })
+  })
+
+  describe('scaling', () => {
+    beforeEach(async () => {
+      await save({
+        slug: 'salmon-sauce',
+        name: 'Salmon Sauce',
+        stage: 'active',
+        class: 'sub_recipe',
+        costing: { price: 0 },
+        yieldAmount: 500,
+        yieldUnit: 'ml',
+        ingredients: [
+          { type: 'ingredient', slug: 'salmon', with: { unit: '250g' } },
+        ],
+      })
+      await save({
+        slug: 'salmon-plate',
+        name: 'Salmon Plate',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 1500 },
+        yieldAmount: 1,
+        yieldUnit: 'portion',
+        ingredients: [
+          { type: 'ingredient', slug: 'salmon', with: { unit: '150g' } },
+          { type: 'recipe', slug: 'salmon-sauce', with: { unit: '100ml' } },
+        ],
+      })
+    })
+
+    test('should scale to portions, sub-recipes included', async () => {
+      const batch = await calculator.scaleRecipe('salmon-plate', {
+        portions: 40,
+      })
+
+      expect(batch.factor).toBe(40)
+      expect(batch.yield).toEqual({ amount: 40, unit: 'portion' })
+      expect(batch.totalCost).toBe(16000)
+      expect(batch.lines).toEqual([
+        expect.objectContaining({ slug: 'salmon', amount: 6, unit: 'kg' }),
+        expect.objectContaining({
+          slug: 'salmon-sauce',
+          amount: 4,
+          unit: 'l',
+          cost: 4000,
+          children: [
+            expect.objectContaining({ slug: 'salmon', amount: 2, unit: 'kg' }),
+          ],
+        }),
+      ])
+    })
+
+    test('should scale to a target yield', async () => {
+      const batch = await calculator.scaleRecipe('salmon-sauce', {
+        yield: '2l',
+      })
+
+      expect(batch.factor).toBe(4)
+      expect(batch.portions).toBeNull()
+      expect(batch.yield).toEqual({ amount: 2, unit: 'l' })
+      expect(batch.lines[0]).toMatchObject({ amount: 1, unit: 'kg' })
+      expect(batch.totalCost).toBe(2000)
+    })
+
+    test('should not scale a weight or volume to portions', async () => {
+      await expect(
+        calculator.scaleRecipe('salmon-sauce', { portions: 10 })
+      ).rejects.toThrow('scale it to a yield instead of portions')
+    })
+  })
+
+  describe('allergens', () => {
+    beforeEach(async () => {
+      await ingredients.upsert('salmon', {
+        slug: 'salmon',
+        name: 'Salmon',
+        category: 'fish',
+        purchase: { unit: '1kg', cost: 2000, vat: false },
+        allergens: { contains: ['fish'], mayContain: [] },
+      })
+      await ingredients.upsert('butter', {
+        slug: 'butter',
+        name: 'Butter',
+        category: 'dairy',
+        purchase: { unit: '250g', cost: 200, vat: false },
+        allergens: { contains: ['milk'], mayContain: ['nuts', 'fish'] },
+      })
+      await ingredients.upsert('dill', {
+        slug: 'dill',
+        name: 'Dill',
+        category: 'herbs',
+        purchase: { unit: '30g', cost: 100, vat: false },
+      })
+
+      await save({
+        slug: 'dill-butter',
+        name: 'Dill Butter',
+        stage: 'active',
+        class: 'sub_recipe',
+        costing: { price: 0 },
+        yieldAmount: 250,
+        yieldUnit: 'g',
+        ingredients: [
+          { type: 'ingredient', slug: 'butter', with: { unit: '240g' } },
+          { type: 'ingredient', slug: 'dill', with: { unit: '10g' } },
+        ],
+      })
+      await save({
+        slug: 'salmon-plate',
+        name: 'Salmon Plate',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 1500, margin: 70, vat: true },
+        ingredients: [
+          { type: 'ingredient', slug: 'salmon', with: { unit: '110g' } },
+          { type: 'recipe', slug: 'dill-butter', with: { unit: '20g' } },
+        ],
+      })
+    })
+
+    test('should roll allergens up through sub-recipes', async () => {
+      const result = await calculator.allergens('salmon-plate')
+
+      expect(result.recipe).toEqual({
+        slug: 'salmon-plate',
+        name: 'Salmon Plate',
+      })
+      expect(result.contains).toEqual(['fish', 'milk'])
+      expect(result.mayContain).toEqual(['nuts'])
+      expect(result.matrix).toHaveLength(14)
+      expect(
+        result.matrix.find((row) => row.allergen === 'milk')
+      ).toMatchObject({
+        level: 'contains',
+        sources: [
+          {
+            slug: 'butter',
+            name: 'Butter',
+            level: 'contains',
+            via: ['Dill Butter'],
+          },
+        ],
+      })
+    })
+
+    test('should let contains outrank may contain', async () => {
+      const { matrix } = await calculator.allergens('salmon-plate')
+
+      expect(matrix.find((row) => row.allergen === 'fish')).toMatchObject({
+        level: 'contains',
+        sources: [
+          { slug: 'salmon', level: 'contains', via: [] },
+          { slug: 'butter', level: 'may_contain', via: ['Dill Butter'] },
+        ],
+      })
+      expect(matrix.find((row) => row.allergen === 'sesame')).toMatchObject({
+        level: null,
+        sources: [],
+      })
+    })
+
+    test('should include the lines inherited from a parent recipe', async () => {
+      await save({
+        slug: 'salmon-plate-large',
+        name: 'Salmon Plate (Large)',
+        stage: 'active',
+        class: 'menu_item',
+        parentSlug: 'salmon-plate',
+        remove: ['dill-butter'],
+        ingredients: [],
+      })
+
+      const result = await calculator.allergens('salmon-plate-large')
+
+      expect(result.contains).toEqual(['fish'])
+      expect(result.mayContain).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import { classifyMenu, menuEngineeringCSV } from '../engineering'
+
+describe('classifyMenu', () => {
+  const item = (slug: string, sold: number, contribution: number) => ({
+    slug,
+    name: slug,
+    category: null,
+    sold,
+    contribution,
+  })
+
+  it('should place items in all four quadrants', () => {
+    const result = classifyMenu([
+      item('steak', 40, 900),
+      item('burger', 50, 400),
+      item('lobster', 5, 1500),
+      item('soup', 5, 200),
+    ])
+
+    // 100 sold over 4 items, 70% of an equal 25% share
+    expect(result.thresholds.menuMix).toBeCloseTo(17.5)
+    // (36000 + 20000 + 7500 + 1000) / 100
+    expect(result.thresholds.contribution).toBe(645)
+    expect(result.items.map((i) => i.classification)).toEqual([
+      'star',
+      'plowhorse',
+      'puzzle',
+      'dog',
+    ])
+  })
+
+  it('should work out menu mix and total contribution', () => {
+    const result = classifyMenu([item('steak', 30, 900), item('soup', 10, 200)])
+
+    expect(result.totalSold).toBe(40)
+    expect(result.totalContribution).toBe(29000)
+    expect(result.items[0]).toMatchObject({
+      menuMix: 75,
+      totalContribution: 27000,
+    })
+  })
+
+  it('should treat every item as unpopular without any sales', () => {
+    const result = classifyMenu([item('steak', 0, 900), item('soup', 0, 200)])
+
+    expect(result.thresholds.contribution).toBe(550)
+    expect(result.items.map((i) => i.classification)).toEqual(['puzzle', 'dog'])
+  })
+
+  it('should handle an empty menu', () => {
+    expect(classifyMenu([])).toEqual({
+      items: [],
+      totalSold: 0,
+      totalContribution: 0,
+      thresholds: { menuMix: 0, contribution: 0 },
+    })
+  })
+})
+
+describe('menuEngineeringCSV', () => {
+  it('should write one row per item with money in pounds', () => {
+    const csv = menuEngineeringCSV(
+      classifyMenu([
+        {
+          slug: 'steak',
+          name: 'Steak',
+          category: 'Mains',
+          sold: 3,
+          contribution: 950,
+        },
+      ])
+    )
+
+    expect(csv.trim().split('\n')).toEqual([
+      'slug,name,category,sold,menuMix,contribution,totalContribution,classification',
+      'steak,Steak,Mains,3,100.00%,9.50,28.50,star',
+    ])
+  })
+})
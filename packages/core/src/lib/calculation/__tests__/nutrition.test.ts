@@ -0,0 +1,202 @@
+import {
+  createDatabase,
+  jsonArrayFrom,
+  jsonObjectFrom,
+  migrate,
+} from '@menubook/sqlite'
+
+import type { DatabaseContext } from '../../../datastore/context'
+import { RecipeResolvedImportData } from '../../../schema'
+import { ConfigService } from '../../../services/config'
+import { IngredientService } from '../../../services/ingredient'
+import { RecipeService } from '../../../services/recipe'
+import { SupplierService } from '../../../services/supplier'
+import {
+  NutritionCalculator,
+  parseNutrition,
+  serialiseNutrition,
+} from '../nutrition'
+
+jest.mock('../../../services/config', () => {
+  return {
+    ConfigService: jest.fn().mockImplementation(() => ({
+      getVatRate: jest.fn().mockResolvedValue(0.2),
+      getCurrency: jest.fn().mockResolvedValue('GBP'),
+      getMarginTarget: jest.fn().mockResolvedValue(20),
+      getDefaultPriceIncludesVat: jest.fn().mockResolvedValue(true),
+    })),
+  }
+})
+
+describe('NutritionCalculator', () => {
+  let context: DatabaseContext
+  let ingredients: IngredientService
+  let recipes: RecipeService
+  let calculator: NutritionCalculator
+
+  const save = async (data: RecipeResolvedImportData) => {
+    const id = await recipes.upsert(data.slug, data)
+    await recipes.upsertIngredients(id!, data)
+  }
+
+  const menuItem = (
+    ingredients: RecipeResolvedImportData['ingredients']
+  ): RecipeResolvedImportData => ({
+    slug: 'toast',
+    name: 'Toast',
+    stage: 'active',
+    class: 'menu_item',
+    costing: { price: 400 },
+    ingredients,
+  })
+
+  beforeEach(async () => {
+    const db = createDatabase(':memory:')
+    await migrate(db)
+
+    context = { db, helpers: { jsonArrayFrom, jsonObjectFrom } }
+
+    const config = new ConfigService('')
+    ingredients = new IngredientService(context, new SupplierService(context))
+    recipes = new RecipeService(context, ingredients, config)
+    calculator = new NutritionCalculator(recipes, ingredients)
+
+    await db
+      .insertInto('Supplier')
+      .values({ slug: 'generic', name: 'Generic' })
+      .execute()
+
+    await ingredients.upsert('bread', {
+      slug: 'bread',
+      name: 'Bread',
+      category: 'bakery',
+      purchase: { unit: '1 loaf', cost: 150, vat: false },
+      conversionRate: '1 slice = 40g',
+      nutrition: {
+        energy: 250,
+        fat: 2,
+        saturates: 0.5,
+        carbohydrate: 45,
+        sugars: 3,
+        protein: 9,
+        salt: 1,
+      },
+    })
+    await ingredients.upsert('butter', {
+      slug: 'butter',
+      name: 'Butter',
+      category: 'dairy',
+      purchase: { unit: '250g', cost: 200, vat: false },
+      nutrition: {
+        energy: 740,
+        fat: 82,
+        saturates: 52,
+        carbohydrate: 0.5,
+        sugars: 0.5,
+        protein: 0.5,
+        salt: 1.5,
+      },
+    })
+  })
+
+  afterEach(async () => {
+    await context.db.destroy()
+  })
+
+  test('should sum ingredients per portion using conversion rules', async () => {
+    await save(
+      menuItem([
+        { type: 'ingredient', slug: 'bread', with: { unit: '2 slices' } },
+        { type: 'ingredient', slug: 'butter', with: { unit: '10g' } },
+      ])
+    )
+
+    const result = await calculator.nutrition('toast')
+
+    // 80g of bread and 10g of butter
+    expect(result.perPortion).toEqual({
+      energy: 274,
+      fat: 9.8,
+      saturates: 5.6,
+      carbohydrate: 36.05,
+      sugars: 2.45,
+      protein: 7.25,
+      salt: 0.95,
+    })
+    expect(result.missing).toEqual([])
+  })
+
+  test('should scale sub-recipes by the share of their yield', async () => {
+    await save({
+      slug: 'garlic-butter',
+      name: 'Garlic Butter',
+      stage: 'active',
+      class: 'sub_recipe',
+      costing: { price: 0 },
+      yieldAmount: 200,
+      yieldUnit: 'g',
+      ingredients: [
+        { type: 'ingredient', slug: 'butter', with: { unit: '200g' } },
+      ],
+    })
+    await save(
+      menuItem([
+        { type: 'recipe', slug: 'garlic-butter', with: { unit: '20g' } },
+      ])
+    )
+
+    const { perPortion } = await calculator.nutrition('toast')
+
+    expect(perPortion.energy).toBe(148)
+    expect(perPortion.fat).toBe(16.4)
+  })
+
+  test('should list lines it could not include', async () => {
+    await ingredients.upsert('jam', {
+      slug: 'jam',
+      name: 'Jam',
+      category: 'preserves',
+      purchase: { unit: '340g', cost: 180, vat: false },
+    })
+    await save(
+      menuItem([
+        { type: 'ingredient', slug: 'jam', with: { unit: '15g' } },
+        { type: 'ingredient', slug: 'butter', with: { unit: '1 knob' } },
+      ])
+    )
+
+    const result = await calculator.nutrition('toast')
+
+    expect(result.perPortion.energy).toBe(0)
+    expect(result.missing).toEqual([
+      {
+        slug: 'jam',
+        name: 'Jam',
+        type: 'ingredient',
+        reason: 'No nutrition data',
+      },
+      {
+        slug: 'butter',
+        name: 'Butter',
+        type: 'ingredient',
+        reason: 'Cannot convert 1 knob to grams or millilitres',
+      },
+    ])
+  })
+
+  test('should round trip stored values', () => {
+    const values = {
+      energy: 100,
+      fat: 1,
+      saturates: 0.1,
+      carbohydrate: 20,
+      sugars: 5,
+      protein: 3,
+      salt: 0.2,
+    }
+
+    expect(parseNutrition(serialiseNutrition(values))).toEqual(values)
+    expect(parseNutrition(null)).toBeNull()
+    expect(serialiseNutrition(undefined)).toBeNull()
+  })
+})
@@ -0,0 +1,107 @@
+import type { ConfigService } from '../../../services/config'
+import { Calculator } from '../calculator'
+import { roundToPricePoint } from '../pricing'
+import type { RecipeResult } from '../types'
+
+describe('roundToPricePoint', () => {
+  it('should round up to the nearest step when no points are set', () => {
+    expect(roundToPricePoint(412, { points: [], step: 5 })).toBe(415)
+    expect(roundToPricePoint(415, { points: [], step: 5 })).toBe(415)
+    expect(roundToPricePoint(415.2, { points: [], step: 5 })).toBe(420)
+  })
+
+  it('should round up to the next price point', () => {
+    const options = { points: [99, 49, 95], step: 5 }
+
+    expect(roundToPricePoint(412, options)).toBe(449)
+    expect(roundToPricePoint(449, options)).toBe(449)
+    expect(roundToPricePoint(450, options)).toBe(495)
+    expect(roundToPricePoint(496, options)).toBe(499)
+  })
+
+  it('should carry into the next pound', () => {
+    expect(roundToPricePoint(450, { points: [49], step: 5 })).toBe(549)
+    expect(roundToPricePoint(401, { points: [0], step: 5 })).toBe(500)
+  })
+
+  it('should ignore points outside 0-99', () => {
+    expect(roundToPricePoint(412, { points: [150, -1], step: 10 })).toBe(420)
+  })
+})
+
+describe('Calculator.suggestPrice', () => {
+  const config = (points: number[] = []) =>
+    ({
+      getVatRate: jest.fn().mockResolvedValue(0.2),
+      getCurrency: jest.fn().mockResolvedValue('GBP'),
+      getPricePoints: jest.fn().mockResolvedValue(points),
+      getPriceStep: jest.fn().mockResolvedValue(5),
+    }) as unknown as ConfigService
+
+  const result = (
+    totalCost: number,
+    targetMargin: number,
+    includesVat: number
+  ): RecipeResult =>
+    ({
+      totalCost,
+      labourCost: 0,
+      tree: [],
+      costLines: [],
+      recipe: {
+        sellPrice: 500,
+        targetMargin,
+        includesVat,
+        costs: [],
+        bands: [],
+      },
+    }) as unknown as RecipeResult
+
+  it('should return the minimum price that meets the target margin', async () => {
+    const calculator = new Calculator(null as any, null as any, config())
+    const price = await calculator.suggestPrice(result(300, 70, 1))
+
+    expect(price).toEqual({
+      targetMargin: 70,
+      currentPrice: 500,
+      minimum: { exVat: 1000, incVat: 1200 },
+      suggested: { exVat: 1000, incVat: 1200 },
+      sellPrice: 1200,
+      vatApplicable: true,
+    })
+  })
+
+  it('should round the VAT inclusive price for VAT inclusive recipes', async () => {
+    const calculator = new Calculator(null as any, null as any, config([95]))
+    const price = await calculator.suggestPrice(result(310, 70, 1))
+
+    // 310 / 0.3 = 1033.33 ex-VAT, 1240 inc-VAT
+    expect(price?.minimum).toEqual({ exVat: 1034, incVat: 1240 })
+    expect(price?.sellPrice).toBe(1295)
+    expect(price?.suggested).toEqual({ exVat: 1080, incVat: 1295 })
+  })
+
+  it('should round the ex-VAT price for ex-VAT recipes', async () => {
+    const calculator = new Calculator(null as any, null as any, config([49]))
+    const price = await calculator.suggestPrice(result(310, 70, 0))
+
+    expect(price?.sellPrice).toBe(1049)
+    expect(price?.suggested).toEqual({ exVat: 1049, incVat: 1259 })
+  })
+
+  it('should meet the target margin at the suggested price', async () => {
+    const calculator = new Calculator(null as any, null as any, config())
+    const recipe = result(333, 65, 1)
+    const price = await calculator.suggestPrice(recipe)
+
+    recipe.recipe.sellPrice = price!.sellPrice
+    const margin = await calculator.margin(recipe)
+
+    expect(margin.meetsTarget).toBe(true)
+  })
+
+  it('should return null for an unreachable target', async () => {
+    const calculator = new Calculator(null as any, null as any, config())
+    expect(await calculator.suggestPrice(result(300, 100, 1))).toBeNull()
+  })
+})
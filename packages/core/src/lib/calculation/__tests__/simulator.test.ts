@@ -0,0 +1,265 @@
+import {
+  createDatabase,
+  jsonArrayFrom,
+  jsonObjectFrom,
+  migrate,
+} from '@menubook/sqlite'
+
+import type { DatabaseContext } from '../../../datastore/context'
+import { RecipeResolvedImportData } from '../../../schema'
+import { ConfigService } from '../../../services/config'
+import { ExchangeRateService } from '../../../services/exchange-rate'
+import { IngredientService } from '../../../services/ingredient'
+import { RecipeService } from '../../../services/recipe'
+import { SupplierService } from '../../../services/supplier'
+import { parseSimulationOverride, Simulator } from '../simulator'
+
+jest.mock('../../../services/config', () => {
+  return {
+    ConfigService: jest.fn().mockImplementation(() => ({
+      getVatRate: jest.fn().mockResolvedValue(0.2),
+      getCurrency: jest.fn().mockResolvedValue('GBP'),
+      getMarginTarget: jest.fn().mockResolvedValue(20),
+      getDefaultPriceIncludesVat: jest.fn().mockResolvedValue(true),
+    })),
+  }
+})
+
+describe('parseSimulationOverride', () => {
+  test('should parse ingredient overrides', () => {
+    expect(parseSimulationOverride('cheddar +15%')).toEqual({
+      type: 'ingredient',
+      target: { slug: 'cheddar' },
+      change: { percent: 15 },
+    })
+    expect(parseSimulationOverride('category:dairy -5%')).toEqual({
+      type: 'ingredient',
+      target: { category: 'dairy' },
+      change: { percent: -5 },
+    })
+  })
+
+  test('should parse price overrides', () => {
+    expect(parseSimulationOverride('price category:burgers +50p')).toEqual({
+      type: 'price',
+      target: { category: 'burgers' },
+      change: { pence: 50 },
+    })
+    expect(parseSimulationOverride('price margherita -10%')).toEqual({
+      type: 'price',
+      target: { slug: 'margherita' },
+      change: { percent: -10 },
+    })
+  })
+
+  test('should parse VAT overrides', () => {
+    expect(parseSimulationOverride('vat 0.125')).toEqual({
+      type: 'vat',
+      rate: 0.125,
+    })
+    expect(parseSimulationOverride('VAT 12.5%')).toEqual({
+      type: 'vat',
+      rate: 0.125,
+    })
+    expect(parseSimulationOverride('vat 0.2 -> 0.125')).toEqual({
+      type: 'vat',
+      rate: 0.125,
+    })
+  })
+
+  test('should reject anything else', () => {
+    expect(() => parseSimulationOverride('cheddar +15p')).toThrow(
+      'Invalid override'
+    )
+    expect(() => parseSimulationOverride('cheaper cheese')).toThrow(
+      'Invalid override'
+    )
+  })
+})
+
+describe('Simulator', () => {
+  let context: DatabaseContext
+  let simulator: Simulator
+  let ingredient: IngredientService
+  let recipes: RecipeService
+
+  const recipe = (
+    slug: string,
+    category: string,
+    price: number,
+    unit: string
+  ): RecipeResolvedImportData => ({
+    slug,
+    name: slug,
+    stage: 'active',
+    class: 'menu_item',
+    category,
+    costing: { price, margin: 80, vat: true },
+    ingredients: [{ type: 'ingredient', slug: 'cheddar', with: { unit } }],
+  })
+
+  beforeEach(async () => {
+    const db = createDatabase(':memory:')
+    await migrate(db)
+
+    context = { db, helpers: { jsonArrayFrom, jsonObjectFrom } }
+
+    const config = new ConfigService('')
+    ingredient = new IngredientService(context, new SupplierService(context))
+    recipes = new RecipeService(context, ingredient, config)
+
+    await db
+      .insertInto('Supplier')
+      .values({ slug: 'generic', name: 'Generic' })
+      .execute()
+
+    await ingredient.upsert('cheddar', {
+      slug: 'cheddar',
+      name: 'Cheddar',
+      category: 'dairy',
+      purchase: { unit: '1kg', cost: 1000, vat: false },
+    })
+
+    for (const data of [
+      recipe('cheeseburger', 'burgers', 1000, '50g'),
+      recipe('cheese-toastie', 'sandwiches', 600, '40g'),
+    ]) {
+      const id = await recipes.upsert(data.slug, data)
+      await recipes.upsertIngredients(id!, data)
+    }
+
+    simulator = new Simulator(recipes, ingredient, config)
+  })
+
+  afterEach(async () => {
+    await context.db.destroy()
+  })
+
+  test('should report before and after margins for affected recipes', async () => {
+    const result = await simulator.run([
+      parseSimulationOverride('cheddar +50%'),
+    ])
+
+    expect(result.recipes.map((r) => r.slug)).toEqual([
+      'cheeseburger',
+      'cheese-toastie',
+    ])
+
+    const [burger] = result.recipes
+    expect(burger.after.cost).toBeGreaterThan(burger.before.cost)
+    expect(burger.marginChange).toBeLessThan(0)
+  })
+
+  test('should only include recipes touched by a price override', async () => {
+    const result = await simulator.run([
+      parseSimulationOverride('price category:burgers +50p'),
+    ])
+
+    expect(result.recipes).toHaveLength(1)
+    expect(result.recipes[0]).toMatchObject({
+      slug: 'cheeseburger',
+      before: { customerPrice: 1000 },
+      after: { customerPrice: 1050 },
+    })
+  })
+
+  test('should flag recipes that drop below their target margin', async () => {
+    const result = await simulator.run([
+      parseSimulationOverride('cheddar +200%'),
+    ])
+
+    expect(result.belowTarget).toEqual(['cheese-toastie'])
+    expect(
+      result.recipes.find((r) => r.slug === 'cheese-toastie')?.dropsBelowTarget
+    ).toBe(true)
+  })
+
+  test('should replace the purchase details outright', async () => {
+    const result = await simulator.run([
+      {
+        type: 'purchase',
+        target: { slug: 'cheddar' },
+        purchase: { unit: '2kg', cost: 1000, currency: null },
+      },
+    ])
+
+    const [burger] = result.recipes
+    expect(burger.after.cost).toBeCloseTo(burger.before.cost / 2)
+  })
+
+  test('should cost replaced purchase details in their currency', async () => {
+    await new ExchangeRateService(context).set({
+      currency: 'EUR',
+      rate: 0.5,
+      effectiveFrom: '2026-01-01',
+    })
+
+    const result = await simulator.run([
+      {
+        type: 'purchase',
+        target: { slug: 'cheddar' },
+        purchase: { unit: '1kg', cost: 1000, currency: 'EUR' },
+      },
+    ])
+
+    const [burger] = result.recipes
+    expect(burger.after.cost).toBeCloseTo(burger.before.cost / 2)
+  })
+
+  test('should apply a VAT change to every VAT inclusive price', async () => {
+    const result = await simulator.run([parseSimulationOverride('vat 0.125')])
+
+    expect(result.recipes).toHaveLength(2)
+    for (const recipe of result.recipes) {
+      expect(recipe.after.sellPrice).toBeGreaterThan(recipe.before.sellPrice)
+    }
+  })
+
+  test('should only change the VAT charged on sell prices', async () => {
+    await ingredient.upsert('butter', {
+      slug: 'butter',
+      name: 'Butter',
+      category: 'dairy',
+      purchase: { unit: '250g', cost: 240, vat: true },
+    })
+
+    const data: RecipeResolvedImportData = {
+      ...recipe('garlic-bread', 'sides', 600, '10g'),
+      ingredients: [
+        { type: 'ingredient', slug: 'butter', with: { unit: '25g' } },
+      ],
+      costing: {
+        price: 600,
+        margin: 80,
+        vat: true,
+        bands: [{ name: 'Takeaway', price: 500, vat: 0.05 }],
+      },
+    }
+    const id = await recipes.upsert(data.slug, data)
+    await recipes.upsertIngredients(id!, data)
+
+    const result = await simulator.run(
+      [parseSimulationOverride('vat 0.125')],
+      ['garlic-bread']
+    )
+
+    const [garlicBread] = result.recipes
+    expect(garlicBread.after.cost).toBe(garlicBread.before.cost)
+    expect(garlicBread.after.sellPrice).toBeGreaterThan(
+      garlicBread.before.sellPrice
+    )
+    expect(garlicBread.after.bands).toEqual(garlicBread.before.bands)
+  })
+
+  test('should not write anything to the database', async () => {
+    await simulator.run([parseSimulationOverride('cheddar +50%')])
+
+    const cheddar = await context.db
+      .selectFrom('Ingredient')
+      .select('purchaseCost')
+      .where('slug', '=', 'cheddar')
+      .executeTakeFirstOrThrow()
+
+    expect(cheddar.purchaseCost).toBe(1000)
+  })
+})
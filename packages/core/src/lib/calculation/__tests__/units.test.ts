@@ -1,4 +1,10 @@
-import { convertUnits, parseConversionRule, parseUnit } from '../units'
+import {
+  convertUnits,
+  parseConversionRule,
+  parseDensity,
+  parseUnit,
+  toKitchenUnit,
+} from '../units'
 
 describe('parseUnit', () => {
   describe('basic parsing', () => {
@@ -111,6 +117,50 @@ describe('parseUnit', () => {
     })
   })
 
+  describe('pack sizes', () => {
+    it('should read multipacks as the whole pack in the inner unit', () => {
+      expect(parseUnit('6 x 330ml')).toEqual({
+        amount: 1980,
+        unit: 'ml',
+        pack: { count: 6, size: { amount: 330, unit: 'ml' } },
+      })
+      expect(parseUnit('12x1L')).toEqual({
+        amount: 12,
+        unit: 'l',
+        pack: { count: 12, size: { amount: 1, unit: 'l' } },
+      })
+      expect(parseUnit('4 x 6 x 330ml')).toMatchObject({
+        amount: 7920,
+        unit: 'ml',
+      })
+    })
+
+    it('should read named packs', () => {
+      expect(parseUnit('case of 24 x 50g')).toEqual({
+        amount: 1200,
+        unit: 'g',
+        pack: { count: 24, size: { amount: 50, unit: 'g' } },
+      })
+      expect(parseUnit('Case of 24')).toEqual({
+        amount: 24,
+        unit: 'each',
+        pack: { count: 24, size: { amount: 1, unit: 'each' } },
+      })
+      expect(parseUnit('tray of 30 eggs')).toMatchObject({
+        amount: 30,
+        unit: 'eggs',
+      })
+    })
+
+    it('should keep the name of each item', () => {
+      expect(parseUnit('24 x 330ml cans')).toEqual({
+        amount: 7920,
+        unit: 'ml',
+        pack: { count: 24, size: { amount: 330, unit: 'ml' }, item: 'can' },
+      })
+    })
+  })
+
   describe('common abbreviations', () => {
     it('should handle common abbreviations', () => {
       // Tablespoon variations
@@ -231,9 +281,17 @@ describe('convertUnits', () => {
       const cups = convertUnits({ amount: 1, unit: 'cup' }, 'fl-oz')
       expect(cups).toBeCloseTo(8, 1)
 
-      // Note: Not all common units like tbsp/tsp/pint are supported by convert-units
+      // Note: Not all common units like pint are supported by convert-units
       // Those can be handled via custom conversion rules instead
     })
+
+    it('should accept kitchen spellings of spoons', () => {
+      expect(convertUnits({ amount: 2, unit: 'tbsp' }, 'tsp')).toBeCloseTo(6)
+      expect(convertUnits({ amount: 1, unit: 'tablespoon' }, 'ml')).toBeCloseTo(
+        14.79,
+        2
+      )
+    })
   })
 
   describe('custom conversion rules', () => {
@@ -274,6 +332,35 @@ describe('convertUnits', () => {
     })
   })
 
+  describe('density', () => {
+    it('should bridge volume to weight', () => {
+      expect(
+        convertUnits({ amount: 2, unit: 'tbsp' }, 'kg', undefined, 0.92)
+      ).toBeCloseTo(0.0272, 4)
+    })
+
+    it('should bridge weight to volume', () => {
+      expect(
+        convertUnits({ amount: 460, unit: 'g' }, 'l', undefined, '0.92')
+      ).toBeCloseTo(0.5)
+    })
+
+    it('should take the density from a rule', () => {
+      expect(
+        convertUnits(
+          { amount: 2, unit: 'cups' },
+          'g',
+          undefined,
+          '1 cup = 120g'
+        )
+      ).toBeCloseTo(240)
+    })
+
+    it('should not bridge without a density', () => {
+      expect(convertUnits({ amount: 2, unit: 'tbsp' }, 'kg')).toBeNull()
+    })
+  })
+
   describe('failed conversions', () => {
     it('should return null when no conversion is available', () => {
       expect(convertUnits({ amount: 5, unit: 'cups' }, 'bananas')).toBeNull()
@@ -320,4 +407,72 @@ describe('convertUnits', () => {
       ).toBe(32)
     })
   })
+
+  describe('packs', () => {
+    it('should convert into the inner unit', () => {
+      const pack = parseUnit('12 x 1L')!
+
+      expect(convertUnits({ amount: 250, unit: 'ml' }, pack)).toBe(0.25)
+    })
+
+    it('should draw on whole items from the pack', () => {
+      expect(
+        convertUnits({ amount: 2, unit: 'cans' }, parseUnit('24 x 330ml cans')!)
+      ).toBe(660)
+      expect(
+        convertUnits({ amount: 1, unit: 'each' }, parseUnit('6 x 330ml')!)
+      ).toBe(330)
+      expect(
+        convertUnits({ amount: 3, unit: 'each' }, parseUnit('case of 24')!)
+      ).toBe(3)
+    })
+  })
+})
+
+describe('toKitchenUnit', () => {
+  it('should move between metric units as a kitchen would', () => {
+    expect(toKitchenUnit({ amount: 2500, unit: 'g' })).toEqual({
+      amount: 2.5,
+      unit: 'kg',
+    })
+    expect(toKitchenUnit({ amount: 0.25, unit: 'l' })).toEqual({
+      amount: 250,
+      unit: 'ml',
+    })
+    expect(toKitchenUnit({ amount: 1200, unit: 'ml' })).toEqual({
+      amount: 1.2,
+      unit: 'l',
+    })
+  })
+
+  it('should only round other units', () => {
+    expect(toKitchenUnit({ amount: 2 / 3, unit: 'cups' })).toEqual({
+      amount: 0.67,
+      unit: 'cups',
+    })
+    expect(toKitchenUnit({ amount: 12, unit: 'slices' })).toEqual({
+      amount: 12,
+      unit: 'slices',
+    })
+  })
+})
+
+describe('parseDensity', () => {
+  it('should read grams per millilitre', () => {
+    expect(parseDensity(0.92)).toBe(0.92)
+    expect(parseDensity('1.03')).toBe(1.03)
+  })
+
+  it('should work out grams per millilitre from a rule', () => {
+    expect(parseDensity('1 l = 920g')).toBeCloseTo(0.92)
+    expect(parseDensity('250g = 1 cup')).toBeCloseTo(1.0567, 4)
+  })
+
+  it('should reject anything that is not a positive weight per volume', () => {
+    expect(parseDensity('0')).toBeNull()
+    expect(parseDensity('-1')).toBeNull()
+    expect(parseDensity('1 loaf = 16 slices')).toBeNull()
+    expect(parseDensity('1kg = 1000g')).toBeNull()
+    expect(parseDensity('heavy')).toBeNull()
+  })
 })
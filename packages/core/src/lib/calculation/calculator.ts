@@ -1,12 +1,41 @@
+import { BadRequest } from '@hndlr/errors'
 import path from 'path'
 
-import log from '@harrytwright/logger'
-
 import { ConfigService } from '../../services/config'
 import { IngredientService } from '../../services/ingredient'
-import { RecipeIngredientsLookup, RecipeService } from '../../services/recipe'
-import { RecipeCostNode, RecipeResult } from './types'
-import { convertUnits, parseConversionRule, parseUnit } from './units'
+import {
+  RecipeCostLineLookup,
+  RecipeIngredientsLookup,
+  RecipeService,
+  RecipeWithIngredients,
+} from '../../services/recipe'
+import {
+  Allergen,
+  ALLERGEN_LABELS,
+  ALLERGENS,
+  parseAllergens,
+} from '../allergens'
+import { roundToPricePoint } from './pricing'
+import {
+  AllergenSource,
+  MarginResult,
+  PriceSuggestion,
+  RecipeAllergens,
+  RecipeCostLineNode,
+  RecipeCostNode,
+  RecipeIssue,
+  RecipeResult,
+  ScaledRecipe,
+  ScaledRecipeLine,
+  ScaleTarget,
+} from './types'
+import {
+  convertUnits,
+  measureOf,
+  parseConversionRule,
+  parseUnit,
+  toKitchenUnit,
+} from './units'
 
 export class Calculator {
   private readonly maxDepth = 10
@@ -21,7 +50,8 @@ export class Calculator {
 
   private async ingredientCost(
     ingredient: RecipeIngredientsLookup,
-    depth: number = 0
+    depth: number = 0,
+    asOf?: Date
   ) {
     if (depth > this.maxDepth)
       throw new RangeError('Maximum recursion depth exceeded')
@@ -31,50 +61,144 @@ export class Calculator {
     // In theory should not hit this
     if (!lookup) throw new Error(`Ingredient ${ingredient.slug} not found`)
 
+    // Historic costing uses the price in effect at `asOf`
+    const historic =
+      asOf && (await this.ingredient.priceAt(ingredient.slug, asOf))
+    const price = historic || lookup
+
     const unit = parseUnit(ingredient.unit)
-    const purchase = parseUnit(lookup.purchaseUnit)
+    const purchase = parseUnit(price.purchaseUnit)
 
     if (!unit || !purchase)
       throw new Error(
         `Invalid unit or purchase unit for ingredient ${ingredient.slug}`
       )
 
+    // Before the ingredient's first price there is nothing to cost it at, the
+    // current price would pass a later price off as the historic one
+    if (asOf && !historic) {
+      const [first] = (await this.ingredient.priceHistory(ingredient.slug))
+        .slice(-1)
+        .map((entry) =>
+          new Date(entry.effectiveFrom).toISOString().slice(0, 10)
+        )
+      const day = asOf.toISOString().slice(0, 10)
+
+      return {
+        unit,
+        grossAmount: unit.amount,
+        costPerUnit: 0,
+        name: lookup.name,
+        totalCost: 0,
+        issue: {
+          reason: 'unknown_price' as const,
+          message:
+            `No price for ${lookup.name} on ${day}` +
+            (first ? `, its price history starts on ${first}` : ''),
+          dates: { asOf: day, firstPrice: first ?? null },
+        },
+      }
+    }
+
     const rule =
       (lookup.conversionRule && parseConversionRule(lookup.conversionRule)) ||
       undefined
     const convertedAmount = convertUnits(
       unit,
-      purchase.unit,
-      lookup.conversionRule || undefined
+      purchase,
+      lookup.conversionRule || undefined,
+      lookup.density || undefined
     )
 
+    // Keep the line in the tree at no cost, rather than losing it, so the
+    // missing conversion is visible
     if (!convertedAmount) {
-      return null
+      const mixed =
+        (measureOf(unit.unit) === 'mass' &&
+          measureOf(purchase.unit) === 'volume') ||
+        (measureOf(unit.unit) === 'volume' &&
+          measureOf(purchase.unit) === 'mass')
+
+      return {
+        unit,
+        grossAmount: unit.amount,
+        costPerUnit: 0,
+        name: lookup.name,
+        totalCost: 0,
+        issue: {
+          reason: 'unconvertible_unit' as const,
+          message:
+            `Cannot convert ${ingredient.unit} to ${purchase.unit}` +
+            (mixed && !lookup.density
+              ? ', add a density to convert between weight and volume'
+              : ''),
+          units: { from: ingredient.unit, to: price.purchaseUnit },
+        },
+      }
     }
 
-    // Convert purchaseCost from pounds (Decimal) to pence (integer)
-    const purchaseCostInPence = Number(lookup.purchaseCost) * 100
+    // Foreign purchase costs are normalised into the base currency at the
+    // rate in effect when costing
+    const base = await this.config.getCurrency()
+    const currency = price.purchaseCurrency || base
+    const exchangeRate =
+      currency === base ? 1 : await this.ingredient.exchangeRate(currency, asOf)
+
+    if (exchangeRate === undefined) {
+      return {
+        unit,
+        grossAmount: unit.amount,
+        costPerUnit: 0,
+        name: lookup.name,
+        totalCost: 0,
+        issue: {
+          reason: 'unknown_exchange_rate' as const,
+          message: `No exchange rate from ${currency} to ${base}, add one to cost this line`,
+          units: { from: currency, to: base },
+        },
+      }
+    }
 
-    // If ingredient purchase cost includes VAT, strip it out
-    const vatRate = await this.config.getVatRate()
-    const purchaseCostExVat = lookup.includesVat
+    // Purchase costs are stored in pence (or the currency's minor unit)
+    const purchaseCostInPence = Number(price.purchaseCost) * exchangeRate
+
+    // If ingredient purchase cost includes VAT, strip it out at the rate the
+    // ingredient was bought under
+    const vatRate = await this.config.getVatRate({
+      applies: 'ingredient',
+      category: lookup.category,
+      date: asOf,
+    })
+    const purchaseCostExVat = price.includesVat
       ? purchaseCostInPence / (1 + vatRate)
       : purchaseCostInPence
 
-    const totalCost = (convertedAmount / purchase.amount) * purchaseCostExVat
+    // The recipe line is the net quantity, so scale up to what has to be
+    // bought to cover trimming (yield) and preparation losses (waste)
+    const usable = this.usableShare(
+      lookup.yieldPercent,
+      ingredient.wastePercent
+    )
+
+    const totalCost =
+      ((convertedAmount / purchase.amount) * purchaseCostExVat) / usable
 
     const baseAmount = rule?.to.amount || purchase.amount
     const costPerUnit = purchaseCostExVat / baseAmount
 
     return {
       unit,
+      grossAmount: this.grossAmount(unit.amount, usable),
       costPerUnit,
       name: lookup.name,
       totalCost: Math.ceil(totalCost), // in pence
     }
   }
 
-  async cost(recipe: string, depth: number = 0) {
+  /**
+   * Cost a recipe, optionally using ingredient prices as they stood on `asOf`.
+   */
+  async cost(recipe: string, depth: number = 0, asOf?: Date) {
     if (depth > this.maxDepth)
       throw new RangeError('Maximum recursion depth exceeded')
 
@@ -83,28 +207,73 @@ export class Calculator {
     if (!data) throw new Error(`Recipe ${recipe} not found`)
 
     let parsed: Map<string, RecipeCostNode> = new Map()
-    for (const ingredient of data.ingredients) {
+    const issues: RecipeIssue[] = []
+    let labourCost = await this.labourCost(data, issues)
+    for (const [index, ingredient] of data.ingredients.entries()) {
+      const line = {
+        recipe: data.slug,
+        line: index + 1,
+        type: ingredient.type,
+        slug: ingredient.slug,
+      }
+
       const result = await (ingredient.type === 'ingredient'
-        ? this.ingredientCost(ingredient, depth)
-        : this.cost(ingredient.slug, depth + 1))
+        ? this.ingredientCost(ingredient, depth, asOf)
+        : this.cost(ingredient.slug, depth + 1, asOf))
 
       if (!result) continue
 
       if ('tree' in result) {
+        const unit = parseUnit(ingredient.unit)!
+        const usable = this.usableShare(null, ingredient.wastePercent)
+
+        issues.push(...result.issues)
+
+        // Without a usable yield the line is charged the whole batch
+        let share = this.subRecipeShare(result, ingredient)
+        let warning: string | undefined
+        if (share === null) {
+          const { yieldAmount, yieldUnit } = result.recipe
+          const issue: RecipeIssue = {
+            ...line,
+            reason: 'unscaled_sub_recipe',
+            message: `Cannot convert ${ingredient.unit} to the yield of ${result.recipe.name}, charged the whole batch`,
+            units: {
+              from: ingredient.unit,
+              to: yieldAmount && yieldUnit ? `${yieldAmount} ${yieldUnit}` : '',
+            },
+          }
+
+          issues.push(issue)
+          warning = issue.message
+          share = 1
+        }
+
+        labourCost += (result.labourCost * share) / usable
+
         parsed.set(ingredient.slug, {
-          ...parseUnit(ingredient.unit)!,
+          ...unit,
+          grossAmount: this.grossAmount(unit.amount, usable),
           type: ingredient.type,
+          slug: ingredient.slug,
           name: ingredient.name!,
-          cost: Math.ceil(this.scaleSubRecipe(result, ingredient, depth)), // in pence
+          cost: Math.ceil((result.totalCost * share) / usable), // in pence
+          ...(warning && { warning }),
           children: result.tree,
         })
       } else {
+        const issue = 'issue' in result ? result.issue : undefined
+        if (issue) issues.push({ ...line, ...issue })
+
         parsed.set(ingredient.slug, {
           type: ingredient.type,
+          slug: ingredient.slug,
           name: result.name,
           cost: result.totalCost,
           amount: result.unit.amount,
+          grossAmount: result.grossAmount,
           unit: result.unit.unit,
+          ...(issue && { warning: issue.message }),
         })
       }
     }
@@ -114,31 +283,123 @@ export class Calculator {
       0
     )
 
+    const costLines = await this.costLines(data, issues, asOf)
+
     return {
       recipe: data,
       tree: Array.from(parsed.values()),
       totalCost: cost,
+      labourCost: Math.ceil(labourCost), // in pence
+      nonFoodCost: costLines.reduce((acc, line) => acc + line.cost, 0),
+      costLines,
+      issues,
     }
   }
 
-  async margin(recipe: RecipeResult) {
-    const { totalCost, recipe: recipeData } = recipe // totalCost is in pence
+  /**
+   * Work out a recipe's allergens from its ingredients, following sub-recipes
+   * (and the lines inherited from parent recipes) the same way `cost` does.
+   * An allergen a line contains outranks one that another line may contain.
+   */
+  async allergens(recipe: string): Promise<RecipeAllergens> {
+    const data = await this.recipe.findById(recipe)
 
-    const vatRate = await this.config.getVatRate()
-    const vatApplicable = recipeData.includesVat === 1
+    if (!data) throw new Error(`Recipe ${recipe} not found`)
 
-    // sellPrice is already in pence (what customer pays if VAT-inclusive)
-    const customerPriceInPence = recipeData.sellPrice
+    const sources = await this.allergenSources(data, [], 0)
+
+    const matrix = ALLERGENS.map((allergen) => {
+      const declared = sources
+        .filter((source) => source.allergen === allergen)
+        .map(({ allergen: _, ...source }) => source)
+
+      return {
+        allergen,
+        label: ALLERGEN_LABELS[allergen],
+        level: declared.some((source) => source.level === 'contains')
+          ? ('contains' as const)
+          : declared.length
+            ? ('may_contain' as const)
+            : null,
+        sources: declared,
+      }
+    })
 
-    // If includesVat is true, sellPrice is VAT-inclusive (what customer pays)
-    // Strip VAT to get the ex-VAT sell price for margin calculations
-    const sellPriceExVatInPence = vatApplicable
-      ? customerPriceInPence / (1 + vatRate) // Strip VAT from customer price
-      : customerPriceInPence // Already ex-VAT
+    return {
+      recipe: { slug: data.slug, name: data.name },
+      contains: matrix
+        .filter((row) => row.level === 'contains')
+        .map((row) => row.allergen),
+      mayContain: matrix
+        .filter((row) => row.level === 'may_contain')
+        .map((row) => row.allergen),
+      matrix,
+    }
+  }
+
+  async margin(recipe: RecipeResult): Promise<MarginResult> {
+    const { recipe: recipeData } = recipe
+    const vatRate = await this.recipeVatRate(recipeData)
+
+    const bands = recipeData.bands.map((band) => ({
+      band: band.name,
+      ...this.priceMargin(recipe, {
+        price: band.price,
+        vatApplicable: band.includesVat === 1,
+        vatRate: band.vatRate ?? vatRate,
+        commission: band.commission ?? 0,
+      }),
+    }))
+
+    return {
+      ...this.priceMargin(recipe, {
+        price: recipeData.sellPrice,
+        vatApplicable: recipeData.includesVat === 1,
+        vatRate,
+        commission: 0,
+      }),
+      bands,
+    }
+  }
+
+  /**
+   * Margins at a single price. Percent cost lines are charged again on this
+   * price's ex-VAT value, rather than the recipe's own used by `cost()`.
+   */
+  private priceMargin(
+    recipe: RecipeResult,
+    price: {
+      /** What the customer pays in pence, VAT inclusive if `vatApplicable` */
+      price: number
+      vatApplicable: boolean
+      vatRate: number
+      /** Percentage of the customer price */
+      commission: number
+    }
+  ): Omit<MarginResult, 'bands'> {
+    const { totalCost, labourCost, costLines, recipe: recipeData } = recipe // in pence
 
-    // Margin calculated ex-VAT (all values in pence)
-    const profitInPence = sellPriceExVatInPence - totalCost
+    const { vatApplicable } = price
+    const customerPriceInPence = price.price
+    const sellPriceExVatInPence = vatApplicable
+      ? customerPriceInPence / (1 + price.vatRate)
+      : customerPriceInPence
+    const commissionInPence = customerPriceInPence * (price.commission / 100)
+
+    const nonFoodCost = costLines.reduce((sum, line, index) => {
+      if (line.type !== 'percent') return sum + line.cost
+      const share = (recipeData.costs[index].amount ?? 0) / 100
+      return sum + Math.ceil(sellPriceExVatInPence * share)
+    }, 0)
+
+    // Margin calculated ex-VAT (all values in pence), after any commission
+    const profitInPence = sellPriceExVatInPence - totalCost - commissionInPence
     const actualMargin = (profitInPence / sellPriceExVatInPence) * 100
+    const primeCost = totalCost + labourCost
+    const primeMargin =
+      ((profitInPence - labourCost) / sellPriceExVatInPence) * 100
+    const contribution = profitInPence - labourCost - nonFoodCost
+    const contributionMargin = (contribution / sellPriceExVatInPence) * 100
     const targetMargin = recipeData.targetMargin || 0
     const marginDelta = actualMargin - targetMargin
 
@@ -149,55 +410,418 @@ export class Calculator {
 
     return {
       cost: Math.ceil(totalCost), // in pence
+      foodCost: Math.ceil(totalCost), // in pence
+      labourCost: Math.ceil(labourCost), // in pence
+      primeCost: Math.ceil(primeCost), // in pence
+      nonFoodCost: Math.ceil(nonFoodCost), // in pence
       sellPrice: Math.ceil(sellPriceExVatInPence), // in pence
       customerPrice: Math.ceil(customerPriceInPence), // in pence
       vatAmount: Math.ceil(vatAmountInPence), // in pence
       profit: Math.ceil(profitInPence), // in pence
       actualMargin: Math.ceil(actualMargin * 100) / 100, // percentage
+      primeMargin: Math.ceil(primeMargin * 100) / 100, // percentage
+      contribution: Math.ceil(contribution), // in pence
+      contributionMargin: Math.ceil(contributionMargin * 100) / 100, // percentage
       targetMargin, // percentage
       marginDelta: Math.ceil(marginDelta * 100) / 100, // percentage
       meetsTarget: actualMargin >= targetMargin,
       vatApplicable,
+      commission: Math.ceil(commissionInPence), // in pence
+    }
+  }
+
+  /**
+   * Solve for the lowest sell price that meets the recipe's target margin.
+   * Rounding is applied to the price the customer sees, so VAT inclusive
+   * recipes are rounded inc-VAT and the ex-VAT price is derived from it.
+   *
+   * Returns null when the target margin cannot be met at any price.
+   */
+  async suggestPrice(recipe: RecipeResult): Promise<PriceSuggestion | null> {
+    const { totalCost, recipe: recipeData } = recipe // totalCost is in pence
+
+    const targetMargin = recipeData.targetMargin || 0
+    if (targetMargin >= 100) return null
+
+    const vatRate = await this.recipeVatRate(recipeData)
+    const vatApplicable = recipeData.includesVat === 1
+    const options = {
+      points: await this.config.getPricePoints(),
+      step: await this.config.getPriceStep(),
+    }
+
+    // margin = (price - cost) / price, so price = cost / (1 - margin)
+    const minimumExVat = totalCost / (1 - targetMargin / 100)
+    const minimumIncVat = minimumExVat * (1 + vatRate)
+
+    const sellPrice = roundToPricePoint(
+      vatApplicable ? minimumIncVat : minimumExVat,
+      options
+    )
+
+    return {
+      targetMargin,
+      currentPrice: recipeData.sellPrice,
+      minimum: {
+        exVat: Math.ceil(minimumExVat),
+        incVat: Math.ceil(minimumIncVat),
+      },
+      suggested: vatApplicable
+        ? { exVat: Math.ceil(sellPrice / (1 + vatRate)), incVat: sellPrice }
+        : { exVat: sellPrice, incVat: Math.ceil(sellPrice * (1 + vatRate)) },
+      sellPrice,
+      vatApplicable,
     }
   }
 
-  private scaleSubRecipe(
+  /**
+   * Scale a recipe to a number of portions or a target yield, for a batch
+   * sheet. Sub-recipes are expanded and scaled to the amount the batch
+   * uses, and quantities are given in kitchen units.
+   */
+  async scaleRecipe(
+    recipe: string,
+    target: ScaleTarget
+  ): Promise<ScaledRecipe> {
+    const result = await this.cost(recipe)
+    const { factor, portions } = this.scaleFactor(result.recipe, target)
+    const batch = parseUnit(
+      `${result.recipe.yieldAmount} ${result.recipe.yieldUnit}`
+    )
+
+    return {
+      recipe: { slug: result.recipe.slug, name: result.recipe.name },
+      factor,
+      portions,
+      yield:
+        result.recipe.yieldAmount && batch
+          ? toKitchenUnit({ amount: batch.amount * factor, unit: batch.unit })
+          : null,
+      lines: await this.scaledLines(result, factor),
+      totalCost: Math.ceil(result.totalCost * factor),
+      labourCost: Math.ceil(result.labourCost * factor),
+      issues: result.issues,
+    }
+  }
+
+  /**
+   * How many times over to make the recipe. Portions count the recipe's
+   * yield, or one per batch without one, so a recipe that yields a weight or
+   * volume has to be scaled by yield instead.
+   */
+  private scaleFactor(
+    recipe: RecipeWithIngredients<true>,
+    target: ScaleTarget
+  ): { factor: number; portions: number | null } {
+    const batch = recipe.yieldAmount
+      ? parseUnit(`${recipe.yieldAmount} ${recipe.yieldUnit}`)
+      : null
+    const measured = !!batch && measureOf(batch.unit) !== null
+
+    if ('portions' in target) {
+      if (!(target.portions > 0))
+        throw new BadRequest('Portions must be a number above zero')
+
+      if (measured)
+        throw new BadRequest(
+          `${recipe.name} yields ${recipe.yieldAmount}${recipe.yieldUnit}, scale it to a yield instead of portions`
+        )
+
+      return {
+        factor: target.portions / (batch?.amount ?? 1),
+        portions: target.portions,
+      }
+    }
+
+    const wanted = parseUnit(target.yield)
+    if (!wanted) throw new BadRequest(`Invalid yield '${target.yield}'`)
+
+    if (!batch)
+      throw new BadRequest(
+        `${recipe.name} has no yield to scale to ${target.yield}`
+      )
+
+    const amount = convertUnits(wanted, batch.unit)
+    if (!amount)
+      throw new BadRequest(
+        `Cannot convert ${target.yield} to the yield of ${recipe.name}`
+      )
+
+    return {
+      factor: amount / batch.amount,
+      portions: measured ? null : amount,
+    }
+  }
+
+  /**
+   * The lines of a costed recipe multiplied up to a batch, with each
+   * sub-recipe's own lines scaled to the share of it the batch uses
+   */
+  private async scaledLines(
     result: RecipeResult,
-    ingredient: RecipeIngredientsLookup,
+    factor: number,
+    depth: number = 0
+  ): Promise<ScaledRecipeLine[]> {
+    const lines: ScaledRecipeLine[] = []
+
+    for (const node of result.tree) {
+      const quantity = toKitchenUnit({
+        amount: node.amount * factor,
+        unit: node.unit,
+      })
+      // Gross follows the net quantity into the same unit
+      const gross =
+        convertUnits(
+          { amount: node.grossAmount * factor, unit: node.unit },
+          quantity.unit
+        ) ?? node.grossAmount * factor
+
+      const line: ScaledRecipeLine = {
+        type: node.type,
+        slug: node.slug,
+        name: node.name,
+        amount: quantity.amount,
+        grossAmount: Math.round(gross * 100) / 100,
+        unit: quantity.unit,
+        cost: Math.ceil(node.cost * factor),
+        ...(node.warning && { warning: node.warning }),
+      }
+
+      // Lines are keyed by slug when costed, so the last one is in the tree
+      const ingredient = [...result.recipe.ingredients]
+        .reverse()
+        .find((value) => value.type === 'recipe' && value.slug === node.slug)
+
+      if (node.type === 'recipe' && ingredient) {
+        const sub = await this.cost(node.slug, depth + 1)
+        const share = this.subRecipeShare(sub, ingredient) ?? 1
+        const usable = this.usableShare(null, ingredient.wastePercent)
+
+        line.children = await this.scaledLines(
+          sub,
+          (factor * share) / usable,
+          depth + 1
+        )
+      }
+
+      lines.push(line)
+    }
+
+    return lines
+  }
+
+  private async allergenSources(
+    recipe: RecipeWithIngredients<true>,
+    via: string[],
     depth: number
+  ): Promise<(AllergenSource & { allergen: Allergen })[]> {
+    if (depth > this.maxDepth)
+      throw new RangeError('Maximum recursion depth exceeded')
+
+    const sources: (AllergenSource & { allergen: Allergen })[] = []
+    for (const line of recipe.ingredients) {
+      if (line.type === 'recipe') {
+        const sub = await this.recipe.findById(line.slug)
+
+        if (!sub) throw new Error(`Recipe ${line.slug} not found`)
+
+        sources.push(
+          ...(await this.allergenSources(sub, [...via, sub.name], depth + 1))
+        )
+        continue
+      }
+
+      const lookup = await this.ingredient.findById(line.slug)
+      const { contains, mayContain } = parseAllergens(lookup.allergens)
+      const source = { slug: lookup.slug, name: lookup.name, via }
+
+      sources.push(
+        ...contains.map((allergen) => ({
+          ...source,
+          allergen,
+          level: 'contains' as const,
+        })),
+        ...mayContain.map((allergen) => ({
+          ...source,
+          allergen,
+          level: 'may_contain' as const,
+        }))
+      )
+    }
+
+    return sources
+  }
+
+  /**
+   * If includesVat is true, sellPrice is VAT-inclusive (what customer pays),
+   * strip VAT to get the ex-VAT sell price that margins are worked out on
+   */
+  private recipeVatRate(recipe: RecipeWithIngredients<true>, asOf?: Date) {
+    return this.config.getVatRate({
+      applies: 'recipe',
+      category: recipe.category,
+      date: asOf,
+    })
+  }
+
+  private async sellPriceExVat(
+    recipe: RecipeWithIngredients<true>,
+    asOf?: Date
   ) {
+    if (recipe.includesVat !== 1) return recipe.sellPrice
+
+    return recipe.sellPrice / (1 + (await this.recipeVatRate(recipe, asOf)))
+  }
+
+  /**
+   * Cost the recipe's packaging and overhead lines. Packaging is priced like
+   * an ingredient, fixed lines are taken as ex-VAT pence and percent lines are
+   * charged on the ex-VAT sell price.
+   */
+  private async costLines(
+    recipe: RecipeWithIngredients<true>,
+    issues: RecipeIssue[],
+    asOf?: Date
+  ): Promise<RecipeCostLineNode[]> {
+    const nodes: RecipeCostLineNode[] = []
+
+    for (const [index, line] of recipe.costs.entries()) {
+      const node = { type: line.type, slug: line.slug, name: line.name }
+
+      if (line.type === 'fixed') {
+        nodes.push({ ...node, unit: '', cost: Math.ceil(line.amount ?? 0) })
+        continue
+      }
+
+      if (line.type === 'percent') {
+        const share = (line.amount ?? 0) / 100
+        nodes.push({
+          ...node,
+          unit: `${line.amount ?? 0}%`,
+          cost: Math.ceil((await this.sellPriceExVat(recipe, asOf)) * share),
+        })
+        continue
+      }
+
+      const result = await this.ingredientCost(packagingLine(line), 0, asOf)
+
+      const issue = 'issue' in result ? result.issue : undefined
+      if (issue) {
+        issues.push({
+          recipe: recipe.slug,
+          line: recipe.ingredients.length + index + 1,
+          type: 'ingredient',
+          slug: line.slug!,
+          ...issue,
+        })
+      }
+
+      nodes.push({
+        ...node,
+        unit: line.unit,
+        cost: result.totalCost,
+        ...(issue && { warning: issue.message }),
+      })
+    }
+
+    return nodes
+  }
+
+  // Rounded to keep float noise (199.99999999999997g) out of the tree
+  private grossAmount(amount: number, usable: number) {
+    return Math.round((amount / usable) * 1000) / 1000
+  }
+
+  // Share of the gross quantity left after yield and waste losses, 0-1
+  private usableShare(
+    yieldPercent: number | string | null,
+    wastePercent: number | string | null
+  ) {
+    const yieldShare = yieldPercent == null ? 1 : Number(yieldPercent) / 100
+    const wasteShare = wastePercent == null ? 0 : Number(wastePercent) / 100
+
+    return yieldShare * (1 - wasteShare)
+  }
+
+  /**
+   * Labour for the recipe as written, its active minutes costed at the named
+   * wage rate, or the first rate configured when it doesn't name one
+   */
+  private async labourCost(
+    recipe: RecipeWithIngredients<true>,
+    issues: RecipeIssue[]
+  ) {
+    const minutes = (recipe.prepMinutes ?? 0) + (recipe.cookMinutes ?? 0)
+    if (!minutes) return 0
+
+    const rates = await this.config.getWageRates()
+    const rate = recipe.labourRole
+      ? rates[recipe.labourRole]
+      : Object.values(rates)[0]
+
+    if (rate === undefined) {
+      issues.push({
+        recipe: recipe.slug,
+        line: 0,
+        type: 'recipe',
+        slug: recipe.slug,
+        reason: 'unknown_wage_rate',
+        message: recipe.labourRole
+          ? `No wage rate for '${recipe.labourRole}' in margin.toml, labour left at zero`
+          : 'No wage rates in margin.toml, labour left at zero',
+        units: { from: `${minutes} min`, to: recipe.labourRole ?? '' },
+      })
+      return 0
+    }
+
+    return (minutes / 60) * rate
+  }
+
+  /**
+   * A sub-recipe line's share of the batch, null when the line can't be
+   * converted to the recipe's yield. Without a yield the line uses it all.
+   */
+  private subRecipeShare(
+    result: RecipeResult,
+    ingredient: RecipeIngredientsLookup
+  ): number | null {
     if (ingredient.type !== 'recipe')
       throw TypeError('Ingredient is not a recipe')
 
-    const { recipe, totalCost } = result
+    const { recipe } = result
 
     const reqUnit = parseUnit(ingredient.unit)
 
     if (reqUnit && recipe.yieldAmount && recipe.yieldUnit) {
-      const yieldUnit = parseUnit(
-        `${result.recipe.yieldAmount} ${result.recipe.yieldUnit}`
-      )
+      const yieldUnit = parseUnit(`${recipe.yieldAmount} ${recipe.yieldUnit}`)
 
-      if (!yieldUnit) return totalCost
+      if (!yieldUnit) return null
 
       const converted = convertUnits(reqUnit, yieldUnit.unit)
 
       if (converted) {
-        return totalCost * (converted / yieldUnit.amount)
+        return converted / yieldUnit.amount
       } else if (reqUnit.unit.toLowerCase() === yieldUnit.unit.toLowerCase()) {
-        return totalCost * (reqUnit.amount / yieldUnit.amount)
-      } else {
-        log.warn(
-          'calculator',
-          'Cannot convert %s to %s for recipe "%s". Using full cost (1:1 ratio). ' +
-            'Consider using standard units or matching custom units.',
-          ingredient.unit,
-          `${yieldUnit.amount} ${yieldUnit.unit}`,
-          ingredient.slug
-        )
+        return reqUnit.amount / yieldUnit.amount
       }
+
+      return null
     }
 
-    return totalCost
+    return 1
+  }
+}
+
+// Packaging is bought and converted like an ingredient, without waste
+function packagingLine(line: RecipeCostLineLookup): RecipeIngredientsLookup {
+  return {
+    slug: line.slug!,
+    name: line.name,
+    type: 'ingredient',
+    unit: line.unit,
+    notes: line.notes,
+    wastePercent: null,
+    source: line.source,
+    overrides: null,
   }
 }
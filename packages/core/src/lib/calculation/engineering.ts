@@ -0,0 +1,131 @@
+import { stringify } from 'csv-stringify/sync'
+
+/**
+ * Kasavana–Smith menu engineering classes:
+ *
+ * - `star`: popular and above average contribution, keep as is
+ * - `plowhorse`: popular but below average contribution, re-cost or re-price
+ * - `puzzle`: above average contribution but unpopular, re-position or promote
+ * - `dog`: unpopular and below average contribution, candidates to drop
+ */
+export type MenuEngineeringClass = 'star' | 'plowhorse' | 'puzzle' | 'dog'
+
+export interface MenuEngineeringInput {
+  slug: string
+  name: string
+  category: string | null
+  /** Portions sold over the period */
+  sold: number
+  /** Ex-VAT sell price less food cost, in pence per portion */
+  contribution: number
+}
+
+export interface MenuEngineeringItem extends MenuEngineeringInput {
+  /** Share of all portions sold, as a percentage */
+  menuMix: number
+  /** `contribution * sold`, in pence */
+  totalContribution: number
+  popular: boolean
+  profitable: boolean
+  classification: MenuEngineeringClass
+}
+
+export interface MenuEngineeringResult {
+  items: MenuEngineeringItem[]
+  totalSold: number
+  /** In pence */
+  totalContribution: number
+  thresholds: {
+    /** Menu mix (%) an item needs to count as popular */
+    menuMix: number
+    /** Sales weighted average contribution, in pence per portion */
+    contribution: number
+  }
+}
+
+/**
+ * Classify menu items using the Kasavana–Smith matrix. An item is popular
+ * when its menu mix reaches `popularityFactor` of an equal share (70% by
+ * convention), and profitable when its contribution reaches the sales
+ * weighted average.
+ */
+export function classifyMenu(
+  items: MenuEngineeringInput[],
+  popularityFactor: number = 0.7
+): MenuEngineeringResult {
+  const totalSold = items.reduce((sum, item) => sum + item.sold, 0)
+  const totalContribution = items.reduce(
+    (sum, item) => sum + item.contribution * item.sold,
+    0
+  )
+
+  const menuMixThreshold =
+    items.length === 0 ? 0 : (100 / items.length) * popularityFactor
+  // Without any sales there is nothing to weight by, fall back to the mean
+  const contributionThreshold =
+    totalSold > 0
+      ? totalContribution / totalSold
+      : items.length === 0
+        ? 0
+        : items.reduce((sum, item) => sum + item.contribution, 0) / items.length
+
+  return {
+    items: items.map((item) => {
+      const menuMix = totalSold > 0 ? (item.sold / totalSold) * 100 : 0
+      const popular = totalSold > 0 && menuMix >= menuMixThreshold
+      const profitable = item.contribution >= contributionThreshold
+
+      return {
+        ...item,
+        menuMix,
+        totalContribution: item.contribution * item.sold,
+        popular,
+        profitable,
+        classification: popular
+          ? profitable
+            ? 'star'
+            : 'plowhorse'
+          : profitable
+            ? 'puzzle'
+            : 'dog',
+      }
+    }),
+    totalSold,
+    totalContribution,
+    thresholds: {
+      menuMix: menuMixThreshold,
+      contribution: contributionThreshold,
+    },
+  }
+}
+
+/**
+ * Flatten a menu engineering result to CSV, money in pounds
+ */
+export function menuEngineeringCSV(result: MenuEngineeringResult): string {
+  return stringify(
+    result.items.map((item) => ({
+      slug: item.slug,
+      name: item.name,
+      category: item.category || '',
+      sold: item.sold,
+      menuMix: item.menuMix.toFixed(2) + '%',
+      contribution: (item.contribution / 100).toFixed(2),
+      totalContribution: (item.totalContribution / 100).toFixed(2),
+      classification: item.classification,
+    })),
+    {
+      header: true,
+      columns: [
+        'slug',
+        'name',
+        'category',
+        'sold',
+        'menuMix',
+        'contribution',
+        'totalContribution',
+        'classification',
+      ],
+    }
+  )
+}
@@ -1,3 +1,17 @@
 export { Calculator } from './calculator'
+export type * from './engineering'
+export { classifyMenu, menuEngineeringCSV } from './engineering'
+export type * from './nutrition'
+export {
+  NUTRIENTS,
+  NutritionCalculator,
+  emptyNutrition,
+  parseNutrition,
+  serialiseNutrition,
+} from './nutrition'
+export type * from './pricing'
+export { roundToPricePoint } from './pricing'
+export type * from './simulator'
+export { Simulator, parseSimulationOverride } from './simulator'
 export * from './types'
 export * from './units'
@@ -0,0 +1,213 @@
+import { DBIngredient, IngredientService } from '../../services/ingredient'
+import {
+  RecipeIngredientsLookup,
+  RecipeService,
+  RecipeWithIngredients,
+} from '../../services/recipe'
+import { convertUnits, parseUnit } from './units'
+
+/**
+ * The nutrients on a UK back of pack label. Energy is in kcal, the rest in
+ * grams.
+ */
+export const NUTRIENTS = [
+  'energy',
+  'fat',
+  'saturates',
+  'carbohydrate',
+  'sugars',
+  'protein',
+  'salt',
+] as const
+
+export type Nutrient = (typeof NUTRIENTS)[number]
+
+/**
+ * Nutrition per 100g, or per 100ml for liquids bought by volume
+ */
+export type NutritionValues = Record<Nutrient, number>
+
+export interface NutritionGap {
+  slug: string
+  name: string
+  type: 'ingredient' | 'recipe'
+  reason: string
+}
+
+export interface NutritionResult {
+  recipe: { slug: string; name: string }
+  /** Totals for the recipe as written, i.e. one portion of a menu item */
+  perPortion: NutritionValues
+  /** Lines left out of the totals, which are then understated */
+  missing: NutritionGap[]
+}
+
+export function emptyNutrition(): NutritionValues {
+  return Object.fromEntries(
+    NUTRIENTS.map((nutrient) => [nutrient, 0])
+  ) as NutritionValues
+}
+
+/**
+ * Read the nutrition stored against an ingredient, null when none has been
+ * entered. SQLite's JSON plugin hands the column back already parsed.
+ */
+export function parseNutrition(value: unknown): NutritionValues | null {
+  if (!value) return null
+
+  const parsed = (typeof value === 'string' ? JSON.parse(value) : value) as
+    | Partial<Record<string, number>>
+    | undefined
+  if (!parsed) return null
+
+  return Object.fromEntries(
+    NUTRIENTS.map((nutrient) => [nutrient, Number(parsed[nutrient] ?? 0)])
+  ) as NutritionValues
+}
+
+/**
+ * The stored form of an ingredient's nutrition, null when none is given
+ */
+export function serialiseNutrition(
+  values?: NutritionValues | null
+): string | null {
+  if (!values) return null
+
+  return JSON.stringify(
+    Object.fromEntries(
+      NUTRIENTS.map((nutrient) => [nutrient, values[nutrient]])
+    )
+  )
+}
+
+/**
+ * Work out nutrition per portion from the per 100g (or 100ml) values stored
+ * on ingredients. Recipe lines are converted to grams, or millilitres, with
+ * the same unit conversions used for costing, and sub-recipes contribute the
+ * share of their yield that the line uses.
+ */
+export class NutritionCalculator {
+  private readonly maxDepth = 10
+
+  constructor(
+    private readonly recipe: RecipeService,
+    private readonly ingredient: IngredientService
+  ) {}
+
+  async nutrition(recipe: string, depth: number = 0): Promise<NutritionResult> {
+    if (depth > this.maxDepth)
+      throw new RangeError('Maximum recursion depth exceeded')
+
+    const data = await this.recipe.findById(recipe)
+
+    if (!data) throw new Error(`Recipe ${recipe} not found`)
+
+    const perPortion = emptyNutrition()
+    const missing: NutritionGap[] = []
+
+    for (const line of data.ingredients) {
+      const gap = (reason: string) =>
+        missing.push({
+          slug: line.slug,
+          name: line.name ?? line.slug,
+          type: line.type,
+          reason,
+        })
+
+      if (line.type === 'recipe') {
+        const sub = await this.nutrition(line.slug, depth + 1)
+        const share = await this.share(line)
+
+        if (share === null) {
+          gap(`Cannot convert ${line.unit} to the recipe's yield`)
+          continue
+        }
+
+        add(perPortion, sub.perPortion, share)
+        missing.push(...sub.missing)
+        continue
+      }
+
+      const lookup = await this.ingredient.findById(line.slug)
+      const values = parseNutrition(lookup.nutrition)
+
+      if (!values) {
+        gap('No nutrition data')
+        continue
+      }
+
+      const quantity = this.quantity(line, lookup)
+      if (quantity === null) {
+        gap(`Cannot convert ${line.unit} to grams or millilitres`)
+        continue
+      }
+
+      add(perPortion, values, quantity / 100)
+    }
+
+    return {
+      recipe: { slug: data.slug, name: data.name },
+      perPortion: round(perPortion),
+      missing,
+    }
+  }
+
+  /**
+   * The line's quantity in grams, or millilitres when it is a volume and the
+   * ingredient has no density
+   */
+  private quantity(
+    line: RecipeIngredientsLookup,
+    ingredient: Pick<DBIngredient, 'conversionRule' | 'density'>
+  ): number | null {
+    const unit = parseUnit(line.unit)
+    if (!unit) return null
+
+    const conversionRule = ingredient.conversionRule || undefined
+    const density = ingredient.density || undefined
+
+    return (
+      convertUnits(unit, 'g', conversionRule, density) ??
+      convertUnits(unit, 'ml', conversionRule, density)
+    )
+  }
+
+  /**
+   * The share of a sub-recipe's yield used by the line. Without a yield the
+   * line is taken to use the whole batch.
+   */
+  private async share(line: RecipeIngredientsLookup): Promise<number | null> {
+    const recipe: RecipeWithIngredients<false> | undefined =
+      await this.recipe.findById(line.slug, false)
+
+    if (!recipe?.yieldAmount || !recipe.yieldUnit) return 1
+
+    const unit = parseUnit(line.unit)
+    const yieldUnit = parseUnit(`${recipe.yieldAmount} ${recipe.yieldUnit}`)
+    if (!unit || !yieldUnit) return null
+
+    const converted = convertUnits(unit, yieldUnit.unit)
+    return converted === null ? null : converted / yieldUnit.amount
+  }
+}
+
+function add(
+  total: NutritionValues,
+  values: NutritionValues,
+  multiplier: number
+) {
+  for (const nutrient of NUTRIENTS) {
+    total[nutrient] += values[nutrient] * multiplier
+  }
+}
+
+// Labels give energy to the kcal and everything else to 0.1g, keep a little
+// more so totals of several recipes still add up
+function round(values: NutritionValues): NutritionValues {
+  return Object.fromEntries(
+    NUTRIENTS.map((nutrient) => [
+      nutrient,
+      Math.round(values[nutrient] * 100) / 100,
+    ])
+  ) as NutritionValues
+}
@@ -0,0 +1,35 @@
+export interface PricePointOptions {
+  /** Allowed pence endings, e.g. `[49, 95, 99]`. Empty to round to `step` */
+  points: number[]
+  /** Round up to a multiple of this many pence when no points are set */
+  step: number
+}
+
+/**
+ * Round a price (in pence) up to the next configured price point. With
+ * points of `[49, 95, 99]`, 412 becomes 449 and 496 becomes 499. With no
+ * points, 412 rounded to a step of 5 becomes 415.
+ *
+ * Always rounds up, so a rounded price never drops below the one it was given.
+ */
+export function roundToPricePoint(
+  pence: number,
+  { points, step }: PricePointOptions
+): number {
+  const price = Math.ceil(pence)
+
+  const endings = [...new Set(points)]
+    .filter((point) => point >= 0 && point < 100)
+    .sort((a, b) => a - b)
+
+  if (endings.length === 0) {
+    return step > 0 ? Math.ceil(price / step) * step : price
+  }
+
+  const pounds = Math.floor(price / 100)
+  const ending = endings.find((point) => pounds * 100 + point >= price)
+
+  return ending !== undefined
+    ? pounds * 100 + ending
+    : (pounds + 1) * 100 + endings[0]
+}
@@ -0,0 +1,259 @@
+import { ConfigService } from '../../services/config'
+import { IngredientService } from '../../services/ingredient'
+import { RecipeService } from '../../services/recipe'
+import { Calculator } from './calculator'
+import { MarginResult } from './types'
+
+export type SimulationTarget = { slug: string } | { category: string }
+
+export type SimulationChange = { percent: number } | { pence: number }
+
+export type SimulationOverride =
+  | {
+      type: 'ingredient'
+      target: SimulationTarget
+      change: { percent: number }
+    }
+  | { type: 'price'; target: SimulationTarget; change: SimulationChange }
+  | { type: 'vat'; rate: number }
+  // Not parsed from text, replaces the purchase details outright (e.g. from a
+  // supplier price list) with an ex-VAT cost. `currency` is null for the base
+  // currency
+  | {
+      type: 'purchase'
+      target: { slug: string }
+      purchase: { unit: string; cost: number; currency: string | null }
+    }
+
+export interface SimulatedRecipe {
+  slug: string
+  name: string
+  category: string | null
+  before: MarginResult
+  after: MarginResult
+  /** Percentage points, after minus before */
+  marginChange: number
+  /** Met its target margin before the overrides, misses it after */
+  dropsBelowTarget: boolean
+}
+
+export interface SimulationResult {
+  overrides: SimulationOverride[]
+  /** Only recipes whose cost, price or margin moved */
+  recipes: SimulatedRecipe[]
+  /** Slugs of recipes that drop below their target margin */
+  belowTarget: string[]
+  failures: { slug: string; message: string }[]
+}
+
+const VAT_PATTERN = /^vat\s+(?:\d*\.?\d+%?\s*(?:->|→)\s*)?(\d*\.?\d+)(%?)$/i
+const PRICE_PATTERN = /^price\s+(\S+)\s+([+-]\d*\.?\d+)(%|p)$/i
+const INGREDIENT_PATTERN = /^(\S+)\s+([+-]\d*\.?\d+)%$/
+
+function parseTarget(value: string): SimulationTarget {
+  if (value.startsWith('category:')) return { category: value.slice(9) }
+  if (value.startsWith('slug:')) return { slug: value.slice(5) }
+  return { slug: value }
+}
+
+/**
+ * Parse a single what-if override from its text form:
+ *
+ * - `cheddar +15%` or `category:dairy -5%` changes ingredient purchase costs
+ * - `price category:burgers +50p` or `price margherita +10%` changes sell prices
+ * - `vat 0.125`, `vat 12.5%` or `vat 0.2 -> 0.125` changes the VAT rate
+ */
+export function parseSimulationOverride(input: string): SimulationOverride {
+  const value = input.trim()
+
+  let match = VAT_PATTERN.exec(value)
+  if (match) {
+    const rate = Number(match[1])
+    return { type: 'vat', rate: match[2] ? rate / 100 : rate }
+  }
+
+  match = PRICE_PATTERN.exec(value)
+  if (match) {
+    const amount = Number(match[2])
+    return {
+      type: 'price',
+      target: parseTarget(match[1]),
+      change: match[3] === '%' ? { percent: amount } : { pence: amount },
+    }
+  }
+
+  match = INGREDIENT_PATTERN.exec(value)
+  if (match) {
+    return {
+      type: 'ingredient',
+      target: parseTarget(match[1]),
+      change: { percent: Number(match[2]) },
+    }
+  }
+
+  throw new Error(
+    `Invalid override '${input}'. Expected '<ingredient> +15%', ` +
+      `'price <recipe> +50p' or 'vat 0.125' (prefix targets with 'category:' to match a category)`
+  )
+}
+
+function matches(
+  target: SimulationTarget,
+  item: { slug: string; category: string | null }
+) {
+  return 'slug' in target
+    ? target.slug === item.slug
+    : target.category === item.category
+}
+
+function applyChange(value: number, change: SimulationChange) {
+  return 'percent' in change
+    ? value * (1 + change.percent / 100)
+    : value + change.pence
+}
+
+/**
+ * What-if margins. Runs every priced recipe through the `Calculator` twice,
+ * once as stored and once with the overrides layered over the services it
+ * reads from. Nothing is written to the database.
+ */
+export class Simulator {
+  constructor(
+    private readonly recipe: RecipeService,
+    private readonly ingredient: IngredientService,
+    private readonly config: ConfigService
+  ) {}
+
+  async run(
+    overrides: SimulationOverride[],
+    slugs?: string[]
+  ): Promise<SimulationResult> {
+    const before = new Calculator(this.recipe, this.ingredient, this.config)
+    const after = new Calculator(
+      this.simulatedRecipe(overrides),
+      this.simulatedIngredient(overrides),
+      this.simulatedConfig(overrides)
+    )
+
+    const recipes = (await this.recipe.find()).filter(
+      (recipe) =>
+        recipe.sellPrice > 0 && (!slugs || slugs.includes(recipe.slug))
+    )
+
+    const result: SimulationResult = {
+      overrides,
+      recipes: [],
+      belowTarget: [],
+      failures: [],
+    }
+
+    for (const recipe of recipes) {
+      try {
+        const current = await before.margin(await before.cost(recipe.slug))
+        const simulated = await after.margin(await after.cost(recipe.slug))
+
+        const affected =
+          current.cost !== simulated.cost ||
+          current.sellPrice !== simulated.sellPrice ||
+          current.customerPrice !== simulated.customerPrice
+
+        if (!affected) continue
+
+        const dropsBelowTarget = current.meetsTarget && !simulated.meetsTarget
+
+        result.recipes.push({
+          slug: recipe.slug,
+          name: recipe.name,
+          category: recipe.category,
+          before: current,
+          after: simulated,
+          marginChange:
+            Math.round((simulated.actualMargin - current.actualMargin) * 100) /
+            100,
+          dropsBelowTarget,
+        })
+
+        if (dropsBelowTarget) result.belowTarget.push(recipe.slug)
+      } catch (error: any) {
+        result.failures.push({ slug: recipe.slug, message: error.message })
+      }
+    }
+
+    return result
+  }
+
+  // The simulated services below inherit from the real instances and only
+  // shadow the reads the calculator needs, so queries still hit the database
+
+  private simulatedIngredient(overrides: SimulationOverride[]) {
+    const changes = overrides.filter(
+      (override) => override.type === 'ingredient'
+    )
+    const purchases = overrides.filter(
+      (override) => override.type === 'purchase'
+    )
+    if (changes.length === 0 && purchases.length === 0) return this.ingredient
+
+    const base = this.ingredient
+    const service: IngredientService = Object.create(base)
+    service.findById = (async (...args: Parameters<typeof base.findById>) => {
+      const ingredient = await base.findById(...args)
+      const replaced = purchases
+        .filter((override) => matches(override.target, ingredient))
+        .pop()
+      const purchaseCost = changes
+        .filter((override) => matches(override.target, ingredient))
+        .reduce(
+          (cost, override) => applyChange(cost, override.change),
+          replaced ? replaced.purchase.cost : Number(ingredient.purchaseCost)
+        )
+      return {
+        ...ingredient,
+        purchaseUnit: replaced?.purchase.unit ?? ingredient.purchaseUnit,
+        purchaseCurrency: replaced
+          ? replaced.purchase.currency
+          : ingredient.purchaseCurrency,
+        includesVat: replaced ? 0 : ingredient.includesVat,
+        purchaseCost,
+      }
+    }) as IngredientService['findById']
+
+    return service
+  }
+
+  private simulatedRecipe(overrides: SimulationOverride[]) {
+    const changes = overrides.filter((override) => override.type === 'price')
+    if (changes.length === 0) return this.recipe
+
+    const base = this.recipe
+    const service: RecipeService = Object.create(base)
+    service.findById = (async (...args: Parameters<typeof base.findById>) => {
+      const recipe = await base.findById(...args)
+      if (!recipe) return recipe
+
+      const sellPrice = changes
+        .filter((override) => matches(override.target, recipe))
+        .reduce(
+          (price, override) => applyChange(price, override.change),
+          recipe.sellPrice
+        )
+      return { ...recipe, sellPrice: Math.round(sellPrice) }
+    }) as RecipeService['findById']
+
+    return service
+  }
+
+  private simulatedConfig(overrides: SimulationOverride[]) {
+    const vat = overrides.filter((override) => override.type === 'vat').pop()
+    if (!vat) return this.config
+
+    // Only the rate charged on sell prices changes. Ingredients keep the rate
+    // they were bought under, and bands with their own rate keep theirs
+    const base = this.config
+    const service: ConfigService = Object.create(base)
+    service.getVatRate = async (subject) =>
+      subject?.applies === 'ingredient' ? base.getVatRate(subject) : vat.rate
+
+    return service
+  }
+}
@@ -1,29 +1,195 @@
+import type { RecipeCostType } from '@menubook/types'
+
 import { RecipeWithIngredients } from '../../services/recipe'
+import type { Allergen, AllergenLevel } from '../allergens'
+import type { Unit } from './units'
 
 export interface RecipeCostNode {
   type: 'ingredient' | 'recipe'
+  slug: string
   name: string
+  /** Net quantity, as written on the recipe */
   amount: number
+  /** Quantity needed before yield and waste losses, in the same `unit` */
+  grossAmount: number
   unit: string
   cost: number
+  /** Set when the line has a costing issue, see `RecipeResult.issues` */
+  warning?: string
   children?: RecipeCostNode[]
 }
 
+/**
+ * A packaging or overhead line, costed apart from the food
+ */
+export interface RecipeCostLineNode {
+  type: RecipeCostType
+  /** The packaging item, null for fixed and percent lines */
+  slug: string | null
+  name: string
+  /** Packaging quantity as written, or the percentage for percent lines */
+  unit: string
+  cost: number
+  warning?: string
+}
+
+/**
+ * `unconvertible_unit` and `unknown_exchange_rate` lines are left at no
+ * cost, `unscaled_sub_recipe` lines are charged the sub-recipe's whole batch
+ * and `unknown_wage_rate` leaves the recipe's own labour at no cost
+ */
+export type RecipeIssueReason =
+  | 'unconvertible_unit'
+  | 'unscaled_sub_recipe'
+  | 'unknown_wage_rate'
+  | 'unknown_exchange_rate'
+  | 'unknown_price'
+
+export interface RecipeIssue {
+  /** The recipe the line is on, sub-recipe issues are passed up as is */
+  recipe: string
+  /**
+   * Position of the line in its recipe, counting from 1 with cost lines
+   * numbered on from the ingredients, 0 for its labour
+   */
+  line: number
+  type: 'ingredient' | 'recipe'
+  slug: string
+  reason: RecipeIssueReason
+  message: string
+  /**
+   * The line's quantity and the unit it could not be converted to, or the
+   * currencies for exchange rates. Not set for prices, see `dates`
+   */
+  units?: { from: string; to: string }
+  /**
+   * For prices, the day being costed and the day the ingredient's price
+   * history starts (YYYY-MM-DD), null when it has no history at all
+   */
+  dates?: { asOf: string; firstPrice: string | null }
+}
+
 export type RecipeResult = {
   recipe: RecipeWithIngredients<true>
   tree: RecipeCostNode[]
   totalCost: number
+  /** Prep and cook time in pence, including a share of sub-recipe batches */
+  labourCost: number
+  /** Packaging and overheads in pence, not included in `totalCost` */
+  nonFoodCost: number
+  costLines: RecipeCostLineNode[]
+  /** Lines that could not be costed properly, the total is then unreliable */
+  issues: RecipeIssue[]
 }
 
 export interface MarginResult {
   cost: number
+  /** The same as `cost`, named to sit alongside `labourCost` */
+  foodCost: number
+  labourCost: number
+  /** Food and labour together */
+  primeCost: number
+  nonFoodCost: number
   sellPrice: number
   customerPrice: number
   vatAmount: number
   profit: number
   actualMargin: number
+  /** Margin after food and labour, `actualMargin` is after food alone */
+  primeMargin: number
+  /** What is left of the ex-VAT sell price after food, labour and non-food */
+  contribution: number
+  contributionMargin: number
   targetMargin: number
   marginDelta: number
   meetsTarget: boolean
   vatApplicable: boolean
+  /**
+   * Taken by a delivery platform as a share of the customer price, and
+   * already out of `profit` and the margins. Always 0 at the recipe's own
+   * price.
+   */
+  commission: number
+  /** The same figures at each of the recipe's price bands */
+  bands: PriceBandMargin[]
+}
+
+/**
+ * The margin at one of a recipe's named price bands
+ */
+export interface PriceBandMargin extends Omit<MarginResult, 'bands'> {
+  band: string
+}
+
+export interface PriceSuggestion {
+  targetMargin: number
+  /** The recipe's current sell price, VAT inclusive if `vatApplicable` */
+  currentPrice: number
+  /** Lowest prices (in pence) that meet the target margin */
+  minimum: { exVat: number; incVat: number }
+  /** `minimum` rounded up to the next configured price point */
+  suggested: { exVat: number; incVat: number }
+  /** The suggested price on the same VAT basis as the recipe's sell price */
+  sellPrice: number
+  vatApplicable: boolean
+}
+
+export interface AllergenSource {
+  /** The ingredient declaring the allergen */
+  slug: string
+  name: string
+  level: AllergenLevel
+  /** Sub-recipes the ingredient is used through, outermost first */
+  via: string[]
+}
+
+export interface RecipeAllergenRow {
+  allergen: Allergen
+  label: string
+  /** The strongest level declared by any line, null when free from it */
+  level: AllergenLevel | null
+  sources: AllergenSource[]
+}
+
+export interface RecipeAllergens {
+  recipe: { slug: string; name: string }
+  contains: Allergen[]
+  mayContain: Allergen[]
+  /** One row per regulated allergen, in regulation order */
+  matrix: RecipeAllergenRow[]
+}
+
+/**
+ * What to scale a recipe to, a number of portions or a yield such as "5l"
+ */
+export type ScaleTarget = { portions: number } | { yield: string }
+
+export interface ScaledRecipeLine {
+  type: 'ingredient' | 'recipe'
+  slug: string
+  name: string
+  /** Net quantity for the batch, in a kitchen-friendly `unit` */
+  amount: number
+  /** Quantity to weigh out before yield and waste losses */
+  grossAmount: number
+  unit: string
+  cost: number
+  warning?: string
+  /** A sub-recipe's lines, scaled to the amount this batch needs */
+  children?: ScaledRecipeLine[]
+}
+
+export interface ScaledRecipe {
+  recipe: { slug: string; name: string }
+  /** How many times the recipe as written */
+  factor: number
+  portions: number | null
+  /** The batch's yield, null when the recipe has none */
+  yield: Unit | null
+  lines: ScaledRecipeLine[]
+  /** Food cost of the batch in pence */
+  totalCost: number
+  /** Labour in pence, scaled in line with the batch */
+  labourCost: number
+  issues: RecipeIssue[]
 }
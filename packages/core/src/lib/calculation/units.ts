@@ -17,6 +17,32 @@ const convert = configureMeasurements<
 
 const descriptivePatterns = ['to taste', 'pinch', 'handful', 'dash', 'splash']
 
+// Kitchen spellings convert-units doesn't know, after singularising
+const unitAliases: Record<string, string> = {
+  tbsp: 'Tbs',
+  tb: 'Tbs',
+  tablespoon: 'Tbs',
+  teaspoon: 'tsp',
+}
+
+function standardUnit(unit: string): string {
+  return unitAliases[unit] ?? unit
+}
+
+/**
+ * Whether a unit measures weight or volume, null for anything else
+ */
+export function measureOf(unit: string): 'mass' | 'volume' | null {
+  try {
+    const { measure } = convert().describe(
+      standardUnit(pluralize.singular(unit.toLowerCase())) as AllMeasuresUnits
+    )
+    return measure === 'mass' || measure === 'volume' ? measure : null
+  } catch (e) {
+    return null
+  }
+}
+
 export type Unit = {
   amount: number
   unit: string
@@ -30,9 +56,68 @@ export type Default = Branded<Unit, 'default'>
 
 export type Custom = Branded<Unit, 'custom'>
 
+/**
+ * A multipack, e.g. "6 x 330ml" or "case of 24". The amount is the whole
+ * pack in the inner unit, so it costs like any other unit.
+ */
+export type Pack = Branded<Unit, 'pack'> & {
+  pack: {
+    count: number
+    /** One of the inner units */
+    size: Unit
+    /** What each inner unit is called, "can" in "24 x 330ml cans" */
+    item?: string
+  }
+}
+
+const packNames = /^(?:case|pack|box|crate|tray|bag|sleeve)\s+of\s+(.+)$/i
+
+function toPack(count: number, size: Unit, item?: string): Pack {
+  return {
+    amount: count * size.amount,
+    unit: size.unit,
+    pack: {
+      count,
+      size: { amount: size.amount, unit: size.unit },
+      ...(item && { item: pluralize.singular(item) }),
+    },
+  } as Pack
+}
+
+function parsePack(str: string): Pack | null {
+  const named = str.match(packNames)
+  const contents = named ? named[1] : str
+
+  // "12 x 1L", "case of 24 x 50g", or nested as in "4 x 6 x 330ml"
+  const multiple = contents.match(/^(\d+)\s*[x×*]\s*(\d.*)$/i)
+  if (multiple) {
+    const [, count, rest] = multiple
+    const size = parseUnit(rest)
+    if (!size) return null
+
+    // "330ml cans" reads as the unit and a name for each item
+    const [unit, ...item] = size.unit.split(' ')
+    if (item.length && measureOf(unit)) {
+      return toPack(parseInt(count), { ...size, unit }, item.join(' '))
+    }
+
+    return toPack(parseInt(count), size)
+  }
+
+  // "case of 24", or "case of 24 eggs" counted in eggs
+  const items = named && contents.match(/^(\d+)(?:\s+([a-z].*))?$/i)
+  if (!items) return null
+
+  const [, count, item] = items
+  return toPack(parseInt(count), {
+    amount: 1,
+    unit: item ? item.toLowerCase() : 'each',
+  })
+}
+
 export function parseUnit(
   str: string
-): Range | Fraction | Default | Custom | null {
+): Range | Fraction | Default | Custom | Pack | null {
   const cleaned = str.trim().replace(/\s+/g, ' ')
   if (
     descriptivePatterns.some((pattern) =>
@@ -41,6 +126,9 @@ export function parseUnit(
   )
     return null
 
+  const isPack = parsePack(cleaned)
+  if (isPack) return isPack
+
   const isRange = cleaned.match(/^([\d.]+)-([\d.]+)\s*(.+)$/)
   if (isRange) {
     const [, min, max, unit] = isRange
@@ -103,12 +191,85 @@ export function parseConversionRule(
   }
 }
 
+/**
+ * Read an ingredient's density as grams per millilitre. Accepts the number
+ * itself ("0.92") or a rule between a volume and a weight ("1 cup = 120g").
+ */
+export function parseDensity(density: string | number): number | null {
+  const value = Number(density)
+  if (typeof density === 'number' || (density.trim() !== '' && !isNaN(value)))
+    return value > 0 && isFinite(value) ? value : null
+
+  const rule = parseConversionRule(density)
+  if (!rule) return null
+
+  const fromMeasure = measureOf(rule.from.unit)
+  const toMeasure = measureOf(rule.to.unit)
+  if (!fromMeasure || !toMeasure || fromMeasure === toMeasure) return null
+
+  const [mass, volume] =
+    fromMeasure === 'mass' ? [rule.from, rule.to] : [rule.to, rule.from]
+  const grams = convert(mass.amount)
+    .from(standardUnit(mass.unit) as AllMeasuresUnits)
+    .to('g')
+  const millilitres = convert(volume.amount)
+    .from(standardUnit(volume.unit) as AllMeasuresUnits)
+    .to('ml')
+
+  return grams > 0 && millilitres > 0 ? grams / millilitres : null
+}
+
+// The metric units a kitchen writes quantities in, smaller first
+const kitchenUnits: Record<'mass' | 'volume', [string, string]> = {
+  mass: ['g', 'kg'],
+  volume: ['ml', 'l'],
+}
+
+/**
+ * Express an amount the way a kitchen would write it, so 2500g reads as
+ * 2.5kg and 0.25l as 250ml. Other units are only rounded.
+ */
+export function toKitchenUnit(unit: Unit): Unit {
+  const round = (amount: number) => Math.round(amount * 100) / 100
+
+  const measure = measureOf(unit.unit)
+  const normalised = standardUnit(pluralize.singular(unit.unit.toLowerCase()))
+  if (!measure || !kitchenUnits[measure].includes(normalised)) {
+    return { amount: round(unit.amount), unit: unit.unit }
+  }
+
+  const [small, large] = kitchenUnits[measure]
+  const amount = convert(unit.amount)
+    .from(normalised as AllMeasuresUnits)
+    .to(small as AllMeasuresUnits)
+
+  return amount >= 1000
+    ? { amount: round(amount / 1000), unit: large }
+    : { amount: round(amount), unit: small }
+}
+
+/**
+ * Convert an amount into another unit. `to` may be a parsed unit, in which
+ * case a pack's items can be drawn on directly, such as "2 cans" from
+ * "24 x 330ml cans".
+ */
 export function convertUnits(
   from: Unit,
-  to: string,
-  conversionRule?: string
+  to: string | Unit,
+  conversionRule?: string,
+  density?: string | number
 ): number | null {
   const normalizedFrom = pluralize.singular(from.unit)
+
+  if (typeof to !== 'string') {
+    const { pack } = to as Partial<Pack>
+    if (pack && [pack.item, 'each'].includes(normalizedFrom)) {
+      return from.amount * pack.size.amount
+    }
+
+    return convertUnits(from, to.unit, conversionRule, density)
+  }
+
   const normalizedTo = pluralize.singular(to)
 
   // If units are the same after normalization, no conversion needed
@@ -117,7 +278,9 @@ export function convertUnits(
   }
 
   try {
-    return convert(from.amount).from(normalizedFrom).to(normalizedTo)
+    return convert(from.amount)
+      .from(standardUnit(normalizedFrom) as AllMeasuresUnits)
+      .to(standardUnit(normalizedTo) as AllMeasuresUnits)
   } catch (e) {
     log.silly(
       'unit.conversion',
@@ -143,6 +306,26 @@ export function convertUnits(
     }
   }
 
+  // Weight to volume, or back, by way of grams and millilitres
+  const gramsPerMl = density != null ? parseDensity(density) : null
+  const fromMeasure = measureOf(normalizedFrom)
+  const toMeasure = measureOf(normalizedTo)
+
+  if (gramsPerMl && fromMeasure && toMeasure && fromMeasure !== toMeasure) {
+    const [base, bridged, factor] =
+      fromMeasure === 'volume'
+        ? (['ml', 'g', gramsPerMl] as const)
+        : (['g', 'ml', 1 / gramsPerMl] as const)
+
+    const amount = convert(from.amount)
+      .from(standardUnit(normalizedFrom) as AllMeasuresUnits)
+      .to(base)
+
+    return convert(amount * factor)
+      .from(bridged)
+      .to(standardUnit(normalizedTo) as AllMeasuresUnits)
+  }
+
   log.silly(
     'unit.conversion',
     'No conversion available for %s -> %s',
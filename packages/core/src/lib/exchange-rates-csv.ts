@@ -0,0 +1,102 @@
+import { parse } from 'csv-parse/sync'
+
+import { parseSaleDate } from './sales-csv'
+
+export interface ExchangeRateRow {
+  /** Line in the file, the header is line 1 */
+  line: number
+  /** ISO 4217 code, upper cased */
+  currency: string
+  /** Base currency units one unit of `currency` buys */
+  rate: number
+  /** YYYY-MM-DD, left out when the file has no date column */
+  effectiveFrom?: string
+}
+
+/**
+ * Header names for each column, compared case-insensitively with
+ * punctuation stripped
+ */
+const columnAliases: Record<
+  Exclude<keyof ExchangeRateRow, 'line'>,
+  string[]
+> = {
+  currency: ['currency', 'currencycode', 'code', 'ccy', 'iso'],
+  rate: ['rate', 'exchangerate', 'fxrate', 'fx', 'value'],
+  effectiveFrom: ['date', 'effectivefrom', 'from', 'day', 'validfrom'],
+}
+
+function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '')
+}
+
+/**
+ * Read a table of exchange rates into the base currency. The file needs a
+ * header row with currency and rate columns, a date column is optional and
+ * slashed dates are read day first.
+ */
+export function parseExchangeRatesCSV(content: string): ExchangeRateRow[] {
+  const records: string[][] = parse(content, {
+    bom: true,
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true,
+  })
+
+  const [header, ...lines] = records
+  if (!header) {
+    throw new Error('Exchange rates file is empty')
+  }
+
+  const normalised = header.map(normaliseHeader)
+  const column = (key: keyof typeof columnAliases) =>
+    normalised.findIndex((value) => columnAliases[key].includes(value))
+
+  const columns = {
+    currency: column('currency'),
+    rate: column('rate'),
+    effectiveFrom: column('effectiveFrom'),
+  }
+
+  const missing = (['currency', 'rate'] as const).filter(
+    (key) => columns[key] === -1
+  )
+  if (missing.length) {
+    throw new Error(
+      `Exchange rates file is missing the ${missing.join(', ')} column${missing.length > 1 ? 's' : ''}`
+    )
+  }
+
+  return lines.map((line, index) => {
+    const at = index + 2
+    const currency = (line[columns.currency] ?? '').toUpperCase()
+    const rate = Number(line[columns.rate])
+
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      throw new Error(
+        `Invalid currency '${line[columns.currency] ?? ''}' on line ${at} of the exchange rates`
+      )
+    }
+    if (!line[columns.rate] || Number.isNaN(rate) || rate <= 0) {
+      throw new Error(
+        `Invalid rate '${line[columns.rate] ?? ''}' on line ${at} of the exchange rates`
+      )
+    }
+
+    const date =
+      columns.effectiveFrom === -1 ? undefined : line[columns.effectiveFrom]
+
+    try {
+      return {
+        line: at,
+        currency,
+        rate,
+        effectiveFrom: date ? parseSaleDate(date) : undefined,
+      }
+    } catch {
+      throw new Error(
+        `Invalid date '${date}' on line ${at} of the exchange rates`
+      )
+    }
+  })
+}
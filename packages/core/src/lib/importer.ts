@@ -13,13 +13,18 @@ import {
   isIngredientImport,
   isPathReference,
   isRecipeImport,
+  isSalesImport,
   isSupplierImport,
+  parentReference,
   parseImportFile,
   parseReference,
+  RecipeCostLineResolved,
+  RecipeIngredientReference,
   ResolvedImportData,
 } from '../schema'
 import { slugify as slugifyUtil } from '../utils/slugify'
 import { DependencyGraph } from './graph/dependency'
+import { parseSalesCSV } from './sales-csv'
 
 export type ImportOutcome = 'ignored' | 'upserted' | 'created'
 export type ImporterFunction<T> = (
@@ -203,6 +208,19 @@ export class Importer {
     )
   }
 
+  /**
+   * Parse a file into import data. CSV files are POS sales exports, anything
+   * else is read as YAML/JSON.
+   */
+  private parse(file: string, content: string): ImportData {
+    const extension = path.extname(file)
+    if (extension.toLowerCase() === '.csv') {
+      return parseSalesCSV(content, path.basename(file, extension))
+    }
+
+    return parseImportFile(yaml.parse(content))
+  }
+
   /**
    * Resolve a reference string to an absolute file path
    * Returns null for slug references (no file path)
@@ -312,42 +330,85 @@ export class Importer {
         slug,
       }
 
+      const resolveIngredient = async (
+        ingredient: RecipeIngredientReference
+      ) => {
+        const ingredientSlug = await this.resolveReferenceToSlug(
+          filePath,
+          ingredient.uses
+        )
+
+        const absolutePath = this.resolveReferenceToPath(
+          filePath,
+          ingredient.uses
+        )
+        const detectedType =
+          (absolutePath && this.graph.get(absolutePath)?.object) || 'ingredient'
+
+        return {
+          type: detectedType as 'ingredient' | 'recipe',
+          slug: ingredientSlug,
+          with: ingredient.with,
+        }
+      }
+
       // Resolve parent recipe reference if present
       if (data.data.extends) {
         resolved.parentSlug = await this.resolveReferenceToSlug(
           filePath,
-          data.data.extends
+          parentReference(data.data.extends)
         )
+
+        if (typeof data.data.extends !== 'string') {
+          resolved.remove = await Promise.all(
+            data.data.extends.remove.map((ref) =>
+              this.resolveReferenceToSlug(filePath, ref)
+            )
+          )
+          resolved.override = await Promise.all(
+            data.data.extends.override.map(resolveIngredient)
+          )
+        }
+
         delete resolved.extends
       }
 
       // Resolve ingredient references
       resolved.ingredients = await Promise.all(
-        data.data.ingredients.map(async (ingredient) => {
-          const ingredientSlug = await this.resolveReferenceToSlug(
-            filePath,
-            ingredient.uses
-          )
+        data.data.ingredients.map(resolveIngredient)
+      )
 
-          const absolutePath = this.resolveReferenceToPath(
-            filePath,
-            ingredient.uses
+      // Packaging lines reference an ingredient, the rest stand alone
+      if (data.data.costs) {
+        resolved.costs = await Promise.all(
+          data.data.costs.map(
+            async (line): Promise<RecipeCostLineResolved> =>
+              'uses' in line
+                ? {
+                    type: 'packaging',
+                    slug: await this.resolveReferenceToSlug(
+                      filePath,
+                      line.uses
+                    ),
+                    with: line.with,
+                  }
+                : 'pence' in line
+                  ? { type: 'fixed', name: line.name, pence: line.pence }
+                  : { type: 'percent', name: line.name, percent: line.percent }
           )
-          const detectedType =
-            (absolutePath && this.graph.get(absolutePath)?.object) ||
-            'ingredient'
-
-          return {
-            type: detectedType as 'ingredient' | 'recipe',
-            slug: ingredientSlug,
-            with: ingredient.with,
-          }
-        })
-      )
+        )
+      }
 
       resolution = resolved
     }
 
+    if (isSalesImport(data)) {
+      resolution = {
+        ...data.data,
+        slug,
+      }
+    }
+
     if (resolution) {
       this.resolvedDataCache.set(filePath, resolution)
       return resolution
@@ -364,22 +425,29 @@ export class Importer {
     const paths: string[] = []
 
     if (isRecipeImport(data)) {
-      // extends reference
-      if (data.data.extends && isPathReference(data.data.extends)) {
-        const resolvedPath = this.resolveReferenceToPath(
-          currentFile,
-          data.data.extends
-        )
-        if (resolvedPath) paths.push(resolvedPath)
+      const refs: string[] = []
+
+      // extends reference, plus any lines it removes or overrides
+      if (data.data.extends) {
+        refs.push(parentReference(data.data.extends))
+
+        if (typeof data.data.extends !== 'string') {
+          refs.push(...data.data.extends.remove)
+          refs.push(...data.data.extends.override.map((line) => line.uses))
+        }
       }
 
       // ingredient uses references
-      for (const ingredient of data.data.ingredients) {
-        if (isPathReference(ingredient.uses)) {
-          const resolvedPath = this.resolveReferenceToPath(
-            currentFile,
-            ingredient.uses
-          )
+      refs.push(...data.data.ingredients.map((ingredient) => ingredient.uses))
+
+      // packaging uses references
+      for (const line of data.data.costs ?? []) {
+        if ('uses' in line) refs.push(line.uses)
+      }
+
+      for (const ref of refs) {
+        if (isPathReference(ref)) {
+          const resolvedPath = this.resolveReferenceToPath(currentFile, ref)
           if (resolvedPath) paths.push(resolvedPath)
         }
       }
@@ -421,8 +489,7 @@ export class Importer {
       try {
         // Read and parse the file
         const content = await fs.readFile(absolutePath, { encoding: 'utf8' })
-        const parsed = yaml.parse(content)
-        const data = parseImportFile(parsed)
+        const data = this.parse(absolutePath, content)
 
         // Generate slug immediately and store in map
         const slug = await this.ensureSlug(data)
@@ -542,7 +609,7 @@ export class Importer {
   private async save(
     filePath: string,
     data: ResolvedImportData,
-    type: 'ingredient' | 'recipe' | 'supplier'
+    type: ImportObjectType
   ): Promise<ImportOutcome | null> {
     const absolutePath = path.isAbsolute(filePath)
       ? filePath
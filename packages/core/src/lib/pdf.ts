@@ -0,0 +1,387 @@
+/** A4, in points */
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 48
+/** Room kept clear at the foot of each page for the page number */
+const FOOTER = 24
+
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+/**
+ * Advance widths of printable ASCII (32 to 126) in thousandths of the font
+ * size, from the Adobe metrics for the standard fonts. Anything else is
+ * taken as 556, the width of a digit.
+ */
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+]
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+]
+
+/**
+ * Characters WinAnsiEncoding places between 0x80 and 0x9F, the rest of
+ * Latin-1 keeps its own code
+ */
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  ƒ: 0x83,
+  '„': 0x84,
+  '…': 0x85,
+  '†': 0x86,
+  '‡': 0x87,
+  ˆ: 0x88,
+  '‰': 0x89,
+  Š: 0x8a,
+  '‹': 0x8b,
+  Œ: 0x8c,
+  Ž: 0x8e,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '˜': 0x98,
+  '™': 0x99,
+  š: 0x9a,
+  '›': 0x9b,
+  œ: 0x9c,
+  ž: 0x9e,
+  Ÿ: 0x9f,
+}
+
+/**
+ * Text as the single-byte string the standard fonts print, characters they
+ * have no glyph for become "?". Currency formatting uses narrow and
+ * non-breaking spaces, which print as plain ones.
+ */
+function encode(text: string): string {
+  let encoded = ''
+  for (const char of text.replace(/\s/g, ' ')) {
+    const code = char.codePointAt(0)!
+    if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+      encoded += char
+    } else if (char in WIN_ANSI) {
+      encoded += String.fromCharCode(WIN_ANSI[char])
+    } else {
+      encoded += '?'
+    }
+  }
+  return encoded
+}
+
+function escape(encoded: string): string {
+  return encoded.replace(/[\\()]/g, (char) => `\\${char}`)
+}
+
+function widthOf(encoded: string, size: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD : HELVETICA
+  let width = 0
+  for (let i = 0; i < encoded.length; i++) {
+    width += widths[encoded.charCodeAt(i) - 32] ?? 556
+  }
+  return (width * size) / 1000
+}
+
+function truncate(
+  encoded: string,
+  maxWidth: number,
+  size: number,
+  bold: boolean
+): string {
+  if (widthOf(encoded, size, bold) <= maxWidth) return encoded
+
+  const ellipsis = String.fromCharCode(WIN_ANSI['…'])
+  let text = encoded
+  while (text && widthOf(text + ellipsis, size, bold) > maxWidth) {
+    text = text.slice(0, -1)
+  }
+  return text.trimEnd() + ellipsis
+}
+
+function wrap(
+  encoded: string,
+  maxWidth: number,
+  size: number,
+  bold: boolean
+): string[] {
+  const lines: string[] = []
+  let line = ''
+
+  for (const word of encoded.split(' ').filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word
+    if (line && widthOf(next, size, bold) > maxWidth) {
+      lines.push(line)
+      line = word
+    } else {
+      line = next
+    }
+  }
+
+  return line ? [...lines, line] : lines
+}
+
+const num = (value: number) => Number(value.toFixed(2)).toString()
+
+export interface PdfColumn {
+  header: string
+  /** Share of the page width, relative to the other columns */
+  width: number
+  align?: 'left' | 'right'
+}
+
+export interface PdfRow {
+  cells: string[]
+  bold?: boolean
+  /** Nesting level of the row, indents its first cell */
+  depth?: number
+}
+
+export interface PdfTextOptions {
+  size?: number
+  bold?: boolean
+  /** Grey, for notes and captions */
+  muted?: boolean
+}
+
+/**
+ * A minimal PDF 1.4 writer for printable reports. Text is set in the
+ * standard Helvetica fonts that every viewer carries, so nothing needs
+ * embedding. Content flows down A4 pages and breaks onto a new page when
+ * it runs out of room, repeating a table's header as it does.
+ */
+export class PdfDocument {
+  private pages: string[][] = []
+  private y = 0
+
+  constructor(private readonly title: string) {
+    this.addPage()
+  }
+
+  private get page() {
+    return this.pages[this.pages.length - 1]
+  }
+
+  private addPage() {
+    this.pages.push([])
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  /**
+   * Start a new page unless there is `height` left on this one
+   */
+  private ensure(height: number) {
+    if (this.y - height < MARGIN + FOOTER) {
+      this.addPage()
+    }
+  }
+
+  private write(
+    encoded: string,
+    x: number,
+    y: number,
+    { size = 10, bold = false, muted = false }: PdfTextOptions = {}
+  ) {
+    this.page.push(
+      `BT ${muted ? '0.45' : '0'} g /${bold ? 'F2' : 'F1'} ${size} Tf ${num(x)} ${num(y)} Td (${escape(encoded)}) Tj ET`
+    )
+  }
+
+  private line(y: number, grey = 0.75) {
+    this.page.push(
+      `${grey} G 0.5 w ${num(MARGIN)} ${num(y)} m ${num(PAGE_WIDTH - MARGIN)} ${num(y)} l S`
+    )
+  }
+
+  heading(text: string, size = 18) {
+    this.ensure(size * 1.6)
+    this.y -= size
+    this.write(encode(text), MARGIN, this.y, { size, bold: true })
+    this.y -= size * 0.6
+    return this
+  }
+
+  /**
+   * A section title with a rule under it
+   */
+  subheading(text: string) {
+    this.ensure(40)
+    this.y -= 22
+    this.write(encode(text), MARGIN, this.y, { size: 12, bold: true })
+    this.y -= 6
+    this.line(this.y, 0.4)
+    this.y -= 4
+    return this
+  }
+
+  /**
+   * Text wrapped to the page width
+   */
+  paragraph(text: string, options: PdfTextOptions = {}) {
+    const size = options.size ?? 10
+    const leading = size * 1.4
+
+    for (const part of text.split('\n')) {
+      for (const line of wrap(
+        encode(part),
+        CONTENT_WIDTH,
+        size,
+        !!options.bold
+      )) {
+        this.ensure(leading)
+        this.y -= leading
+        this.write(line, MARGIN, this.y, options)
+      }
+    }
+    return this
+  }
+
+  /**
+   * Label and value pairs, one per line with the values lined up
+   */
+  details(pairs: [string, string][]) {
+    const labelWidth = Math.max(
+      ...pairs.map(([label]) => widthOf(encode(label), 10, true))
+    )
+
+    for (const [label, value] of pairs) {
+      this.ensure(14)
+      this.y -= 14
+      this.write(encode(label), MARGIN, this.y, { bold: true })
+      this.write(
+        truncate(encode(value), CONTENT_WIDTH - labelWidth - 12, 10, false),
+        MARGIN + labelWidth + 12,
+        this.y
+      )
+    }
+    return this
+  }
+
+  table(columns: PdfColumn[], rows: (string[] | PdfRow)[]) {
+    const size = 9
+    const height = 16
+    const padding = 4
+    const total = columns.reduce((acc, column) => acc + column.width, 0)
+    const widths = columns.map(
+      (column) => (column.width / total) * CONTENT_WIDTH
+    )
+
+    const cells = (values: string[], bold: boolean, depth = 0) => {
+      let x = MARGIN
+      columns.forEach((column, index) => {
+        const indent = index === 0 ? depth * 10 : 0
+        const text = truncate(
+          encode(values[index] ?? ''),
+          widths[index] - padding * 2 - indent,
+          size,
+          bold
+        )
+        const offset =
+          column.align === 'right'
+            ? widths[index] - padding - widthOf(text, size, bold)
+            : padding + indent
+        this.write(text, x + offset, this.y + 5, { size, bold })
+        x += widths[index]
+      })
+    }
+
+    const header = () => {
+      this.y -= height
+      cells(
+        columns.map((column) => column.header),
+        true
+      )
+      this.line(this.y, 0.4)
+    }
+
+    this.ensure(height * 2)
+    header()
+
+    for (const row of rows) {
+      const {
+        cells: values,
+        bold,
+        depth,
+      } = Array.isArray(row) ? { cells: row, bold: false, depth: 0 } : row
+
+      if (this.y - height < MARGIN + FOOTER) {
+        this.addPage()
+        header()
+      }
+
+      this.y -= height
+      cells(values, !!bold, depth)
+      this.line(this.y)
+    }
+    return this
+  }
+
+  space(points = 12) {
+    this.y -= points
+    return this
+  }
+
+  /**
+   * The finished file, with the title and page number at the foot of each
+   * page
+   */
+  toBuffer(): Buffer {
+    const count = this.pages.length
+    const objects: string[] = [
+      '',
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${this.pages
+        .map((_, index) => `${6 + index * 2} 0 R`)
+        .join(' ')}] /Count ${count} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      `<< /Title (${escape(encode(this.title))}) /Producer (margin) >>`,
+    ]
+
+    this.pages.forEach((ops, index) => {
+      const folio = encode(`Page ${index + 1} of ${count}`)
+      const footer = [
+        `BT 0.45 g /F1 8 Tf ${num(MARGIN)} ${num(MARGIN / 2)} Td (${escape(truncate(encode(this.title), CONTENT_WIDTH / 2, 8, false))}) Tj ET`,
+        `BT 0.45 g /F1 8 Tf ${num(PAGE_WIDTH - MARGIN - widthOf(folio, 8, false))} ${num(MARGIN / 2)} Td (${folio}) Tj ET`,
+      ]
+      const content = [...ops, ...footer].join('\n')
+
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${objects.length + 1} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      )
+    })
+
+    // Every character is a single byte, so string offsets are byte offsets
+    let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'
+    const offsets: number[] = []
+    for (let id = 1; id < objects.length; id++) {
+      offsets.push(out.length)
+      out += `${id} 0 obj\n${objects[id]}\nendobj\n`
+    }
+
+    const xref = out.length
+    out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+    out += offsets
+      .map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`)
+      .join('')
+    out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+    return Buffer.from(out, 'latin1')
+  }
+}
@@ -0,0 +1,71 @@
+import * as path from 'path'
+
+const contentTypes: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+}
+
+// Only these are ever served back, anything else in a data URL (text/html)
+// would be rendered by the browser
+const imageTypes = new Set(Object.values(contentTypes))
+
+// `photos/<slug>/<file>`, where `writePhoto` puts them
+const PHOTO_PATH = /^photos\/([a-z0-9][a-z0-9_-]*)\/([^/\\]+)$/
+
+/**
+ * The image type of a photo from its file name or data URL, undefined for
+ * anything that isn't a supported image
+ */
+export function photoContentType(photo: string): string | undefined {
+  const match = photo.match(/^data:([^;,]+)[;,]/)
+  if (match) {
+    const type = match[1].toLowerCase()
+    return imageTypes.has(type) ? type : undefined
+  }
+
+  return contentTypes[path.extname(photo).toLowerCase()]
+}
+
+/**
+ * Whether a recipe's photo is a supported image, either a data URL or a file
+ * under `photos/<slug>/`. Photo paths come from the API and YAML, anything
+ * else could read back any file in the workspace. With `slug`, the file must
+ * be under that recipe's own folder.
+ */
+export function isPhoto(photo: string, slug?: string): boolean {
+  if (isDataUrl(photo)) return photoContentType(photo) !== undefined
+
+  const match = PHOTO_PATH.exec(photo)
+  if (!match || (slug && match[1] !== slug)) return false
+
+  return photoContentType(match[2]) !== undefined
+}
+
+export function isDataUrl(photo: string): boolean {
+  return photo.startsWith('data:')
+}
+
+/**
+ * Inline a photo as a base64 data URL, for keeping it in the database
+ */
+export function toDataUrl(filename: string, data: Buffer): string {
+  const type = photoContentType(filename)
+  if (!type) {
+    throw new Error(`Unsupported photo '${filename}', expected an image`)
+  }
+
+  return `data:${type};base64,${data.toString('base64')}`
+}
+
+/**
+ * The bytes of a photo stored as a data URL
+ */
+export function fromDataUrl(url: string): Buffer {
+  const [header, data = ''] = url.split(',', 2)
+  return header.endsWith(';base64')
+    ? Buffer.from(data, 'base64')
+    : Buffer.from(decodeURIComponent(data))
+}
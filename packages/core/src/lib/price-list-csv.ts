@@ -0,0 +1,120 @@
+import { parse } from 'csv-parse/sync'
+
+export interface PriceListRow {
+  /** Line in the file, the header is line 1 */
+  line: number
+  sku?: string
+  name?: string
+  /** Pack size the price is for, e.g. "2.5kg" */
+  unit?: string
+  /** Ex-VAT price in pence */
+  cost: number
+}
+
+/**
+ * Header names wholesaler price lists use for each column, compared
+ * case-insensitively with punctuation stripped
+ */
+const columnAliases: Record<Exclude<keyof PriceListRow, 'line'>, string[]> = {
+  sku: [
+    'sku',
+    'code',
+    'productcode',
+    'itemcode',
+    'stockcode',
+    'ref',
+    'reference',
+    'productref',
+  ],
+  name: ['name', 'description', 'product', 'productname', 'item', 'itemname'],
+  unit: ['unit', 'size', 'packsize', 'pack', 'uom', 'purchaseunit'],
+  cost: [
+    'cost',
+    'price',
+    'unitprice',
+    'caseprice',
+    'netprice',
+    'listprice',
+    'purchasecost',
+  ],
+}
+
+function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '')
+}
+
+/**
+ * Parse a price in pounds, as printed on the price list, into pence
+ */
+export function parseListPrice(value: string): number {
+  const cleaned = value.replace(/[£$€,\s]/g, '')
+  const amount = Number(cleaned)
+  if (cleaned === '' || Number.isNaN(amount) || amount < 0) {
+    throw new Error(`Invalid price '${value}'`)
+  }
+  return Math.round(amount * 100)
+}
+
+/**
+ * Read a supplier price list. The file needs a header row with a price
+ * column and a SKU or product name column to match ingredients on. A pack
+ * size column is optional, without it prices are taken to be for the
+ * ingredient's current purchase unit.
+ */
+export function parsePriceListCSV(content: string): PriceListRow[] {
+  const records: string[][] = parse(content, {
+    bom: true,
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true,
+  })
+
+  const [header, ...lines] = records
+  if (!header) {
+    throw new Error('Price list is empty')
+  }
+
+  const normalised = header.map(normaliseHeader)
+  const column = (key: keyof typeof columnAliases) =>
+    normalised.findIndex((value) => columnAliases[key].includes(value))
+
+  const columns = {
+    sku: column('sku'),
+    name: column('name'),
+    unit: column('unit'),
+    cost: column('cost'),
+  }
+
+  if (columns.cost === -1) {
+    throw new Error('Price list is missing the price column')
+  }
+  if (columns.sku === -1 && columns.name === -1) {
+    throw new Error('Price list needs a SKU or product name column')
+  }
+
+  const cell = (line: string[], index: number) =>
+    index === -1 ? undefined : line[index] || undefined
+
+  return lines.map((line, index) => {
+    const at = index + 2
+    const sku = cell(line, columns.sku)
+    const name = cell(line, columns.name)
+    if (!sku && !name) {
+      throw new Error(`Line ${at} of the price list has no SKU or name`)
+    }
+
+    try {
+      return {
+        line: at,
+        sku,
+        name,
+        unit: cell(line, columns.unit),
+        cost: parseListPrice(line[columns.cost] ?? ''),
+      }
+    } catch (error) {
+      throw new Error(
+        `${(error as Error).message} on line ${at} of the price list`
+      )
+    }
+  })
+}
@@ -0,0 +1,152 @@
+import type {
+  RecipeClass,
+  RecipeLineDirective,
+  RecipeStage,
+  RevisionSource,
+} from '@menubook/types'
+
+import type {
+  RecipeCostLineResolved,
+  RecipeMethodData,
+  RecipePriceBandData,
+} from '../schema'
+
+/**
+ * Recipe fields captured in a revision snapshot
+ */
+export interface RecipeRevisionData {
+  name: string
+  stage: RecipeStage
+  class: RecipeClass
+  category: string | null
+  sellPrice: number
+  includesVat: number
+  targetMargin: number
+  yieldAmount: number | null
+  yieldUnit: string | null
+  /** Missing from revisions recorded before labour was tracked */
+  prepMinutes?: number | null
+  cookMinutes?: number | null
+  labourRole?: string | null
+  /** Missing from revisions recorded before the method was kept */
+  method?: RecipeMethodData
+  /** The recipe's own cost lines, missing from revisions recorded before them */
+  costs?: RecipeCostLineResolved[]
+  /** The recipe's own price bands, missing from revisions recorded before them */
+  bands?: RecipePriceBandData[]
+  parent: string | null
+}
+
+/**
+ * A recipe's own ingredient line, inherited lines are not included
+ */
+export interface RecipeRevisionLine {
+  slug: string
+  type: 'ingredient' | 'recipe'
+  unit: string
+  notes: string | null
+  wastePercent: number | null
+  /** Missing from revisions recorded before directives, read as `add` */
+  directive?: RecipeLineDirective
+}
+
+export interface RecipeRevisionEntry {
+  revision: number
+  data: RecipeRevisionData
+  ingredients: RecipeRevisionLine[]
+  /** Total cost in pence at save time */
+  totalCost: number | null
+  /** Where the change was made, null for revisions recorded before it was kept */
+  source: RevisionSource | null
+  /** Who made the change, null for imports, the CLI and older revisions */
+  author: string | null
+  createdAt: string
+}
+
+export interface RecipeRevisionFieldChange {
+  field: keyof RecipeRevisionData
+  from: unknown
+  to: unknown
+}
+
+export interface RecipeRevisionLineChange {
+  slug: string
+  from: RecipeRevisionLine
+  to: RecipeRevisionLine
+}
+
+export interface RecipeRevisionDiff {
+  from: number
+  to: number
+  fields: RecipeRevisionFieldChange[]
+  ingredients: {
+    added: RecipeRevisionLine[]
+    removed: RecipeRevisionLine[]
+    changed: RecipeRevisionLineChange[]
+  }
+  totalCost: {
+    from: number | null
+    to: number | null
+    /** `to - from` in pence, null if either side has no cost */
+    delta: number | null
+  }
+}
+
+/**
+ * Compare two revisions of the same recipe. Ingredient lines are matched by
+ * slug, so re-ordering lines is not reported as a change.
+ */
+export function diffRevisions(
+  from: RecipeRevisionEntry,
+  to: RecipeRevisionEntry
+): RecipeRevisionDiff {
+  const fields: RecipeRevisionFieldChange[] = []
+  const keys = new Set([
+    ...Object.keys(from.data),
+    ...Object.keys(to.data),
+  ]) as Set<keyof RecipeRevisionData>
+
+  for (const field of keys) {
+    const a = from.data[field] ?? null
+    const b = to.data[field] ?? null
+    // Cost lines and price bands are the only fields that aren't plain values
+    if (JSON.stringify(a) !== JSON.stringify(b))
+      fields.push({ field, from: a, to: b })
+  }
+
+  const before = new Map(from.ingredients.map((line) => [line.slug, line]))
+  const after = new Map(to.ingredients.map((line) => [line.slug, line]))
+
+  const added = to.ingredients.filter((line) => !before.has(line.slug))
+  const removed = from.ingredients.filter((line) => !after.has(line.slug))
+  const changed: RecipeRevisionLineChange[] = []
+
+  for (const [slug, next] of after) {
+    const prev = before.get(slug)
+    if (
+      prev &&
+      (prev.unit !== next.unit ||
+        (prev.notes ?? null) !== (next.notes ?? null) ||
+        (prev.wastePercent ?? null) !== (next.wastePercent ?? null) ||
+        (prev.directive ?? 'add') !== (next.directive ?? 'add') ||
+        prev.type !== next.type)
+    ) {
+      changed.push({ slug, from: prev, to: next })
+    }
+  }
+
+  return {
+    from: from.revision,
+    to: to.revision,
+    fields,
+    ingredients: { added, removed, changed },
+    totalCost: {
+      from: from.totalCost,
+      to: to.totalCost,
+      delta:
+        from.totalCost === null || to.totalCost === null
+          ? null
+          : to.totalCost - from.totalCost,
+    },
+  }
+}
@@ -0,0 +1,131 @@
+import { parse } from 'csv-parse/sync'
+
+import { ImportData, parseImportFile, SalesImportRow } from '../schema'
+
+/**
+ * Header names the common POS exports use for each column, compared
+ * case-insensitively with punctuation stripped
+ */
+const columnAliases: Record<keyof SalesImportRow, string[]> = {
+  date: ['date', 'day', 'businessdate', 'saledate', 'tradingdate'],
+  item: ['item', 'itemname', 'name', 'product', 'productname', 'plu', 'sku'],
+  quantity: ['quantity', 'qty', 'sold', 'count', 'quantitysold', 'itemssold'],
+  revenue: [
+    'revenue',
+    'grossrevenue',
+    'gross',
+    'grosssales',
+    'sales',
+    'total',
+    'amount',
+  ],
+}
+
+function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '')
+}
+
+/**
+ * Parse the day a sale happened on. Slashed dates are read day first, the
+ * way UK tills export them.
+ */
+export function parseSaleDate(value: string): string {
+  const trimmed = value.trim()
+
+  const slashed = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})/.exec(trimmed)
+  if (slashed) {
+    const [, day, month, year] = slashed
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+  }
+
+  const iso = /^(\d{4}-\d{2}-\d{2})/.exec(trimmed)
+  if (iso) return iso[1]
+
+  throw new Error(`Invalid sale date '${value}'`)
+}
+
+/**
+ * Parse a money value in pounds, as exported by the POS, into pence
+ */
+export function parseSaleRevenue(value: string): number | undefined {
+  const cleaned = value.replace(/[£$€,\s]/g, '')
+  if (cleaned === '') return undefined
+
+  const amount = Number(cleaned)
+  if (Number.isNaN(amount)) {
+    throw new Error(`Invalid revenue '${value}'`)
+  }
+  return Math.round(amount * 100)
+}
+
+/**
+ * Convert a POS sales export into import data. The export needs a header row
+ * with item (name or PLU) and quantity columns. Date and gross revenue columns
+ * are optional; without dates the export is a per-item total and the period
+ * it covers has to be given when importing.
+ */
+export function parseSalesCSV(content: string, name: string): ImportData {
+  const records: string[][] = parse(content, {
+    bom: true,
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true,
+  })
+
+  const [header, ...lines] = records
+  if (!header) {
+    throw new Error('Sales export is empty')
+  }
+
+  const normalised = header.map(normaliseHeader)
+  const column = (key: keyof SalesImportRow) =>
+    normalised.findIndex((value) => columnAliases[key].includes(value))
+
+  const columns = {
+    date: column('date'),
+    item: column('item'),
+    quantity: column('quantity'),
+    revenue: column('revenue'),
+  }
+
+  const missing = (['item', 'quantity'] as const).filter(
+    (key) => columns[key] === -1
+  )
+  if (missing.length) {
+    throw new Error(
+      `Sales export is missing the ${missing.join(', ')} column${missing.length > 1 ? 's' : ''}`
+    )
+  }
+
+  const rows = lines.map((line, index) => {
+    // The header is line 1
+    const at = `line ${index + 2}`
+    const quantity = Number(line[columns.quantity])
+    if (Number.isNaN(quantity)) {
+      throw new Error(
+        `Invalid quantity '${line[columns.quantity]}' on ${at} of the sales export`
+      )
+    }
+
+    try {
+      return {
+        date:
+          columns.date === -1
+            ? undefined
+            : parseSaleDate(line[columns.date] ?? ''),
+        item: line[columns.item] ?? '',
+        quantity,
+        revenue:
+          columns.revenue === -1
+            ? undefined
+            : parseSaleRevenue(line[columns.revenue] ?? ''),
+      }
+    } catch (error) {
+      throw new Error(
+        `${(error as Error).message} on ${at} of the sales export`
+      )
+    }
+  })
+
+  return parseImportFile({ object: 'sales', data: { name, rows } })
+}
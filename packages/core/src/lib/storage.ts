@@ -43,6 +43,35 @@ export interface StorageService {
    */
   deleteFile(filePath: string): Promise<void>
 
+  /**
+   * Store a photo for a recipe
+   * @param slug - Recipe slug
+   * @param filename - Original file name, its extension gives the image type
+   * @param data - The image
+   * @param workingDir - Working directory (for filesystem storage)
+   * @returns The photo's path, kept on the recipe and written to its YAML
+   */
+  writePhoto(
+    slug: string,
+    filename: string,
+    data: Buffer,
+    workingDir: string
+  ): Promise<string>
+
+  /**
+   * Read back a photo stored by `writePhoto`, or listed in a recipe's YAML
+   * @param photoPath - The photo's path on the recipe
+   * @param workingDir - Working directory the path is relative to
+   */
+  readPhoto(photoPath: string, workingDir: string): Promise<Buffer>
+
+  /**
+   * Delete a photo stored by `writePhoto`
+   * @param photoPath - The photo's path on the recipe
+   * @param workingDir - Working directory the path is relative to
+   */
+  deletePhoto(photoPath: string, workingDir: string): Promise<void>
+
   /**
    * Get the storage mode
    */
@@ -160,4 +160,31 @@ describe('DatabaseOnlyStorage', () => {
       .catch(() => false)
     expect(fileExists).toBe(false)
   })
+
+  test('writePhoto inlines the photo as a data URL', async () => {
+    const data = Buffer.from('not really a png')
+
+    const photoPath = await storage.writePhoto(
+      'focaccia',
+      'tray.png',
+      data,
+      tempDir
+    )
+
+    expect(photoPath).toBe(`data:image/png;base64,${data.toString('base64')}`)
+    expect(await storage.readPhoto(photoPath, tempDir)).toEqual(data)
+
+    // Nothing is written to disk
+    const dirExists = await fs
+      .access(path.join(tempDir, 'photos'))
+      .then(() => true)
+      .catch(() => false)
+    expect(dirExists).toBe(false)
+  })
+
+  test('readPhoto cannot read photos kept on disk', async () => {
+    await expect(
+      storage.readPhoto('photos/focaccia/tray.jpg', tempDir)
+    ).rejects.toThrow('Cannot read photo')
+  })
 })
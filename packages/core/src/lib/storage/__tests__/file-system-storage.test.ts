@@ -188,4 +188,46 @@ describe('FileSystemStorage', () => {
       expect(exists).toBe(true)
     }
   })
+
+  test('writePhoto stores the photo under the recipe, relative to the working directory', async () => {
+    const data = Buffer.from('not really a jpeg')
+
+    const photoPath = await storage.writePhoto(
+      'focaccia',
+      '/uploads/tray.jpg',
+      data,
+      tempDir
+    )
+
+    expect(photoPath).toBe('photos/focaccia/tray.jpg')
+    expect(
+      await fs.readFile(path.join(tempDir, 'photos', 'focaccia', 'tray.jpg'))
+    ).toEqual(data)
+    expect(await storage.readPhoto(photoPath, tempDir)).toEqual(data)
+
+    await storage.deletePhoto(photoPath, tempDir)
+
+    await expect(storage.readPhoto(photoPath, tempDir)).rejects.toThrow()
+  })
+
+  test('writePhoto rejects files that are not images', async () => {
+    await expect(
+      storage.writePhoto('focaccia', 'notes.txt', Buffer.from(''), tempDir)
+    ).rejects.toThrow("Unsupported photo 'notes.txt'")
+  })
+
+  test('readPhoto refuses paths outside the working directory', async () => {
+    await expect(
+      storage.readPhoto('../../etc/passwd', tempDir)
+    ).rejects.toThrow('outside the working directory')
+  })
+
+  test('readPhoto refuses files in the workspace that are not photos', async () => {
+    await fs.mkdir(path.join(tempDir, 'recipes'), { recursive: true })
+    await fs.writeFile(path.join(tempDir, 'recipes', 'focaccia.yaml'), 'x')
+
+    await expect(
+      storage.readPhoto('recipes/focaccia.yaml', tempDir)
+    ).rejects.toThrow('is not an image under photos/')
+  })
 })
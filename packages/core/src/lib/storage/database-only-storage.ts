@@ -1,5 +1,6 @@
 import log from '@harrytwright/logger'
 
+import { fromDataUrl, isDataUrl, toDataUrl } from '../photos'
 import type {
   StorageMode,
   StorageService,
@@ -35,6 +36,41 @@ export class DatabaseOnlyStorage implements StorageService {
     // No-op in database-only mode
   }
 
+  /**
+   * With no files to write to, the photo is inlined as a data URL and kept on
+   * the recipe itself
+   */
+  async writePhoto(
+    slug: string,
+    filename: string,
+    data: Buffer,
+    _workingDir: string
+  ): Promise<string> {
+    log.verbose(
+      'storage',
+      `Database-only mode: Inlining photo '${filename}' for recipe '${slug}'`
+    )
+    return toDataUrl(filename, data)
+  }
+
+  async readPhoto(photoPath: string, _workingDir: string): Promise<Buffer> {
+    if (!isDataUrl(photoPath)) {
+      throw new Error(
+        `Database-only mode: Cannot read photo '${photoPath}' from disk`
+      )
+    }
+
+    return fromDataUrl(photoPath)
+  }
+
+  async deletePhoto(photoPath: string, _workingDir: string): Promise<void> {
+    log.verbose(
+      'storage',
+      `Database-only mode: Skipping photo deletion for '${photoPath.slice(0, 32)}'`
+    )
+    // No-op in database-only mode, the photo goes with the recipe
+  }
+
   getMode(): StorageMode {
     return 'database-only'
   }
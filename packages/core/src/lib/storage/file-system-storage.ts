@@ -1,4 +1,8 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
 import { FileWriter } from '../file-writer'
+import { fromDataUrl, isDataUrl, isPhoto, photoContentType } from '../photos'
 import type {
   StorageMode,
   StorageService,
@@ -33,6 +37,58 @@ export class FileSystemStorage implements StorageService {
     await this.fileWriter.deleteFile(filePath)
   }
 
+  /**
+   * Photos are written to `photos/<slug>/` in the working directory, the
+   * returned path is relative to it so the YAML can be moved with the photos
+   */
+  async writePhoto(
+    slug: string,
+    filename: string,
+    data: Buffer,
+    workingDir: string
+  ): Promise<string> {
+    const name = path.basename(filename)
+    if (!photoContentType(name)) {
+      throw new Error(`Unsupported photo '${filename}', expected an image`)
+    }
+
+    const photoPath = path.posix.join('photos', slug, name)
+    const filePath = path.join(workingDir, photoPath)
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, data)
+
+    return photoPath
+  }
+
+  async readPhoto(photoPath: string, workingDir: string): Promise<Buffer> {
+    if (isDataUrl(photoPath)) return fromDataUrl(photoPath)
+
+    return fs.readFile(this.photoFile(photoPath, workingDir))
+  }
+
+  async deletePhoto(photoPath: string, workingDir: string): Promise<void> {
+    // Inlined photos go with the recipe, there is nothing on disk
+    if (isDataUrl(photoPath)) return
+
+    await fs.rm(this.photoFile(photoPath, workingDir), { force: true })
+  }
+
+  // Photo paths come from YAML, keep them from reaching outside the workspace
+  // or anything in it but the photos
+  private photoFile(photoPath: string, workingDir: string): string {
+    const root = path.resolve(workingDir)
+    const filePath = path.resolve(root, photoPath)
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Photo '${photoPath}' is outside the working directory`)
+    }
+    if (!isPhoto(photoPath)) {
+      throw new Error(`Photo '${photoPath}' is not an image under photos/`)
+    }
+
+    return filePath
+  }
+
   getMode(): StorageMode {
     return 'fs'
   }
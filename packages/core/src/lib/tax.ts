@@ -0,0 +1,124 @@
+import fs from 'fs/promises'
+
+import toml from 'toml'
+import { z } from 'zod'
+
+// Dates are written as strings, `toml` cannot parse bare TOML dates
+const taxDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be written as "YYYY-MM-DD"')
+
+const taxRateSchema = z.number().min(0).lt(1)
+
+const taxRuleSchema = z
+  .object({
+    name: z.string().optional(),
+    /** What the rule is for, leave out to match both */
+    applies: z.enum(['ingredient', 'recipe']).optional(),
+    /** Categories the rule matches, leave out to match any */
+    categories: z.array(z.string()).optional(),
+    /** A named rate from the regime, or a rate such as 0.05 */
+    rate: z.union([z.string(), taxRateSchema]),
+    from: taxDateSchema.optional(),
+    to: taxDateSchema.optional(),
+  })
+  .refine((rule) => !rule.from || !rule.to || rule.from <= rule.to, {
+    message: '`from` must not be after `to`',
+  })
+
+const taxRegimeSchema = z
+  .object({
+    /** Named rates, `standard` is used when no rule matches */
+    rates: z
+      .record(z.string(), taxRateSchema)
+      .refine((rates) => 'standard' in rates, {
+        message: 'A regime needs a `standard` rate',
+      }),
+    /** Checked in order, the first match wins */
+    rules: z.array(taxRuleSchema).default([]),
+  })
+  .superRefine((regime, ctx) => {
+    regime.rules.forEach((rule, index) => {
+      if (typeof rule.rate === 'string' && !(rule.rate in regime.rates)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['rules', index, 'rate'],
+          message: `Unknown rate '${rule.rate}'`,
+        })
+      }
+    })
+  })
+
+export const taxRulesSchema = z
+  .object({
+    /** The regime in use */
+    location: z.string(),
+    locations: z.record(z.string(), taxRegimeSchema),
+  })
+  .refine((rules) => rules.location in rules.locations, {
+    message: 'No regime for `location`',
+    path: ['location'],
+  })
+
+export type TaxRules = z.infer<typeof taxRulesSchema>
+
+export type TaxRule = z.infer<typeof taxRuleSchema>
+
+/**
+ * What a rate is being looked up for
+ */
+export interface TaxSubject {
+  applies: 'ingredient' | 'recipe'
+  category?: string | null
+  /** Defaults to today */
+  date?: Date
+}
+
+function matches(rule: TaxRule, subject: TaxSubject, day: string) {
+  if (rule.applies && rule.applies !== subject.applies) return false
+  if (rule.from && day < rule.from) return false
+  if (rule.to && day > rule.to) return false
+  if (!rule.categories) return true
+
+  const category = subject.category?.toLowerCase()
+  return (
+    !!category &&
+    rule.categories.some((value) => value.toLowerCase() === category)
+  )
+}
+
+/**
+ * Resolve the rate for an ingredient or recipe under the current location's
+ * regime. Date ranges are inclusive, and without a matching rule the
+ * regime's standard rate is used.
+ */
+export function resolveTaxRate(rules: TaxRules, subject?: TaxSubject): number {
+  const regime = rules.locations[rules.location]
+  if (!subject) return regime.rates.standard
+
+  const day = (subject.date ?? new Date()).toISOString().slice(0, 10)
+  const rule = regime.rules.find((rule) => matches(rule, subject, day))
+  if (!rule) return regime.rates.standard
+
+  return typeof rule.rate === 'string' ? regime.rates[rule.rate] : rule.rate
+}
+
+/**
+ * Parse and validate a tax rules file
+ */
+export function parseTaxRules(content: string): TaxRules {
+  return taxRulesSchema.parse(toml.parse(content))
+}
+
+/**
+ * Read the tax rules file, returns null when there is none
+ */
+export async function readTaxRules(file: string): Promise<TaxRules | null> {
+  try {
+    return parseTaxRules(await fs.readFile(file, 'utf-8'))
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null
+
+    throw error
+  }
+}
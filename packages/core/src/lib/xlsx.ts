@@ -0,0 +1,338 @@
+import { deflateRawSync } from 'zlib'
+
+import { DEFAULT_MONEY_FORMAT, MoneyFormat } from '../utils/money'
+
+export type XlsxValue = string | number | boolean | null | undefined
+
+/** `general` leaves numbers in Excel's default format */
+export type XlsxStyle = 'general' | 'money' | 'percent'
+
+export interface XlsxCell {
+  /** Shown until the formula is recalculated, and by viewers that can't */
+  value?: XlsxValue
+  /** Without the leading "=", e.g. "C2-D2" */
+  formula?: string
+  style?: XlsxStyle
+  bold?: boolean
+}
+
+export interface XlsxColumn {
+  header: string
+  /** Style for the column's cells, a cell's own style wins */
+  style?: XlsxStyle
+}
+
+interface Sheet {
+  name: string
+  columns: XlsxColumn[]
+  rows: (XlsxValue | XlsxCell)[][]
+}
+
+/** Index into `cellXfs` in styles.xml, by style then bold */
+const STYLES: Record<XlsxStyle, [number, number]> = {
+  general: [0, 1],
+  money: [2, 3],
+  percent: [4, 5],
+}
+
+/**
+ * A cell reference from a 0-based column and the row as Excel numbers it,
+ * counting the header as row 1, e.g. `cellRef(2, 5)` is "C5"
+ */
+function cellRef(column: number, row: number): string {
+  let name = ''
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return `${name}${row}`
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+}
+
+function cellXml(ref: string, cell: XlsxCell, style: XlsxStyle): string {
+  const s = STYLES[cell.style ?? style][cell.bold ? 1 : 0]
+  const attrs = `r="${ref}"${s ? ` s="${s}"` : ''}`
+  const { value, formula } = cell
+
+  if (formula) {
+    const cached =
+      typeof value === 'number'
+        ? `<v>${value}</v>`
+        : typeof value === 'string'
+          ? `<v>${xml(value)}</v>`
+          : ''
+    const type = typeof value === 'string' ? ' t="str"' : ''
+    return `<c ${attrs}${type}><f>${xml(formula)}</f>${cached}</c>`
+  }
+
+  if (value == null || value === '') return ''
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c ${attrs}><v>${value}</v></c>` : ''
+  }
+  if (typeof value === 'boolean') {
+    return `<c ${attrs} t="b"><v>${value ? 1 : 0}</v></c>`
+  }
+  return `<c ${attrs} t="inlineStr"><is><t xml:space="preserve">${xml(value)}</t></is></c>`
+}
+
+let CRC_TABLE: number[] | undefined
+
+function crc32(data: Buffer): number {
+  CRC_TABLE ??= Array.from({ length: 256 }, (_, n) => {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    return c >>> 0
+  })
+
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * A zip archive of deflated files, all an xlsx package needs
+ */
+function zip(files: [string, string][]): Buffer {
+  const locals: Buffer[] = []
+  const central: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of files) {
+    const data = Buffer.from(content, 'utf8')
+    const compressed = deflateRawSync(data)
+    const filename = Buffer.from(name, 'utf8')
+    const crc = crc32(data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4) // version needed
+    local.writeUInt16LE(0x0800, 6) // UTF-8 names
+    local.writeUInt16LE(8, 8) // deflate
+    local.writeUInt32LE(0x00210000, 10) // 1980-01-01 00:00
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(filename.length, 26)
+
+    const entry = Buffer.alloc(46)
+    entry.writeUInt32LE(0x02014b50, 0)
+    entry.writeUInt16LE(20, 4) // version made by
+    entry.writeUInt16LE(20, 6)
+    entry.writeUInt16LE(0x0800, 8)
+    entry.writeUInt16LE(8, 10)
+    entry.writeUInt32LE(0x00210000, 12)
+    entry.writeUInt32LE(crc, 16)
+    entry.writeUInt32LE(compressed.length, 20)
+    entry.writeUInt32LE(data.length, 24)
+    entry.writeUInt16LE(filename.length, 28)
+    entry.writeUInt32LE(offset, 42)
+
+    locals.push(local, filename, compressed)
+    central.push(entry, filename)
+    offset += local.length + filename.length + compressed.length
+  }
+
+  const directory = Buffer.concat(central)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directory, end])
+}
+
+/**
+ * A minimal xlsx writer. Each sheet is a table under a bold, frozen header
+ * row. Money is written as numbers in the major unit with the currency's
+ * number format, so the cells can be summed and charted, and formulas keep
+ * the value they were written with until the workbook is recalculated.
+ */
+export class XlsxWorkbook {
+  private sheets: Sheet[] = []
+
+  constructor(private readonly format: MoneyFormat = DEFAULT_MONEY_FORMAT) {}
+
+  addSheet(
+    name: string,
+    columns: XlsxColumn[],
+    rows: (XlsxValue | XlsxCell)[][]
+  ) {
+    // Excel's limits on sheet names
+    const title = name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31)
+    if (this.sheets.some((sheet) => sheet.name === title)) {
+      throw new Error(`Sheet '${title}' already exists`)
+    }
+
+    this.sheets.push({ name: title, columns, rows })
+    return this
+  }
+
+  private moneyFormat(): string {
+    const number = new Intl.NumberFormat(this.format.locale, {
+      style: 'currency',
+      currency: this.format.currency,
+    })
+    const digits = number.resolvedOptions().maximumFractionDigits ?? 2
+    const symbol =
+      number.formatToParts(0).find((part) => part.type === 'currency')?.value ??
+      this.format.currency
+    const amount = `#,##0${digits ? `.${'0'.repeat(digits)}` : ''}`
+
+    return `"${symbol}"${amount};-"${symbol}"${amount}`
+  }
+
+  private sheetXml({ columns, rows }: Sheet): string {
+    const widths = columns.map((column, index) =>
+      Math.min(
+        60,
+        Math.max(
+          10,
+          column.header.length + 2,
+          ...rows.map((row) => {
+            const cell = row[index]
+            const value =
+              cell !== null && typeof cell === 'object' ? cell.value : cell
+            return String(value ?? '').length + 2
+          })
+        )
+      )
+    )
+
+    const header = `<row r="1">${columns
+      .map((column, index) =>
+        cellXml(
+          cellRef(index, 1),
+          { value: column.header, bold: true },
+          'general'
+        )
+      )
+      .join('')}</row>`
+
+    const body = rows.map((row, r) => {
+      const cells = columns.map((column, c) => {
+        const cell = row[c]
+        return cellXml(
+          cellRef(c, r + 2),
+          cell !== null && typeof cell === 'object' ? cell : { value: cell },
+          column.style ?? 'general'
+        )
+      })
+      return `<row r="${r + 2}">${cells.join('')}</row>`
+    })
+
+    return (
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+      (widths.length
+        ? `<cols>${widths
+            .map(
+              (width, index) =>
+                `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`
+            )
+            .join('')}</cols>`
+        : '') +
+      `<sheetData>${header}${body.join('')}</sheetData>` +
+      '</worksheet>'
+    )
+  }
+
+  toBuffer(): Buffer {
+    if (!this.sheets.length) {
+      throw new Error('A workbook needs at least one sheet')
+    }
+
+    const header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    const sheets = this.sheets.map((sheet, index) => ({
+      ...sheet,
+      path: `worksheets/sheet${index + 1}.xml`,
+      id: `rId${index + 1}`,
+    }))
+
+    const files: [string, string][] = [
+      [
+        '[Content_Types].xml',
+        header +
+          '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+          sheets
+            .map(
+              (sheet) =>
+                `<Override PartName="/xl/${sheet.path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+            )
+            .join('') +
+          '</Types>',
+      ],
+      [
+        '_rels/.rels',
+        header +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+          '</Relationships>',
+      ],
+      [
+        'xl/workbook.xml',
+        header +
+          '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+          `<sheets>${sheets
+            .map(
+              (sheet, index) =>
+                `<sheet name="${xml(sheet.name)}" sheetId="${index + 1}" r:id="${sheet.id}"/>`
+            )
+            .join('')}</sheets>` +
+          '<calcPr fullCalcOnLoad="1"/>' +
+          '</workbook>',
+      ],
+      [
+        'xl/_rels/workbook.xml.rels',
+        header +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          sheets
+            .map(
+              (sheet) =>
+                `<Relationship Id="${sheet.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="${sheet.path}"/>`
+            )
+            .join('') +
+          `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+          '</Relationships>',
+      ],
+      [
+        'xl/styles.xml',
+        header +
+          '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+          `<numFmts count="2"><numFmt numFmtId="164" formatCode="${xml(this.moneyFormat())}"/><numFmt numFmtId="165" formatCode="0.0%"/></numFmts>` +
+          '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+          '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+          '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+          '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+          '<cellXfs count="6">' +
+          '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+          '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+          '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+          '<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>' +
+          '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+          '<xf numFmtId="165" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>' +
+          '</cellXfs>' +
+          '</styleSheet>',
+      ],
+      ...sheets.map((sheet): [string, string] => [
+        `xl/${sheet.path}`,
+        this.sheetXml(sheet),
+      ]),
+    ]
+
+    return zip(files)
+  }
+}
@@ -1,5 +1,9 @@
 import { z } from 'zod'
 
+import { ALLERGENS } from './lib/allergens'
+import { parseDensity } from './lib/calculation/units'
+import { isPhoto } from './lib/photos'
+
 /**
  * Import schemas for validating YAML/JSON files
  * These schemas are used for file imports and may differ from the database schema
@@ -42,6 +46,31 @@ export const ingredientImportPurchaseSchema = z.object({
   cost: z.number().int().nonnegative('Purchase cost must be non-negative'), // in pence
   unit: z.string().min(1, "Purchase unit is required (e.g., '120g', '1 loaf')"),
   vat: z.boolean().optional().default(false),
+  // Left out for the base currency, anything else is converted using the
+  // exchange rates in effect when costing
+  currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, 'Currency must be an ISO 4217 code (e.g., EUR)')
+    .optional(),
+  // When the price starts applying, defaults to the time it was saved
+  effectiveFrom: z.string().datetime().optional(),
+})
+
+// Allergens declared for an ingredient, see ALLERGENS for the names
+export const ingredientAllergensSchema = z.object({
+  contains: z.array(z.enum(ALLERGENS)).default([]),
+  mayContain: z.array(z.enum(ALLERGENS)).default([]),
+})
+
+// Nutrition per 100g (or 100ml), energy in kcal and the rest in grams
+export const ingredientNutritionSchema = z.object({
+  energy: z.number().nonnegative(),
+  fat: z.number().nonnegative(),
+  saturates: z.number().nonnegative(),
+  carbohydrate: z.number().nonnegative(),
+  sugars: z.number().nonnegative(),
+  protein: z.number().nonnegative(),
+  salt: z.number().nonnegative(),
 })
 
 // Ingredient import schema
@@ -52,6 +81,20 @@ export const ingredientImportDataSchema = z.object({
   purchase: ingredientImportPurchaseSchema,
   supplier: supplierReferenceSchema.optional(),
   conversionRate: z.string().optional(), // e.g., "1 loaf = 16 slices"
+  // Grams per millilitre, or a rule such as "1 cup = 120g"
+  density: z
+    .union([z.number(), z.string()])
+    .transform(String)
+    .refine((density) => parseDensity(density) !== null, {
+      message: 'Density must be grams per ml or a rule like "1 cup = 120g"',
+    })
+    .optional(),
+  // Usable percentage of the purchase unit after trimming, e.g. 55 for salmon
+  yieldPercent: z.number().gt(0).max(100).optional(),
+  // The supplier's product code, used to match price lists
+  sku: z.string().optional(),
+  allergens: ingredientAllergensSchema.optional(),
+  nutrition: ingredientNutritionSchema.optional(),
   notes: z.string().optional(),
   lastPurchased: z.string().datetime().optional(),
 })
@@ -88,9 +131,33 @@ export const recipeIngredientReferenceSchema = z.object({
   with: z.object({
     unit: z.string().min(1, "Unit is required (e.g., '50g', '2 slices')"),
     notes: z.string().optional(),
+    // Percentage lost while preparing this line, e.g. 20 for fried chips
+    wastePercent: z.number().min(0).lt(100).optional(),
   }),
 })
 
+// Parent recipe reference, either on its own or with changes to the lines
+// inherited from it, matched by slug
+export const recipeExtendsSchema = z.union([
+  referenceSchema,
+  z.object({
+    uses: referenceSchema,
+    remove: z.array(referenceSchema).default([]),
+    override: z.array(recipeIngredientReferenceSchema).default([]),
+  }),
+])
+
+// Another price the recipe sells at, e.g. takeaway or through a delivery
+// platform. `vat` is true or false like the recipe's own, or the rate the
+// price includes (0.05); left out, it follows the recipe
+export const recipeImportPriceBandSchema = z.object({
+  name: z.string().min(1, 'Price band name is required'),
+  price: z.number().int().nonnegative('Price must be non-negative (in pence)'),
+  vat: z.union([z.boolean(), z.number().min(0).lt(1)]).optional(),
+  // Percentage of the customer price kept by the platform
+  commission: z.number().min(0).lt(100).optional(),
+})
+
 // Recipe costing schema (all fields optional for inheritance)
 export const recipeImportCostingSchema = z.object({
   price: z
@@ -100,8 +167,71 @@ export const recipeImportCostingSchema = z.object({
     .optional(),
   margin: z.number().int().min(0).max(100).optional(),
   vat: z.boolean().optional(),
+  // Replaces the bands inherited from the parent, names must be unique
+  bands: z
+    .array(recipeImportPriceBandSchema)
+    .refine(
+      (bands) => new Set(bands.map((band) => band.name)).size === bands.length,
+      'Price band names must be unique'
+    )
+    .optional(),
+})
+
+// Role names a wage rate in margin.toml, the first rate is used without one
+export const recipeImportLabourSchema = z.object({
+  prepMinutes: z.number().int().nonnegative().optional(),
+  cookMinutes: z.number().int().nonnegative().optional(),
+  role: z.string().optional(),
 })
 
+// How the recipe is made. A step's hold is how long it rests, proves or
+// chills before the next one. Photo paths are relative to the workspace, or a
+// data URL when the photo is kept in the database
+export const recipeImportMethodSchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        step: z.string().min(1, 'Step is required'),
+        holdMinutes: z.number().int().nonnegative().optional(),
+      })
+    )
+    .optional(),
+  equipment: z.array(z.string().min(1)).optional(),
+  plating: z.string().optional(),
+  photos: z
+    .array(
+      z.object({
+        path: z.string().min(1, 'Photo path is required').refine(isPhoto, {
+          message:
+            'Photo must be an image under photos/<recipe>/ or an image data URL',
+        }),
+        caption: z.string().optional(),
+      })
+    )
+    .optional(),
+})
+
+// Non-food cost line, e.g. a takeaway box or a delivery platform's fee.
+// Either uses a packaging item, bought and priced like an ingredient, or
+// charges a fixed amount in pence or a percentage of the ex-VAT sell price
+export const recipeCostLineSchema = z.union([
+  z.object({
+    uses: referenceSchema,
+    with: z.object({
+      unit: z.string().min(1, "Unit is required (e.g., '1 box')"),
+      notes: z.string().optional(),
+    }),
+  }),
+  z.object({
+    name: z.string().min(1, 'Cost line name is required'),
+    pence: z.number().int().nonnegative(),
+  }),
+  z.object({
+    name: z.string().min(1, 'Cost line name is required'),
+    percent: z.number().min(0).max(100),
+  }),
+])
+
 // Recipe import schema
 export const recipeImportDataSchema = z
   .object({
@@ -115,14 +245,20 @@ export const recipeImportDataSchema = z
       .default('menu_item'),
     category: z.string().optional(),
     // Parent recipe reference
-    extends: referenceSchema.optional(),
+    extends: recipeExtendsSchema.optional(),
     // Costing (optional - can inherit from parent)
     costing: recipeImportCostingSchema.optional(),
     // For sub-recipes
     yieldAmount: z.number().positive().optional(),
     yieldUnit: z.string().optional(),
+    // Active minutes of work, for a batch when the recipe has a yield
+    labour: recipeImportLabourSchema.optional(),
+    // Steps, equipment, plating and photos for the recipe card
+    method: recipeImportMethodSchema.optional(),
     // Ingredients list
     ingredients: z.array(recipeIngredientReferenceSchema).default([]),
+    // Non-food costs, added to any inherited from the parent
+    costs: z.array(recipeCostLineSchema).optional(),
   })
   .refine(
     (data) => {
@@ -144,11 +280,34 @@ export const recipeImportSchema = z.object({
   data: recipeImportDataSchema,
 })
 
+// POS sales import, built from a CSV export rather than read from YAML
+export const salesImportRowSchema = z.object({
+  // Rows without a date count towards the whole import period
+  date: z.string().min(1).optional(),
+  item: z.string().min(1, 'Item name or PLU is required'),
+  quantity: z.number(),
+  revenue: z.number().int().optional(), // gross, in pence
+})
+
+export const salesImportDataSchema = z.object({
+  slug: z.string().optional(),
+  name: z.string().min(1, 'Sales import name is required'),
+  // Period covered by a per-item export with no dates, both ends inclusive
+  period: z.object({ from: z.string(), to: z.string() }).optional(),
+  rows: z.array(salesImportRowSchema),
+})
+
+export const salesImportSchema = z.object({
+  object: z.literal('sales'),
+  data: salesImportDataSchema,
+})
+
 // Union type for any import
 export const importSchema = z.discriminatedUnion('object', [
   supplierImportSchema,
   ingredientImportSchema,
   recipeImportSchema,
+  salesImportSchema,
 ])
 
 // Type exports
@@ -158,6 +317,12 @@ export type RecipeImportData = z.infer<typeof recipeImportDataSchema>
 export type RecipeIngredientReference = z.infer<
   typeof recipeIngredientReferenceSchema
 >
+export type RecipeExtendsReference = z.infer<typeof recipeExtendsSchema>
+export type RecipeCostLine = z.infer<typeof recipeCostLineSchema>
+export type RecipePriceBandData = z.infer<typeof recipeImportPriceBandSchema>
+export type RecipeMethodData = z.infer<typeof recipeImportMethodSchema>
+export type SalesImportRow = z.infer<typeof salesImportRowSchema>
+export type SalesImportData = z.infer<typeof salesImportDataSchema>
 export type ImportData = z.infer<typeof importSchema>
 
 /**
@@ -188,6 +353,19 @@ export function isRecipeImport(
   return data.object === 'recipe'
 }
 
+export function isSalesImport(
+  data: ImportData
+): data is z.infer<typeof salesImportSchema> {
+  return data.object === 'sales'
+}
+
+/**
+ * Helper to get the parent reference from either form of `extends`
+ */
+export function parentReference(ref: RecipeExtendsReference): string {
+  return typeof ref === 'string' ? ref : ref.uses
+}
+
 /**
  * Reference type utilities
  */
@@ -215,26 +393,44 @@ export interface RecipeIngredientResolvedReference {
   with: {
     unit: string
     notes?: string
+    wastePercent?: number
   }
 }
 
+export type RecipeCostLineResolved =
+  | {
+      type: 'packaging'
+      slug: string // Resolved from 'uses'
+      with: { unit: string; notes?: string }
+    }
+  | { type: 'fixed'; name: string; pence: number }
+  | { type: 'percent'; name: string; percent: number }
+
 export type RecipeResolvedImportData = Omit<
   RecipeImportData,
-  'extends' | 'ingredients'
+  'extends' | 'ingredients' | 'costs'
 > & {
   slug: string // Always present after resolution
   parentSlug?: string // Resolved from 'extends'
+  remove?: string[] // Resolved from 'extends.remove'
+  override?: RecipeIngredientResolvedReference[] // Resolved from 'extends.override'
   ingredients: RecipeIngredientResolvedReference[]
+  costs?: RecipeCostLineResolved[]
 }
 
 export type SupplierResolvedImportData = SupplierImportData & {
   slug: string // Always present after resolution
 }
 
+export type SalesResolvedImportData = SalesImportData & {
+  slug: string // Always present after resolution
+}
+
 export type ResolvedImportData =
   | SupplierResolvedImportData
   | IngredientResolvedImportData
   | RecipeResolvedImportData
+  | SalesResolvedImportData
 
 export interface ParsedReference {
   type: ReferenceType
@@ -0,0 +1,66 @@
+import {
+  createDatabase,
+  jsonArrayFrom,
+  jsonObjectFrom,
+  migrate,
+} from '@menubook/sqlite'
+
+import type { DatabaseContext } from '../../datastore/context'
+import { ExchangeRateService } from '../exchange-rate'
+
+describe('ExchangeRateService', () => {
+  let context: DatabaseContext
+  let service: ExchangeRateService
+
+  beforeEach(async () => {
+    const db = createDatabase(':memory:')
+    await migrate(db)
+
+    context = { db, helpers: { jsonArrayFrom, jsonObjectFrom } }
+    service = new ExchangeRateService(context)
+  })
+
+  afterEach(async () => {
+    await context.db.destroy()
+  })
+
+  test('should use the latest rate on or before the day', async () => {
+    await service.set({
+      currency: 'EUR',
+      rate: 0.85,
+      effectiveFrom: '2026-01-01',
+    })
+    await service.set({
+      currency: 'eur',
+      rate: 0.87,
+      effectiveFrom: '2026-02-01',
+    })
+
+    expect(await service.rateAt('EUR', new Date('2026-01-31'))).toBe(0.85)
+    expect(await service.rateAt('EUR', new Date('2026-02-01'))).toBe(0.87)
+    expect(await service.rateAt('EUR', new Date('2025-12-31'))).toBeUndefined()
+    expect(await service.rateAt('USD')).toBeUndefined()
+  })
+
+  test('should replace the rate set for the same day', async () => {
+    await service.setAll([
+      { currency: 'EUR', rate: 0.85, effectiveFrom: '2026-01-01' },
+      { currency: 'EUR', rate: 0.86, effectiveFrom: '2026-01-01' },
+      { currency: 'USD', rate: 0.79, effectiveFrom: '2026-01-01' },
+    ])
+
+    expect(await service.find('EUR')).toEqual([
+      expect.objectContaining({ currency: 'EUR', rate: 0.86 }),
+    ])
+    expect(await service.find()).toHaveLength(2)
+  })
+
+  test('should reject invalid rates', async () => {
+    await expect(service.set({ currency: 'EURO', rate: 0.85 })).rejects.toThrow(
+      "Invalid currency 'EURO', expected an ISO 4217 code"
+    )
+    await expect(service.set({ currency: 'EUR', rate: 0 })).rejects.toThrow(
+      "Invalid rate '0', expected a number above zero"
+    )
+  })
+})
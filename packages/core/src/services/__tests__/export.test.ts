@@ -0,0 +1,492 @@
+import {
+  createDatabase,
+  jsonArrayFrom,
+  jsonObjectFrom,
+  migrate,
+} from '@menubook/sqlite'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import YAML from 'yaml'
+
+import type { DatabaseContext } from '../../datastore/context'
+import { unzip } from '../../lib/__tests__/unzip'
+import { Calculator } from '../../lib/calculation/calculator'
+import { Importer } from '../../lib/importer'
+import { ConfigService } from '../config'
+import { ExportService } from '../export'
+import { IngredientService } from '../ingredient'
+import { RecipeService } from '../recipe'
+import { SupplierService } from '../supplier'
+
+jest.mock('../config', () => {
+  return {
+    ConfigService: jest.fn().mockImplementation(() => ({
+      getVatRate: jest.fn().mockResolvedValue(0.2),
+      getCurrency: jest.fn().mockResolvedValue('GBP'),
+      getMarginTarget: jest.fn().mockResolvedValue(20),
+      getDefaultPriceIncludesVat: jest.fn().mockResolvedValue(true),
+    })),
+  }
+})
+
+// Mock the slugify utility to avoid ESM import issues in tests
+jest.mock('../../utils/slugify', () => ({
+  slugify: jest.fn((input: string) =>
+    Promise.resolve(
+      input
+        .toLowerCase()
+        .trim()
+        .replace(/[\s_]+/g, '-')
+        .replace(/[^\w-]+/g, '')
+        .replace(/--+/g, '-')
+        .replace(/^-+/, '')
+        .replace(/-+$/, '')
+    )
+  ),
+}))
+
+const dataDir = path.resolve(__dirname, '../../../../../data')
+
+/**
+ * Import every YAML file under a directory laid out like `data/`
+ */
+async function importDir(context: DatabaseContext, dir: string) {
+  const config = new ConfigService('')
+  const supplier = new SupplierService(context)
+  const ingredient = new IngredientService(context, supplier)
+
+  const files: string[] = []
+  for (const folder of ['suppliers', 'ingredients', 'recipes']) {
+    for (const file of (await fs.readdir(path.join(dir, folder))).sort()) {
+      files.push(path.join(dir, folder, file))
+    }
+  }
+
+  const importer = new Importer(context, {
+    failFast: true,
+    dataDir: dir,
+    processors: [
+      ['supplier', supplier],
+      ['ingredient', ingredient],
+      ['recipe', new RecipeService(context, ingredient, config)],
+    ],
+  })
+
+  return importer.import(files)
+}
+
+/**
+ * The suppliers, ingredients and recipes with ids swapped for slugs, so two
+ * databases filled in a different order can be compared. Only the tables a
+ * round-trip export carries, the price history, revisions, sales, mappings,
+ * spend and exchange rates are not exported.
+ */
+async function snapshot({ db }: DatabaseContext) {
+  const slugs = async (table: 'Supplier' | 'Ingredient' | 'Recipe') =>
+    new Map(
+      (await db.selectFrom(table).select(['id', 'slug']).execute()).map(
+        (row) => [row.id, row.slug] as const
+      )
+    )
+
+  const supplier = await slugs('Supplier')
+  const ingredient = await slugs('Ingredient')
+  const recipe = await slugs('Recipe')
+
+  const rows = async (
+    table:
+      | 'Supplier'
+      | 'Ingredient'
+      | 'IngredientPrice'
+      | 'Recipe'
+      | 'RecipeIngredients'
+      | 'RecipePriceBand',
+    refs: Record<string, Map<number, string>>,
+    key: string
+  ) => {
+    const all = (await db
+      .selectFrom(table)
+      .selectAll()
+      .orderBy('id')
+      .execute()) as Record<string, unknown>[]
+
+    return all
+      .map(({ id, createdAt, ...row }) => {
+        for (const [column, slugs] of Object.entries(refs)) {
+          row[column] = slugs.get(row[column] as number) ?? null
+        }
+        return row
+      })
+      .sort((a, b) => String(a[key]).localeCompare(String(b[key])))
+  }
+
+  return {
+    suppliers: await rows('Supplier', {}, 'slug'),
+    ingredients: await rows('Ingredient', { supplierId: supplier }, 'slug'),
+    prices: await rows(
+      'IngredientPrice',
+      { ingredientId: ingredient },
+      'ingredientId'
+    ),
+    recipes: await rows('Recipe', { parentId: recipe }, 'slug'),
+    lines: await rows(
+      'RecipeIngredients',
+      { recipeId: recipe, ingredientId: ingredient, subRecipeId: recipe },
+      'recipeId'
+    ),
+    bands: await rows('RecipePriceBand', { recipeId: recipe }, 'recipeId'),
+  }
+}
+
+describe('ExportService', () => {
+  let context: DatabaseContext
+  let suppliers: SupplierService
+  let ingredients: IngredientService
+  let recipes: RecipeService
+  let service: ExportService
+
+  beforeEach(async () => {
+    const db = createDatabase(':memory:')
+    await migrate(db)
+
+    context = { db, helpers: { jsonArrayFrom, jsonObjectFrom } }
+
+    const config = new ConfigService('')
+    suppliers = new SupplierService(context)
+    ingredients = new IngredientService(context, suppliers)
+    recipes = new RecipeService(context, ingredients, config)
+    service = new ExportService(
+      context,
+      suppliers,
+      ingredients,
+      recipes,
+      new Calculator(recipes, ingredients, config)
+    )
+
+    await db
+      .insertInto('Supplier')
+      .values({ slug: 'generic', name: 'Generic' })
+      .execute()
+  })
+
+  afterEach(async () => {
+    await context.db.destroy()
+  })
+
+  describe('exportRecipe', () => {
+    test('should write the method alongside the costing', async () => {
+      const method = {
+        steps: [
+          { step: 'Mix the dough' },
+          { step: 'Prove until doubled', holdMinutes: 60 },
+        ],
+        equipment: ['Stand mixer', '30x40cm tray'],
+        plating: 'Cut into eight, rosemary side up',
+        photos: [{ path: 'photos/focaccia/tray.jpg', caption: 'Baked' }],
+      }
+
+      await recipes.upsert('focaccia', {
+        slug: 'focaccia',
+        name: 'Focaccia',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 350 },
+        method,
+        ingredients: [],
+      })
+
+      const exported = YAML.parse(
+        (await service.exportRecipe('focaccia')) as string
+      )
+
+      expect(exported.data.method).toEqual(method)
+    })
+  })
+
+  describe('exportAll', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'margin-export-'))
+    })
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    // Exports, writes the files to disk and imports them into a new database
+    const roundTrip = async () => {
+      const { files } = await service.exportAll({ roundTrip: true })
+      for (const [file, content] of files) {
+        await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true })
+        await fs.writeFile(path.join(dir, file), content)
+      }
+
+      const db = createDatabase(':memory:')
+      await migrate(db)
+      const restored = { db, helpers: { jsonArrayFrom, jsonObjectFrom } }
+
+      try {
+        const { stats } = await importDir(restored, dir)
+        expect(stats.failed).toBe(0)
+        return await snapshot(restored)
+      } finally {
+        await db.destroy()
+      }
+    }
+
+    test('should import back into the same suppliers, ingredients and recipes', async () => {
+      const { stats } = await importDir(context, dataDir)
+      expect(stats.failed).toBe(0)
+
+      await suppliers.upsert('asda', {
+        name: 'Asda',
+        contactName: 'Sam Jones',
+        contactEmail: 'orders@asda.example',
+        contactPhone: '0113 000 0000',
+        notes: 'Delivers Tuesdays',
+      })
+
+      const before = await snapshot(context)
+      expect(before.recipes.map((recipe) => recipe.slug)).toContain(
+        'ham-cheese-sandwich-crips'
+      )
+
+      expect(await roundTrip()).toEqual(before)
+    })
+
+    test('should keep overrides and removals under extends', async () => {
+      await importDir(context, dataDir)
+
+      const data = {
+        slug: 'cheese-toastie',
+        name: 'Cheese Toastie',
+        stage: 'development' as const,
+        class: 'menu_item' as const,
+        parentSlug: 'cheese-sandwich',
+        ingredients: [
+          {
+            type: 'ingredient' as const,
+            slug: 'pipers-salted',
+            with: { unit: '25g', wastePercent: 10 },
+          },
+        ],
+        override: [
+          {
+            type: 'ingredient' as const,
+            slug: 'cheese-slice',
+            with: { unit: '50g', notes: 'Grated' },
+          },
+        ],
+        remove: ['hovis-thick-white-bread'],
+        costs: [{ type: 'fixed' as const, name: 'Napkin', pence: 2 }],
+      }
+      const id = await recipes.upsert(data.slug, data)
+      await recipes.upsertIngredients(id!, data)
+
+      const { files } = await service.exportAll({ roundTrip: true })
+      const exported = YAML.parse(files.get('recipes/cheese-toastie.yaml')!)
+
+      expect(exported.data.extends).toEqual({
+        uses: './cheese-sandwich.yaml',
+        remove: ['../ingredients/hovis-thick-white-bread.yaml'],
+        override: [
+          {
+            uses: '../ingredients/cheese-slice.yaml',
+            with: { unit: '50g', notes: 'Grated' },
+          },
+        ],
+      })
+      expect(exported.data.ingredients).toEqual([
+        {
+          uses: '../ingredients/pipers-salted.yaml',
+          with: { unit: '25g', wastePercent: 10 },
+        },
+      ])
+
+      expect(await roundTrip()).toEqual(await snapshot(context))
+    })
+  })
+
+  describe('exportRecipesCSV', () => {
+    test('should include nutrition per portion', async () => {
+      await ingredients.upsert('oats', {
+        slug: 'oats',
+        name: 'Oats',
+        category: 'dry goods',
+        purchase: { unit: '1kg', cost: 120, vat: false },
+        nutrition: {
+          energy: 375,
+          fat: 8,
+          saturates: 1.5,
+          carbohydrate: 60,
+          sugars: 1,
+          protein: 11,
+          salt: 0,
+        },
+      })
+
+      const data = {
+        slug: 'porridge',
+        name: 'Porridge',
+        stage: 'active' as const,
+        class: 'menu_item' as const,
+        costing: { price: 450 },
+        ingredients: [
+          {
+            type: 'ingredient' as const,
+            slug: 'oats',
+            with: { unit: '40g' },
+          },
+        ],
+      }
+      const id = await recipes.upsert(data.slug, data)
+      await recipes.upsertIngredients(id!, data)
+
+      const [header, row] = (await service.exportRecipesCSV())
+        .trim()
+        .split('\n')
+
+      expect(header).toBe(
+        'slug,name,class,category,stage,sellPrice,includesVat,targetMargin,' +
+          'yieldAmount,yieldUnit,parent,energy,fat,saturates,carbohydrate,' +
+          'sugars,protein,salt'
+      )
+      expect(row).toBe(
+        'porridge,Porridge,menu_item,,active,4.5,Yes,20,,,,150,3.2,0.6,24,0.4,4.4,0'
+      )
+    })
+  })
+
+  describe('PDF', () => {
+    const read = (pdf: Buffer) => pdf.toString('latin1')
+
+    beforeEach(async () => {
+      await ingredients.upsert('oats', {
+        slug: 'oats',
+        name: 'Oats',
+        category: 'dry goods',
+        purchase: { unit: '1kg', cost: 120, vat: false },
+        supplier: { uses: 'slug:generic' },
+        sku: 'OAT-1',
+      })
+
+      for (const [slug, name, category, stage] of [
+        ['porridge', 'Porridge', 'breakfast', 'active'],
+        ['granola', 'Granola', 'breakfast', 'discontinued'],
+        ['flapjack', 'Flapjack', 'cakes', 'active'],
+      ] as const) {
+        const data = {
+          slug,
+          name,
+          category,
+          stage,
+          class: 'menu_item' as const,
+          costing: { price: 450 },
+          method: { steps: [{ step: 'Simmer with milk', holdMinutes: 5 }] },
+          ingredients: [
+            {
+              type: 'ingredient' as const,
+              slug: 'oats',
+              with: { unit: '40g', notes: 'Jumbo rolled' },
+            },
+          ],
+        }
+        const id = await recipes.upsert(slug, data)
+        await recipes.upsertIngredients(id!, data)
+      }
+    })
+
+    test('should print a recipe spec card', async () => {
+      const pdf = read(await service.exportRecipeSpecPDF('porridge'))
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+      expect(pdf).toContain('(Porridge) Tj')
+      expect(pdf).toContain('(Oats) Tj')
+      expect(pdf).toContain('(40 g) Tj')
+      expect(pdf).toContain('(Jumbo rolled) Tj')
+      expect(pdf).toContain('(£4.50 \\(£3.75 ex VAT\\)) Tj')
+      expect(pdf).toContain('(1. Simmer with milk \\(hold 5 min\\)) Tj')
+    })
+
+    test('should only pack active menu items, by category', async () => {
+      const pdf = read(await service.exportCostingPackPDF())
+
+      expect(pdf).toContain('(2 active menu items')
+      expect(pdf.indexOf('(breakfast) Tj')).toBeLessThan(
+        pdf.indexOf('(Porridge) Tj')
+      )
+      expect(pdf.indexOf('(cakes) Tj')).toBeLessThan(
+        pdf.indexOf('(Flapjack) Tj')
+      )
+      expect(pdf).not.toContain('(Granola) Tj')
+    })
+
+    test("should list a supplier's items on the order sheet", async () => {
+      const pdf = read(
+        await service.exportSupplierOrderPDF('generic', {
+          currency: 'EUR',
+          locale: 'en-IE',
+        })
+      )
+
+      expect(pdf).toContain('(Generic) Tj')
+      expect(pdf).toContain('(dry goods) Tj')
+      expect(pdf).toContain('(OAT-1) Tj')
+      expect(pdf).toContain('(\x801.20) Tj')
+    })
+  })
+
+  describe('exportWorkbookXLSX', () => {
+    test('should write a sheet per table with numeric money', async () => {
+      await ingredients.upsert('oats', {
+        slug: 'oats',
+        name: 'Oats',
+        category: 'dry goods',
+        purchase: { unit: '1kg', cost: 120, vat: false },
+        supplier: { uses: 'slug:generic' },
+      })
+
+      const data = {
+        slug: 'porridge',
+        name: 'Porridge',
+        stage: 'active' as const,
+        class: 'menu_item' as const,
+        costing: { price: 450 },
+        ingredients: [
+          {
+            type: 'ingredient' as const,
+            slug: 'oats',
+            with: { unit: '40g' },
+          },
+        ],
+      }
+      const id = await recipes.upsert(data.slug, data)
+      await recipes.upsertIngredients(id!, data)
+
+      const files = unzip(await service.exportWorkbookXLSX())
+
+      expect(files.get('xl/workbook.xml')).toMatch(
+        /name="Suppliers".*name="Ingredients".*name="Recipes".*name="Cost Trees"/
+      )
+
+      const [suppliers, ingredientsSheet, recipesSheet, trees] = [
+        1, 2, 3, 4,
+      ].map((index) => files.get(`xl/worksheets/sheet${index}.xml`)!)
+
+      expect(suppliers).toContain(
+        '<c r="F2"><f>COUNTIF(Ingredients!D:D,A2)</f><v>1</v></c>'
+      )
+      expect(ingredientsSheet).toContain('<c r="G2" s="2"><v>1.2</v></c>')
+      // £4.50 with VAT is £3.75 before it
+      expect(recipesSheet).toContain('<c r="F2" s="2"><v>3.75</v></c>')
+      expect(recipesSheet).toContain('<f>F2-H2</f>')
+      expect(recipesSheet).toContain('<f>IF(F2=0,0,K2/F2)</f>')
+      expect(recipesSheet).toContain(
+        '<f>IF(L2&gt;=N2,&quot;Yes&quot;,&quot;No&quot;)</f>'
+      )
+      expect(trees).toContain('<f>SUMIFS(H2:H2,D2:D2,0)</f>')
+    })
+  })
+})
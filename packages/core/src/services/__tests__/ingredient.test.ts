@@ -6,6 +6,7 @@ import {
 } from '@menubook/sqlite'
 
 import type { DatabaseContext } from '../../datastore/context'
+import { parseAllergens } from '../../lib/allergens'
 import { Importer } from '../../lib/importer'
 import { IngredientResolvedImportData } from '../../schema'
 import { IngredientService } from '../ingredient'
@@ -263,6 +264,110 @@ describe('IngredientService', () => {
     })
   })
 
+  describe('price history', () => {
+    const ham = (
+      cost: number,
+      effectiveFrom?: string
+    ): IngredientResolvedImportData => ({
+      slug: 'ham',
+      name: 'Ham',
+      category: 'meat',
+      purchase: { unit: '1kg', cost, vat: false, effectiveFrom },
+    })
+
+    test('should record a price entry on create', async () => {
+      await service.upsert('ham', ham(599, '2025-01-01T00:00:00.000Z'))
+
+      const history = await service.priceHistory('ham')
+      expect(history).toHaveLength(1)
+      expect(history[0]).toMatchObject({
+        purchaseUnit: '1kg',
+        purchaseCost: 599,
+        includesVat: 0,
+        effectiveFrom: '2025-01-01T00:00:00.000Z',
+        source: 'import',
+      })
+    })
+
+    test('should only record a new entry when the price changes', async () => {
+      await service.upsert('ham', ham(599, '2025-01-01T00:00:00.000Z'))
+      await service.upsert('ham', ham(599, '2025-02-01T00:00:00.000Z'))
+      await service.upsert(
+        'ham',
+        ham(649, '2025-03-01T00:00:00.000Z'),
+        'generic',
+        undefined,
+        'ui'
+      )
+
+      const history = await service.priceHistory('ham')
+      expect(
+        history.map((price) => [price.purchaseCost, price.source])
+      ).toEqual([
+        [649, 'ui'],
+        [599, 'import'],
+      ])
+    })
+
+    test('should find the price in effect at a given date', async () => {
+      await service.upsert('ham', ham(599, '2025-01-01T00:00:00.000Z'))
+      await service.upsert('ham', ham(649, '2025-03-01T00:00:00.000Z'))
+
+      const before = await service.priceAt('ham', new Date('2024-12-31'))
+      const during = await service.priceAt('ham', new Date('2025-02-14'))
+      const after = await service.priceAt('ham', new Date('2025-03-01'))
+
+      expect(before).toBeUndefined()
+      expect(during?.purchaseCost).toBe(599)
+      expect(after?.purchaseCost).toBe(649)
+    })
+
+    test('should remove history when the ingredient is deleted', async () => {
+      await service.upsert('ham', ham(599))
+      await service.delete('ham')
+
+      const rows = await context.db
+        .selectFrom('IngredientPrice')
+        .selectAll()
+        .execute()
+      expect(rows).toHaveLength(0)
+    })
+  })
+
+  describe('updateAllergens', () => {
+    test('should only replace the allergens', async () => {
+      await service.upsert(
+        'ham',
+        {
+          name: 'Ham',
+          category: 'meat',
+          purchase: { unit: '1kg', cost: 599, vat: false },
+          notes: 'Thick cut',
+          allergens: { contains: ['sulphites'], mayContain: [] },
+        },
+        'asda'
+      )
+
+      await service.updateAllergens('ham', {
+        contains: ['sulphites', 'mustard'],
+        mayContain: ['celery'],
+      })
+
+      const ingredient = await service.findById('ham')
+      expect(ingredient.notes).toBe('Thick cut')
+      expect(parseAllergens(ingredient.allergens)).toEqual({
+        contains: ['mustard', 'sulphites'],
+        mayContain: ['celery'],
+      })
+    })
+
+    test('should throw for a missing ingredient', async () => {
+      await expect(
+        service.updateAllergens('ham', { contains: [], mayContain: [] })
+      ).rejects.toThrow("Ingredient with slug 'ham' not found")
+    })
+  })
+
   describe('delete', () => {
     test('should return false when deleting non-existent ingredient', async () => {
       const deleted = await service.delete('ham')
@@ -486,5 +591,26 @@ describe('IngredientService', () => {
       const result = await service.processor(importer, data, undefined)
       expect(result).toBe('upserted')
     })
+
+    test('should only upsert allergens when they change', async () => {
+      const data: IngredientResolvedImportData = {
+        slug: 'cheese',
+        name: 'Cheese',
+        category: 'dairy',
+        purchase: { unit: '200g', cost: 250, vat: false },
+        supplier: { slug: 'asda' },
+        allergens: { contains: ['milk'], mayContain: [] },
+      }
+
+      await service.processor(importer, data, undefined)
+      expect(await service.processor(importer, data, undefined)).toBe('ignored')
+
+      const result = await service.processor(
+        importer,
+        { ...data, allergens: { contains: ['milk'], mayContain: ['nuts'] } },
+        undefined
+      )
+      expect(result).toBe('upserted')
+    })
   })
 })
@@ -0,0 +1,306 @@
+import {
+  createDatabase,
+  jsonArrayFrom,
+  jsonObjectFrom,
+  migrate,
+} from '@menubook/sqlite'
+
+import type { DatabaseContext } from '../../datastore/context'
+import { Calculator } from '../../lib/calculation/calculator'
+import { ConfigService } from '../config'
+import { ExchangeRateService } from '../exchange-rate'
+import { IngredientService } from '../ingredient'
+import { PriceListService } from '../price-list'
+import { RecipeService } from '../recipe'
+import { SupplierService } from '../supplier'
+
+jest.mock('../config', () => {
+  return {
+    ConfigService: jest.fn().mockImplementation(() => ({
+      getVatRate: jest.fn().mockResolvedValue(0.2),
+      getCurrency: jest.fn().mockResolvedValue('GBP'),
+      getMarginTarget: jest.fn().mockResolvedValue(20),
+      getDefaultPriceIncludesVat: jest.fn().mockResolvedValue(true),
+    })),
+  }
+})
+
+describe('PriceListService', () => {
+  let context: DatabaseContext
+  let service: PriceListService
+  let ingredients: IngredientService
+  let recipes: RecipeService
+  let config: ConfigService
+
+  beforeEach(async () => {
+    const db = createDatabase(':memory:')
+    await migrate(db)
+
+    context = { db, helpers: { jsonArrayFrom, jsonObjectFrom } }
+
+    config = new ConfigService('')
+    const suppliers = new SupplierService(context)
+    ingredients = new IngredientService(context, suppliers)
+    recipes = new RecipeService(context, ingredients, config)
+    service = new PriceListService(context, ingredients, recipes, config)
+
+    await suppliers.upsert('brakes', { name: 'Brakes' })
+    await suppliers.upsert('bidfood', { name: 'Bidfood' })
+
+    await ingredients.upsert(
+      'flour',
+      {
+        slug: 'flour',
+        name: 'Plain Flour',
+        category: 'dry goods',
+        purchase: { unit: '16kg', cost: 1000, vat: false },
+        sku: '104520',
+        notes: 'Keep dry',
+      },
+      'brakes'
+    )
+    await ingredients.upsert(
+      'sugar',
+      {
+        slug: 'sugar',
+        name: 'Caster Sugar',
+        category: 'dry goods',
+        purchase: { unit: '1kg', cost: 200, vat: false },
+      },
+      'brakes'
+    )
+    await ingredients.upsert(
+      'butter',
+      {
+        slug: 'butter',
+        name: 'Butter',
+        category: 'dairy',
+        purchase: { unit: '250g', cost: 250, vat: false },
+      },
+      'bidfood'
+    )
+
+    const data = {
+      slug: 'shortbread',
+      name: 'Shortbread',
+      stage: 'active' as const,
+      class: 'menu_item' as const,
+      costing: { price: 300000, margin: 20, vat: false },
+      ingredients: [
+        { type: 'ingredient' as const, slug: 'flour', with: { unit: '100g' } },
+        { type: 'ingredient' as const, slug: 'sugar', with: { unit: '50g' } },
+      ],
+    }
+    const id = await recipes.upsert(data.slug, data)
+    await recipes.upsertIngredients(id!, data)
+  })
+
+  afterEach(async () => {
+    await context.db.destroy()
+  })
+
+  test('should match rows by SKU, then by name', async () => {
+    const preview = await service.preview('brakes', [
+      { line: 2, sku: '104520', name: 'Flour, Plain', cost: 1100 },
+      { line: 3, name: 'caster sugar', unit: '2kg', cost: 380 },
+    ])
+
+    expect(preview.changes).toEqual([
+      {
+        slug: 'flour',
+        name: 'Plain Flour',
+        sku: '104520',
+        matchedBy: 'sku',
+        line: 2,
+        before: { unit: '16kg', cost: 1000 },
+        after: { unit: '16kg', cost: 1100 },
+        percent: 10,
+      },
+      expect.objectContaining({
+        slug: 'sugar',
+        matchedBy: 'name',
+        after: { unit: '2kg', cost: 380 },
+        percent: null,
+      }),
+    ])
+  })
+
+  test("should only match the supplier's own ingredients", async () => {
+    const preview = await service.preview('brakes', [
+      { line: 2, name: 'Butter', cost: 300 },
+      { line: 3, name: 'Plain Flour', cost: 1000 },
+    ])
+
+    expect(preview.changes).toEqual([])
+    expect(preview.unchanged).toEqual(['flour'])
+    expect(preview.unmatched).toEqual([{ line: 2, name: 'Butter', cost: 300 }])
+    expect(preview.impact.recipes).toEqual([])
+  })
+
+  test('should show the margin impact without saving', async () => {
+    const preview = await service.preview('brakes', [
+      { line: 2, sku: '104520', cost: 2000 },
+    ])
+
+    expect(preview.impact.recipes).toEqual([
+      expect.objectContaining({ slug: 'shortbread' }),
+    ])
+    const [shortbread] = preview.impact.recipes
+    expect(shortbread.after.cost).toBeGreaterThan(shortbread.before.cost)
+
+    const flour = await ingredients.findById('flour')
+    expect(flour.purchaseCost).toBe(1000)
+  })
+
+  test('should save changes into the price history', async () => {
+    await service.apply(
+      'brakes',
+      [
+        { line: 2, sku: '104520', cost: 1100 },
+        { line: 3, sku: 'CS-1', name: 'Caster Sugar', cost: 210 },
+      ],
+      'ui'
+    )
+
+    const flour = await ingredients.findById('flour')
+    expect(flour).toMatchObject({
+      purchaseUnit: '16kg',
+      purchaseCost: 1100,
+      notes: 'Keep dry',
+    })
+
+    // The SKU is learnt from a row matched by name
+    const sugar = await ingredients.findById('sugar')
+    expect(sugar).toMatchObject({ purchaseCost: 210, sku: 'CS-1' })
+
+    const [latest] = await ingredients.priceHistory('flour')
+    expect(latest).toMatchObject({ purchaseCost: 1100, source: 'ui' })
+  })
+
+  test('should save list prices as ex-VAT', async () => {
+    await ingredients.upsert(
+      'milk',
+      {
+        slug: 'milk',
+        name: 'Whole Milk',
+        category: 'dairy',
+        purchase: { unit: '1l', cost: 120, vat: true },
+      },
+      'brakes'
+    )
+
+    const data = {
+      slug: 'milk-shortbread',
+      name: 'Milk Shortbread',
+      stage: 'active' as const,
+      class: 'menu_item' as const,
+      costing: { price: 300000, margin: 20, vat: false },
+      ingredients: [
+        { type: 'ingredient' as const, slug: 'milk', with: { unit: '1l' } },
+      ],
+    }
+    const id = await recipes.upsert(data.slug, data)
+    await recipes.upsertIngredients(id!, data)
+
+    const preview = await service.apply('brakes', [
+      { line: 2, name: 'Whole Milk', cost: 110 },
+    ])
+
+    const milk = await ingredients.findById('milk')
+    expect(milk).toMatchObject({ purchaseCost: 110, includesVat: 0 })
+
+    const [latest] = await ingredients.priceHistory('milk')
+    expect(latest).toMatchObject({ purchaseCost: 110, includesVat: 0 })
+
+    // 110p ex-VAT is what the litre costs, VAT isn't taken off again
+    const { totalCost } = await new Calculator(
+      recipes,
+      ingredients,
+      config
+    ).cost('milk-shortbread')
+    expect(totalCost).toBeCloseTo(110)
+
+    const impact = preview.impact.recipes.find(
+      (recipe) => recipe.slug === 'milk-shortbread'
+    )
+    expect(impact?.before.cost).toBeCloseTo(100)
+    expect(impact?.after.cost).toBeCloseTo(110)
+  })
+
+  test("should keep a foreign ingredient's currency", async () => {
+    await new ExchangeRateService(context).set({
+      currency: 'EUR',
+      rate: 0.9,
+      effectiveFrom: '2026-01-01',
+    })
+    await ingredients.upsert(
+      'vanilla',
+      {
+        slug: 'vanilla',
+        name: 'Vanilla Extract',
+        category: 'baking',
+        purchase: { unit: '100ml', cost: 1000, vat: false, currency: 'EUR' },
+      },
+      'brakes'
+    )
+
+    const data = {
+      slug: 'vanilla-shortbread',
+      name: 'Vanilla Shortbread',
+      stage: 'active' as const,
+      class: 'menu_item' as const,
+      costing: { price: 300000, margin: 20, vat: false },
+      ingredients: [
+        {
+          type: 'ingredient' as const,
+          slug: 'vanilla',
+          with: { unit: '10ml' },
+        },
+      ],
+    }
+    const id = await recipes.upsert(data.slug, data)
+    await recipes.upsertIngredients(id!, data)
+
+    const preview = await service.apply('brakes', [
+      { line: 2, name: 'Vanilla Extract', cost: 2000 },
+    ])
+
+    const vanilla = await ingredients.findById('vanilla')
+    expect(vanilla).toMatchObject({
+      purchaseCost: 2000,
+      purchaseCurrency: 'EUR',
+    })
+
+    const [latest] = await ingredients.priceHistory('vanilla')
+    expect(latest).toMatchObject({
+      purchaseCost: 2000,
+      purchaseCurrency: 'EUR',
+    })
+
+    // €20.00 per 100ml at 0.9, so 10ml costs 180p
+    const { totalCost } = await new Calculator(
+      recipes,
+      ingredients,
+      config
+    ).cost('vanilla-shortbread')
+    expect(totalCost).toBeCloseTo(180)
+
+    const [impact] = preview.impact.recipes
+    expect(impact.after.cost).toBeCloseTo(totalCost)
+  })
+
+  test('should reject two rows for the same ingredient', async () => {
+    await expect(
+      service.preview('brakes', [
+        { line: 2, sku: '104520', cost: 1100 },
+        { line: 5, name: 'Plain Flour', cost: 1200 },
+      ])
+    ).rejects.toThrow("Price list lines 2 and 5 both match 'flour'")
+  })
+
+  test('should throw for an unknown supplier', async () => {
+    await expect(service.preview('missing', [])).rejects.toThrow(
+      "Supplier with slug 'missing' not found"
+    )
+  })
+})
@@ -10,7 +10,13 @@ import { Importer } from '../../lib/importer'
 import { RecipeResolvedImportData } from '../../schema'
 import { ConfigService } from '../config'
 import { IngredientService } from '../ingredient'
-import { RecipeService } from '../recipe'
+import {
+  costLinesData,
+  labourData,
+  methodData,
+  priceBandsData,
+  RecipeService,
+} from '../recipe'
 import { SupplierService } from '../supplier'
 
 // Mock ConfigService
@@ -18,6 +24,7 @@ jest.mock('../config', () => {
   return {
     ConfigService: jest.fn().mockImplementation(() => ({
       getVatRate: jest.fn().mockResolvedValue(0.2),
+      getCurrency: jest.fn().mockResolvedValue('GBP'),
       getMarginTarget: jest.fn().mockResolvedValue(20),
       getDefaultPriceIncludesVat: jest.fn().mockResolvedValue(true),
     })),
@@ -63,7 +70,7 @@ describe('RecipeService', () => {
         name: 'Ham',
         category: 'meat',
         purchaseUnit: '1kg',
-        purchaseCost: 5.99,
+        purchaseCost: 599,
         includesVat: 0,
         supplierId,
       })
@@ -78,7 +85,7 @@ describe('RecipeService', () => {
         name: 'Cheese',
         category: 'dairy',
         purchaseUnit: '200g',
-        purchaseCost: 2.5,
+        purchaseCost: 250,
         includesVat: 0,
         supplierId,
       })
@@ -574,6 +581,153 @@ describe('RecipeService', () => {
       expect(recipe?.yieldUnit).toBe('ml')
     })
 
+    test('should store labour minutes and role', async () => {
+      const data: RecipeResolvedImportData = {
+        slug: 'focaccia',
+        name: 'Focaccia',
+        stage: 'active',
+        class: 'sub_recipe',
+        costing: {
+          price: 0,
+        },
+        labour: { prepMinutes: 20, cookMinutes: 25, role: 'chef' },
+        ingredients: [],
+      }
+
+      await service.upsert('focaccia', data)
+
+      const recipe = await service.findById('focaccia', false)
+
+      expect(recipe?.prepMinutes).toBe(20)
+      expect(recipe?.cookMinutes).toBe(25)
+      expect(recipe?.labourRole).toBe('chef')
+      expect(labourData(recipe!)).toEqual(data.labour)
+    })
+
+    test('should store the method, equipment, plating and photos', async () => {
+      const data: RecipeResolvedImportData = {
+        slug: 'focaccia',
+        name: 'Focaccia',
+        stage: 'active',
+        class: 'sub_recipe',
+        costing: {
+          price: 0,
+        },
+        method: {
+          steps: [
+            { step: 'Mix the dough' },
+            { step: 'Prove until doubled', holdMinutes: 60 },
+            { step: 'Bake at 220C' },
+          ],
+          equipment: ['Stand mixer', '30x40cm tray'],
+          plating: 'Cut into eight',
+          photos: [{ path: 'photos/focaccia/tray.jpg', caption: 'Baked' }],
+        },
+        ingredients: [],
+      }
+
+      await service.upsert('focaccia', data)
+
+      const recipe = await service.findById('focaccia', false)
+
+      expect(recipe?.platingNotes).toBe('Cut into eight')
+      expect(methodData(recipe!)).toEqual(data.method)
+    })
+
+    test('should leave out an empty method', async () => {
+      await service.upsert('focaccia', {
+        slug: 'focaccia',
+        name: 'Focaccia',
+        stage: 'active',
+        class: 'sub_recipe',
+        costing: { price: 0 },
+        method: { steps: [], equipment: [], photos: [] },
+        ingredients: [],
+      })
+
+      const recipe = await service.findById('focaccia', false)
+
+      expect(recipe?.methodSteps).toBeNull()
+      expect(methodData(recipe!)).toBeUndefined()
+    })
+
+    test('should store cost lines apart from the ingredients', async () => {
+      const data: RecipeResolvedImportData = {
+        slug: 'ham-sandwich',
+        name: 'Ham Sandwich',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 400 },
+        ingredients: [
+          { type: 'ingredient', slug: 'ham', with: { unit: '25g' } },
+        ],
+        costs: [
+          { type: 'packaging', slug: 'cheese', with: { unit: '1 box' } },
+          { type: 'fixed', name: 'Napkin', pence: 2 },
+          { type: 'percent', name: 'Platform fee', percent: 12.5 },
+        ],
+      }
+
+      const recipeId = await service.upsert('ham-sandwich', data)
+      await service.upsertIngredients(recipeId!, data)
+
+      const recipe = await service.findById('ham-sandwich')
+
+      expect(recipe?.ingredients.map((line) => line.slug)).toEqual(['ham'])
+      expect(recipe?.costs).toEqual([
+        expect.objectContaining({ type: 'packaging', slug: 'cheese' }),
+        expect.objectContaining({ type: 'fixed', name: 'Napkin', amount: 2 }),
+        expect.objectContaining({ type: 'percent', amount: 12.5 }),
+      ])
+      expect(costLinesData(recipe!)).toEqual(data.costs)
+
+      const [revision] = await service.revisions('ham-sandwich')
+      expect(revision.ingredients).toHaveLength(1)
+      expect(revision.data.costs).toEqual(data.costs)
+    })
+
+    test('should store price bands and replace them on save', async () => {
+      const data: RecipeResolvedImportData = {
+        slug: 'ham-sandwich',
+        name: 'Ham Sandwich',
+        stage: 'active',
+        class: 'menu_item',
+        costing: {
+          price: 400,
+          vat: true,
+          bands: [
+            { name: 'takeaway', price: 350, vat: false },
+            { name: 'delivery', price: 500, vat: 0.2, commission: 25 },
+          ],
+        },
+        ingredients: [],
+      }
+
+      const recipeId = await service.upsert('ham-sandwich', data)
+      await service.upsertIngredients(recipeId!, data)
+
+      const recipe = await service.findById('ham-sandwich')
+      expect(recipe?.bands).toEqual([
+        expect.objectContaining({ name: 'takeaway', includesVat: 0 }),
+        expect.objectContaining({
+          name: 'delivery',
+          includesVat: 1,
+          vatRate: 0.2,
+          commission: 25,
+        }),
+      ])
+      expect(priceBandsData(recipe!)).toEqual(data.costing?.bands)
+
+      const [revision] = await service.revisions('ham-sandwich')
+      expect(revision.data.bands).toEqual(data.costing?.bands)
+
+      await service.upsert('ham-sandwich', {
+        ...data,
+        costing: { price: 400 },
+      })
+      expect((await service.findById('ham-sandwich'))?.bands).toEqual([])
+    })
+
     test('should throw error when no price and no parent', async () => {
       const data: RecipeResolvedImportData = {
         slug: 'ham-sandwich',
@@ -749,6 +903,185 @@ describe('RecipeService', () => {
     })
   })
 
+  describe('inheritance', () => {
+    const save = async (data: RecipeResolvedImportData) => {
+      const id = await service.upsert(data.slug, data)
+      await service.upsertIngredients(id!, data)
+    }
+
+    const recipe = (
+      slug: string,
+      data: Partial<RecipeResolvedImportData> = {}
+    ): RecipeResolvedImportData => ({
+      slug,
+      name: slug,
+      stage: 'active',
+      class: 'menu_item',
+      ingredients: [],
+      ...data,
+    })
+
+    beforeEach(async () => {
+      await save(
+        recipe('pizza-base', {
+          class: 'base_template',
+          costing: { price: 900 },
+          ingredients: [
+            { type: 'ingredient', slug: 'ham', with: { unit: '50g' } },
+            { type: 'ingredient', slug: 'cheese', with: { unit: '80g' } },
+          ],
+        })
+      )
+    })
+
+    test('should resolve lines through every ancestor', async () => {
+      await save(
+        recipe('pizza-bianca', {
+          parentSlug: 'pizza-base',
+          remove: ['ham'],
+        })
+      )
+      await save(
+        recipe('pizza-bianca-extra', {
+          parentSlug: 'pizza-bianca',
+          override: [
+            { type: 'ingredient', slug: 'cheese', with: { unit: '120g' } },
+          ],
+          ingredients: [
+            { type: 'ingredient', slug: 'ham', with: { unit: '10g' } },
+          ],
+        })
+      )
+
+      const result = await service.findById('pizza-bianca-extra')
+
+      expect(result?.sellPrice).toBe(900)
+      expect(result?.ingredients).toEqual([
+        expect.objectContaining({
+          slug: 'cheese',
+          unit: '120g',
+          source: 'pizza-bianca-extra',
+          overrides: 'pizza-base',
+        }),
+        expect.objectContaining({
+          slug: 'ham',
+          unit: '10g',
+          source: 'pizza-bianca-extra',
+          overrides: null,
+        }),
+      ])
+    })
+
+    test('should keep inherited lines in place when overridden', async () => {
+      await save(
+        recipe('pizza-double-ham', {
+          parentSlug: 'pizza-base',
+          override: [
+            { type: 'ingredient', slug: 'ham', with: { unit: '100g' } },
+          ],
+        })
+      )
+
+      const result = await service.findById('pizza-double-ham')
+
+      expect(result?.ingredients.map((line) => line.unit)).toEqual([
+        '100g',
+        '80g',
+      ])
+    })
+
+    test('should still add a second line for an inherited ingredient', async () => {
+      await save(
+        recipe('pizza-extra-cheese', {
+          parentSlug: 'pizza-base',
+          ingredients: [
+            { type: 'ingredient', slug: 'cheese', with: { unit: '20g' } },
+          ],
+        })
+      )
+
+      const result = await service.findById('pizza-extra-cheese')
+
+      expect(result?.ingredients.map((line) => line.unit)).toEqual([
+        '50g',
+        '80g',
+        '20g',
+      ])
+    })
+
+    test('should describe the effective recipe', async () => {
+      await save(
+        recipe('pizza-cheese', {
+          parentSlug: 'pizza-base',
+          remove: ['ham'],
+        })
+      )
+
+      const effective = await service.effective('pizza-cheese')
+
+      expect(effective.lineage).toEqual(['pizza-base', 'pizza-cheese'])
+      expect(effective.ingredients).toEqual([
+        expect.objectContaining({ slug: 'cheese', source: 'pizza-base' }),
+      ])
+      expect(effective.removed).toEqual([
+        {
+          slug: 'ham',
+          name: 'Ham',
+          type: 'ingredient',
+          source: 'pizza-base',
+          removedBy: 'pizza-cheese',
+        },
+      ])
+    })
+
+    test('should throw for an unknown recipe', async () => {
+      await expect(service.effective('missing')).rejects.toThrow(
+        "Recipe with slug 'missing' not found"
+      )
+    })
+
+    test('should reject removing a line that is not inherited', async () => {
+      await expect(
+        save(
+          recipe('pizza-plain', {
+            parentSlug: 'pizza-base',
+            remove: ['tomato'],
+          })
+        )
+      ).rejects.toThrow(
+        "Cannot remove 'tomato' in recipe 'pizza-plain', it is not inherited from 'pizza-base'"
+      )
+    })
+
+    test('should reject directives without a parent', async () => {
+      await expect(
+        save(
+          recipe('pizza-orphan', {
+            costing: { price: 900 },
+            remove: ['ham'],
+          })
+        )
+      ).rejects.toThrow(
+        'can only remove or override the ingredients it inherits'
+      )
+    })
+
+    test('should restore directives on rollback', async () => {
+      await save(
+        recipe('pizza-cheese', {
+          parentSlug: 'pizza-base',
+          remove: ['ham'],
+        })
+      )
+      await save(recipe('pizza-cheese', { parentSlug: 'pizza-base' }))
+
+      await service.rollback('pizza-cheese', 1)
+      const result = await service.findById('pizza-cheese')
+
+      expect(result?.ingredients.map((line) => line.slug)).toEqual(['cheese'])
+    })
+  })
+
   describe('delete', () => {
     test('should return false when deleting non-existent recipe', async () => {
       const deleted = await service.delete('ham-sandwich')
@@ -804,6 +1137,181 @@ describe('RecipeService', () => {
     })
   })
 
+  describe('revisions', () => {
+    const sandwich = (
+      unit: string,
+      price: number = 400
+    ): RecipeResolvedImportData => ({
+      slug: 'ham-sandwich',
+      name: 'Ham Sandwich',
+      stage: 'active',
+      class: 'menu_item',
+      costing: { price, margin: 65, vat: true },
+      ingredients: [
+        { type: 'ingredient', slug: 'ham', with: { unit } },
+        { type: 'ingredient', slug: 'cheese', with: { unit: '15g' } },
+      ],
+    })
+
+    const save = async (data: RecipeResolvedImportData) => {
+      const recipeId = await service.upsert(data.slug, data)
+      await service.upsertIngredients(recipeId!, data)
+    }
+
+    test('should record a revision on every save', async () => {
+      await save(sandwich('25g'))
+      await save(sandwich('30g', 450))
+
+      const revisions = await service.revisions('ham-sandwich')
+
+      expect(revisions.map((rev) => rev.revision)).toEqual([2, 1])
+      expect(revisions[0].data).toMatchObject({
+        name: 'Ham Sandwich',
+        sellPrice: 450,
+        includesVat: 1,
+        parent: null,
+      })
+      expect(revisions[0].ingredients).toEqual([
+        {
+          slug: 'ham',
+          type: 'ingredient',
+          unit: '30g',
+          notes: null,
+          wastePercent: null,
+          directive: 'add',
+        },
+        {
+          slug: 'cheese',
+          type: 'ingredient',
+          unit: '15g',
+          notes: null,
+          wastePercent: null,
+          directive: 'add',
+        },
+      ])
+      expect(revisions[0].totalCost).toBeGreaterThan(revisions[1].totalCost!)
+    })
+
+    test('should diff two revisions', async () => {
+      await save(sandwich('25g'))
+      await save({
+        ...sandwich('30g', 450),
+        ingredients: [
+          { type: 'ingredient', slug: 'ham', with: { unit: '30g' } },
+        ],
+      })
+
+      const diff = await service.diffRevisions('ham-sandwich', 1, 2)
+
+      expect(diff.fields).toEqual([{ field: 'sellPrice', from: 400, to: 450 }])
+      expect(diff.ingredients.added).toEqual([])
+      expect(diff.ingredients.removed).toEqual([
+        expect.objectContaining({ slug: 'cheese' }),
+      ])
+      expect(diff.ingredients.changed).toEqual([
+        expect.objectContaining({
+          slug: 'ham',
+          from: expect.objectContaining({ unit: '25g' }),
+          to: expect.objectContaining({ unit: '30g' }),
+        }),
+      ])
+    })
+
+    test('should roll back by recording a new revision', async () => {
+      await save(sandwich('25g'))
+      await save(sandwich('30g', 450))
+
+      const restored = await service.rollback('ham-sandwich', 1)
+      const recipe = await service.findById('ham-sandwich')
+
+      expect(restored.revision).toBe(3)
+      expect(recipe?.sellPrice).toBe(400)
+      expect(recipe?.ingredients).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ slug: 'ham', unit: '25g' }),
+        ])
+      )
+    })
+
+    test('should refuse to roll back when an ingredient no longer exists', async () => {
+      await save(sandwich('25g'))
+      await save({ ...sandwich('25g'), ingredients: [] })
+      await ingredientService.delete('cheese')
+
+      await expect(service.rollback('ham-sandwich', 1)).rejects.toThrow(
+        "ingredient 'cheese' no longer exists"
+      )
+    })
+
+    test('should throw for a missing revision', async () => {
+      await save(sandwich('25g'))
+
+      await expect(service.findRevision('ham-sandwich', 9)).rejects.toThrow()
+    })
+
+    test('should record a revision when only the sell price changes', async () => {
+      await save(sandwich('25g'))
+      await service.updateSellPrice('ham-sandwich', 495)
+
+      const recipe = await service.findById('ham-sandwich')
+      const diff = await service.diffRevisions('ham-sandwich', 1, 2)
+
+      expect(recipe?.sellPrice).toBe(495)
+      expect(diff.fields).toEqual([{ field: 'sellPrice', from: 400, to: 495 }])
+      expect(diff.ingredients.changed).toEqual([])
+    })
+
+    test('should record a revision when only the method changes', async () => {
+      await save(sandwich('25g'))
+      const method = { steps: [{ step: 'Butter the bread' }] }
+      await service.updateMethod('ham-sandwich', method)
+
+      const diff = await service.diffRevisions('ham-sandwich', 1, 2)
+
+      expect(diff.fields).toEqual([{ field: 'method', from: null, to: method }])
+
+      await service.rollback('ham-sandwich', 1)
+      const recipe = await service.findById('ham-sandwich')
+      expect(methodData(recipe!)).toBeUndefined()
+    })
+
+    test('should record where each change was made', async () => {
+      await save(sandwich('25g'))
+      await service.updateSellPrice('ham-sandwich', 495, 'cli')
+      await service.updateMethod('ham-sandwich', undefined, 'ui')
+      await service.rollback('ham-sandwich', 1, 'api')
+
+      const revisions = await service.revisions('ham-sandwich')
+
+      expect(revisions.map((rev) => rev.source)).toEqual([
+        'api',
+        'ui',
+        'cli',
+        'import',
+      ])
+    })
+
+    test('should record who made each change', async () => {
+      await save(sandwich('25g'))
+      await service.updateSellPrice('ham-sandwich', 495, 'cli')
+      await service.updateMethod('ham-sandwich', undefined, 'ui', 'user-1')
+      await service.rollback('ham-sandwich', 1, 'api', 'user-2')
+
+      const revisions = await service.revisions('ham-sandwich')
+
+      expect(revisions.map((rev) => rev.author)).toEqual([
+        'user-2',
+        'user-1',
+        null,
+        null,
+      ])
+    })
+
+    test('should throw when updating the price of a missing recipe', async () => {
+      await expect(service.updateSellPrice('missing', 495)).rejects.toThrow()
+    })
+  })
+
   describe('processor', () => {
     let importer: Importer
 
@@ -900,6 +1408,29 @@ describe('RecipeService', () => {
       expect(result).toBe('ignored')
     })
 
+    test('should only re-import when the method changes', async () => {
+      const data: RecipeResolvedImportData = {
+        slug: 'ham-sandwich',
+        name: 'Ham Sandwich',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 400, margin: 65, vat: false },
+        method: { steps: [{ holdMinutes: 5, step: 'Toast the bread' }] },
+        ingredients: [],
+      }
+
+      await service.processor(importer, data, undefined)
+
+      expect(await service.processor(importer, data, undefined)).toBe('ignored')
+      expect(
+        await service.processor(
+          importer,
+          { ...data, method: { ...data.method, plating: 'Cut in half' } },
+          undefined
+        )
+      ).toBe('upserted')
+    })
+
     test('should throw error when parent recipe does not exist', async () => {
       const data: RecipeResolvedImportData = {
         slug: 'margherita',
@@ -916,6 +1447,26 @@ describe('RecipeService', () => {
       ).rejects.toThrow(/missing parent 'non-existent'/)
     })
 
+    test('should not keep a recipe whose lines fail to save', async () => {
+      const data: RecipeResolvedImportData = {
+        slug: 'ham-sandwich',
+        name: 'Ham Sandwich',
+        stage: 'active',
+        class: 'menu_item',
+        costing: { price: 400 },
+        ingredients: [],
+        remove: ['ham'],
+      }
+
+      await expect(
+        service.processor(importer, data, undefined)
+      ).rejects.toThrow(
+        'can only remove or override the ingredients it inherits'
+      )
+
+      expect(await service.exists('ham-sandwich')).toBe(false)
+    })
+
     test('should throw error when changing parent on existing recipe', async () => {
       const parent1 = await context.db
         .insertInto('Recipe')
@@ -0,0 +1,331 @@
+import {
+  createDatabase,
+  jsonArrayFrom,
+  jsonObjectFrom,
+  migrate,
+} from '@menubook/sqlite'
+
+import type { DatabaseContext } from '../../datastore/context'
+import { Importer } from '../../lib/importer'
+import type { SalesResolvedImportData } from '../../schema'
+import { ConfigService } from '../config'
+import { DashboardService } from '../dashboard'
+import { IngredientService } from '../ingredient'
+import { RecipeService } from '../recipe'
+import { SalesService } from '../sales'
+import { SupplierService } from '../supplier'
+
+// Mock the slugify utility to avoid ESM import issues in tests
+jest.mock('../../utils/slugify', () => ({
+  slugify: jest.fn((input: string) =>
+    Promise.resolve(input.toLowerCase().trim().replace(/\s+/g, '-'))
+  ),
+}))
+
+jest.mock('../config', () => {
+  return {
+    ConfigService: jest.fn().mockImplementation(() => ({
+      getVatRate: jest.fn().mockResolvedValue(0.2),
+      getCurrency: jest.fn().mockResolvedValue('GBP'),
+      getMarginTarget: jest.fn().mockResolvedValue(20),
+      getDefaultPriceIncludesVat: jest.fn().mockResolvedValue(true),
+    })),
+  }
+})
+
+describe('SalesService', () => {
+  let context: DatabaseContext
+  let service: SalesService
+  let recipes: RecipeService
+  let ingredients: IngredientService
+
+  const menuItem = async (
+    slug: string,
+    price: number,
+    unit: string,
+    stage: 'development' | 'active' | 'discontinued' = 'active'
+  ) => {
+    const data = {
+      slug,
+      name: slug,
+      stage,
+      class: 'menu_item' as const,
+      costing: { price, vat: false },
+      ingredients: [
+        { type: 'ingredient' as const, slug: 'beef', with: { unit } },
+      ],
+    }
+    const id = await recipes.upsert(slug, data)
+    await recipes.upsertIngredients(id!, data)
+  }
+
+  beforeEach(async () => {
+    const db = createDatabase(':memory:')
+    await migrate(db)
+
+    context = { db, helpers: { jsonArrayFrom, jsonObjectFrom } }
+
+    const config = new ConfigService('')
+    service = new SalesService(context)
+    ingredients = new IngredientService(context, new SupplierService(context))
+    recipes = new RecipeService(context, ingredients, config)
+
+    await db
+      .insertInto('Supplier')
+      .values({ slug: 'generic', name: 'Generic' })
+      .execute()
+
+    // £10/kg, so 1p per gram
+    await ingredients.upsert('beef', {
+      slug: 'beef',
+      name: 'Beef',
+      category: 'meat',
+      purchase: { unit: '1kg', cost: 1000, vat: false },
+    })
+
+    await menuItem('steak', 2000, '300g')
+    await menuItem('burger', 1000, '150g')
+  })
+
+  afterEach(async () => {
+    await context.db.destroy()
+  })
+
+  describe('record', () => {
+    test('should store the period as days', async () => {
+      const sale = await service.record('steak', {
+        quantity: 12,
+        periodStart: new Date('2026-03-02T18:30:00Z'),
+        periodEnd: '2026-03-08',
+      })
+
+      expect(sale).toMatchObject({
+        quantity: 12,
+        periodStart: '2026-03-02',
+        periodEnd: '2026-03-08',
+        source: 'ui',
+      })
+    })
+
+    test('should reject a period that ends before it starts', async () => {
+      await expect(
+        service.record('steak', {
+          quantity: 1,
+          periodStart: '2026-03-08',
+          periodEnd: '2026-03-02',
+        })
+      ).rejects.toThrow('ends (2026-03-02) before it starts (2026-03-08)')
+    })
+
+    test('should reject part portions', async () => {
+      await expect(
+        service.record('steak', {
+          quantity: 1.5,
+          periodStart: '2026-03-02',
+          periodEnd: '2026-03-08',
+        })
+      ).rejects.toThrow("Invalid quantity '1.5'")
+    })
+
+    test('should throw for an unknown recipe', async () => {
+      await expect(
+        service.record('missing', {
+          quantity: 1,
+          periodStart: '2026-03-02',
+          periodEnd: '2026-03-08',
+        })
+      ).rejects.toThrow('slug=missing')
+    })
+  })
+
+  describe('volumes', () => {
+    beforeEach(async () => {
+      await service.record('steak', {
+        quantity: 10,
+        periodStart: '2026-03-02',
+        periodEnd: '2026-03-08',
+      })
+      await service.record('steak', {
+        quantity: 5,
+        periodStart: '2026-03-09',
+        periodEnd: '2026-03-15',
+        source: 'import',
+      })
+      await service.record('burger', {
+        quantity: 40,
+        periodStart: '2026-03-09',
+        periodEnd: '2026-03-15',
+      })
+    })
+
+    test('should total sales per recipe', async () => {
+      const volumes = await service.volumes()
+
+      expect(Object.fromEntries(volumes)).toEqual({ steak: 15, burger: 40 })
+    })
+
+    test('should only count entries within the period', async () => {
+      const volumes = await service.volumes({ from: '2026-03-09' })
+      expect(Object.fromEntries(volumes)).toEqual({ steak: 5, burger: 40 })
+
+      const entries = await service.find({ to: '2026-03-08' })
+      expect(entries).toEqual([
+        expect.objectContaining({ slug: 'steak', quantity: 10 }),
+      ])
+    })
+
+    test('should feed the menu engineering matrix', async () => {
+      const dashboard = new DashboardService(
+        context,
+        recipes,
+        ingredients,
+        new ConfigService('')
+      )
+
+      const report = await dashboard.getMenuEngineering({
+        from: '2026-03-01',
+        to: '2026-03-31',
+      })
+
+      expect(report.period).toEqual({ from: '2026-03-01', to: '2026-03-31' })
+      expect(report.items).toEqual([
+        expect.objectContaining({
+          slug: 'burger',
+          sold: 40,
+          contribution: 850,
+          classification: 'plowhorse',
+        }),
+        expect.objectContaining({
+          slug: 'steak',
+          sold: 15,
+          contribution: 1700,
+          classification: 'puzzle',
+        }),
+      ])
+    })
+
+    test('should leave menu items that are not active off the matrix', async () => {
+      await menuItem('special', 1500, '200g', 'development')
+      await menuItem('old-burger', 900, '150g', 'discontinued')
+
+      const dashboard = new DashboardService(
+        context,
+        recipes,
+        ingredients,
+        new ConfigService('')
+      )
+
+      const report = await dashboard.getMenuEngineering({
+        from: '2026-03-01',
+        to: '2026-03-31',
+      })
+
+      expect(report.items.map((item) => item.slug)).toEqual(['burger', 'steak'])
+    })
+  })
+
+  describe('processor', () => {
+    const sales = (
+      rows: SalesResolvedImportData['rows']
+    ): SalesResolvedImportData => ({ slug: 'march', name: 'march', rows })
+
+    const process = (data: SalesResolvedImportData) =>
+      service.processor(new Importer(context), data, undefined)
+
+    test('should total rows per recipe and day', async () => {
+      const outcome = await process(
+        sales([
+          { date: '2026-03-02', item: 'Steak', quantity: 3, revenue: 6000 },
+          { date: '2026-03-02', item: 'Steak', quantity: 2, revenue: 4000 },
+          { date: '2026-03-03', item: 'Steak', quantity: 1 },
+        ])
+      )
+
+      expect(outcome).toBe('created')
+      expect(await service.find()).toEqual([
+        expect.objectContaining({
+          slug: 'steak',
+          periodStart: '2026-03-03',
+          quantity: 1,
+          revenue: null,
+          source: 'import',
+        }),
+        expect.objectContaining({
+          slug: 'steak',
+          periodStart: '2026-03-02',
+          periodEnd: '2026-03-02',
+          quantity: 5,
+          revenue: 10000,
+        }),
+      ])
+    })
+
+    test('should replace a previous import of the same day', async () => {
+      const rows = [{ date: '2026-03-02', item: 'Steak', quantity: 3 }]
+
+      await process(sales(rows))
+      expect(await process(sales(rows))).toBe('ignored')
+      expect(await process(sales([{ ...rows[0], quantity: 4 }]))).toBe(
+        'upserted'
+      )
+
+      expect(Object.fromEntries(await service.volumes())).toEqual({
+        steak: 4,
+      })
+    })
+
+    test('should keep unmapped items until they are resolved', async () => {
+      const data = sales([
+        { date: '2026-03-02', item: 'Steak', quantity: 3 },
+        { date: '2026-03-02', item: 'Cheeseburger', quantity: 8 },
+        { date: '2026-03-02', item: 'Pint of Lager', quantity: 20 },
+      ])
+
+      await process(data)
+      expect(await service.unmapped()).toEqual([
+        'Cheeseburger',
+        'Pint of Lager',
+      ])
+
+      await service.map('Cheeseburger', 'burger')
+      await service.ignore('Pint of Lager')
+      expect(await service.unmapped()).toEqual([])
+
+      await process(data)
+      expect(Object.fromEntries(await service.volumes())).toEqual({
+        steak: 3,
+        burger: 8,
+      })
+      expect(await service.mappings()).toEqual([
+        expect.objectContaining({ posItem: 'Cheeseburger', slug: 'burger' }),
+        expect.objectContaining({ posItem: 'Pint of Lager', ignored: 1 }),
+        expect.objectContaining({ posItem: 'Steak', slug: 'steak' }),
+      ])
+    })
+
+    test('should spread per-item totals over the import period', async () => {
+      const rows = [{ item: 'Steak', quantity: 30 }]
+
+      await expect(process(sales(rows))).rejects.toThrow(
+        "Sales for 'Steak' have no date"
+      )
+
+      await process({
+        ...sales(rows),
+        period: { from: '2026-03-01', to: '2026-03-31' },
+      })
+      expect(await service.find()).toEqual([
+        expect.objectContaining({
+          slug: 'steak',
+          periodStart: '2026-03-01',
+          periodEnd: '2026-03-31',
+          quantity: 30,
+        }),
+      ])
+    })
+
+    test('should not map to an unknown recipe', async () => {
+      await expect(service.map('Soup', 'soup')).rejects.toThrow('slug=soup')
+    })
+  })
+})
@@ -220,5 +220,31 @@ describe('SupplierService', () => {
       const result = await service.processor(importer, data, undefined)
       expect(result).toBe('upserted')
     })
+
+    test('should upsert when only the contact details change', async () => {
+      await context.db
+        .insertInto('Supplier')
+        .values({ slug: 'tesco', name: 'Tesco', contactName: 'Sam' })
+        .execute()
+
+      const data: SupplierResolvedImportData = {
+        slug: 'tesco',
+        name: 'Tesco',
+        contactName: 'Alex',
+        contactEmail: 'orders@tesco.example',
+        notes: 'Delivers Tuesdays',
+      }
+
+      const result = await service.processor(importer, data, undefined)
+      expect(result).toBe('upserted')
+
+      const supplier = await service.findById('tesco')
+      expect(supplier).toMatchObject({
+        contactName: 'Alex',
+        contactEmail: 'orders@tesco.example',
+        contactPhone: null,
+        notes: 'Delivers Tuesdays',
+      })
+    })
   })
 })
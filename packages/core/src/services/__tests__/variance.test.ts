@@ -0,0 +1,270 @@
+import {
+  createDatabase,
+  jsonArrayFrom,
+  jsonObjectFrom,
+  migrate,
+} from '@menubook/sqlite'
+
+import type { DatabaseContext } from '../../datastore/context'
+import type { RecipeResolvedImportData } from '../../schema'
+import { ConfigService } from '../config'
+import { IngredientService } from '../ingredient'
+import { RecipeService } from '../recipe'
+import { SalesService } from '../sales'
+import { SupplierService } from '../supplier'
+import { VarianceService } from '../variance'
+
+jest.mock('../config', () => {
+  return {
+    ConfigService: jest.fn().mockImplementation(() => ({
+      getVatRate: jest.fn().mockResolvedValue(0.2),
+      getCurrency: jest.fn().mockResolvedValue('GBP'),
+      getMarginTarget: jest.fn().mockResolvedValue(20),
+      getDefaultPriceIncludesVat: jest.fn().mockResolvedValue(true),
+    })),
+  }
+})
+
+describe('VarianceService', () => {
+  let context: DatabaseContext
+  let service: VarianceService
+  let sales: SalesService
+  let recipes: RecipeService
+
+  const period = { from: '2026-03-02', to: '2026-03-08' }
+
+  const save = async (data: RecipeResolvedImportData) => {
+    const id = await recipes.upsert(data.slug, data)
+    await recipes.upsertIngredients(id!, data)
+  }
+
+  beforeEach(async () => {
+    const db = createDatabase(':memory:')
+    await migrate(db)
+
+    context = { db, helpers: { jsonArrayFrom, jsonObjectFrom } }
+
+    const config = new ConfigService('')
+    const ingredients = new IngredientService(
+      context,
+      new SupplierService(context)
+    )
+    recipes = new RecipeService(context, ingredients, config)
+    sales = new SalesService(context)
+    service = new VarianceService(context, recipes, ingredients, config)
+
+    await db
+      .insertInto('Supplier')
+      .values({ slug: 'generic', name: 'Generic' })
+      .execute()
+
+    // £20/kg and £5/kg, so 2p and 0.5p per gram
+    await ingredients.upsert('salmon', {
+      slug: 'salmon',
+      name: 'Salmon',
+      category: 'fish',
+      purchase: {
+        unit: '1kg',
+        cost: 2000,
+        vat: false,
+        effectiveFrom: '2026-01-01T00:00:00.000Z',
+      },
+    })
+    await ingredients.upsert('lemon', {
+      slug: 'lemon',
+      name: 'Lemon',
+      category: 'fruit',
+      purchase: {
+        unit: '1kg',
+        cost: 500,
+        vat: false,
+        effectiveFrom: '2026-01-01T00:00:00.000Z',
+      },
+    })
+
+    // 100p a batch of 10, so 10p a portion
+    await save({
+      slug: 'lemon-sauce',
+      name: 'Lemon Sauce',
+      stage: 'active',
+      class: 'sub_recipe',
+      costing: { price: 0 },
+      yieldAmount: 10,
+      yieldUnit: 'portion',
+      ingredients: [
+        { type: 'ingredient', slug: 'lemon', with: { unit: '200g' } },
+      ],
+    })
+
+    // 300p of salmon and 10p of sauce
+    await save({
+      slug: 'salmon-plate',
+      name: 'Salmon Plate',
+      stage: 'active',
+      class: 'menu_item',
+      costing: { price: 1500, vat: false },
+      ingredients: [
+        { type: 'ingredient', slug: 'salmon', with: { unit: '150g' } },
+        { type: 'recipe', slug: 'lemon-sauce', with: { unit: '1 portion' } },
+      ],
+    })
+
+    await sales.record('salmon-plate', {
+      quantity: 10,
+      periodStart: period.from,
+      periodEnd: period.to,
+    })
+  })
+
+  afterEach(async () => {
+    await context.db.destroy()
+  })
+
+  describe('recordSpend', () => {
+    test('should replace figures entered for the same period', async () => {
+      await service.recordSpend('salmon', {
+        periodStart: period.from,
+        periodEnd: period.to,
+        purchases: 1000,
+      })
+      await service.recordSpend('salmon', {
+        periodStart: period.from,
+        periodEnd: period.to,
+        purchases: 4000,
+        closingStock: 500,
+      })
+
+      expect(await service.findSpend(period)).toEqual([
+        expect.objectContaining({
+          slug: 'salmon',
+          purchases: 4000,
+          openingStock: 0,
+          closingStock: 500,
+        }),
+      ])
+    })
+
+    test('should reject part pence', async () => {
+      await expect(
+        service.recordSpend('salmon', {
+          periodStart: period.from,
+          periodEnd: period.to,
+          purchases: 10.5,
+        })
+      ).rejects.toThrow("Invalid purchases '10.5'")
+    })
+  })
+
+  describe('report', () => {
+    test('should compare theoretical cost with actual spend', async () => {
+      await service.recordSpend('salmon', {
+        periodStart: period.from,
+        periodEnd: period.to,
+        purchases: 4000,
+        openingStock: 500,
+        closingStock: 1000,
+      })
+
+      const report = await service.report(period)
+
+      expect(report).toMatchObject({
+        period,
+        theoretical: 3100,
+        actual: 3500,
+        variance: 400,
+        sales: 15000,
+        recipes: [
+          {
+            slug: 'salmon-plate',
+            sold: 10,
+            unitCost: 310,
+            theoretical: 3100,
+            issues: [],
+          },
+        ],
+        skipped: [],
+      })
+      expect(report.theoreticalFoodCost).toBeCloseTo(20.67)
+      expect(report.actualFoodCost).toBeCloseTo(23.33)
+
+      // Sub-recipe ingredients take their share of the portion used
+      expect(report.ingredients).toEqual([
+        expect.objectContaining({
+          slug: 'salmon',
+          theoretical: 3000,
+          actual: 3500,
+          variance: 500,
+          recorded: true,
+        }),
+        expect.objectContaining({
+          slug: 'lemon',
+          theoretical: 100,
+          actual: 0,
+          variance: -100,
+          recorded: false,
+        }),
+      ])
+      expect(report.categories).toEqual([
+        expect.objectContaining({ category: 'fish', variance: 500 }),
+        expect.objectContaining({ category: 'fruit', variance: -100 }),
+      ])
+    })
+
+    test('should only count sales and spend within the period', async () => {
+      await service.recordSpend('salmon', {
+        periodStart: '2026-03-09',
+        periodEnd: '2026-03-15',
+        purchases: 4000,
+      })
+
+      const report = await service.report({
+        from: '2026-03-09',
+        to: '2026-03-15',
+      })
+
+      expect(report).toMatchObject({
+        theoretical: 0,
+        actual: 4000,
+        recipes: [],
+        theoreticalFoodCost: null,
+      })
+    })
+
+    test('should flag recipes with lines not priced in the period', async () => {
+      const before = { from: '2025-12-01', to: '2025-12-07' }
+      await sales.record('salmon-plate', {
+        quantity: 4,
+        periodStart: before.from,
+        periodEnd: before.to,
+      })
+
+      const report = await service.report(before)
+
+      // Neither ingredient had a price yet, so nothing is costed
+      expect(report.theoretical).toBe(0)
+      expect(report.recipes).toEqual([
+        expect.objectContaining({
+          slug: 'salmon-plate',
+          unitCost: 0,
+          issues: [
+            expect.objectContaining({
+              slug: 'salmon',
+              reason: 'unknown_price',
+            }),
+            expect.objectContaining({
+              slug: 'lemon',
+              recipe: 'lemon-sauce',
+              reason: 'unknown_price',
+            }),
+          ],
+        }),
+      ])
+    })
+
+    test('should need both ends of the period', async () => {
+      await expect(
+        service.report({ from: period.from, to: '' })
+      ).rejects.toThrow('A variance period needs both a start and an end')
+    })
+  })
+})
@@ -4,27 +4,45 @@ import path from 'path'
 import log from '@harrytwright/logger'
 import toml from 'toml'
 
+import { TaxRules, TaxSubject, readTaxRules, resolveTaxRate } from '../lib/tax'
+import type { MoneyFormat } from '../utils/money'
 import { tomlWriter } from '../utils/toml-writer'
 
 interface MarginConfig {
   vat?: number
   marginTarget?: number
   defaultPriceIncludesVat?: boolean
+  pricePoints?: number[]
+  priceStep?: number
+  wageRates?: Record<string, number>
+  currency?: string
+  locale?: string
 }
 
 const defaultConfig: Required<MarginConfig> = {
   vat: 0.2,
   marginTarget: 20,
   defaultPriceIncludesVat: true, // UK/EU default: prices include VAT
+  pricePoints: [], // Pence endings for suggested prices, e.g. [49, 95, 99]
+  priceStep: 5, // Used when no price points are set, rounds to the nearest 5p
+  wageRates: {}, // Pence per hour by role, e.g. { chef: 1400, kp: 1150 }
+  currency: 'GBP', // Base currency, everything is costed in its minor unit
+  locale: 'en-GB', // Used to format amounts
 }
 
 export class ConfigService {
   private cache: MarginConfig | null = null
 
+  // `null` once read when there is no tax rules file
+  private taxRules: TaxRules | null | undefined = undefined
+
   private readonly configPath: string
 
+  private readonly taxRulesPath: string
+
   constructor(workingDir: string) {
     this.configPath = path.join(workingDir, 'conf', 'margin.toml')
+    this.taxRulesPath = path.join(workingDir, 'conf', 'tax.toml')
   }
 
   async initialise(force: boolean, overrides: Partial<MarginConfig> = {}) {
@@ -91,7 +109,19 @@ export class ConfigService {
     return this.cache
   }
 
-  async getVatRate(): Promise<number> {
+  private async loadTaxRules(): Promise<TaxRules | null> {
+    if (this.taxRules === undefined) {
+      this.taxRules = await readTaxRules(this.taxRulesPath)
+    }
+
+    return this.taxRules
+  }
+
+  // Resolved from `conf/tax.toml` when it exists, otherwise the flat `vat` rate
+  async getVatRate(subject?: TaxSubject): Promise<number> {
+    const rules = await this.loadTaxRules()
+    if (rules) return resolveTaxRate(rules, subject)
+
     const config = await this.load()
     return config.vat ?? defaultConfig.vat // Default 20% (0.2)
   }
@@ -108,6 +138,34 @@ export class ConfigService {
     )
   }
 
+  async getPricePoints(): Promise<number[]> {
+    const config = await this.load()
+    return config.pricePoints ?? defaultConfig.pricePoints
+  }
+
+  async getPriceStep(): Promise<number> {
+    const config = await this.load()
+    return config.priceStep ?? defaultConfig.priceStep
+  }
+
+  async getWageRates(): Promise<Record<string, number>> {
+    const config = await this.load()
+    return config.wageRates ?? defaultConfig.wageRates
+  }
+
+  async getCurrency(): Promise<string> {
+    const config = await this.load()
+    return config.currency ?? defaultConfig.currency
+  }
+
+  async getMoneyFormat(): Promise<MoneyFormat> {
+    const config = await this.load()
+    return {
+      currency: config.currency ?? defaultConfig.currency,
+      locale: config.locale ?? defaultConfig.locale,
+    }
+  }
+
   // Get all config settings at once (useful for settings page)
   async getAll(): Promise<Required<MarginConfig>> {
     const config = await this.load()
@@ -116,6 +174,11 @@ export class ConfigService {
       marginTarget: config.marginTarget ?? defaultConfig.marginTarget,
       defaultPriceIncludesVat:
         config.defaultPriceIncludesVat ?? defaultConfig.defaultPriceIncludesVat,
+      pricePoints: config.pricePoints ?? defaultConfig.pricePoints,
+      priceStep: config.priceStep ?? defaultConfig.priceStep,
+      wageRates: config.wageRates ?? defaultConfig.wageRates,
+      currency: config.currency ?? defaultConfig.currency,
+      locale: config.locale ?? defaultConfig.locale,
     }
   }
 
@@ -135,5 +198,6 @@ export class ConfigService {
   // Force reload from disk (useful after config changes)
   invalidate(): void {
     this.cache = null
+    this.taxRules = undefined
   }
 }
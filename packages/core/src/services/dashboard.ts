@@ -1,9 +1,15 @@
 import type { CacheAdapter } from '../cache'
 import type { DatabaseContext } from '../datastore/context'
 import { Calculator } from '../lib/calculation/calculator'
+import {
+  classifyMenu,
+  type MenuEngineeringInput,
+  type MenuEngineeringResult,
+} from '../lib/calculation/engineering'
 import type { ConfigService } from './config'
 import type { IngredientService } from './ingredient'
 import type { RecipeService } from './recipe'
+import { SalesService, toSalesDay, type SalesPeriod } from './sales'
 
 export interface DashboardStats {
   totalRecipes: number
@@ -25,6 +31,12 @@ export interface DashboardStats {
   }[]
 }
 
+export interface MenuEngineeringReport extends MenuEngineeringResult {
+  period: { from: string | null; to: string | null }
+  /** Menu items left out because they could not be costed */
+  skipped: { slug: string; name: string; error: string }[]
+}
+
 /** Cache key for dashboard statistics */
 const CACHE_KEY = 'dashboard:stats'
 
@@ -173,6 +185,61 @@ export class DashboardService {
     }
   }
 
+  /**
+   * Place every active menu item on the menu engineering matrix, using the
+   * sales recorded within the period and each item's current contribution.
+   */
+  async getMenuEngineering(
+    period: SalesPeriod = {}
+  ): Promise<MenuEngineeringReport> {
+    const recipes = await this.database
+      .selectFrom('Recipe')
+      .select(['slug', 'name', 'category'])
+      .where('class', '=', 'menu_item')
+      // Items in development or retired aren't on the menu being engineered
+      .where('stage', '=', 'active')
+      .orderBy('name')
+      .execute()
+
+    const volumes = await new SalesService(this.context).volumes(period)
+    const calculator = new Calculator(
+      this.recipeService,
+      this.ingredientService,
+      this.configService
+    )
+
+    const items: MenuEngineeringInput[] = []
+    const skipped: MenuEngineeringReport['skipped'] = []
+
+    for (const recipe of recipes) {
+      try {
+        const margin = await calculator.margin(
+          await calculator.cost(recipe.slug)
+        )
+        items.push({
+          ...recipe,
+          sold: volumes.get(recipe.slug) ?? 0,
+          contribution: margin.profit,
+        })
+      } catch (error) {
+        skipped.push({
+          slug: recipe.slug,
+          name: recipe.name,
+          error: (error as Error).message,
+        })
+      }
+    }
+
+    return {
+      ...classifyMenu(items),
+      period: {
+        from: period.from ? toSalesDay(period.from) : null,
+        to: period.to ? toSalesDay(period.to) : null,
+      },
+      skipped,
+    }
+  }
+
   private getEmptyStats(): DashboardStats {
     return {
       totalRecipes: 0,
@@ -0,0 +1,114 @@
+import { BadRequest } from '@hndlr/errors'
+import type { DB, ExchangeRate } from '@menubook/types'
+import type { Selectable, Transaction } from 'kysely'
+
+import type { DatabaseContext } from '../datastore/context'
+import { toSalesDay } from './sales'
+
+export type DBExchangeRate = Selectable<ExchangeRate>
+
+export interface ExchangeRateEntry {
+  /** ISO 4217 code, e.g. "EUR" */
+  currency: string
+  /** Base currency units one unit of `currency` buys, e.g. 0.86 for EUR */
+  rate: number
+  /** Day the rate starts applying, defaults to today */
+  effectiveFrom?: string | Date
+}
+
+/**
+ * A local table of exchange rates into the workspace's base currency, kept
+ * by hand or imported from CSV. Rates are not fetched from anywhere, so
+ * costing stays repeatable.
+ */
+export class ExchangeRateService {
+  constructor(private context: DatabaseContext) {}
+
+  private get database() {
+    return this.context.db
+  }
+
+  /**
+   * Set the rate for a currency from a day, replacing any rate already set
+   * for the same day
+   */
+  async set(entry: ExchangeRateEntry, trx?: Transaction<DB>) {
+    const currency = entry.currency.toUpperCase()
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      throw new BadRequest(
+        `Invalid currency '${entry.currency}', expected an ISO 4217 code`
+      )
+    }
+
+    if (!Number.isFinite(entry.rate) || entry.rate <= 0) {
+      throw new BadRequest(
+        `Invalid rate '${entry.rate}', expected a number above zero`
+      )
+    }
+
+    const effectiveFrom = toSalesDay(entry.effectiveFrom ?? new Date())
+
+    return (trx ?? this.database)
+      .insertInto('ExchangeRate')
+      .values({ currency, rate: entry.rate, effectiveFrom })
+      .onConflict((oc) =>
+        oc
+          .columns(['currency', 'effectiveFrom'])
+          .doUpdateSet({ rate: entry.rate })
+      )
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Every rate, or every rate for one currency, newest first
+   */
+  find(currency?: string, trx?: Transaction<DB>): Promise<DBExchangeRate[]> {
+    return (trx ?? this.database)
+      .selectFrom('ExchangeRate')
+      .selectAll()
+      .$if(!!currency, (qb) =>
+        qb.where('currency', '=', currency!.toUpperCase())
+      )
+      .orderBy('currency')
+      .orderBy('effectiveFrom', 'desc')
+      .execute()
+  }
+
+  /**
+   * The rate in effect on a day. Returns `undefined` when none has been set
+   * on or before it.
+   */
+  async rateAt(
+    currency: string,
+    asOf: Date = new Date(),
+    trx?: Transaction<DB>
+  ): Promise<number | undefined> {
+    const row = await (trx ?? this.database)
+      .selectFrom('ExchangeRate')
+      .select('rate')
+      .where('currency', '=', currency.toUpperCase())
+      .where('effectiveFrom', '<=', toSalesDay(asOf))
+      .orderBy('effectiveFrom', 'desc')
+      .executeTakeFirst()
+
+    return row && Number(row.rate)
+  }
+
+  /**
+   * Set several rates at once, such as the rows of `parseExchangeRatesCSV`.
+   * Either all of them are saved or none are.
+   */
+  async setAll(entries: ExchangeRateEntry[], trx?: Transaction<DB>) {
+    const query = async (trx: Transaction<DB>) => {
+      const saved = []
+      for (const entry of entries) {
+        saved.push(await this.set(entry, trx))
+      }
+
+      return saved
+    }
+
+    return trx ? query(trx) : this.database.transaction().execute(query)
+  }
+}
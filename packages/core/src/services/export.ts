@@ -1,14 +1,58 @@
 import { stringify } from 'csv-stringify/sync'
+import type { Selectable } from 'kysely'
 import YAML from 'yaml'
 
+import type { Supplier } from '@menubook/types'
+
 import type { DatabaseContext } from '../datastore/context'
+import { parseAllergens } from '../lib/allergens'
 import { Calculator } from '../lib/calculation/calculator'
-import { IngredientService } from './ingredient'
-import { RecipeService } from './recipe'
+import {
+  NUTRIENTS,
+  NutritionCalculator,
+  parseNutrition,
+} from '../lib/calculation/nutrition'
+import type {
+  MarginResult,
+  RecipeCostNode,
+  RecipeResult,
+} from '../lib/calculation/types'
+import { PdfDocument, PdfRow } from '../lib/pdf'
+import { XlsxCell, XlsxValue, XlsxWorkbook } from '../lib/xlsx'
+import type {
+  IngredientImportData,
+  RecipeCostLine,
+  SupplierImportData,
+} from '../schema'
+import {
+  DEFAULT_MONEY_FORMAT,
+  formatMoney,
+  fromMinorUnits,
+  MoneyFormat,
+} from '../utils/money'
+import { DBIngredient, IngredientService } from './ingredient'
+import {
+  costLinesData,
+  EffectiveRecipe,
+  labourData,
+  methodData,
+  priceBandsData,
+  RecipeIngredientsLookup,
+  RecipeService,
+} from './recipe'
+import { toSalesDay } from './sales'
 import { SupplierService } from './supplier'
 
 export interface ExportOptions {
   includeDependencies?: boolean
+  /**
+   * Reference the other exported files by path rather than by slug, and date
+   * each ingredient's price, so the suppliers, ingredients and recipes import
+   * back as they are. Only the current price is written, not the price
+   * history, and revisions, sales, POS mappings, spend and exchange rates are
+   * not exported at all.
+   */
+  roundTrip?: boolean
 }
 
 export class ExportService {
@@ -33,14 +77,7 @@ export class ExportService {
       throw new Error(`Supplier '${slug}' not found`)
     }
 
-    const yamlData = {
-      object: 'supplier',
-      data: {
-        name: supplier.name,
-      },
-    }
-
-    return YAML.stringify(yamlData)
+    return YAML.stringify(supplierYaml(supplier))
   }
 
   /**
@@ -49,18 +86,13 @@ export class ExportService {
   async exportAllSuppliers(): Promise<string> {
     const suppliers = await this.database
       .selectFrom('Supplier')
-      .select(['slug', 'name'])
+      .selectAll()
       .orderBy('name')
       .execute()
 
-    const yamlDocs = suppliers.map((supplier) => ({
-      object: 'supplier',
-      data: {
-        name: supplier.name,
-      },
-    }))
-
-    return yamlDocs.map((doc) => YAML.stringify(doc)).join('---\n')
+    return suppliers
+      .map((supplier) => YAML.stringify(supplierYaml(supplier)))
+      .join('---\n')
   }
 
   /**
@@ -72,26 +104,16 @@ export class ExportService {
   ): Promise<string | { files: Map<string, string> }> {
     const ingredient = await this.ingredient.findById(slug)
     if (!ingredient) {
-      throw new Error(`Ingredient '${ingredient}' not found`)
+      throw new Error(`Ingredient '${slug}' not found`)
     }
 
-    const yamlData: any = {
-      object: 'ingredient',
-      data: {
-        name: ingredient.name,
-        category: ingredient.category || undefined,
-        purchase: {
-          unit: ingredient.purchaseUnit,
-          cost: ingredient.purchaseCost,
-          vat: ingredient.includesVat === 1,
-        },
-        supplier: ingredient.supplierSlug
-          ? { uses: `slug:${ingredient.supplierSlug}` }
-          : undefined,
-        conversionRate: ingredient.conversionRule || undefined,
-        notes: ingredient.notes || undefined,
-        lastPurchased: ingredient.lastPurchased || undefined,
-      },
+    const yamlData = ingredientYaml(ingredient, options)
+
+    // Dated so the price history starts where it did, rather than on the day
+    // the files are imported
+    if (options.roundTrip) {
+      const [price] = await this.ingredient.priceHistory(slug)
+      if (price) yamlData.data.purchase.effectiveFrom = price.effectiveFrom
     }
 
     const yamlString = YAML.stringify(yamlData)
@@ -124,7 +146,13 @@ export class ExportService {
         'Ingredient.purchaseUnit',
         'Ingredient.purchaseCost',
         'Ingredient.includesVat',
+        'Ingredient.purchaseCurrency',
         'Ingredient.conversionRule',
+        'Ingredient.density',
+        'Ingredient.yieldPercent',
+        'Ingredient.sku',
+        'Ingredient.allergens',
+        'Ingredient.nutrition',
         'Ingredient.notes',
         'Ingredient.lastPurchased',
         'Supplier.slug as supplierSlug',
@@ -132,26 +160,9 @@ export class ExportService {
       .orderBy('Ingredient.name')
       .execute()
 
-    const yamlDocs = ingredients.map((ingredient) => ({
-      object: 'ingredient',
-      data: {
-        name: ingredient.name,
-        category: ingredient.category || undefined,
-        purchase: {
-          unit: ingredient.purchaseUnit,
-          cost: ingredient.purchaseCost,
-          vat: ingredient.includesVat === 1,
-        },
-        supplier: ingredient.supplierSlug
-          ? { uses: `slug:${ingredient.supplierSlug}` }
-          : undefined,
-        conversionRate: ingredient.conversionRule || undefined,
-        notes: ingredient.notes || undefined,
-        lastPurchased: ingredient.lastPurchased || undefined,
-      },
-    }))
-
-    return yamlDocs.map((doc) => YAML.stringify(doc)).join('---\n')
+    return ingredients
+      .map((ingredient) => YAML.stringify(ingredientYaml(ingredient)))
+      .join('---\n')
   }
 
   /**
@@ -161,95 +172,67 @@ export class ExportService {
     slug: string,
     options: ExportOptions = {}
   ): Promise<string | { files: Map<string, string> }> {
-    const recipe = await this.recipe.findById(slug, true)
-    if (!recipe) {
+    if (!(await this.recipe.exists(slug))) {
       throw new Error(`Recipe '${slug}' not found`)
     }
 
-    const yamlData: any = {
-      object: 'recipe',
-      data: {
-        name: recipe.name,
-        stage: recipe.stage,
-        class: recipe.class,
-        category: recipe.category || undefined,
-      },
-    }
-
-    // Add parent if exists
-    if (recipe.parent) {
-      yamlData.data.extends = `slug:${recipe.parent}`
-    }
-
-    // Add costing
-    yamlData.data.costing = {
-      price: recipe.sellPrice,
-      margin: recipe.targetMargin || undefined,
-      vat: recipe.includesVat === 1,
-    }
-
-    // Add yield
-    if (recipe.yieldAmount && recipe.yieldUnit) {
-      yamlData.data.yieldAmount = recipe.yieldAmount
-      yamlData.data.yieldUnit = recipe.yieldUnit
-    }
-
-    // Add ingredients
-    if (recipe.ingredients && recipe.ingredients.length > 0) {
-      yamlData.data.ingredients = recipe.ingredients.map((ing) => ({
-        uses: `slug:${ing.slug}`,
-        with: {
-          unit: ing.unit,
-          notes: ing.notes || undefined,
-        },
-      }))
-    }
-
-    const yamlString = YAML.stringify(yamlData)
+    const recipe = await this.recipe.effective(slug)
+    const yamlString = YAML.stringify(recipeYaml(recipe, options))
 
     if (options.includeDependencies) {
       const files = new Map<string, string>()
       files.set(`recipes/${slug}.yaml`, yamlString)
 
+      // The parent brings the lines this recipe inherits, removes or
+      // overrides along with it
+      if (recipe.parent) {
+        const parentResult = await this.exportRecipe(recipe.parent, options)
+        if (typeof parentResult === 'object') {
+          for (const [path, content] of parentResult.files) {
+            files.set(path, content)
+          }
+        }
+      }
+
       // Track which suppliers we've already exported
       const exportedSuppliers = new Set<string>()
 
-      // Add all ingredients and their suppliers
-      if (recipe.ingredients) {
-        for (const ing of recipe.ingredients) {
-          if (ing.type === 'ingredient') {
-            const ingredientResult = await this.exportIngredient(ing.slug, {
-              includeDependencies: false,
-            })
-            files.set(
-              `ingredients/${ing.slug}.yaml`,
-              ingredientResult as string
-            )
-
-            // Get supplier for this ingredient
-            const ingredientData = await this.ingredient.findById(ing.slug)
-            if (ingredientData?.supplierSlug) {
-              if (!exportedSuppliers.has(ingredientData.supplierSlug)) {
-                const supplierYaml = await this.exportSupplier(
-                  ingredientData.supplierSlug
-                )
-                files.set(
-                  `suppliers/${ingredientData.supplierSlug}.yaml`,
-                  supplierYaml
-                )
-                exportedSuppliers.add(ingredientData.supplierSlug)
-              }
+      // Add all ingredients, packaging and their suppliers
+      const packaging = recipe.costs
+        .filter((line) => line.type === 'packaging' && line.source === slug)
+        .map((line) => ({ type: 'ingredient' as const, slug: line.slug! }))
+
+      const own = recipe.ingredients.filter((line) => line.source === slug)
+
+      for (const ing of [...own, ...packaging]) {
+        if (ing.type === 'ingredient') {
+          const ingredientResult = await this.exportIngredient(ing.slug, {
+            ...options,
+            includeDependencies: false,
+          })
+          files.set(`ingredients/${ing.slug}.yaml`, ingredientResult as string)
+
+          // Get supplier for this ingredient
+          const ingredientData = await this.ingredient.findById(ing.slug)
+          if (ingredientData?.supplierSlug) {
+            if (!exportedSuppliers.has(ingredientData.supplierSlug)) {
+              const supplierYaml = await this.exportSupplier(
+                ingredientData.supplierSlug
+              )
+              files.set(
+                `suppliers/${ingredientData.supplierSlug}.yaml`,
+                supplierYaml
+              )
+              exportedSuppliers.add(ingredientData.supplierSlug)
             }
-          } else if (ing.type === 'recipe') {
-            // Recursively export sub-recipes
-            const subRecipeResult = await this.exportRecipe(ing.slug, {
-              includeDependencies: true,
-            })
-            if (typeof subRecipeResult === 'object') {
-              // Merge the files
-              for (const [path, content] of subRecipeResult.files) {
-                files.set(path, content)
-              }
+          }
+        } else if (ing.type === 'recipe') {
+          // Recursively export sub-recipes
+          const subRecipeResult = await this.exportRecipe(ing.slug, options)
+          if (typeof subRecipeResult === 'object') {
+            // Merge the files
+            for (const [path, content] of subRecipeResult.files) {
+              files.set(path, content)
             }
           }
         }
@@ -274,58 +257,21 @@ export class ExportService {
     const yamlDocs = []
 
     for (const { slug } of recipes) {
-      const recipe = await this.recipe.findById(slug, true)
-      if (!recipe) continue
-
-      const yamlData: any = {
-        object: 'recipe',
-        data: {
-          name: recipe.name,
-          stage: recipe.stage,
-          class: recipe.class,
-          category: recipe.category || undefined,
-        },
-      }
-
-      // Add parent if exists
-      if (recipe.parent) {
-        yamlData.data.extends = `slug:${recipe.parent}`
-      }
-
-      // Add costing
-      yamlData.data.costing = {
-        price: recipe.sellPrice,
-        margin: recipe.targetMargin || undefined,
-        vat: recipe.includesVat === 1,
-      }
-
-      // Add yield
-      if (recipe.yieldAmount && recipe.yieldUnit) {
-        yamlData.data.yieldAmount = recipe.yieldAmount
-        yamlData.data.yieldUnit = recipe.yieldUnit
-      }
-
-      // Add ingredients
-      if (recipe.ingredients && recipe.ingredients.length > 0) {
-        yamlData.data.ingredients = recipe.ingredients.map((ing) => ({
-          uses: `slug:${ing.slug}`,
-          with: {
-            unit: ing.unit,
-            notes: ing.notes || undefined,
-          },
-        }))
-      }
-
-      yamlDocs.push(yamlData)
+      yamlDocs.push(recipeYaml(await this.recipe.effective(slug)))
     }
 
     return yamlDocs.map((doc) => YAML.stringify(doc)).join('---\n')
   }
 
   /**
-   * Export complete dataset (all entities)
+   * Export complete dataset (all entities), one file per entity laid out as
+   * `suppliers/`, `ingredients/` and `recipes/`. With `roundTrip` the files
+   * import back into the same suppliers, ingredients and recipes, see
+   * `ExportOptions` for what is left out.
    */
-  async exportAll(): Promise<{ files: Map<string, string> }> {
+  async exportAll(
+    options: Pick<ExportOptions, 'roundTrip'> = {}
+  ): Promise<{ files: Map<string, string> }> {
     const files = new Map<string, string>()
 
     // Export all suppliers
@@ -347,6 +293,7 @@ export class ExportService {
 
     for (const { slug } of ingredients) {
       const yaml = (await this.exportIngredient(slug, {
+        ...options,
         includeDependencies: false,
       })) as string
       files.set(`ingredients/${slug}.yaml`, yaml)
@@ -360,6 +307,7 @@ export class ExportService {
 
     for (const { slug } of recipes) {
       const yaml = (await this.exportRecipe(slug, {
+        ...options,
         includeDependencies: false,
       })) as string
       files.set(`recipes/${slug}.yaml`, yaml)
@@ -398,8 +346,10 @@ export class ExportService {
         'Ingredient.purchaseUnit',
         'Ingredient.purchaseCost',
         'Ingredient.includesVat',
+        'Ingredient.purchaseCurrency',
         'Supplier.name as supplierName',
         'Ingredient.conversionRule',
+        'Ingredient.density',
         'Ingredient.notes',
         'Ingredient.lastPurchased',
       ])
@@ -412,9 +362,11 @@ export class ExportService {
       category: ing.category || '',
       purchaseUnit: ing.purchaseUnit,
       purchaseCost: ing.purchaseCost / 100, // Convert pence to pounds
+      purchaseCurrency: ing.purchaseCurrency || '', // Blank for the base currency
       includesVat: ing.includesVat === 1 ? 'Yes' : 'No',
       supplier: ing.supplierName || '',
       conversionRule: ing.conversionRule || '',
+      density: ing.density || '',
       notes: ing.notes || '',
       lastPurchased: ing.lastPurchased || '',
     }))
@@ -427,9 +379,11 @@ export class ExportService {
         'category',
         'purchaseUnit',
         'purchaseCost',
+        'purchaseCurrency',
         'includesVat',
         'supplier',
         'conversionRule',
+        'density',
         'notes',
         'lastPurchased',
       ],
@@ -459,19 +413,34 @@ export class ExportService {
       .orderBy('Recipe.name')
       .execute()
 
-    const rows = recipes.map((recipe) => ({
-      slug: recipe.slug,
-      name: recipe.name,
-      class: recipe.class,
-      category: recipe.category || '',
-      stage: recipe.stage,
-      sellPrice: recipe.sellPrice / 100, // Convert pence to pounds
-      includesVat: recipe.includesVat === 1 ? 'Yes' : 'No',
-      targetMargin: recipe.targetMargin || '',
-      yieldAmount: recipe.yieldAmount || '',
-      yieldUnit: recipe.yieldUnit || '',
-      parent: recipe.parentName || '',
-    }))
+    const nutrition = new NutritionCalculator(this.recipe, this.ingredient)
+
+    const rows = []
+    for (const recipe of recipes) {
+      // Per portion, energy in kcal and the rest in grams. Left blank when
+      // the recipe can't be worked out
+      let perPortion: Record<string, number | string> = {}
+      try {
+        perPortion = (await nutrition.nutrition(recipe.slug)).perPortion
+      } catch (error) {
+        perPortion = Object.fromEntries(NUTRIENTS.map((key) => [key, '']))
+      }
+
+      rows.push({
+        slug: recipe.slug,
+        name: recipe.name,
+        class: recipe.class,
+        category: recipe.category || '',
+        stage: recipe.stage,
+        sellPrice: recipe.sellPrice / 100, // Convert pence to pounds
+        includesVat: recipe.includesVat === 1 ? 'Yes' : 'No',
+        targetMargin: recipe.targetMargin || '',
+        yieldAmount: recipe.yieldAmount || '',
+        yieldUnit: recipe.yieldUnit || '',
+        parent: recipe.parentName || '',
+        ...perPortion,
+      })
+    }
 
     return stringify(rows, {
       header: true,
@@ -487,6 +456,7 @@ export class ExportService {
         'yieldAmount',
         'yieldUnit',
         'parent',
+        ...NUTRIENTS,
       ],
     })
   }
@@ -561,4 +531,758 @@ export class ExportService {
       ],
     })
   }
+
+  /**
+   * A printable spec card for a recipe: its lines and what they cost, the
+   * margin at its sell price and the method
+   */
+  async exportRecipeSpecPDF(
+    slug: string,
+    format: MoneyFormat = DEFAULT_MONEY_FORMAT
+  ): Promise<Buffer> {
+    const recipe = await this.recipe.findById(slug, true)
+    if (!recipe) {
+      throw new Error(`Recipe '${slug}' not found`)
+    }
+
+    const cost = await this.calculator.cost(slug)
+    const margin = await this.calculator.margin(cost)
+    const money = (pence: number) => formatMoney(pence, format)
+
+    const doc = new PdfDocument(`${recipe.name} spec card`)
+      .heading(recipe.name)
+      .paragraph(
+        [recipe.category, label(recipe.class), label(recipe.stage)]
+          .filter(Boolean)
+          .join(' · '),
+        { muted: true }
+      )
+
+    // Notes are kept against the recipe's own lines, not the costed tree
+    const notes = new Map(
+      recipe.ingredients.map((line) => [line.slug, line.notes ?? ''])
+    )
+    const lines = (nodes: RecipeCostNode[], depth = 0): PdfRow[] =>
+      nodes.flatMap((node) => [
+        {
+          cells: [
+            node.name,
+            quantity(node.amount, node.unit),
+            node.grossAmount !== node.amount
+              ? quantity(node.grossAmount, node.unit)
+              : '',
+            (depth === 0 && notes.get(node.slug)) || node.warning || '',
+            money(node.cost),
+          ],
+          depth,
+        },
+        ...lines(node.children ?? [], depth + 1),
+      ])
+
+    doc.subheading('Ingredients').table(
+      [
+        { header: 'Ingredient', width: 4 },
+        { header: 'Quantity', width: 2, align: 'right' },
+        { header: 'Weigh out', width: 2, align: 'right' },
+        { header: 'Notes', width: 4 },
+        { header: 'Cost', width: 2, align: 'right' },
+      ],
+      [
+        ...lines(cost.tree),
+        { cells: ['Food cost', '', '', '', money(cost.totalCost)], bold: true },
+      ]
+    )
+
+    if (cost.costLines.length) {
+      doc.subheading('Packaging and overheads').table(
+        [
+          { header: 'Item', width: 8 },
+          { header: 'Quantity', width: 4, align: 'right' },
+          { header: 'Cost', width: 2, align: 'right' },
+        ],
+        cost.costLines.map((line) => [line.name, line.unit, money(line.cost)])
+      )
+    }
+
+    doc.subheading('Margin').details([
+      [
+        'Sell price',
+        `${money(margin.customerPrice)}${margin.vatApplicable ? ` (${money(margin.sellPrice)} ex VAT)` : ''}`,
+      ],
+      ['Food cost', money(margin.foodCost)],
+      ['Labour', money(margin.labourCost)],
+      ['Packaging and overheads', money(margin.nonFoodCost)],
+      ['Profit', money(margin.profit)],
+      [
+        'Margin',
+        `${margin.actualMargin.toFixed(1)}% against a target of ${margin.targetMargin}%${margin.meetsTarget ? '' : ', below target'}`,
+      ],
+    ])
+
+    if (margin.bands.length) {
+      doc.space(6).table(
+        [
+          { header: 'Price band', width: 6 },
+          { header: 'Price', width: 3, align: 'right' },
+          { header: 'Profit', width: 3, align: 'right' },
+          { header: 'Margin', width: 2, align: 'right' },
+        ],
+        margin.bands.map((band) => [
+          band.band,
+          money(band.customerPrice),
+          money(band.profit),
+          `${band.actualMargin.toFixed(1)}%`,
+        ])
+      )
+    }
+
+    const method = methodData(recipe)
+    if (method?.steps?.length || method?.equipment?.length || method?.plating) {
+      doc.subheading('Method')
+      if (method.equipment?.length) {
+        doc.paragraph(`Equipment: ${method.equipment.join(', ')}`, {
+          muted: true,
+        })
+      }
+      method.steps?.forEach((step, index) =>
+        doc.paragraph(
+          `${index + 1}. ${step.step}${step.holdMinutes ? ` (hold ${step.holdMinutes} min)` : ''}`
+        )
+      )
+      if (method.plating) {
+        doc.space(6).paragraph('Plating', { bold: true })
+        doc.paragraph(method.plating)
+      }
+    }
+
+    if (cost.issues.length) {
+      doc.subheading('Costing issues')
+      cost.issues.forEach((issue) => doc.paragraph(issue.message))
+    }
+
+    return doc.toBuffer()
+  }
+
+  /**
+   * A costing pack of the active menu items, a table of prices, costs and
+   * margins for each category
+   */
+  async exportCostingPackPDF(
+    format: MoneyFormat = DEFAULT_MONEY_FORMAT
+  ): Promise<Buffer> {
+    const recipes = await this.database
+      .selectFrom('Recipe')
+      .select(['slug', 'name', 'category'])
+      .where('stage', '=', 'active')
+      .where('class', '=', 'menu_item')
+      .orderBy('category')
+      .orderBy('name')
+      .execute()
+
+    const money = (pence: number) => formatMoney(pence, format)
+    const doc = new PdfDocument('Menu costing pack')
+      .heading('Menu costing pack')
+      .paragraph(
+        `${recipes.length} active menu item${recipes.length === 1 ? '' : 's'}, costed on ${toSalesDay(new Date())}`,
+        { muted: true }
+      )
+
+    const categories = new Map<string, typeof recipes>()
+    for (const recipe of recipes) {
+      const category = recipe.category || 'Uncategorised'
+      categories.set(category, [...(categories.get(category) ?? []), recipe])
+    }
+
+    const failed: { name: string; error: string }[] = []
+    for (const [category, items] of categories) {
+      const rows: string[][] = []
+      const margins: number[] = []
+
+      for (const recipe of items) {
+        try {
+          const margin = await this.calculator.margin(
+            await this.calculator.cost(recipe.slug)
+          )
+
+          margins.push(margin.actualMargin)
+          rows.push([
+            recipe.name,
+            money(margin.customerPrice),
+            money(margin.foodCost),
+            margin.sellPrice
+              ? `${((margin.foodCost / margin.sellPrice) * 100).toFixed(1)}%`
+              : '',
+            money(margin.profit),
+            `${margin.actualMargin.toFixed(1)}%`,
+            `${margin.targetMargin}%`,
+            margin.meetsTarget ? 'Yes' : 'No',
+          ])
+        } catch (error) {
+          failed.push({ name: recipe.name, error: (error as Error).message })
+        }
+      }
+
+      if (!rows.length) continue
+
+      const average =
+        margins.reduce((acc, value) => acc + value, 0) / margins.length
+      doc.subheading(category).table(
+        [
+          { header: 'Item', width: 5 },
+          { header: 'Price', width: 2, align: 'right' },
+          { header: 'Food cost', width: 2, align: 'right' },
+          { header: 'Cost %', width: 1.5, align: 'right' },
+          { header: 'Profit', width: 2, align: 'right' },
+          { header: 'Margin', width: 1.5, align: 'right' },
+          { header: 'Target', width: 1.5, align: 'right' },
+          { header: 'On target', width: 1.5, align: 'right' },
+        ],
+        [
+          ...rows,
+          {
+            cells: ['Average', '', '', '', '', `${average.toFixed(1)}%`],
+            bold: true,
+          },
+        ]
+      )
+    }
+
+    if (failed.length) {
+      doc.subheading('Not costed')
+      failed.forEach(({ name, error }) => doc.paragraph(`${name}: ${error}`))
+    }
+
+    return doc.toBuffer()
+  }
+
+  /**
+   * An order sheet for a supplier, their items with the current price and
+   * space to write in quantities
+   */
+  async exportSupplierOrderPDF(
+    slug: string,
+    format: MoneyFormat = DEFAULT_MONEY_FORMAT
+  ): Promise<Buffer> {
+    const supplier = await this.supplier.findById(slug)
+    if (!supplier) {
+      throw new Error(`Supplier '${slug}' not found`)
+    }
+
+    const ingredients = await this.database
+      .selectFrom('Ingredient')
+      .select([
+        'name',
+        'category',
+        'sku',
+        'purchaseUnit',
+        'purchaseCost',
+        'purchaseCurrency',
+      ])
+      .where('supplierId', '=', supplier.id)
+      .orderBy('category')
+      .orderBy('name')
+      .execute()
+
+    const doc = new PdfDocument(`${supplier.name} order sheet`)
+      .heading(supplier.name)
+      .paragraph('Order sheet', { muted: true })
+      .space(6)
+      .details(
+        [
+          ['Contact', supplier.contactName],
+          ['Email', supplier.contactEmail],
+          ['Phone', supplier.contactPhone],
+          ['Order date', ''],
+          ['Delivery date', ''],
+        ].filter((pair): pair is [string, string] => pair[1] !== null)
+      )
+
+    if (supplier.notes) {
+      doc.space(6).paragraph(supplier.notes, { muted: true })
+    }
+
+    const categories = new Map<string, typeof ingredients>()
+    for (const ingredient of ingredients) {
+      categories.set(ingredient.category, [
+        ...(categories.get(ingredient.category) ?? []),
+        ingredient,
+      ])
+    }
+
+    for (const [category, items] of categories) {
+      doc.subheading(category).table(
+        [
+          { header: 'Code', width: 2 },
+          { header: 'Item', width: 5 },
+          { header: 'Pack', width: 2.5 },
+          { header: 'Price', width: 2, align: 'right' },
+          { header: 'Qty', width: 1.5, align: 'right' },
+          { header: 'Total', width: 2, align: 'right' },
+        ],
+        items.map((item) => [
+          item.sku ?? '',
+          item.name,
+          item.purchaseUnit,
+          formatMoney(item.purchaseCost, {
+            ...format,
+            currency: item.purchaseCurrency || format.currency,
+          }),
+          '',
+          '',
+        ])
+      )
+    }
+
+    if (!ingredients.length) {
+      doc.space(6).paragraph('No ingredients are bought from this supplier.')
+    }
+
+    return doc.toBuffer()
+  }
+
+  /**
+   * A workbook for the accounts: suppliers, ingredients, recipes with their
+   * margins and every recipe's cost tree. Money is numeric, and profit and
+   * margins are formulas over the costs.
+   */
+  async exportWorkbookXLSX(
+    format: MoneyFormat = DEFAULT_MONEY_FORMAT
+  ): Promise<Buffer> {
+    const suppliers = await this.database
+      .selectFrom('Supplier')
+      .selectAll()
+      .orderBy('name')
+      .execute()
+
+    const ingredients = await this.database
+      .selectFrom('Ingredient')
+      .leftJoin('Supplier', 'Ingredient.supplierId', 'Supplier.id')
+      .selectAll('Ingredient')
+      .select('Supplier.slug as supplierSlug')
+      .orderBy('Ingredient.name')
+      .execute()
+
+    const recipes = await this.database
+      .selectFrom('Recipe')
+      .select(['slug', 'name', 'class', 'stage', 'category'])
+      .orderBy('name')
+      .execute()
+
+    const costed = new Map<
+      string,
+      { cost: RecipeResult; margin: MarginResult } | Error
+    >()
+    for (const recipe of recipes) {
+      try {
+        const cost = await this.calculator.cost(recipe.slug)
+        costed.set(recipe.slug, {
+          cost,
+          margin: await this.calculator.margin(cost),
+        })
+      } catch (error) {
+        costed.set(recipe.slug, error as Error)
+      }
+    }
+
+    // Money cells are in the currency's major unit, pounds rather than pence
+    const major = (amount: number) => fromMinorUnits(amount, format)
+    const workbook = new XlsxWorkbook(format)
+
+    // The Ingredients sheet keeps supplier slugs in column D
+    workbook.addSheet(
+      'Suppliers',
+      [
+        { header: 'Slug' },
+        { header: 'Name' },
+        { header: 'Contact' },
+        { header: 'Email' },
+        { header: 'Phone' },
+        { header: 'Ingredients' },
+      ],
+      suppliers.map((supplier, index) => [
+        supplier.slug,
+        supplier.name,
+        supplier.contactName,
+        supplier.contactEmail,
+        supplier.contactPhone,
+        {
+          formula: `COUNTIF(Ingredients!D:D,A${index + 2})`,
+          value: ingredients.filter(
+            (ingredient) => ingredient.supplierSlug === supplier.slug
+          ).length,
+        },
+      ])
+    )
+
+    workbook.addSheet(
+      'Ingredients',
+      [
+        { header: 'Slug' },
+        { header: 'Name' },
+        { header: 'Category' },
+        { header: 'Supplier' },
+        { header: 'SKU' },
+        { header: 'Purchase unit' },
+        { header: 'Purchase cost', style: 'money' },
+        { header: 'Currency' },
+        { header: 'Includes VAT' },
+        { header: 'Yield', style: 'percent' },
+        { header: 'Last purchased' },
+      ],
+      ingredients.map((ingredient) => [
+        ingredient.slug,
+        ingredient.name,
+        ingredient.category,
+        ingredient.supplierSlug,
+        ingredient.sku,
+        ingredient.purchaseUnit,
+        // Costs in another currency can't take the base currency's format
+        {
+          value: major(ingredient.purchaseCost),
+          style: ingredient.purchaseCurrency ? 'general' : 'money',
+        },
+        ingredient.purchaseCurrency || format.currency,
+        ingredient.includesVat === 1,
+        ingredient.yieldPercent == null ? null : ingredient.yieldPercent / 100,
+        ingredient.lastPurchased,
+      ])
+    )
+
+    workbook.addSheet(
+      'Recipes',
+      [
+        { header: 'Slug' },
+        { header: 'Name' },
+        { header: 'Class' },
+        { header: 'Stage' },
+        { header: 'Category' },
+        { header: 'Sell price (ex VAT)', style: 'money' },
+        { header: 'Customer price', style: 'money' },
+        { header: 'Food cost', style: 'money' },
+        { header: 'Labour', style: 'money' },
+        { header: 'Packaging and overheads', style: 'money' },
+        { header: 'Profit', style: 'money' },
+        { header: 'Margin', style: 'percent' },
+        { header: 'Contribution', style: 'money' },
+        { header: 'Target margin', style: 'percent' },
+        { header: 'Meets target' },
+        { header: 'Notes' },
+      ],
+      recipes.map((recipe, index): (XlsxValue | XlsxCell)[] => {
+        const row = [
+          recipe.slug,
+          recipe.name,
+          recipe.class,
+          recipe.stage,
+          recipe.category,
+        ]
+
+        const result = costed.get(recipe.slug)!
+        if (result instanceof Error) {
+          return [...row, ...Array(10).fill(null), result.message]
+        }
+
+        const { cost, margin } = result
+        const at = (column: string) => `${column}${index + 2}`
+        return [
+          ...row,
+          major(margin.sellPrice),
+          major(margin.customerPrice),
+          major(margin.foodCost),
+          major(margin.labourCost),
+          major(margin.nonFoodCost),
+          {
+            formula: `${at('F')}-${at('H')}`,
+            value: major(margin.profit),
+          },
+          {
+            formula: `IF(${at('F')}=0,0,${at('K')}/${at('F')})`,
+            value: margin.actualMargin / 100,
+          },
+          {
+            formula: `${at('K')}-${at('I')}-${at('J')}`,
+            value: major(margin.contribution),
+          },
+          margin.targetMargin / 100,
+          {
+            formula: `IF(${at('L')}>=${at('N')},"Yes","No")`,
+            value: margin.meetsTarget ? 'Yes' : 'No',
+          },
+          cost.issues.map((issue) => issue.message).join('; '),
+        ]
+      })
+    )
+
+    // Each recipe's lines, then a total of the top level lines only, since
+    // a sub-recipe's own lines are already in its cost
+    const trees: (XlsxValue | XlsxCell)[][] = []
+    const lines = (slug: string, nodes: RecipeCostNode[], depth = 0) => {
+      for (const node of nodes) {
+        trees.push([
+          slug,
+          `${'  '.repeat(depth)}${node.name}`,
+          node.type,
+          depth,
+          node.amount,
+          node.unit,
+          node.grossAmount,
+          major(node.cost),
+          node.warning,
+        ])
+        lines(slug, node.children ?? [], depth + 1)
+      }
+    }
+
+    for (const recipe of recipes) {
+      const result = costed.get(recipe.slug)!
+      if (result instanceof Error) continue
+
+      const first = trees.length + 2
+      lines(recipe.slug, result.cost.tree)
+      const last = trees.length + 1
+
+      trees.push([
+        { value: recipe.slug, bold: true },
+        { value: 'Food cost', bold: true },
+        null,
+        null,
+        null,
+        null,
+        null,
+        {
+          ...(last >= first && {
+            formula: `SUMIFS(H${first}:H${last},D${first}:D${last},0)`,
+          }),
+          value: major(result.cost.totalCost),
+          bold: true,
+        },
+      ])
+    }
+
+    workbook.addSheet(
+      'Cost Trees',
+      [
+        { header: 'Recipe' },
+        { header: 'Line' },
+        { header: 'Type' },
+        { header: 'Depth' },
+        { header: 'Quantity' },
+        { header: 'Unit' },
+        { header: 'Weigh out' },
+        { header: 'Cost', style: 'money' },
+        { header: 'Warning' },
+      ],
+      trees
+    )
+
+    return workbook.toBuffer()
+  }
+}
+
+/** The folders `exportAll` lays its files out in */
+type ExportFolder = 'suppliers' | 'ingredients' | 'recipes'
+
+/**
+ * A reference from a file in one folder of the export to another entity.
+ * Round-trip exports point at the other file, so the importer can order the
+ * files itself and knows a sub-recipe from an ingredient.
+ */
+function reference(
+  from: ExportFolder,
+  to: ExportFolder,
+  slug: string,
+  options: ExportOptions
+): string {
+  if (!options.roundTrip) return `slug:${slug}`
+
+  return from === to ? `./${slug}.yaml` : `../${to}/${slug}.yaml`
+}
+
+/**
+ * A supplier in its import form
+ */
+function supplierYaml(supplier: Selectable<Supplier>): {
+  object: 'supplier'
+  data: SupplierImportData
+} {
+  return {
+    object: 'supplier',
+    data: {
+      slug: supplier.slug,
+      name: supplier.name,
+      contactName: supplier.contactName || undefined,
+      contactEmail: supplier.contactEmail || undefined,
+      contactPhone: supplier.contactPhone || undefined,
+      notes: supplier.notes || undefined,
+    },
+  }
+}
+
+/**
+ * An ingredient in its import form
+ */
+function ingredientYaml(
+  ingredient: Omit<DBIngredient, 'id' | 'supplierId'>,
+  options: ExportOptions = {}
+): { object: 'ingredient'; data: IngredientImportData } {
+  return {
+    object: 'ingredient',
+    data: {
+      slug: ingredient.slug,
+      name: ingredient.name,
+      category: ingredient.category,
+      purchase: {
+        unit: ingredient.purchaseUnit,
+        cost: Number(ingredient.purchaseCost),
+        vat: ingredient.includesVat === 1,
+        currency: ingredient.purchaseCurrency || undefined,
+      },
+      supplier: ingredient.supplierSlug
+        ? {
+            uses: reference(
+              'ingredients',
+              'suppliers',
+              ingredient.supplierSlug,
+              options
+            ),
+          }
+        : undefined,
+      conversionRate: ingredient.conversionRule || undefined,
+      density: ingredient.density || undefined,
+      yieldPercent:
+        ingredient.yieldPercent == null
+          ? undefined
+          : Number(ingredient.yieldPercent),
+      sku: ingredient.sku || undefined,
+      allergens: ingredient.allergens
+        ? parseAllergens(ingredient.allergens)
+        : undefined,
+      nutrition: parseNutrition(ingredient.nutrition) ?? undefined,
+      notes: ingredient.notes || undefined,
+      lastPurchased: ingredient.lastPurchased || undefined,
+    },
+  }
+}
+
+/**
+ * A recipe in its import form. Only the recipe's own lines are written, the
+ * rest come from its parent, with any overrides and removals of inherited
+ * lines under `extends`.
+ */
+function recipeYaml(recipe: EffectiveRecipe, options: ExportOptions = {}) {
+  const yamlData: any = {
+    object: 'recipe',
+    data: {
+      slug: recipe.slug,
+      name: recipe.name,
+      stage: recipe.stage,
+      class: recipe.class,
+      category: recipe.category || undefined,
+    },
+  }
+
+  const line = (ing: RecipeIngredientsLookup) => ({
+    uses: reference(
+      'recipes',
+      ing.type === 'recipe' ? 'recipes' : 'ingredients',
+      ing.slug,
+      options
+    ),
+    with: {
+      unit: ing.unit,
+      notes: ing.notes || undefined,
+      wastePercent:
+        ing.wastePercent == null ? undefined : Number(ing.wastePercent),
+    },
+  })
+
+  // An override of a line the parent has since dropped already stands on its
+  // own, so it is written out as one of the recipe's own lines
+  const own = recipe.ingredients.filter((ing) => ing.source === recipe.slug)
+  const added = own.filter((ing) => ing.overrides === null)
+  const overridden = own.filter((ing) => ing.overrides !== null)
+  const removed = recipe.removed.filter((ing) => ing.removedBy === recipe.slug)
+
+  // Add parent if exists
+  if (recipe.parent) {
+    const parent = reference('recipes', 'recipes', recipe.parent, options)
+
+    yamlData.data.extends =
+      overridden.length || removed.length
+        ? {
+            uses: parent,
+            remove: removed.map((ing) =>
+              reference(
+                'recipes',
+                ing.type === 'recipe' ? 'recipes' : 'ingredients',
+                ing.slug,
+                options
+              )
+            ),
+            override: overridden.map(line),
+          }
+        : parent
+  }
+
+  // Add costing
+  yamlData.data.costing = {
+    price: recipe.sellPrice,
+    margin: recipe.targetMargin ?? undefined,
+    vat: recipe.includesVat === 1,
+    bands: priceBandsData(recipe),
+  }
+
+  // Add yield
+  yamlData.data.yieldAmount = recipe.yieldAmount ?? undefined
+  yamlData.data.yieldUnit = recipe.yieldUnit ?? undefined
+
+  yamlData.data.labour = labourData(recipe)
+
+  yamlData.data.method = methodData(recipe)
+
+  yamlData.data.costs = costLinesYaml(recipe, options)
+
+  // Add ingredients
+  if (added.length > 0) {
+    yamlData.data.ingredients = added.map(line)
+  }
+
+  return yamlData
+}
+
+/**
+ * A recipe's own cost lines as they are written in YAML
+ */
+function costLinesYaml(
+  recipe: Parameters<typeof costLinesData>[0],
+  options: ExportOptions
+): RecipeCostLine[] | undefined {
+  return costLinesData(recipe)?.map((line) => {
+    switch (line.type) {
+      case 'packaging':
+        return {
+          uses: reference('recipes', 'ingredients', line.slug, options),
+          with: line.with,
+        }
+      case 'fixed':
+        return { name: line.name, pence: line.pence }
+      case 'percent':
+        return { name: line.name, percent: line.percent }
+    }
+  })
+}
+
+/**
+ * A quantity for print, to at most two decimal places
+ */
+function quantity(amount: number, unit: string): string {
+  return `${Number(amount.toFixed(2))} ${unit}`.trim()
+}
+
+/**
+ * An enum value such as "menu_item" as "Menu item"
+ */
+function label(value: string): string {
+  const text = value.replace(/_/g, ' ')
+  return text.charAt(0).toUpperCase() + text.slice(1)
 }
@@ -1,13 +1,37 @@
 export { ConfigService } from './config'
 export { DashboardService } from './dashboard'
-export type { DashboardServiceOptions, DashboardStats } from './dashboard'
+export type {
+  DashboardServiceOptions,
+  DashboardStats,
+  MenuEngineeringReport,
+} from './dashboard'
+export { ExchangeRateService } from './exchange-rate'
+export type { DBExchangeRate, ExchangeRateEntry } from './exchange-rate'
 export { ExportService } from './export'
 export { IngredientService } from './ingredient'
 export type { IngredientServiceOptions } from './ingredient'
-export { RecipeService } from './recipe'
+export { PriceListService } from './price-list'
+export type { PriceListChange, PriceListPreview } from './price-list'
+export { RecipeService, methodData, priceBandsData } from './recipe'
 export type {
+  EffectiveRecipe,
+  RecipeCostLineLookup,
   RecipeIngredientsLookup,
+  RecipePriceBandLookup,
+  RecipeRemovedLine,
   RecipeServiceOptions,
   RecipeWithIngredients,
 } from './recipe'
+export { SalesService, toSalesDay } from './sales'
+export type { SaleEntry, SalesPeriod } from './sales'
 export { SupplierService } from './supplier'
+export { VarianceService } from './variance'
+export type {
+  SpendEntry,
+  VarianceCategory,
+  VarianceIngredient,
+  VariancePeriod,
+  VarianceRecipe,
+  VarianceReport,
+  VarianceTotals,
+} from './variance'
@@ -1,10 +1,22 @@
 import { NotFound } from '@hndlr/errors'
-import { DB, Ingredient, Supplier } from '@menubook/types'
+import {
+  DB,
+  Ingredient,
+  IngredientPrice,
+  PriceSource,
+  Supplier,
+} from '@menubook/types'
 import { Selectable, Transaction } from 'kysely'
 
 import type { CacheAdapter } from '../cache'
 import type { DatabaseContext } from '../datastore/context'
 import { handleError } from '../datastore/handleError'
+import type { IngredientAllergens } from '../lib/allergens'
+import { parseAllergens, serialiseAllergens } from '../lib/allergens'
+import {
+  parseNutrition,
+  serialiseNutrition,
+} from '../lib/calculation/nutrition'
 import type { ImportOutcome } from '../lib/importer'
 import { Importer } from '../lib/importer'
 import type {
@@ -12,6 +24,7 @@ import type {
   IngredientResolvedImportData,
 } from '../schema'
 import { hasChanges } from '../utils'
+import { ExchangeRateService } from './exchange-rate'
 import { SupplierService } from './supplier'
 
 /** Cache key patterns for invalidation */
@@ -40,15 +53,28 @@ export type DBIngredientWithSupplier = DBIngredient &
 
 export type TransactionOr<T> = Transaction<DB> | T
 
+export type DBIngredientPrice = Selectable<IngredientPrice>
+
 export class IngredientService {
   private cache?: CacheAdapter
 
+  private readonly rates: ExchangeRateService
+
   constructor(
     private context: DatabaseContext,
     private readonly supplier: SupplierService,
     options: IngredientServiceOptions = {}
   ) {
     this.cache = options.cache
+    this.rates = new ExchangeRateService(context)
+  }
+
+  /**
+   * The same service reading through `trx`, without the cache, for reads that
+   * have to see a transaction's uncommitted writes
+   */
+  withTransaction(trx: Transaction<DB>) {
+    return new IngredientService({ ...this.context, db: trx }, this.supplier)
   }
 
   /**
@@ -119,7 +145,13 @@ export class IngredientService {
         'Ingredient.purchaseUnit',
         'Ingredient.purchaseCost',
         'Ingredient.includesVat',
+        'Ingredient.purchaseCurrency',
         'Ingredient.conversionRule',
+        'Ingredient.density',
+        'Ingredient.yieldPercent',
+        'Ingredient.sku',
+        'Ingredient.allergens',
+        'Ingredient.nutrition',
         'Ingredient.notes',
         'Ingredient.lastPurchased',
         'Ingredient.supplierId',
@@ -152,7 +184,13 @@ export class IngredientService {
         'Ingredient.purchaseUnit',
         'Ingredient.purchaseCost',
         'Ingredient.includesVat',
+        'Ingredient.purchaseCurrency',
         'Ingredient.conversionRule',
+        'Ingredient.density',
+        'Ingredient.yieldPercent',
+        'Ingredient.sku',
+        'Ingredient.allergens',
+        'Ingredient.nutrition',
         'Ingredient.notes',
         'Ingredient.lastPurchased',
         'Ingredient.supplierId',
@@ -165,7 +203,8 @@ export class IngredientService {
     slug: string,
     data: IngredientImportData | IngredientResolvedImportData,
     supplierSlug: string = 'generic',
-    trx?: Transaction<DB>
+    trx?: Transaction<DB>,
+    source: PriceSource = 'import'
   ) {
     const query = async (trx: Transaction<DB>) => {
       const result = await trx
@@ -177,7 +216,13 @@ export class IngredientService {
           purchaseUnit: data.purchase.unit,
           purchaseCost: data.purchase.cost,
           includesVat: data.purchase.vat ? 1 : 0,
+          purchaseCurrency: data.purchase.currency ?? null,
           conversionRule: data.conversionRate?.trimEnd() || null,
+          density: data.density || null,
+          yieldPercent: data.yieldPercent ?? null,
+          sku: data.sku || null,
+          allergens: serialiseAllergens(data.allergens),
+          nutrition: serialiseNutrition(data.nutrition),
           supplierId: eb
             .selectFrom('Supplier')
             .select('Supplier.id')
@@ -193,13 +238,21 @@ export class IngredientService {
             purchaseUnit: data.purchase.unit,
             purchaseCost: data.purchase.cost,
             includesVat: data.purchase.vat ? 1 : 0,
+            purchaseCurrency: data.purchase.currency ?? null,
             conversionRule: data.conversionRate?.trimEnd() || null,
+            density: data.density || null,
+            yieldPercent: data.yieldPercent ?? null,
+            sku: data.sku || null,
+            allergens: serialiseAllergens(data.allergens),
+            nutrition: serialiseNutrition(data.nutrition),
             notes: data.notes,
             lastPurchased: data.lastPurchased,
           })
         )
         .executeTakeFirst()
 
+      await this.recordPrice(slug, data, source, trx)
+
       // Invalidate cache after mutation
       await this.invalidateCache()
 
@@ -209,6 +262,131 @@ export class IngredientService {
     return trx ? query(trx) : this.database.transaction().execute(query)
   }
 
+  /**
+   * Replace the allergens declared for an ingredient, leaving the rest of it
+   * as it is
+   */
+  async updateAllergens(
+    slug: string,
+    allergens: IngredientAllergens,
+    trx?: Transaction<DB>
+  ) {
+    const result = await (trx ?? this.database)
+      .updateTable('Ingredient')
+      .set({ allergens: serialiseAllergens(allergens) })
+      .where('slug', '=', slug)
+      .executeTakeFirst()
+
+    if (result.numUpdatedRows === 0n) {
+      throw new NotFound(`Ingredient with slug '${slug}' not found`)
+    }
+
+    return result
+  }
+
+  /**
+   * Append a price history entry when the purchase details differ from the
+   * most recent entry. Re-saving an unchanged price is a no-op.
+   */
+  private async recordPrice(
+    slug: string,
+    data: IngredientImportData | IngredientResolvedImportData,
+    source: PriceSource,
+    trx: Transaction<DB>
+  ) {
+    const { id } = await trx
+      .selectFrom('Ingredient')
+      .select('id')
+      .where('slug', '=', slug)
+      .executeTakeFirstOrThrow(handleError({ slug }))
+
+    const latest = await trx
+      .selectFrom('IngredientPrice')
+      .select([
+        'purchaseUnit',
+        'purchaseCost',
+        'includesVat',
+        'purchaseCurrency',
+      ])
+      .where('ingredientId', '=', id)
+      .orderBy('effectiveFrom', 'desc')
+      .orderBy('id', 'desc')
+      .executeTakeFirst()
+
+    const includesVat = data.purchase.vat ? 1 : 0
+    const purchaseCurrency = data.purchase.currency ?? null
+    if (
+      latest &&
+      latest.purchaseUnit === data.purchase.unit &&
+      Number(latest.purchaseCost) === data.purchase.cost &&
+      Number(latest.includesVat) === includesVat &&
+      latest.purchaseCurrency === purchaseCurrency
+    )
+      return
+
+    const effectiveFrom = data.purchase.effectiveFrom
+      ? new Date(data.purchase.effectiveFrom)
+      : new Date()
+
+    await trx
+      .insertInto('IngredientPrice')
+      .values({
+        ingredientId: id,
+        purchaseUnit: data.purchase.unit,
+        purchaseCost: data.purchase.cost,
+        includesVat,
+        purchaseCurrency,
+        effectiveFrom: effectiveFrom.toISOString(),
+        source,
+      })
+      .execute()
+  }
+
+  /**
+   * Full price history for an ingredient, newest first.
+   */
+  async priceHistory(
+    slug: string,
+    trx?: Transaction<DB>
+  ): Promise<DBIngredientPrice[]> {
+    return (trx ?? this.database)
+      .selectFrom('IngredientPrice')
+      .innerJoin('Ingredient', 'IngredientPrice.ingredientId', 'Ingredient.id')
+      .selectAll('IngredientPrice')
+      .where('Ingredient.slug', '=', slug)
+      .orderBy('IngredientPrice.effectiveFrom', 'desc')
+      .orderBy('IngredientPrice.id', 'desc')
+      .execute()
+  }
+
+  /**
+   * The price that applied on a given date. Returns `undefined` when no
+   * history exists on or before `asOf`.
+   */
+  async priceAt(
+    slug: string,
+    asOf: Date,
+    trx?: Transaction<DB>
+  ): Promise<DBIngredientPrice | undefined> {
+    return (trx ?? this.database)
+      .selectFrom('IngredientPrice')
+      .innerJoin('Ingredient', 'IngredientPrice.ingredientId', 'Ingredient.id')
+      .selectAll('IngredientPrice')
+      .where('Ingredient.slug', '=', slug)
+      .where('IngredientPrice.effectiveFrom', '<=', asOf.toISOString())
+      .orderBy('IngredientPrice.effectiveFrom', 'desc')
+      .orderBy('IngredientPrice.id', 'desc')
+      .executeTakeFirst()
+  }
+
+  /**
+   * The rate for converting a purchase cost in `currency` into the base
+   * currency on a day, see `ExchangeRateService.rateAt`
+   */
+  exchangeRate(currency: string, asOf?: Date, trx?: Transaction<DB>) {
+    return this.rates.rateAt(currency, asOf, trx)
+  }
+
   async delete(slug: string, trx?: Transaction<DB>) {
     const query = async (trx: Transaction<DB>) => {
       const result = await trx
@@ -263,12 +441,26 @@ export class IngredientService {
         )
       }
 
-      const hasChanged = hasChanges(prev, data, {
+      // Compare the JSON columns in their stored form, whichever way the
+      // driver hands them back
+      const stored = prev && {
+        ...prev,
+        allergens: serialiseAllergens(parseAllergens(prev.allergens)),
+        nutrition: serialiseNutrition(parseNutrition(prev.nutrition)),
+      }
+
+      const hasChanged = hasChanges(stored, data, {
         name: 'name',
         category: 'category',
         purchaseUnit: (data) => data.purchase.unit,
         purchaseCost: (data) => data.purchase.cost,
+        purchaseCurrency: (data) => data.purchase.currency ?? null,
         conversionRule: 'conversionRate',
+        density: 'density',
+        yieldPercent: 'yieldPercent',
+        sku: 'sku',
+        allergens: (data) => serialiseAllergens(data.allergens),
+        nutrition: (data) => serialiseNutrition(data.nutrition),
         notes: 'notes',
         lastPurchased: 'lastPurchased',
       })
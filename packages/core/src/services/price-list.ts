@@ -0,0 +1,222 @@
+import { BadRequest, NotFound } from '@hndlr/errors'
+import type { PriceSource } from '@menubook/types'
+
+import type { DatabaseContext } from '../datastore/context'
+import { parseAllergens } from '../lib/allergens'
+import { parseNutrition } from '../lib/calculation/nutrition'
+import type { SimulationResult } from '../lib/calculation/simulator'
+import { Simulator } from '../lib/calculation/simulator'
+import type { PriceListRow } from '../lib/price-list-csv'
+import type { IngredientImportData } from '../schema'
+import type { ConfigService } from './config'
+import type { DBIngredient, IngredientService } from './ingredient'
+import type { RecipeService } from './recipe'
+import { SupplierService } from './supplier'
+
+export interface PriceListChange {
+  slug: string
+  name: string
+  sku: string | null
+  matchedBy: 'sku' | 'name'
+  /** Line of the price list the change came from */
+  line: number
+  before: { unit: string; cost: number }
+  after: { unit: string; cost: number }
+  /** Percentage change in cost, null when the pack size changed */
+  percent: number | null
+}
+
+export interface PriceListPreview {
+  supplier: string
+  changes: PriceListChange[]
+  /** Slugs of matched ingredients whose price is already up to date */
+  unchanged: string[]
+  /** Rows that matched none of the supplier's ingredients */
+  unmatched: PriceListRow[]
+  /** Margins of the recipes the changes would affect */
+  impact: SimulationResult
+}
+
+interface PriceListDiff {
+  changes: (PriceListChange & { ingredient: DBIngredient })[]
+  unchanged: string[]
+  unmatched: PriceListRow[]
+}
+
+function normaliseName(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Supplier price list updates. Rows are matched to the supplier's
+ * ingredients by SKU first, then by name, and previewed with the margin
+ * impact before they are saved. Prices are read on the same VAT basis, and
+ * in the same currency, as the ingredient's current purchase cost.
+ */
+export class PriceListService {
+  constructor(
+    private context: DatabaseContext,
+    private ingredient: IngredientService,
+    private recipe: RecipeService,
+    private config: ConfigService
+  ) {}
+
+  /**
+   * Work out what a price list would change without saving anything
+   */
+  async preview(
+    supplier: string,
+    rows: PriceListRow[]
+  ): Promise<PriceListPreview> {
+    return this.summarise(supplier, await this.diff(supplier, rows))
+  }
+
+  /**
+   * Save the changes in a price list through `IngredientService.upsert`, so
+   * each one lands in the price history. SKUs are learnt from rows matched
+   * by name. Returns the preview of what was saved.
+   */
+  async apply(
+    supplier: string,
+    rows: PriceListRow[],
+    source: PriceSource = 'import'
+  ): Promise<PriceListPreview> {
+    const diff = await this.diff(supplier, rows)
+    // Margins have to be simulated before the new prices are written
+    const preview = await this.summarise(supplier, diff)
+
+    await this.context.db.transaction().execute(async (trx) => {
+      for (const { ingredient, sku, after } of diff.changes) {
+        const data: IngredientImportData = {
+          name: ingredient.name,
+          category: ingredient.category,
+          purchase: {
+            unit: after.unit,
+            cost: after.cost,
+            // Supplier list prices are ex-VAT, whatever the old price was
+            vat: false,
+            currency: ingredient.purchaseCurrency ?? undefined,
+          },
+          conversionRate: ingredient.conversionRule ?? undefined,
+          density: ingredient.density ?? undefined,
+          yieldPercent:
+            ingredient.yieldPercent == null
+              ? undefined
+              : Number(ingredient.yieldPercent),
+          sku: sku ?? undefined,
+          allergens: parseAllergens(ingredient.allergens),
+          nutrition: parseNutrition(ingredient.nutrition) ?? undefined,
+          notes: ingredient.notes ?? undefined,
+          lastPurchased: ingredient.lastPurchased ?? undefined,
+        }
+
+        await this.ingredient.upsert(
+          ingredient.slug,
+          data,
+          supplier,
+          trx,
+          source
+        )
+      }
+    })
+
+    return preview
+  }
+
+  private async summarise(
+    supplier: string,
+    { changes, unchanged, unmatched }: PriceListDiff
+  ): Promise<PriceListPreview> {
+    const impact: SimulationResult =
+      changes.length === 0
+        ? { overrides: [], recipes: [], belowTarget: [], failures: [] }
+        : await new Simulator(this.recipe, this.ingredient, this.config).run(
+            changes.map((change) => ({
+              type: 'purchase',
+              target: { slug: change.slug },
+              purchase: {
+                ...change.after,
+                currency: change.ingredient.purchaseCurrency,
+              },
+            }))
+          )
+
+    return {
+      supplier,
+      changes: changes.map(({ ingredient, ...change }) => change),
+      unchanged,
+      unmatched,
+      impact,
+    }
+  }
+
+  private async diff(
+    supplier: string,
+    rows: PriceListRow[]
+  ): Promise<PriceListDiff> {
+    if (!(await new SupplierService(this.context).exists(supplier))) {
+      throw new NotFound(`Supplier with slug '${supplier}' not found`)
+    }
+
+    const ingredients = (await this.ingredient.find()).filter(
+      (ingredient) => ingredient.supplierSlug === supplier
+    )
+
+    const bySku = new Map<string, DBIngredient>()
+    const byName = new Map<string, DBIngredient>()
+    for (const ingredient of ingredients) {
+      if (ingredient.sku) bySku.set(ingredient.sku.toLowerCase(), ingredient)
+      byName.set(normaliseName(ingredient.name), ingredient)
+    }
+
+    const changes: PriceListDiff['changes'] = []
+    const unchanged: string[] = []
+    const unmatched: PriceListRow[] = []
+    const seen = new Map<string, number>()
+
+    for (const row of rows) {
+      const sku = row.sku && bySku.get(row.sku.toLowerCase())
+      const ingredient =
+        sku || (row.name && byName.get(normaliseName(row.name)))
+      if (!ingredient) {
+        unmatched.push(row)
+        continue
+      }
+
+      if (seen.has(ingredient.slug)) {
+        throw new BadRequest(
+          `Price list lines ${seen.get(ingredient.slug)} and ${row.line} both match '${ingredient.slug}'`
+        )
+      }
+      seen.set(ingredient.slug, row.line)
+
+      const before = {
+        unit: ingredient.purchaseUnit,
+        cost: Number(ingredient.purchaseCost),
+      }
+      const after = { unit: row.unit ?? before.unit, cost: row.cost }
+
+      if (before.unit === after.unit && before.cost === after.cost) {
+        unchanged.push(ingredient.slug)
+        continue
+      }
+
+      changes.push({
+        ingredient,
+        slug: ingredient.slug,
+        name: ingredient.name,
+        sku: ingredient.sku ?? row.sku ?? null,
+        matchedBy: sku ? 'sku' : 'name',
+        line: row.line,
+        before,
+        after,
+        percent:
+          before.unit === after.unit && before.cost > 0
+            ? ((after.cost - before.cost) / before.cost) * 100
+            : null,
+      })
+    }
+
+    return { changes, unchanged, unmatched }
+  }
+}
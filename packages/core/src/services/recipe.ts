@@ -1,12 +1,38 @@
-import type { ExpressionBuilder } from 'kysely'
+import log from '@harrytwright/logger'
+import { BadRequest, Conflict, NotFound } from '@hndlr/errors'
+import type { ExpressionBuilder, Transaction } from 'kysely'
 
-import type { DB } from '@menubook/types'
+import type {
+  DB,
+  RecipeCostType,
+  RecipeLineDirective,
+  RevisionSource,
+} from '@menubook/types'
 
 import type { CacheAdapter } from '../cache'
 import type { DatabaseContext } from '../datastore/context'
-import type { Recipe, RecipeIngredients } from '../interfaces/database'
+import { handleError } from '../datastore/handleError'
+import type {
+  Recipe,
+  RecipeIngredients,
+  RecipeRevision,
+} from '../interfaces/database'
+import { Calculator } from '../lib/calculation/calculator'
 import { Importer, type ImportOutcome } from '../lib/importer'
-import type { RecipeResolvedImportData } from '../schema'
+import {
+  diffRevisions,
+  type RecipeRevisionData,
+  type RecipeRevisionDiff,
+  type RecipeRevisionEntry,
+  type RecipeRevisionLine,
+} from '../lib/revisions'
+import type {
+  RecipeCostLineResolved,
+  RecipeIngredientResolvedReference,
+  RecipeMethodData,
+  RecipePriceBandData,
+  RecipeResolvedImportData,
+} from '../schema'
 import { hasChanges } from '../utils/has-changes'
 import { ConfigService } from './config'
 import { IngredientService } from './ingredient'
@@ -19,21 +45,94 @@ const CACHE_PATTERNS = {
   dashboard: 'dashboard:*',
 } as const
 
+/** Guards against runaway or circular `extends` chains */
+const MAX_INHERITANCE_DEPTH = 16
+
 export type RecipeIngredientsLookup = Pick<
   RecipeIngredients,
-  'unit' | 'notes'
+  'unit' | 'notes' | 'wastePercent'
 > & {
   name: string | null
   slug: string
   type: 'ingredient' | 'recipe'
+  /** The recipe in the inheritance chain that this line comes from */
+  source: string
+  /** The ancestor whose line this one overrides, if any */
+  overrides: string | null
+}
+
+/**
+ * A non-food cost line, these are kept apart from the ingredients so food
+ * costing, nutrition and allergens never see them
+ */
+export interface RecipeCostLineLookup {
+  type: RecipeCostType
+  /** The packaging item, null for fixed and percent lines */
+  slug: string | null
+  /** The packaging item's name, or the line's own label */
+  name: string
+  /** Quantity of packaging, empty for fixed and percent lines */
+  unit: string
+  notes: string | null
+  /** Pence for fixed lines, a percentage for percent lines */
+  amount: number | null
+  /** The recipe in the inheritance chain that this line comes from */
+  source: string
+}
+
+/**
+ * A named price the recipe also sells at, alongside its `sellPrice`
+ */
+export interface RecipePriceBandLookup {
+  name: string
+  /** What the customer pays in pence, VAT inclusive if `includesVat` */
+  price: number
+  includesVat: number
+  /** Overrides the configured VAT rate, null to use it */
+  vatRate: number | null
+  /** Percentage of the customer price taken by the platform */
+  commission: number | null
+  /** The recipe in the inheritance chain that the bands come from */
+  source: string
+}
+
+/**
+ * An inherited line dropped by a `remove` directive
+ */
+export interface RecipeRemovedLine {
+  slug: string
+  name: string | null
+  type: 'ingredient' | 'recipe'
+  /** The ancestor the line was inherited from */
+  source: string
+  /** The recipe in the chain that removed it */
+  removedBy: string
 }
 
 export type RecipeWithIngredients<WithIngredients extends boolean> = Omit<
   Recipe,
   'parentId'
 > & { parent: string | null } & (WithIngredients extends true
-    ? { ingredients: RecipeIngredientsLookup[] }
-    : { ingredients?: RecipeIngredientsLookup[] })
+    ? {
+        ingredients: RecipeIngredientsLookup[]
+        costs: RecipeCostLineLookup[]
+        bands: RecipePriceBandLookup[]
+      }
+    : {
+        ingredients?: RecipeIngredientsLookup[]
+        costs?: RecipeCostLineLookup[]
+        bands?: RecipePriceBandLookup[]
+      })
+
+/**
+ * A recipe with its inheritance resolved, for showing where each line came
+ * from
+ */
+export type EffectiveRecipe = RecipeWithIngredients<true> & {
+  /** Recipe slugs from the root ancestor down to this recipe */
+  lineage: string[]
+  removed: RecipeRemovedLine[]
+}
 
 export interface RecipeServiceOptions {
   /** Cache adapter for invalidation on mutations */
@@ -68,6 +167,18 @@ export class RecipeService {
     return this.context.db
   }
 
+  /**
+   * The same service reading and writing through `trx`, so a save and the
+   * revision it records are committed together
+   */
+  private withTransaction(trx: Transaction<DB>) {
+    return new RecipeService(
+      { ...this.context, db: trx },
+      this.ingredient.withTransaction(trx),
+      this.config
+    )
+  }
+
   async exists(slug: string) {
     return !!(await this.database
       .selectFrom('Recipe')
@@ -92,6 +203,9 @@ export class RecipeService {
         'Recipe.targetMargin',
         'Recipe.yieldAmount',
         'Recipe.yieldUnit',
+        'Recipe.prepMinutes',
+        'Recipe.cookMinutes',
+        'Recipe.labourRole',
         'ParentRecipe.slug as parent',
       ])
       .execute()
@@ -121,13 +235,13 @@ export class RecipeService {
     slug: string,
     withIngredients: false
   ): Promise<RecipeWithIngredients<false> | undefined>
-  findById(
+  async findById(
     slug: string,
     withIngredients: boolean = true
   ): Promise<
     RecipeWithIngredients<true> | RecipeWithIngredients<false> | undefined
   > {
-    return this.database
+    const recipe = await this.database
       .selectFrom('Recipe')
       .leftJoin('Recipe as ParentRecipe', 'Recipe.parentId', 'ParentRecipe.id')
       .select([
@@ -142,72 +256,248 @@ export class RecipeService {
         'Recipe.targetMargin',
         'Recipe.yieldAmount',
         'Recipe.yieldUnit',
+        'Recipe.prepMinutes',
+        'Recipe.cookMinutes',
+        'Recipe.labourRole',
+        'Recipe.methodSteps',
+        'Recipe.equipment',
+        'Recipe.platingNotes',
+        'Recipe.photos',
         'ParentRecipe.slug as parent',
       ])
-      .$if(withIngredients, (eb) =>
-        eb.select((eb) => [
-          this.context.helpers
-            .jsonArrayFrom(
-              eb
-                .selectFrom('RecipeIngredients')
-                .leftJoin(
-                  'Ingredient',
-                  'RecipeIngredients.ingredientId',
-                  'Ingredient.id'
-                )
-                .leftJoin(
-                  'Recipe as SubRecipe',
-                  'RecipeIngredients.subRecipeId',
-                  'SubRecipe.id'
-                )
-                .select((eb) => [
-                  'RecipeIngredients.unit',
-                  'RecipeIngredients.notes',
-                  // Coalesce to get slug from either Ingredient or SubRecipe
-                  eb
-                    .fn<string>('coalesce', [
-                      eb.ref('Ingredient.slug'),
-                      eb.ref('SubRecipe.slug'),
-                    ])
-                    .as('slug'),
-                  eb
-                    .fn<string>('coalesce', [
-                      eb.ref('Ingredient.name'),
-                      eb.ref('SubRecipe.name'),
-                    ])
-                    .as('name'),
-                  // Type discriminator: if ingredientId is not null, it's an ingredient
-                  eb
-                    .case()
-                    .when('RecipeIngredients.ingredientId', 'is not', null)
-                    .then(eb.val<'ingredient' | 'recipe'>('ingredient'))
-                    .else(eb.val<'ingredient' | 'recipe'>('recipe'))
-                    .end()
-                    .as('type'),
-                ])
-                .where((eb) =>
-                  eb.or([
-                    eb(
-                      'RecipeIngredients.recipeId',
-                      '=',
-                      eb.ref('Recipe.parentId')
-                    ),
-                    eb('RecipeIngredients.recipeId', '=', eb.ref('Recipe.id')),
-                  ])
-                )
-            )
-            .as('ingredients'),
-        ])
-      )
       .where('Recipe.slug', '=', slug)
       .executeTakeFirst()
+
+    if (!recipe || !withIngredients) return recipe
+
+    const { ingredients, costs } = await this.resolveIngredients(recipe.id)
+    const bands = await this.priceBands(recipe.id)
+    return { ...recipe, ingredients, costs, bands }
+  }
+
+  /**
+   * Resolve a recipe's full inheritance chain, keeping track of which
+   * ancestor each line came from and which lines were removed on the way.
+   */
+  async effective(slug: string): Promise<EffectiveRecipe> {
+    const recipe = await this.findById(slug, false)
+    if (!recipe) {
+      throw new NotFound(`Recipe with slug '${slug}' not found`)
+    }
+
+    return {
+      ...recipe,
+      ...(await this.resolveIngredients(recipe.id)),
+      bands: await this.priceBands(recipe.id),
+    }
+  }
+
+  /**
+   * The recipes from the root ancestor down to (and including) this one
+   */
+  private async lineage(recipeId: number) {
+    const chain: { id: number; slug: string }[] = []
+
+    let id: number | null = recipeId
+    while (id !== null) {
+      if (chain.length >= MAX_INHERITANCE_DEPTH) {
+        throw new Error(
+          `Recipe '${chain[0].slug}' has more than ${MAX_INHERITANCE_DEPTH} ancestors, ` +
+            `check its 'extends' chain for a cycle`
+        )
+      }
+
+      const row: { id: number; slug: string; parentId: number | null } =
+        await this.database
+          .selectFrom('Recipe')
+          .select(['id', 'slug', 'parentId'])
+          .where('id', '=', id)
+          .executeTakeFirstOrThrow(handleError({ recipeId: id }))
+
+      chain.unshift({ id: row.id, slug: row.slug })
+      id = row.parentId
+    }
+
+    return chain
+  }
+
+  /**
+   * Apply each recipe's lines in the chain in turn, root first. `add` lines
+   * are appended, `override` replaces the inherited lines with the same slug
+   * in place, and `remove` drops them. Cost lines are only ever added.
+   */
+  private async resolveIngredients(recipeId: number) {
+    const lineage = await this.lineage(recipeId)
+
+    const rows = await this.database
+      .selectFrom('RecipeIngredients')
+      .innerJoin('Recipe as Owner', 'RecipeIngredients.recipeId', 'Owner.id')
+      .leftJoin('Ingredient', 'RecipeIngredients.ingredientId', 'Ingredient.id')
+      .leftJoin(
+        'Recipe as SubRecipe',
+        'RecipeIngredients.subRecipeId',
+        'SubRecipe.id'
+      )
+      .select((eb) => [
+        'RecipeIngredients.unit',
+        'RecipeIngredients.notes',
+        'RecipeIngredients.wastePercent',
+        'RecipeIngredients.directive',
+        'RecipeIngredients.costType',
+        'RecipeIngredients.amount',
+        'Owner.slug as source',
+        // Coalesce to get slug from either Ingredient or SubRecipe
+        eb
+          .fn<string>('coalesce', [
+            eb.ref('Ingredient.slug'),
+            eb.ref('SubRecipe.slug'),
+          ])
+          .as('slug'),
+        eb
+          .fn<string>('coalesce', [
+            eb.ref('Ingredient.name'),
+            eb.ref('SubRecipe.name'),
+            eb.ref('RecipeIngredients.label'),
+          ])
+          .as('name'),
+        // Type discriminator: if ingredientId is not null, it's an ingredient
+        eb
+          .case()
+          .when('RecipeIngredients.ingredientId', 'is not', null)
+          .then(eb.val<'ingredient' | 'recipe'>('ingredient'))
+          .else(eb.val<'ingredient' | 'recipe'>('recipe'))
+          .end()
+          .as('type'),
+      ])
+      .where(
+        'RecipeIngredients.recipeId',
+        'in',
+        lineage.map((recipe) => recipe.id)
+      )
+      .orderBy('RecipeIngredients.id')
+      .execute()
+
+    let ingredients: RecipeIngredientsLookup[] = []
+    const costs: RecipeCostLineLookup[] = []
+    const removed: RecipeRemovedLine[] = []
+
+    for (const recipe of lineage) {
+      const inherited = ingredients
+      ingredients = [...inherited]
+
+      for (const { directive, costType, amount, ...row } of rows) {
+        if (row.source !== recipe.slug) continue
+
+        if (costType) {
+          costs.push({
+            type: costType,
+            slug: costType === 'packaging' ? row.slug : null,
+            name: row.name,
+            unit: row.unit,
+            notes: row.notes,
+            amount: amount === null ? null : Number(amount),
+            source: row.source,
+          })
+          continue
+        }
+
+        const line: RecipeIngredientsLookup = {
+          ...row,
+          wastePercent:
+            row.wastePercent === null ? null : Number(row.wastePercent),
+          overrides: null,
+        }
+
+        if (directive === 'add') {
+          ingredients.push(line)
+          continue
+        }
+
+        // The ancestor has since dropped the line, an override then stands
+        // on its own and there is nothing left to remove
+        const replaced = inherited.filter((prev) => prev.slug === line.slug)
+        if (replaced.length === 0) {
+          if (directive === 'override') ingredients.push(line)
+          continue
+        }
+
+        const at = ingredients.indexOf(replaced[0])
+        ingredients = ingredients.filter((prev) => !replaced.includes(prev))
+
+        if (directive === 'override') {
+          ingredients.splice(at, 0, {
+            ...line,
+            overrides: replaced[0].source,
+          })
+        } else {
+          removed.push(
+            ...replaced.map((prev) => ({
+              slug: prev.slug,
+              name: prev.name,
+              type: prev.type,
+              source: prev.source,
+              removedBy: recipe.slug,
+            }))
+          )
+        }
+      }
+    }
+
+    return {
+      lineage: lineage.map((recipe) => recipe.slug),
+      ingredients,
+      costs,
+      removed,
+    }
+  }
+
+  /**
+   * The recipe's own price bands, or else those of its nearest ancestor that
+   * has any. Bands are replaced as a set rather than merged line by line.
+   */
+  private async priceBands(recipeId: number): Promise<RecipePriceBandLookup[]> {
+    const lineage = await this.lineage(recipeId)
+
+    const rows = await this.database
+      .selectFrom('RecipePriceBand')
+      .innerJoin('Recipe as Owner', 'RecipePriceBand.recipeId', 'Owner.id')
+      .select([
+        'RecipePriceBand.name',
+        'RecipePriceBand.price',
+        'RecipePriceBand.includesVat',
+        'RecipePriceBand.vatRate',
+        'RecipePriceBand.commission',
+        'Owner.slug as source',
+      ])
+      .where(
+        'RecipePriceBand.recipeId',
+        'in',
+        lineage.map((recipe) => recipe.id)
+      )
+      .orderBy('RecipePriceBand.id')
+      .execute()
+
+    for (const recipe of [...lineage].reverse()) {
+      const own = rows.filter((row) => row.source === recipe.slug)
+      if (own.length === 0) continue
+
+      return own.map((row) => ({
+        ...row,
+        vatRate: row.vatRate === null ? null : Number(row.vatRate),
+        commission: row.commission === null ? null : Number(row.commission),
+      }))
+    }
+
+    return []
   }
 
   async upsert(
     slug: string,
     data: RecipeResolvedImportData,
-    defaultPriceIncludesVat: boolean = true
+    defaultPriceIncludesVat: boolean = true,
+    trx?: Transaction<DB>
   ) {
+    const database = trx ?? this.database
     const canUseParentData = !!data.parentSlug
 
     // In theory, we should not get here, but a last resort
@@ -228,7 +518,7 @@ export class RecipeService {
           ? 1
           : 0
 
-    const result = await this.database
+    const result = await database
       .insertInto('Recipe')
       .values((eb) => ({
         slug,
@@ -258,6 +548,10 @@ export class RecipeService {
                 .select('Recipe.yieldUnit')
                 .where('Recipe.slug', '=', data.parentSlug!)
             : data.yieldUnit,
+        prepMinutes: data.labour?.prepMinutes ?? null,
+        cookMinutes: data.labour?.cookMinutes ?? null,
+        labourRole: data.labour?.role ?? null,
+        ...methodColumns(data.method),
         parentId: data.parentSlug
           ? eb
               .selectFrom('Recipe')
@@ -282,46 +576,456 @@ export class RecipeService {
           targetMargin: data.costing?.margin,
           yieldAmount: data.yieldAmount,
           yieldUnit: data.yieldUnit,
+          prepMinutes: data.labour?.prepMinutes ?? null,
+          cookMinutes: data.labour?.cookMinutes ?? null,
+          labourRole: data.labour?.role ?? null,
+          ...methodColumns(data.method),
         }))
       )
       .returning('id')
       .executeTakeFirst()
 
+    if (result) {
+      await database
+        .deleteFrom('RecipePriceBand')
+        .where('recipeId', '=', result.id)
+        .execute()
+
+      // Bands without their own VAT setting follow the recipe's
+      for (const band of data.costing?.bands ?? []) {
+        await database
+          .insertInto('RecipePriceBand')
+          .values({
+            recipeId: result.id,
+            name: band.name,
+            price: band.price,
+            includesVat:
+              band.vat === undefined ? includesVat : band.vat === false ? 0 : 1,
+            vatRate: typeof band.vat === 'number' ? band.vat : null,
+            commission: band.commission ?? null,
+          })
+          .execute()
+      }
+    }
+
     // Invalidate cache after mutation
     await this.invalidateCache()
 
     return result?.id
   }
 
-  async upsertIngredients(recipeId: number, data: RecipeResolvedImportData) {
-    // Delete existing ingredients
-    await this.database
-      .deleteFrom('RecipeIngredients')
+  async upsertIngredients(
+    recipeId: number,
+    data: RecipeResolvedImportData,
+    source: RevisionSource = 'import',
+    author?: string,
+    trx?: Transaction<DB>
+  ) {
+    const lines = await (trx ? this.withTransaction(trx) : this).withDirectives(
+      data
+    )
+
+    const query = async (trx: Transaction<DB>) => {
+      // Delete existing ingredients
+      await trx
+        .deleteFrom('RecipeIngredients')
+        .where('recipeId', '=', recipeId)
+        .execute()
+
+      // Insert recipe ingredients
+      for (const ing of lines) {
+        const query = (eb: ExpressionBuilder<DB, 'RecipeIngredients'>) => {
+          const database: keyof DB =
+            ing.type === 'ingredient' ? 'Ingredient' : 'Recipe'
+          return eb
+            .selectFrom(database)
+            .select(`${database}.id`)
+            .where(`${database}.slug`, '=', ing.slug)
+        }
+
+        await trx
+          .insertInto('RecipeIngredients')
+          .values((eb) => ({
+            recipeId,
+            ingredientId: ing.type === 'ingredient' ? query(eb) : undefined,
+            subRecipeId: ing.type === 'recipe' ? query(eb) : undefined,
+            unit: ing.with.unit,
+            notes: ing.with.notes,
+            wastePercent: ing.with.wastePercent ?? null,
+            directive: ing.directive,
+          }))
+          .execute()
+      }
+
+      for (const line of data.costs ?? []) {
+        await trx
+          .insertInto('RecipeIngredients')
+          .values((eb) => ({
+            recipeId,
+            costType: line.type,
+            ...(line.type === 'packaging'
+              ? {
+                  ingredientId: eb
+                    .selectFrom('Ingredient')
+                    .select('Ingredient.id')
+                    .where('Ingredient.slug', '=', line.slug),
+                  unit: line.with.unit,
+                  notes: line.with.notes,
+                }
+              : {
+                  unit: '',
+                  label: line.name,
+                  amount: line.type === 'fixed' ? line.pence : line.percent,
+                }),
+          }))
+          .execute()
+      }
+
+      await this.withTransaction(trx).recordRevision(recipeId, source, author)
+    }
+
+    return trx ? query(trx) : this.database.transaction().execute(query)
+  }
+
+  /**
+   * Flatten a recipe's own lines, overrides and removals into the rows to
+   * store. Overrides and removals must match a line inherited from the
+   * parent, and take their type from it.
+   */
+  private async withDirectives(data: RecipeResolvedImportData) {
+    const remove = data.remove ?? []
+    const override = data.override ?? []
+
+    const lines: (RecipeIngredientResolvedReference & {
+      directive: RecipeLineDirective
+    })[] = data.ingredients.map((ing) => ({ ...ing, directive: 'add' }))
+
+    if (remove.length === 0 && override.length === 0) return lines
+
+    if (!data.parentSlug) {
+      throw new BadRequest(
+        `Recipe '${data.slug}' can only remove or override the ingredients it inherits, ` +
+          `use 'extends' to set a parent recipe`
+      )
+    }
+
+    const parent = await this.findById(data.parentSlug)
+    const inherited = (slug: string, directive: RecipeLineDirective) => {
+      const line = parent?.ingredients.find((line) => line.slug === slug)
+      if (!line) {
+        throw new BadRequest(
+          `Cannot ${directive} '${slug}' in recipe '${data.slug}', ` +
+            `it is not inherited from '${data.parentSlug}'`
+        )
+      }
+      return line
+    }
+
+    for (const ing of override) {
+      const { type } = inherited(ing.slug, 'override')
+      lines.push({ ...ing, type, directive: 'override' })
+    }
+
+    for (const slug of remove) {
+      const { type } = inherited(slug, 'remove')
+      lines.push({ slug, type, with: { unit: '' }, directive: 'remove' })
+    }
+
+    return lines
+  }
+
+  /**
+   * Replace a recipe's method, steps, equipment, plating notes and photos,
+   * leaving its costing alone
+   */
+  async updateMethod(
+    slug: string,
+    method?: RecipeMethodData,
+    source: RevisionSource = 'import',
+    author?: string
+  ) {
+    await this.database.transaction().execute(async (trx) => {
+      const recipe = await trx
+        .updateTable('Recipe')
+        .set(methodColumns(method))
+        .where('slug', '=', slug)
+        .returning('id')
+        .executeTakeFirstOrThrow(handleError({ slug }))
+
+      await this.withTransaction(trx).recordRevision(recipe.id, source, author)
+    })
+  }
+
+  /**
+   * Set a recipe's sell price (in pence) without touching anything else, on
+   * the same VAT basis as the price it replaces.
+   */
+  async updateSellPrice(
+    slug: string,
+    sellPrice: number,
+    source: RevisionSource = 'import',
+    author?: string
+  ) {
+    await this.database.transaction().execute(async (trx) => {
+      const recipe = await trx
+        .updateTable('Recipe')
+        .set({ sellPrice })
+        .where('slug', '=', slug)
+        .returning('id')
+        .executeTakeFirstOrThrow(handleError({ slug }))
+
+      await this.withTransaction(trx).recordRevision(recipe.id, source, author)
+    })
+
+    await this.invalidateCache()
+  }
+
+  /**
+   * Write an immutable snapshot of the recipe as it stands now. Called at the
+   * end of every save, inside its transaction, so the latest revision always
+   * matches the database.
+   */
+  private async recordRevision(
+    recipeId: number,
+    source: RevisionSource,
+    author?: string
+  ) {
+    const recipe = await this.database
+      .selectFrom('Recipe')
+      .leftJoin('Recipe as ParentRecipe', 'Recipe.parentId', 'ParentRecipe.id')
+      .select([
+        'Recipe.slug',
+        'Recipe.name',
+        'Recipe.stage',
+        'Recipe.class',
+        'Recipe.category',
+        'Recipe.sellPrice',
+        'Recipe.includesVat',
+        'Recipe.targetMargin',
+        'Recipe.yieldAmount',
+        'Recipe.yieldUnit',
+        'Recipe.prepMinutes',
+        'Recipe.cookMinutes',
+        'Recipe.labourRole',
+        'Recipe.methodSteps',
+        'Recipe.equipment',
+        'Recipe.platingNotes',
+        'Recipe.photos',
+        'ParentRecipe.slug as parent',
+      ])
+      .where('Recipe.id', '=', recipeId)
+      .executeTakeFirstOrThrow(handleError({ recipeId }))
+
+    const ingredients: RecipeRevisionLine[] = await this.database
+      .selectFrom('RecipeIngredients')
+      .leftJoin('Ingredient', 'RecipeIngredients.ingredientId', 'Ingredient.id')
+      .leftJoin(
+        'Recipe as SubRecipe',
+        'RecipeIngredients.subRecipeId',
+        'SubRecipe.id'
+      )
+      .select((eb) => [
+        eb
+          .fn<string>('coalesce', [
+            eb.ref('Ingredient.slug'),
+            eb.ref('SubRecipe.slug'),
+          ])
+          .as('slug'),
+        eb
+          .case()
+          .when('RecipeIngredients.ingredientId', 'is not', null)
+          .then(eb.val<'ingredient' | 'recipe'>('ingredient'))
+          .else(eb.val<'ingredient' | 'recipe'>('recipe'))
+          .end()
+          .as('type'),
+        'RecipeIngredients.unit',
+        'RecipeIngredients.notes',
+        'RecipeIngredients.wastePercent',
+        'RecipeIngredients.directive',
+      ])
+      .where('RecipeIngredients.recipeId', '=', recipeId)
+      .where('RecipeIngredients.costType', 'is', null)
+      .orderBy('RecipeIngredients.id')
+      .execute()
+
+    const { costs } = await this.resolveIngredients(recipeId)
+    const bands = await this.priceBands(recipeId)
+
+    // A recipe can be saved before it is costable (bad units, missing
+    // sub-recipe yields), that should not block the save itself
+    let totalCost: number | null = null
+    try {
+      const calculator = new Calculator(this, this.ingredient, this.config)
+      totalCost = (await calculator.cost(recipe.slug)).totalCost
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error)
+      log.warn(
+        'recipe',
+        `Recording '${recipe.slug}' without a cost, it could not be costed: ${errorMsg}`
+      )
+    }
+
+    const { slug, methodSteps, equipment, platingNotes, photos, ...fields } =
+      recipe
+    const data: RecipeRevisionData = {
+      ...fields,
+      yieldAmount:
+        fields.yieldAmount === null ? null : Number(fields.yieldAmount),
+      method: methodData({ methodSteps, equipment, platingNotes, photos }),
+      costs: costLinesData({ slug, costs }),
+      bands: priceBandsData({ slug, bands }),
+    }
+
+    const latest = await this.database
+      .selectFrom('RecipeRevision')
+      .select((eb) => eb.fn.max('revision').as('revision'))
       .where('recipeId', '=', recipeId)
+      .executeTakeFirst()
+
+    await this.database
+      .insertInto('RecipeRevision')
+      .values({
+        recipeId,
+        revision: Number(latest?.revision ?? 0) + 1,
+        data: JSON.stringify(data),
+        ingredients: JSON.stringify(ingredients),
+        totalCost,
+        source,
+        author: author ?? null,
+      })
+      .execute()
+  }
+
+  /**
+   * All revisions of a recipe, newest first.
+   */
+  async revisions(slug: string): Promise<RecipeRevisionEntry[]> {
+    const rows = await this.database
+      .selectFrom('RecipeRevision')
+      .innerJoin('Recipe', 'RecipeRevision.recipeId', 'Recipe.id')
+      .selectAll('RecipeRevision')
+      .where('Recipe.slug', '=', slug)
+      .orderBy('RecipeRevision.revision', 'desc')
       .execute()
 
-    // Insert recipe ingredients
-    for (const ing of data.ingredients) {
-      const query = (eb: ExpressionBuilder<DB, 'RecipeIngredients'>) => {
-        const database: keyof DB =
-          ing.type === 'ingredient' ? 'Ingredient' : 'Recipe'
-        return eb
-          .selectFrom(database)
-          .select(`${database}.id`)
-          .where(`${database}.slug`, '=', ing.slug)
+    return rows.map(toRevisionEntry)
+  }
+
+  async findRevision(
+    slug: string,
+    revision: number
+  ): Promise<RecipeRevisionEntry> {
+    const row = await this.database
+      .selectFrom('RecipeRevision')
+      .innerJoin('Recipe', 'RecipeRevision.recipeId', 'Recipe.id')
+      .selectAll('RecipeRevision')
+      .where('Recipe.slug', '=', slug)
+      .where('RecipeRevision.revision', '=', revision)
+      .executeTakeFirstOrThrow(handleError({ slug, revision }))
+
+    return toRevisionEntry(row)
+  }
+
+  async diffRevisions(
+    slug: string,
+    from: number,
+    to: number
+  ): Promise<RecipeRevisionDiff> {
+    return diffRevisions(
+      await this.findRevision(slug, from),
+      await this.findRevision(slug, to)
+    )
+  }
+
+  /**
+   * Restore a recipe to an earlier revision. This is a save in its own right,
+   * so it records a new revision rather than rewriting history.
+   */
+  async rollback(
+    slug: string,
+    revision: number,
+    source: RevisionSource = 'import',
+    author?: string
+  ): Promise<RecipeRevisionEntry> {
+    const { data, ingredients } = await this.findRevision(slug, revision)
+
+    const packaging = (data.costs ?? []).flatMap((line) =>
+      line.type === 'packaging'
+        ? [{ type: 'ingredient' as const, slug: line.slug }]
+        : []
+    )
+
+    for (const line of [...ingredients, ...packaging]) {
+      const exists = await this.database
+        .selectFrom(line.type === 'ingredient' ? 'Ingredient' : 'Recipe')
+        .select('id')
+        .where('slug', '=', line.slug)
+        .executeTakeFirst()
+
+      if (!exists) {
+        throw new Conflict(
+          `Cannot roll back recipe '${slug}' to revision ${revision}, ` +
+            `${line.type} '${line.slug}' no longer exists`
+        )
       }
+    }
 
-      await this.database
-        .insertInto('RecipeIngredients')
-        .values((eb) => ({
-          recipeId,
-          ingredientId: ing.type === 'ingredient' ? query(eb) : undefined,
-          subRecipeId: ing.type === 'recipe' ? query(eb) : undefined,
-          unit: ing.with.unit,
-          notes: ing.with.notes,
-        }))
-        .execute()
+    const restored: RecipeResolvedImportData = {
+      slug,
+      name: data.name,
+      stage: data.stage,
+      class: data.class,
+      category: data.category ?? undefined,
+      parentSlug: data.parent ?? undefined,
+      costing: {
+        price: data.sellPrice,
+        margin: data.targetMargin,
+        vat: data.includesVat === 1,
+        bands: data.bands,
+      },
+      yieldAmount: data.yieldAmount ?? undefined,
+      yieldUnit: data.yieldUnit ?? undefined,
+      labour: labourData(data),
+      method: data.method,
+      costs: data.costs,
+      ingredients: [],
+      remove: [],
+      override: [],
+    }
+
+    // Revisions recorded before directives existed only have their own lines
+    for (const line of ingredients) {
+      const ing: RecipeIngredientResolvedReference = {
+        slug: line.slug,
+        type: line.type,
+        with: {
+          unit: line.unit,
+          notes: line.notes ?? undefined,
+          wastePercent: line.wastePercent ?? undefined,
+        },
+      }
+
+      switch (line.directive ?? 'add') {
+        case 'add':
+          restored.ingredients.push(ing)
+          break
+        case 'override':
+          restored.override!.push(ing)
+          break
+        case 'remove':
+          restored.remove!.push(line.slug)
+          break
+      }
     }
+
+    await this.database.transaction().execute(async (trx) => {
+      const recipeId = await this.upsert(slug, restored, true, trx)
+      if (!recipeId) throw new Error('Failed to get recipe ID after upsert')
+
+      await this.upsertIngredients(recipeId, restored, source, author, trx)
+    })
+
+    return (await this.revisions(slug))[0]
   }
 
   async delete(slug: string) {
@@ -386,10 +1090,33 @@ export class RecipeService {
         ? prev.ingredients
         : JSON.stringify(prev?.ingredients || [])
     const newIngredients = JSON.stringify(data.ingredients)
+    const costsChanged =
+      JSON.stringify(costLinesData({ slug: data.slug, costs: prev?.costs })) !==
+      JSON.stringify(data.costs?.length ? data.costs : undefined)
+    // Bands that follow the recipe's VAT setting are stored with it resolved
+    const bands = data.costing?.bands?.map((band) => ({
+      name: band.name,
+      price: band.price,
+      vat: band.vat ?? includesVat === 1,
+      ...(band.commission !== undefined && { commission: band.commission }),
+    }))
+    const bandsChanged =
+      JSON.stringify(
+        priceBandsData({ slug: data.slug, bands: prev?.bands })
+      ) !== JSON.stringify(bands?.length ? bands : undefined)
+
+    // Both sides go through the stored form, so key order and empty lists
+    // don't count as changes
+    const methodChanged =
+      JSON.stringify(prev && methodData(prev)) !==
+      JSON.stringify(methodData(methodColumns(data.method)))
 
     // Check if any mutable fields have changed
     const hasChanged =
       prevIngredients !== newIngredients ||
+      costsChanged ||
+      bandsChanged ||
+      methodChanged ||
       hasChanges(prev, data, {
         name: 'name',
         stage: 'stage',
@@ -400,18 +1127,174 @@ export class RecipeService {
         targetMargin: (data) => data.costing?.margin,
         yieldAmount: 'yieldAmount',
         yieldUnit: 'yieldUnit',
+        prepMinutes: (data) => data.labour?.prepMinutes ?? null,
+        cookMinutes: (data) => data.labour?.cookMinutes ?? null,
+        labourRole: (data) => data.labour?.role ?? null,
       })
 
     if (prev && !hasChanged) {
       return 'ignored'
     }
 
-    const recipeId = await this.upsert(data.slug, data, defaultPriceIncludesVat)
+    // The recipe, its lines and the revision land together or not at all
+    await this.database.transaction().execute(async (trx) => {
+      const recipeId = await this.upsert(
+        data.slug,
+        data,
+        defaultPriceIncludesVat,
+        trx
+      )
 
-    if (!recipeId) throw new Error('Failed to get recipe ID after upsert')
+      if (!recipeId) throw new Error('Failed to get recipe ID after upsert')
 
-    await this.upsertIngredients(recipeId, data)
+      await this.upsertIngredients(recipeId, data, 'import', undefined, trx)
+    })
 
     return prev ? 'upserted' : 'created'
   }
 }
+
+function toRevisionEntry(row: RecipeRevision): RecipeRevisionEntry {
+  // SQLite's JSON plugin parses these for us, other drivers return the raw text
+  const parse = <T>(value: unknown): T =>
+    typeof value === 'string' ? JSON.parse(value) : (value as T)
+
+  return {
+    revision: row.revision,
+    data: parse<RecipeRevisionData>(row.data),
+    ingredients: parse<RecipeRevisionLine[]>(row.ingredients),
+    totalCost: row.totalCost,
+    source: row.source,
+    author: row.author,
+    createdAt: row.createdAt,
+  }
+}
+
+/**
+ * A recipe's labour columns in their import form, undefined when none are set
+ */
+export function labourData(recipe: {
+  prepMinutes?: number | null
+  cookMinutes?: number | null
+  labourRole?: string | null
+}): RecipeResolvedImportData['labour'] {
+  const { prepMinutes, cookMinutes, labourRole } = recipe
+  if (prepMinutes == null && cookMinutes == null && !labourRole)
+    return undefined
+
+  return {
+    prepMinutes: prepMinutes ?? undefined,
+    cookMinutes: cookMinutes ?? undefined,
+    role: labourRole ?? undefined,
+  }
+}
+
+/**
+ * The stored form of a recipe's method, each part null when it is empty
+ */
+export function methodColumns(method?: RecipeMethodData) {
+  const steps = method?.steps?.map(({ step, holdMinutes }) => ({
+    step,
+    holdMinutes,
+  }))
+  const photos = method?.photos?.map(({ path, caption }) => ({
+    path,
+    caption,
+  }))
+
+  return {
+    methodSteps: steps?.length ? JSON.stringify(steps) : null,
+    equipment: method?.equipment?.length
+      ? JSON.stringify(method.equipment)
+      : null,
+    platingNotes: method?.plating || null,
+    photos: photos?.length ? JSON.stringify(photos) : null,
+  }
+}
+
+/**
+ * A recipe's method columns in their import form, undefined when none are set
+ */
+export function methodData(recipe: {
+  methodSteps?: unknown
+  equipment?: unknown
+  platingNotes?: string | null
+  photos?: unknown
+}): RecipeMethodData | undefined {
+  // SQLite's JSON plugin parses these for us, other drivers return the raw text
+  const parse = <T>(value: unknown): T[] | undefined =>
+    value == null
+      ? undefined
+      : typeof value === 'string'
+        ? JSON.parse(value)
+        : (value as T[])
+
+  const steps = parse<NonNullable<RecipeMethodData['steps']>[number]>(
+    recipe.methodSteps
+  )
+  const equipment = parse<string>(recipe.equipment)
+  const photos = parse<NonNullable<RecipeMethodData['photos']>[number]>(
+    recipe.photos
+  )
+  if (!steps && !equipment && !recipe.platingNotes && !photos) return undefined
+
+  return {
+    steps,
+    equipment,
+    plating: recipe.platingNotes ?? undefined,
+    photos,
+  }
+}
+
+/**
+ * A recipe's own cost lines in their import form, undefined when it has none.
+ * Lines inherited from a parent are left to the parent.
+ */
+export function costLinesData(recipe: {
+  slug: string
+  costs?: RecipeCostLineLookup[]
+}): RecipeCostLineResolved[] | undefined {
+  const lines = (recipe.costs ?? [])
+    .filter((line) => line.source === recipe.slug)
+    .map((line): RecipeCostLineResolved => {
+      switch (line.type) {
+        case 'packaging':
+          return {
+            type: 'packaging',
+            slug: line.slug!,
+            with: { unit: line.unit, notes: line.notes ?? undefined },
+          }
+        case 'fixed':
+          return { type: 'fixed', name: line.name, pence: line.amount ?? 0 }
+        case 'percent':
+          return {
+            type: 'percent',
+            name: line.name,
+            percent: line.amount ?? 0,
+          }
+      }
+    })
+
+  return lines.length ? lines : undefined
+}
+
+/**
+ * A recipe's own price bands in their import form, undefined when it has none
+ * of its own. `vat` is always written out, so it no longer depends on the
+ * recipe's setting.
+ */
+export function priceBandsData(recipe: {
+  slug: string
+  bands?: RecipePriceBandLookup[]
+}): RecipePriceBandData[] | undefined {
+  const bands = (recipe.bands ?? [])
+    .filter((band) => band.source === recipe.slug)
+    .map((band) => ({
+      name: band.name,
+      price: band.price,
+      vat: band.includesVat !== 1 ? false : (band.vatRate ?? true),
+      ...(band.commission !== null && { commission: band.commission }),
+    }))
+
+  return bands.length ? bands : undefined
+}
@@ -0,0 +1,368 @@
+import { BadRequest } from '@hndlr/errors'
+import type { DB, SaleSource } from '@menubook/types'
+import type { Kysely, Transaction } from 'kysely'
+
+import type { DatabaseContext } from '../datastore/context'
+import { handleError } from '../datastore/handleError'
+import type { ImportOutcome, Importer } from '../lib/importer'
+import type { SalesResolvedImportData } from '../schema'
+import { slugify } from '../utils/slugify'
+
+/**
+ * A date range to report sales over, both ends inclusive. Either end can be
+ * left open.
+ */
+export interface SalesPeriod {
+  from?: string | Date
+  to?: string | Date
+}
+
+export interface SaleEntry {
+  /** Portions sold over the period */
+  quantity: number
+  periodStart: string | Date
+  periodEnd: string | Date
+  /** Gross takings over the period, in pence */
+  revenue?: number | null
+  source?: SaleSource
+}
+
+/**
+ * Normalise a date to the YYYY-MM-DD form sales periods are stored in
+ */
+export function toSalesDay(value: string | Date): string {
+  const date = value instanceof Date ? value : new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new BadRequest(`Invalid date '${value}'`)
+  }
+  return date.toISOString().slice(0, 10)
+}
+
+export class SalesService {
+  constructor(private context: DatabaseContext) {}
+
+  private get database() {
+    return this.context.db
+  }
+
+  /**
+   * Record the number of portions of a recipe sold over a period
+   */
+  async record(slug: string, entry: SaleEntry, trx?: Transaction<DB>) {
+    if (!Number.isInteger(entry.quantity) || entry.quantity < 0) {
+      throw new BadRequest(
+        `Invalid quantity '${entry.quantity}', expected a whole number of portions`
+      )
+    }
+
+    const periodStart = toSalesDay(entry.periodStart)
+    const periodEnd = toSalesDay(entry.periodEnd)
+    if (periodEnd < periodStart) {
+      throw new BadRequest(
+        `Sales period ends (${periodEnd}) before it starts (${periodStart})`
+      )
+    }
+
+    const db = trx ?? this.database
+    const { id: recipeId } = await db
+      .selectFrom('Recipe')
+      .select('id')
+      .where('slug', '=', slug)
+      .executeTakeFirstOrThrow(handleError({ slug }))
+
+    return db
+      .insertInto('RecipeSale')
+      .values({
+        recipeId,
+        periodStart,
+        periodEnd,
+        quantity: entry.quantity,
+        revenue: entry.revenue,
+        source: entry.source,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Importer processor for POS sales exports. Rows are totalled per recipe
+   * and day (or per recipe over the import period when rows have no date),
+   * replacing anything a previous import of the same period recorded, so
+   * re-importing an export is safe. Rows for items that are not mapped to
+   * a recipe are skipped and left in `unmapped()`.
+   */
+  async processor(
+    importer: Importer,
+    data: SalesResolvedImportData,
+    filePath: string | undefined,
+    trx?: Transaction<DB>
+  ): Promise<ImportOutcome> {
+    const query = async (trx: Transaction<DB>) => {
+      const mappings = await this.resolveItems(
+        data.rows.map((row) => row.item),
+        trx
+      )
+
+      const totals = new Map<
+        string,
+        {
+          recipeId: number
+          periodStart: string
+          periodEnd: string
+          quantity: number
+          revenue?: number
+        }
+      >()
+
+      for (const row of data.rows) {
+        const recipeId = mappings.get(row.item)
+        if (!recipeId) continue
+
+        const from = row.date ?? data.period?.from
+        const to = row.date ?? data.period?.to
+        if (!from || !to) {
+          throw new BadRequest(
+            `Sales for '${row.item}' have no date, give the period the export covers`
+          )
+        }
+
+        const periodStart = toSalesDay(from)
+        const periodEnd = toSalesDay(to)
+        const key = `${recipeId}:${periodStart}:${periodEnd}`
+        const total = totals.get(key) ?? {
+          recipeId,
+          periodStart,
+          periodEnd,
+          quantity: 0,
+        }
+
+        total.quantity += row.quantity
+        if (row.revenue !== undefined) {
+          total.revenue = (total.revenue ?? 0) + row.revenue
+        }
+        totals.set(key, total)
+      }
+
+      let outcome: ImportOutcome = 'ignored'
+      for (const total of totals.values()) {
+        const { recipeId, periodStart, periodEnd, quantity, revenue } = total
+        if (!Number.isInteger(quantity) || quantity < 0) {
+          throw new BadRequest(
+            `Invalid quantity '${quantity}' for ${periodStart}, expected a whole number of portions`
+          )
+        }
+
+        const previous = await trx
+          .selectFrom('RecipeSale')
+          .select(['id', 'quantity', 'revenue'])
+          .where('recipeId', '=', recipeId)
+          .where('periodStart', '=', periodStart)
+          .where('periodEnd', '=', periodEnd)
+          .where('source', '=', 'import')
+          .execute()
+
+        if (
+          previous.length === 1 &&
+          previous[0].quantity === quantity &&
+          (previous[0].revenue ?? undefined) === revenue
+        ) {
+          continue
+        }
+
+        if (previous.length) {
+          await trx
+            .deleteFrom('RecipeSale')
+            .where(
+              'id',
+              'in',
+              previous.map((sale) => sale.id)
+            )
+            .execute()
+        }
+
+        await trx
+          .insertInto('RecipeSale')
+          .values({
+            recipeId,
+            periodStart,
+            periodEnd,
+            quantity,
+            revenue,
+            source: 'import',
+          })
+          .execute()
+
+        if (previous.length) outcome = 'upserted'
+        else if (outcome === 'ignored') outcome = 'created'
+      }
+
+      return outcome
+    }
+
+    return trx ? query(trx) : this.database.transaction().execute(query)
+  }
+
+  /**
+   * Every POS item seen so far, with the recipe it maps to
+   */
+  mappings(trx?: Transaction<DB>) {
+    return (trx ?? this.database)
+      .selectFrom('SalesItemMapping')
+      .leftJoin('Recipe', 'SalesItemMapping.recipeId', 'Recipe.id')
+      .select([
+        'SalesItemMapping.posItem',
+        'SalesItemMapping.ignored',
+        'Recipe.slug',
+        'Recipe.name',
+      ])
+      .orderBy('SalesItemMapping.posItem')
+      .execute()
+  }
+
+  /**
+   * POS items that are neither mapped to a recipe nor ignored
+   */
+  async unmapped(trx?: Transaction<DB>): Promise<string[]> {
+    const rows = await (trx ?? this.database)
+      .selectFrom('SalesItemMapping')
+      .select('posItem')
+      .where('recipeId', 'is', null)
+      .where('ignored', '=', 0)
+      .orderBy('posItem')
+      .execute()
+
+    return rows.map((row) => row.posItem)
+  }
+
+  /**
+   * Map a POS item name or PLU to a recipe
+   */
+  async map(posItem: string, slug: string, trx?: Transaction<DB>) {
+    const db = trx ?? this.database
+    const { id: recipeId } = await db
+      .selectFrom('Recipe')
+      .select('id')
+      .where('slug', '=', slug)
+      .executeTakeFirstOrThrow(handleError({ slug }))
+
+    await this.saveMapping(posItem, { recipeId, ignored: 0 }, db)
+  }
+
+  /**
+   * Stop reporting a POS item that is not a recipe, e.g. drinks
+   */
+  async ignore(posItem: string, trx?: Transaction<DB>) {
+    await this.saveMapping(
+      posItem,
+      { recipeId: null, ignored: 1 },
+      trx ?? this.database
+    )
+  }
+
+  private async saveMapping(
+    posItem: string,
+    values: { recipeId: number | null; ignored: number },
+    db: Kysely<DB> | Transaction<DB>
+  ) {
+    await db
+      .insertInto('SalesItemMapping')
+      .values({ posItem, ...values })
+      .onConflict((oc) => oc.column('posItem').doUpdateSet(values))
+      .execute()
+  }
+
+  /**
+   * Look up the recipe for each POS item. Items seen for the first time are
+   * saved, matched to the recipe whose slug they slugify to when there is
+   * one.
+   */
+  private async resolveItems(
+    items: string[],
+    trx: Transaction<DB>
+  ): Promise<Map<string, number | null>> {
+    const unique = Array.from(new Set(items))
+    if (unique.length === 0) return new Map()
+
+    const known = await trx
+      .selectFrom('SalesItemMapping')
+      .select(['posItem', 'recipeId'])
+      .where('posItem', 'in', unique)
+      .execute()
+
+    const resolved = new Map(known.map((row) => [row.posItem, row.recipeId]))
+
+    const unseen = unique.filter((item) => !resolved.has(item))
+    if (unseen.length === 0) return resolved
+
+    const slugs = new Map<string, string>()
+    for (const item of unseen) {
+      slugs.set(item, await slugify(item))
+    }
+
+    const recipes = await trx
+      .selectFrom('Recipe')
+      .select(['id', 'slug'])
+      .where('slug', 'in', Array.from(new Set(slugs.values())))
+      .execute()
+    const ids = new Map(recipes.map((recipe) => [recipe.slug, recipe.id]))
+
+    for (const item of unseen) {
+      const recipeId = ids.get(slugs.get(item)!) ?? null
+      await this.saveMapping(item, { recipeId, ignored: 0 }, trx)
+      resolved.set(item, recipeId)
+    }
+
+    return resolved
+  }
+
+  /**
+   * Sales entries that fall entirely within the period, newest first
+   */
+  find(period: SalesPeriod = {}, trx?: Transaction<DB>) {
+    return this.inPeriod(period, trx)
+      .selectAll('RecipeSale')
+      .select(['Recipe.slug', 'Recipe.name'])
+      .orderBy('RecipeSale.periodStart', 'desc')
+      .orderBy('RecipeSale.id', 'desc')
+      .execute()
+  }
+
+  /**
+   * Total portions sold per recipe slug over the period
+   */
+  async volumes(
+    period: SalesPeriod = {},
+    trx?: Transaction<DB>
+  ): Promise<Map<string, number>> {
+    const rows = await this.inPeriod(period, trx)
+      .select((eb) => [
+        'Recipe.slug',
+        eb.fn.sum<number>('RecipeSale.quantity').as('quantity'),
+      ])
+      .groupBy('Recipe.slug')
+      .execute()
+
+    return new Map(rows.map((row) => [row.slug, Number(row.quantity)]))
+  }
+
+  async delete(id: number, trx?: Transaction<DB>) {
+    const result = await (trx ?? this.database)
+      .deleteFrom('RecipeSale')
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    return result.numDeletedRows > 0n
+  }
+
+  private inPeriod({ from, to }: SalesPeriod, trx?: Transaction<DB>) {
+    return (trx ?? this.database)
+      .selectFrom('RecipeSale')
+      .innerJoin('Recipe', 'RecipeSale.recipeId', 'Recipe.id')
+      .$if(from !== undefined, (qb) =>
+        qb.where('RecipeSale.periodStart', '>=', toSalesDay(from!))
+      )
+      .$if(to !== undefined, (qb) =>
+        qb.where('RecipeSale.periodEnd', '<=', toSalesDay(to!))
+      )
+  }
+}
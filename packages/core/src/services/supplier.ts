@@ -93,6 +93,10 @@ export class SupplierService {
       // Check if any mutable fields have changed
       const hasChanged = hasChanges(prev, data, {
         name: 'name',
+        contactName: 'contactName',
+        contactEmail: 'contactEmail',
+        contactPhone: 'contactPhone',
+        notes: 'notes',
       })
 
       if (prev && !hasChanged) return 'ignored'
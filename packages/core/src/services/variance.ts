@@ -0,0 +1,307 @@
+import { BadRequest } from '@hndlr/errors'
+import type { DB } from '@menubook/types'
+import type { Transaction } from 'kysely'
+
+import type { DatabaseContext } from '../datastore/context'
+import { handleError } from '../datastore/handleError'
+import { Calculator } from '../lib/calculation/calculator'
+import type { RecipeCostNode, RecipeIssue } from '../lib/calculation/types'
+import type { ConfigService } from './config'
+import type { IngredientService } from './ingredient'
+import type { RecipeService } from './recipe'
+import { SalesService, toSalesDay } from './sales'
+
+export interface SpendEntry {
+  periodStart: string | Date
+  periodEnd: string | Date
+  /** Purchases delivered during the period, ex-VAT in pence */
+  purchases?: number
+  /** Stock value at the start of the period, in pence */
+  openingStock?: number
+  /** Stock value at the end of the period, in pence */
+  closingStock?: number
+}
+
+export interface VariancePeriod {
+  from: string | Date
+  to: string | Date
+}
+
+export interface VarianceTotals {
+  /** Cost of what was sold, going by the recipes, in pence */
+  theoretical: number
+  /** Purchases + opening stock - closing stock, in pence */
+  actual: number
+  /** `actual - theoretical`, positive when more was spent than sold */
+  variance: number
+  /** Variance as a percentage of the theoretical cost */
+  variancePercent: number | null
+}
+
+export interface VarianceIngredient extends VarianceTotals {
+  slug: string
+  name: string
+  category: string
+  /** False when no spend has been entered for the ingredient */
+  recorded: boolean
+}
+
+export interface VarianceCategory extends VarianceTotals {
+  category: string
+}
+
+export interface VarianceRecipe {
+  slug: string
+  name: string
+  sold: number
+  /** Food cost per portion, in pence */
+  unitCost: number
+  /** `unitCost * sold`, in pence */
+  theoretical: number
+  /** Ex-VAT menu price times sold, in pence */
+  sales: number
+  /** Lines that could not be costed, `unitCost` is understated while set */
+  issues: RecipeIssue[]
+}
+
+export interface VarianceReport extends VarianceTotals {
+  period: { from: string; to: string }
+  /** Ex-VAT value of the sales at menu prices, in pence */
+  sales: number
+  /** Food cost percentages of sales, null without any sales */
+  theoreticalFoodCost: number | null
+  actualFoodCost: number | null
+  recipes: VarianceRecipe[]
+  ingredients: VarianceIngredient[]
+  categories: VarianceCategory[]
+  /** Recipes with sales that could not be costed */
+  skipped: { slug: string; name: string; error: string }[]
+}
+
+/**
+ * Reconcile theoretical food cost (what the recipes say the sales should
+ * have used) with actual spend (purchases adjusted for the change in stock)
+ * over a period.
+ */
+export class VarianceService {
+  constructor(
+    private context: DatabaseContext,
+    private recipe: RecipeService,
+    private ingredient: IngredientService,
+    private config: ConfigService
+  ) {}
+
+  private get database() {
+    return this.context.db
+  }
+
+  /**
+   * Record the spend on an ingredient for a period, replacing any figures
+   * already entered for the same period
+   */
+  async recordSpend(slug: string, entry: SpendEntry, trx?: Transaction<DB>) {
+    const values = {
+      purchases: entry.purchases ?? 0,
+      openingStock: entry.openingStock ?? 0,
+      closingStock: entry.closingStock ?? 0,
+    }
+
+    for (const [key, value] of Object.entries(values)) {
+      if (!Number.isInteger(value) || value < 0) {
+        throw new BadRequest(
+          `Invalid ${key} '${value}', expected a whole number of pence`
+        )
+      }
+    }
+
+    const { periodStart, periodEnd } = this.period({
+      from: entry.periodStart,
+      to: entry.periodEnd,
+    })
+
+    const db = trx ?? this.database
+    const { id: ingredientId } = await db
+      .selectFrom('Ingredient')
+      .select('id')
+      .where('slug', '=', slug)
+      .executeTakeFirstOrThrow(handleError({ slug }))
+
+    return db
+      .insertInto('IngredientSpend')
+      .values({ ingredientId, periodStart, periodEnd, ...values })
+      .onConflict((oc) =>
+        oc
+          .columns(['ingredientId', 'periodStart', 'periodEnd'])
+          .doUpdateSet(values)
+      )
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Spend entries that fall entirely within the period
+   */
+  findSpend(period: VariancePeriod, trx?: Transaction<DB>) {
+    const { periodStart, periodEnd } = this.period(period)
+
+    return (trx ?? this.database)
+      .selectFrom('IngredientSpend')
+      .innerJoin('Ingredient', 'IngredientSpend.ingredientId', 'Ingredient.id')
+      .selectAll('IngredientSpend')
+      .select(['Ingredient.slug', 'Ingredient.name', 'Ingredient.category'])
+      .where('IngredientSpend.periodStart', '>=', periodStart)
+      .where('IngredientSpend.periodEnd', '<=', periodEnd)
+      .orderBy('Ingredient.name')
+      .execute()
+  }
+
+  /**
+   * Compare the theoretical cost of the sales recorded in the period with
+   * the spend entered for it. Recipes are costed at the prices in effect on
+   * the last day of the period.
+   */
+  async report(period: VariancePeriod): Promise<VarianceReport> {
+    const { periodStart: from, periodEnd: to } = this.period(period)
+
+    const volumes = await new SalesService(this.context).volumes({ from, to })
+    const calculator = new Calculator(this.recipe, this.ingredient, this.config)
+    const asOf = new Date(`${to}T23:59:59.999Z`)
+
+    const recipes: VarianceRecipe[] = []
+    const skipped: VarianceReport['skipped'] = []
+    const used = new Map<string, number>()
+
+    for (const [slug, sold] of volumes) {
+      try {
+        const result = await calculator.cost(slug, 0, asOf)
+        const margin = await calculator.margin(result)
+
+        recipes.push({
+          slug,
+          name: result.recipe.name,
+          sold,
+          unitCost: result.totalCost,
+          theoretical: result.totalCost * sold,
+          sales: margin.sellPrice * sold,
+          issues: result.issues,
+        })
+
+        this.allocate(result.tree, sold, used)
+      } catch (error) {
+        skipped.push({
+          slug,
+          name: slug,
+          error: (error as Error).message,
+        })
+      }
+    }
+
+    const spend = new Map<string, number>()
+    for (const entry of await this.findSpend({ from, to })) {
+      spend.set(
+        entry.slug,
+        (spend.get(entry.slug) ?? 0) +
+          entry.purchases +
+          entry.openingStock -
+          entry.closingStock
+      )
+    }
+
+    const ingredients: VarianceIngredient[] = (await this.ingredient.find())
+      .filter(({ slug }) => used.has(slug) || spend.has(slug))
+      .map(({ slug, name, category }) => ({
+        slug,
+        name,
+        category,
+        recorded: spend.has(slug),
+        ...totals(Math.round(used.get(slug) ?? 0), spend.get(slug) ?? 0),
+      }))
+      .sort((a, b) => b.variance - a.variance)
+
+    const categories = new Map<
+      string,
+      { theoretical: number; actual: number }
+    >()
+    for (const line of ingredients) {
+      const category = categories.get(line.category) ?? {
+        theoretical: 0,
+        actual: 0,
+      }
+      category.theoretical += line.theoretical
+      category.actual += line.actual
+      categories.set(line.category, category)
+    }
+
+    const sales = recipes.reduce((sum, recipe) => sum + recipe.sales, 0)
+    const overall = totals(
+      ingredients.reduce((sum, line) => sum + line.theoretical, 0),
+      ingredients.reduce((sum, line) => sum + line.actual, 0)
+    )
+
+    return {
+      period: { from, to },
+      ...overall,
+      sales,
+      theoreticalFoodCost:
+        sales > 0 ? (overall.theoretical / sales) * 100 : null,
+      actualFoodCost: sales > 0 ? (overall.actual / sales) * 100 : null,
+      recipes: recipes.sort((a, b) => b.theoretical - a.theoretical),
+      ingredients,
+      categories: Array.from(categories, ([category, values]) => ({
+        category,
+        ...totals(values.theoretical, values.actual),
+      })).sort((a, b) => b.variance - a.variance),
+      skipped,
+    }
+  }
+
+  /**
+   * Spread the cost of `sold` portions across the ingredients in a cost tree.
+   * Sub-recipe lines are costed for the quantity used, so their ingredients
+   * take a share of the line in proportion to their cost in the batch.
+   */
+  private allocate(
+    tree: RecipeCostNode[],
+    multiplier: number,
+    used: Map<string, number>
+  ) {
+    for (const node of tree) {
+      if (node.type === 'ingredient') {
+        used.set(node.slug, (used.get(node.slug) ?? 0) + node.cost * multiplier)
+        continue
+      }
+
+      const children = node.children ?? []
+      const batch = children.reduce((sum, child) => sum + child.cost, 0)
+      if (batch > 0) {
+        this.allocate(children, (node.cost / batch) * multiplier, used)
+      }
+    }
+  }
+
+  private period({ from, to }: VariancePeriod) {
+    if (!from || !to) {
+      throw new BadRequest('A variance period needs both a start and an end')
+    }
+
+    const periodStart = toSalesDay(from)
+    const periodEnd = toSalesDay(to)
+    if (periodEnd < periodStart) {
+      throw new BadRequest(
+        `Variance period ends (${periodEnd}) before it starts (${periodStart})`
+      )
+    }
+
+    return { periodStart, periodEnd }
+  }
+}
+
+function totals(theoretical: number, actual: number): VarianceTotals {
+  const variance = actual - theoretical
+  return {
+    theoretical,
+    actual,
+    variance,
+    variancePercent: theoretical > 0 ? (variance / theoretical) * 100 : null,
+  }
+}
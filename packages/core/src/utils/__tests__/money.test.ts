@@ -0,0 +1,54 @@
+import {
+  currencySymbol,
+  formatMoney,
+  fromMinorUnits,
+  toMinorUnits,
+} from '../money'
+
+describe('formatMoney', () => {
+  it('should format pence as pounds by default', () => {
+    expect(formatMoney(1250)).toBe('£12.50')
+    expect(formatMoney(-99)).toBe('-£0.99')
+  })
+
+  it('should follow the locale', () => {
+    expect(formatMoney(123456, { currency: 'EUR', locale: 'de-DE' })).toBe(
+      '1.234,56 €'
+    )
+    expect(formatMoney(1250, { currency: 'USD', locale: 'en-US' })).toBe(
+      '$12.50'
+    )
+  })
+  it("should use the currency's own minor unit", () => {
+    expect(formatMoney(1250, { currency: 'JPY', locale: 'en-GB' })).toBe(
+      'JP¥1,250'
+    )
+    expect(formatMoney(1250, { currency: 'BHD', locale: 'en-GB' })).toBe(
+      'BHD\u00a01.250'
+    )
+  })
+})
+
+describe('fromMinorUnits', () => {
+  it('should convert to the major unit', () => {
+    expect(fromMinorUnits(1250)).toBe(12.5)
+    expect(fromMinorUnits(1250, { currency: 'JPY', locale: 'ja-JP' })).toBe(
+      1250
+    )
+  })
+})
+
+describe('toMinorUnits', () => {
+  it('should convert to whole minor units', () => {
+    expect(toMinorUnits(12.5)).toBe(1250)
+    expect(toMinorUnits(0.1 + 0.2)).toBe(30)
+    expect(toMinorUnits(1250, { currency: 'JPY', locale: 'ja-JP' })).toBe(1250)
+  })
+})
+
+describe('currencySymbol', () => {
+  it('should return the symbol in the locale', () => {
+    expect(currencySymbol()).toBe('£')
+    expect(currencySymbol({ currency: 'EUR', locale: 'en-IE' })).toBe('€')
+  })
+})
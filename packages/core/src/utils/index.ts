@@ -1,3 +1,5 @@
 export * from './constants'
 export { hasChanges } from './has-changes'
+export { DEFAULT_MONEY_FORMAT, currencySymbol, formatMoney } from './money'
+export type { MoneyFormat } from './money'
 export { slugify } from './slugify'
@@ -0,0 +1,73 @@
+export interface MoneyFormat {
+  /** ISO 4217 code, e.g. "GBP" */
+  currency: string
+  /** BCP 47 locale, e.g. "en-GB" */
+  locale: string
+}
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = {
+  currency: 'GBP',
+  locale: 'en-GB',
+}
+
+/**
+ * Format an amount in minor units (pence, cents) for display, e.g. 1250 is
+ * "£12.50" in en-GB, "12,50 €" as EUR in de-DE and "￥1,250" as JPY in ja-JP
+ */
+export function formatMoney(
+  amount: number,
+  format: MoneyFormat = DEFAULT_MONEY_FORMAT
+): string {
+  return new Intl.NumberFormat(format.locale, {
+    style: 'currency',
+    currency: format.currency,
+  }).format(fromMinorUnits(amount, format))
+}
+
+/**
+ * An amount in minor units in the currency's major unit. Most currencies
+ * have 100 minor units to the major one, but not all: yen have none and
+ * Bahraini dinar have 1000.
+ */
+export function fromMinorUnits(
+  amount: number,
+  format: MoneyFormat = DEFAULT_MONEY_FORMAT
+): number {
+  return amount / 10 ** minorDigits(format)
+}
+
+/**
+ * An amount typed in the currency's major unit, e.g. "12.50", in whole minor
+ * units
+ */
+export function toMinorUnits(
+  amount: number,
+  format: MoneyFormat = DEFAULT_MONEY_FORMAT
+): number {
+  return Math.round(amount * 10 ** minorDigits(format))
+}
+
+function minorDigits(format: MoneyFormat): number {
+  return (
+    new Intl.NumberFormat(format.locale, {
+      style: 'currency',
+      currency: format.currency,
+    }).resolvedOptions().maximumFractionDigits ?? 2
+  )
+}
+
+/**
+ * The currency's symbol in the locale, for labelling inputs
+ */
+export function currencySymbol(
+  format: MoneyFormat = DEFAULT_MONEY_FORMAT
+): string {
+  return (
+    new Intl.NumberFormat(format.locale, {
+      style: 'currency',
+      currency: format.currency,
+    })
+      .formatToParts(0)
+      .find((part) => part.type === 'currency')?.value ?? format.currency
+  )
+}
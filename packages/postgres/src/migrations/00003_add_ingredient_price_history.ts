@@ -0,0 +1,56 @@
+import { Kysely, sql } from 'kysely'
+
+/**
+ * Migration: Add ingredient price history
+ *
+ * Creates the append-only `IngredientPrice` table so purchase prices can be
+ * tracked over time with an effective date and the source of the change
+ * (import, ui or api). `Ingredient.purchaseCost` stays as the current price.
+ *
+ * Existing ingredients are backfilled with a single entry. Nothing says when
+ * their price started (`lastPurchased` is only the latest delivery), so it is
+ * effective from 1970 and costing an earlier date still finds a price.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('IngredientPrice')
+    .addColumn('id', 'serial', (col) => col.primaryKey())
+    .addColumn('ingredientId', 'integer', (col) =>
+      col.notNull().references('Ingredient.id').onDelete('cascade')
+    )
+    .addColumn('purchaseUnit', 'text', (col) => col.notNull())
+    .addColumn('purchaseCost', 'integer', (col) => col.notNull())
+    .addColumn('includesVat', 'boolean', (col) =>
+      col.notNull().defaultTo(false)
+    )
+    .addColumn('effectiveFrom', 'timestamp', (col) => col.notNull())
+    .addColumn('source', 'text', (col) =>
+      col
+        .notNull()
+        .defaultTo('import')
+        .check(sql`source IN ('import', 'ui', 'api')`)
+    )
+    .addColumn('createdAt', 'timestamp', (col) =>
+      col.notNull().defaultTo(sql`CURRENT_TIMESTAMP`)
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('IngredientPrice_ingredientId_effectiveFrom_idx')
+    .on('IngredientPrice')
+    .columns(['ingredientId', 'effectiveFrom'])
+    .execute()
+
+  await sql`
+    INSERT INTO "IngredientPrice" ("ingredientId", "purchaseUnit", "purchaseCost", "includesVat", "effectiveFrom", "source")
+    SELECT "id", "purchaseUnit", ROUND("purchaseCost"), "includesVat", TIMESTAMP '1970-01-01 00:00:00', 'import'
+    FROM "Ingredient"
+  `.execute(db)
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .dropIndex('IngredientPrice_ingredientId_effectiveFrom_idx')
+    .execute()
+  await db.schema.dropTable('IngredientPrice').execute()
+}
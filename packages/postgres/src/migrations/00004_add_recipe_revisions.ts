@@ -0,0 +1,41 @@
+import { Kysely, sql } from 'kysely'
+
+/**
+ * Migration: Add recipe revisions
+ *
+ * Creates the `RecipeRevision` table. Every recipe save writes an immutable,
+ * sequentially numbered snapshot of the recipe fields, its own ingredient
+ * lines and the total cost at the time, which backs the revision history,
+ * diff and rollback features.
+ *
+ * Snapshots are stored as JSON text so the shape can grow with the recipe
+ * model without needing a migration each time.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('RecipeRevision')
+    .addColumn('id', 'serial', (col) => col.primaryKey())
+    .addColumn('recipeId', 'integer', (col) =>
+      col.notNull().references('Recipe.id').onDelete('cascade')
+    )
+    .addColumn('revision', 'integer', (col) => col.notNull())
+    .addColumn('data', 'text', (col) => col.notNull())
+    .addColumn('ingredients', 'text', (col) => col.notNull())
+    .addColumn('totalCost', 'integer')
+    .addColumn('createdAt', 'timestamp', (col) =>
+      col.notNull().defaultTo(sql`CURRENT_TIMESTAMP`)
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('RecipeRevision_recipeId_revision_key')
+    .on('RecipeRevision')
+    .columns(['recipeId', 'revision'])
+    .unique()
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropIndex('RecipeRevision_recipeId_revision_key').execute()
+  await db.schema.dropTable('RecipeRevision').execute()
+}
@@ -0,0 +1,28 @@
+import { Kysely, sql } from 'kysely'
+
+/**
+ * Migration: Add recipe line directives
+ *
+ * `RecipeIngredients.directive` says how a line applies to the lines a
+ * recipe inherits: `add` is one of its own, `override` replaces the inherited
+ * line for the same ingredient and `remove` drops it. Existing lines are all
+ * `add`, which keeps their current meaning.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('RecipeIngredients')
+    .addColumn('directive', 'text', (col) =>
+      col
+        .notNull()
+        .defaultTo('add')
+        .check(sql`directive IN ('add', 'override', 'remove')`)
+    )
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('RecipeIngredients')
+    .dropColumn('directive')
+    .execute()
+}
@@ -0,0 +1,34 @@
+import { Kysely, sql } from 'kysely'
+
+/**
+ * Migration: Add POS sales item mappings
+ *
+ * Creates the `SalesItemMapping` table, linking the item names (or PLUs) found
+ * in POS sales exports to recipes. Items without a recipe are kept so they can
+ * be listed for the user to resolve. Also adds the gross `revenue` reported by
+ * the POS to `RecipeSale`.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('SalesItemMapping')
+    .addColumn('id', 'serial', (col) => col.primaryKey())
+    .addColumn('posItem', 'text', (col) => col.notNull().unique())
+    .addColumn('recipeId', 'integer', (col) =>
+      col.references('Recipe.id').onDelete('set null')
+    )
+    .addColumn('ignored', 'boolean', (col) => col.notNull().defaultTo(false))
+    .addColumn('createdAt', 'timestamp', (col) =>
+      col.notNull().defaultTo(sql`CURRENT_TIMESTAMP`)
+    )
+    .execute()
+
+  await db.schema
+    .alterTable('RecipeSale')
+    .addColumn('revenue', 'integer')
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('RecipeSale').dropColumn('revenue').execute()
+  await db.schema.dropTable('SalesItemMapping').execute()
+}
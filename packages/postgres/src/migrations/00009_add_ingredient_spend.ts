@@ -0,0 +1,36 @@
+import { Kysely, sql } from 'kysely'
+
+/**
+ * Migration: Add ingredient spend
+ *
+ * Creates the `IngredientSpend` table, what was actually spent on an
+ * ingredient between two dates (inclusive, stored as YYYY-MM-DD): purchases
+ * plus the opening and closing stock values. Compared against the
+ * theoretical cost of the sales over the same period for variance.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('IngredientSpend')
+    .addColumn('id', 'serial', (col) => col.primaryKey())
+    .addColumn('ingredientId', 'integer', (col) =>
+      col.notNull().references('Ingredient.id').onDelete('cascade')
+    )
+    .addColumn('periodStart', 'text', (col) => col.notNull())
+    .addColumn('periodEnd', 'text', (col) => col.notNull())
+    .addColumn('purchases', 'integer', (col) => col.notNull().defaultTo(0))
+    .addColumn('openingStock', 'integer', (col) => col.notNull().defaultTo(0))
+    .addColumn('closingStock', 'integer', (col) => col.notNull().defaultTo(0))
+    .addColumn('createdAt', 'timestamp', (col) =>
+      col.notNull().defaultTo(sql`CURRENT_TIMESTAMP`)
+    )
+    .addUniqueConstraint('IngredientSpend_ingredientId_period_key', [
+      'ingredientId',
+      'periodStart',
+      'periodEnd',
+    ])
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('IngredientSpend').execute()
+}
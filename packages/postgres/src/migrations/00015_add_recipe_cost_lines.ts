@@ -0,0 +1,38 @@
+import { Kysely, sql } from 'kysely'
+
+/**
+ * Migration: Add recipe cost lines
+ *
+ * Non-food costs such as takeaway boxes and platform fees are stored as
+ * `RecipeIngredients` rows with a `costType`. A `packaging` line points at an
+ * ingredient and is costed from its unit like any other, while `fixed` (pence)
+ * and `percent` (of the sell price) lines carry their own `label` and
+ * `amount`. Food lines leave all three null.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('RecipeIngredients')
+    .addColumn('costType', 'text', (col) =>
+      col.check(sql`"costType" IN ('packaging', 'fixed', 'percent')`)
+    )
+    .execute()
+
+  await db.schema
+    .alterTable('RecipeIngredients')
+    .addColumn('label', 'text')
+    .execute()
+
+  await db.schema
+    .alterTable('RecipeIngredients')
+    .addColumn('amount', 'decimal')
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('RecipeIngredients').dropColumn('amount').execute()
+  await db.schema.alterTable('RecipeIngredients').dropColumn('label').execute()
+  await db.schema
+    .alterTable('RecipeIngredients')
+    .dropColumn('costType')
+    .execute()
+}
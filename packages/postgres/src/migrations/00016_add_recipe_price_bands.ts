@@ -0,0 +1,36 @@
+import { Kysely } from 'kysely'
+
+/**
+ * Migration: Add recipe price bands
+ *
+ * Creates the `RecipePriceBand` table, named prices a recipe is also sold at
+ * alongside its `sellPrice` (eat-in, takeaway, delivery). Each band carries
+ * its own VAT basis, an optional VAT rate override and an optional platform
+ * commission, both as plain numbers (0.2 and 30 for 20% VAT and 30%).
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('RecipePriceBand')
+    .addColumn('id', 'serial', (col) => col.primaryKey())
+    .addColumn('recipeId', 'integer', (col) =>
+      col.notNull().references('Recipe.id').onDelete('cascade')
+    )
+    .addColumn('name', 'text', (col) => col.notNull())
+    .addColumn('price', 'integer', (col) => col.notNull())
+    .addColumn('includesVat', 'boolean', (col) => col.notNull().defaultTo(true))
+    .addColumn('vatRate', 'decimal')
+    .addColumn('commission', 'decimal')
+    .execute()
+
+  await db.schema
+    .createIndex('RecipePriceBand_recipeId_name_key')
+    .on('RecipePriceBand')
+    .columns(['recipeId', 'name'])
+    .unique()
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropIndex('RecipePriceBand_recipeId_name_key').execute()
+  await db.schema.dropTable('RecipePriceBand').execute()
+}
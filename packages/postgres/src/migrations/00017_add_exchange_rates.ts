@@ -0,0 +1,48 @@
+import { Kysely, sql } from 'kysely'
+
+/**
+ * Migration: Add exchange rates
+ *
+ * Adds `purchaseCurrency` to ingredients and their price history, null
+ * meaning the workspace's base currency, and creates the `ExchangeRate`
+ * table of manually kept rates into the base currency. A rate applies from
+ * its day (YYYY-MM-DD) until the next one for the same currency.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('Ingredient')
+    .addColumn('purchaseCurrency', 'text')
+    .execute()
+
+  await db.schema
+    .alterTable('IngredientPrice')
+    .addColumn('purchaseCurrency', 'text')
+    .execute()
+
+  await db.schema
+    .createTable('ExchangeRate')
+    .addColumn('id', 'serial', (col) => col.primaryKey())
+    .addColumn('currency', 'text', (col) => col.notNull())
+    .addColumn('rate', 'decimal', (col) => col.notNull())
+    .addColumn('effectiveFrom', 'text', (col) => col.notNull())
+    .addColumn('createdAt', 'timestamp', (col) =>
+      col.notNull().defaultTo(sql`CURRENT_TIMESTAMP`)
+    )
+    .addUniqueConstraint('ExchangeRate_currency_effectiveFrom_key', [
+      'currency',
+      'effectiveFrom',
+    ])
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('ExchangeRate').execute()
+  await db.schema
+    .alterTable('IngredientPrice')
+    .dropColumn('purchaseCurrency')
+    .execute()
+  await db.schema
+    .alterTable('Ingredient')
+    .dropColumn('purchaseCurrency')
+    .execute()
+}
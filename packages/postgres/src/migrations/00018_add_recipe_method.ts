@@ -0,0 +1,27 @@
+import type { Kysely } from 'kysely'
+
+/**
+ * Migration: Add recipe method
+ *
+ * The recipe card alongside the costing: ordered method steps with their
+ * hold times, equipment and photos as JSON, and free text plating notes.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('Recipe')
+    .addColumn('methodSteps', 'text')
+    .execute()
+  await db.schema.alterTable('Recipe').addColumn('equipment', 'text').execute()
+  await db.schema
+    .alterTable('Recipe')
+    .addColumn('platingNotes', 'text')
+    .execute()
+  await db.schema.alterTable('Recipe').addColumn('photos', 'text').execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('Recipe').dropColumn('photos').execute()
+  await db.schema.alterTable('Recipe').dropColumn('platingNotes').execute()
+  await db.schema.alterTable('Recipe').dropColumn('equipment').execute()
+  await db.schema.alterTable('Recipe').dropColumn('methodSteps').execute()
+}
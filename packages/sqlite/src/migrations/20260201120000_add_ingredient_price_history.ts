@@ -0,0 +1,54 @@
+import { Kysely, sql } from 'kysely'
+
+/**
+ * Migration: Add ingredient price history
+ *
+ * Creates the append-only `IngredientPrice` table so purchase prices can be
+ * tracked over time with an effective date and the source of the change
+ * (import, ui or api). `Ingredient.purchaseCost` stays as the current price.
+ *
+ * Existing ingredients are backfilled with a single entry. Nothing says when
+ * their price started (`lastPurchased` is only the latest delivery), so it is
+ * effective from 1970 and costing an earlier date still finds a price.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('IngredientPrice')
+    .addColumn('id', 'integer', (col) => col.primaryKey().autoIncrement())
+    .addColumn('ingredientId', 'integer', (col) =>
+      col.notNull().references('Ingredient.id').onDelete('cascade')
+    )
+    .addColumn('purchaseUnit', 'text', (col) => col.notNull())
+    .addColumn('purchaseCost', 'integer', (col) => col.notNull())
+    .addColumn('includesVat', 'integer', (col) => col.notNull().defaultTo(0))
+    .addColumn('effectiveFrom', 'text', (col) => col.notNull())
+    .addColumn('source', 'text', (col) =>
+      col
+        .notNull()
+        .defaultTo('import')
+        .check(sql`source IN ('import', 'ui', 'api')`)
+    )
+    .addColumn('createdAt', 'text', (col) =>
+      col.notNull().defaultTo(sql`CURRENT_TIMESTAMP`)
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('IngredientPrice_ingredientId_effectiveFrom_idx')
+    .on('IngredientPrice')
+    .columns(['ingredientId', 'effectiveFrom'])
+    .execute()
+
+  await sql`
+    INSERT INTO IngredientPrice (ingredientId, purchaseUnit, purchaseCost, includesVat, effectiveFrom, source)
+    SELECT id, purchaseUnit, purchaseCost, includesVat, '1970-01-01T00:00:00.000Z', 'import'
+    FROM Ingredient
+  `.execute(db)
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .dropIndex('IngredientPrice_ingredientId_effectiveFrom_idx')
+    .execute()
+  await db.schema.dropTable('IngredientPrice').execute()
+}
@@ -0,0 +1,28 @@
+import type { Kysely } from 'kysely'
+
+/**
+ * Migration: Add yield and waste factors
+ *
+ * `Ingredient.yieldPercent` is the usable share of a purchase unit after
+ * trimming, and `RecipeIngredients.wastePercent` is the share of a recipe
+ * line lost while preparing it. Both are optional, null means no loss.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('Ingredient')
+    .addColumn('yieldPercent', 'real')
+    .execute()
+
+  await db.schema
+    .alterTable('RecipeIngredients')
+    .addColumn('wastePercent', 'real')
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('Ingredient').dropColumn('yieldPercent').execute()
+  await db.schema
+    .alterTable('RecipeIngredients')
+    .dropColumn('wastePercent')
+    .execute()
+}
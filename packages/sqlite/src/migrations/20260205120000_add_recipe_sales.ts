@@ -0,0 +1,41 @@
+import { Kysely, sql } from 'kysely'
+
+/**
+ * Migration: Add recipe sales
+ *
+ * Creates the `RecipeSale` table, the number of portions of a recipe sold
+ * between two dates (inclusive, stored as YYYY-MM-DD). Figures are either
+ * entered by hand or imported, and feed the menu engineering matrix.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('RecipeSale')
+    .addColumn('id', 'integer', (col) => col.primaryKey().autoIncrement())
+    .addColumn('recipeId', 'integer', (col) =>
+      col.notNull().references('Recipe.id').onDelete('cascade')
+    )
+    .addColumn('periodStart', 'text', (col) => col.notNull())
+    .addColumn('periodEnd', 'text', (col) => col.notNull())
+    .addColumn('quantity', 'integer', (col) => col.notNull())
+    .addColumn('source', 'text', (col) =>
+      col
+        .notNull()
+        .defaultTo('ui')
+        .check(sql`source IN ('import', 'ui', 'api')`)
+    )
+    .addColumn('createdAt', 'text', (col) =>
+      col.notNull().defaultTo(sql`CURRENT_TIMESTAMP`)
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('RecipeSale_recipeId_periodStart_idx')
+    .on('RecipeSale')
+    .columns(['recipeId', 'periodStart'])
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropIndex('RecipeSale_recipeId_periodStart_idx').execute()
+  await db.schema.dropTable('RecipeSale').execute()
+}
@@ -0,0 +1,15 @@
+import type { Kysely } from 'kysely'
+
+/**
+ * Migration: Add ingredient SKU
+ *
+ * `Ingredient.sku` is the supplier's own product code. Supplier price lists
+ * are matched to ingredients by SKU first, then by name.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('Ingredient').addColumn('sku', 'text').execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('Ingredient').dropColumn('sku').execute()
+}
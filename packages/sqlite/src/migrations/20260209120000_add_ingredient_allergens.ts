@@ -0,0 +1,19 @@
+import type { Kysely } from 'kysely'
+
+/**
+ * Migration: Add ingredient allergens
+ *
+ * `Ingredient.allergens` holds the ingredient's declared allergens as JSON,
+ * split into `contains` and `mayContain` lists. Recipes work theirs out from
+ * their ingredients, so nothing is stored against a recipe.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('Ingredient')
+    .addColumn('allergens', 'text')
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('Ingredient').dropColumn('allergens').execute()
+}
@@ -0,0 +1,18 @@
+import type { Kysely } from 'kysely'
+
+/**
+ * Migration: Add ingredient nutrition
+ *
+ * `Ingredient.nutrition` holds the back of pack values per 100g (or 100ml)
+ * as JSON. Recipe nutrition is worked out from it when needed.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('Ingredient')
+    .addColumn('nutrition', 'text')
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('Ingredient').dropColumn('nutrition').execute()
+}
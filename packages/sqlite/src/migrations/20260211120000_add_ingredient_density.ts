@@ -0,0 +1,19 @@
+import type { Kysely } from 'kysely'
+
+/**
+ * Migration: Add ingredient density
+ *
+ * `Ingredient.density` is either grams per millilitre or a rule such as
+ * "1 cup = 120g", and lets recipes measure by volume what is bought by
+ * weight (or the other way round).
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('Ingredient')
+    .addColumn('density', 'text')
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('Ingredient').dropColumn('density').execute()
+}
@@ -0,0 +1,25 @@
+import type { Kysely } from 'kysely'
+
+/**
+ * Migration: Add recipe labour
+ *
+ * Active prep and cook minutes for a recipe, and the wage rate they are
+ * costed at. Rates themselves live in margin.toml, `labourRole` names one.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('Recipe')
+    .addColumn('prepMinutes', 'integer')
+    .execute()
+  await db.schema
+    .alterTable('Recipe')
+    .addColumn('cookMinutes', 'integer')
+    .execute()
+  await db.schema.alterTable('Recipe').addColumn('labourRole', 'text').execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('Recipe').dropColumn('labourRole').execute()
+  await db.schema.alterTable('Recipe').dropColumn('cookMinutes').execute()
+  await db.schema.alterTable('Recipe').dropColumn('prepMinutes').execute()
+}
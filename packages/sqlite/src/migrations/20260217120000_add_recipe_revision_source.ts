@@ -0,0 +1,20 @@
+import { Kysely, sql } from 'kysely'
+
+/**
+ * Migration: Add recipe revision source
+ *
+ * Records where each revision was made: a file import, a CLI command, the
+ * web UI or the API. Revisions recorded before this are left as null.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('RecipeRevision')
+    .addColumn('source', 'text', (col) =>
+      col.check(sql`source IN ('import', 'cli', 'ui', 'api')`)
+    )
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('RecipeRevision').dropColumn('source').execute()
+}
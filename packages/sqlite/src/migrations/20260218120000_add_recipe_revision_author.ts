@@ -0,0 +1,19 @@
+import { Kysely } from 'kysely'
+
+/**
+ * Migration: Add recipe revision author
+ *
+ * Records who made each revision, the signed in subject for changes through
+ * the web UI or the API. Imports, CLI changes and revisions recorded before
+ * this are left as null.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('RecipeRevision')
+    .addColumn('author', 'text')
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('RecipeRevision').dropColumn('author').execute()
+}
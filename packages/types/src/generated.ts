@@ -5,6 +5,12 @@ export type Generated<T> =
     : ColumnType<T, T | undefined, T>
 export type Timestamp = ColumnType<Date, Date | string, Date | string>
 
+export const PriceSource = {
+  import: 'import',
+  ui: 'ui',
+  api: 'api',
+} as const
+export type PriceSource = (typeof PriceSource)[keyof typeof PriceSource]
 export const RecipeStage = {
   development: 'development',
   active: 'active',
@@ -17,6 +23,50 @@ export const RecipeClass = {
   sub_recipe: 'sub_recipe',
 } as const
 export type RecipeClass = (typeof RecipeClass)[keyof typeof RecipeClass]
+export const RecipeLineDirective = {
+  add: 'add',
+  override: 'override',
+  remove: 'remove',
+} as const
+export type RecipeLineDirective =
+  (typeof RecipeLineDirective)[keyof typeof RecipeLineDirective]
+export const RecipeCostType = {
+  packaging: 'packaging',
+  fixed: 'fixed',
+  percent: 'percent',
+} as const
+export type RecipeCostType =
+  (typeof RecipeCostType)[keyof typeof RecipeCostType]
+export const RevisionSource = {
+  import: 'import',
+  cli: 'cli',
+  ui: 'ui',
+  api: 'api',
+} as const
+export type RevisionSource =
+  (typeof RevisionSource)[keyof typeof RevisionSource]
+export const SaleSource = {
+  import: 'import',
+  ui: 'ui',
+  api: 'api',
+} as const
+export type SaleSource = (typeof SaleSource)[keyof typeof SaleSource]
+export type ExchangeRate = {
+  id: GeneratedAlways<number>
+  /**
+   * ISO 4217 code of the foreign currency (e.g., "EUR")
+   */
+  currency: string
+  /**
+   * Base currency units one unit of `currency` buys (e.g., 0.86 for EUR to GBP)
+   */
+  rate: number
+  /**
+   * Day the rate starts applying, inclusive (YYYY-MM-DD)
+   */
+  effectiveFrom: string
+  createdAt: Generated<string>
+}
 export type Ingredient = {
   id: GeneratedAlways<number>
   slug: string
@@ -25,11 +75,79 @@ export type Ingredient = {
   purchaseUnit: string
   purchaseCost: number
   includesVat: number
+  purchaseCurrency: string | null
   conversionRule: string | null
+  /**
+   * Optional: grams per millilitre, or a rule such as "1 cup = 120g", used
+   * to convert between weight and volume
+   */
+  density: string | null
+  /**
+   * Optional: usable share of the purchase unit after trimming, as a
+   * percentage (e.g., a whole salmon yields about 55% fillet)
+   */
+  yieldPercent: number | null
+  /**
+   * Optional: the supplier's product code, matched against price lists
+   */
+  sku: string | null
+  /**
+   * Optional: JSON of the declared allergens, `{ contains, mayContain }`
+   */
+  allergens: string | null
+  /**
+   * Optional: JSON of the nutrition per 100g (or 100ml), energy in kcal
+   */
+  nutrition: string | null
   supplierId: number | null
   notes: string | null
   lastPurchased: string | null
 }
+export type IngredientPrice = {
+  id: GeneratedAlways<number>
+  ingredientId: number
+  purchaseUnit: string
+  purchaseCost: number
+  includesVat: number
+  /**
+   * ISO 4217 code, null for the base currency
+   */
+  purchaseCurrency: string | null
+  /**
+   * When this price starts applying, used for "as of" costing
+   */
+  effectiveFrom: string
+  /**
+   * Where the price change came from
+   */
+  source: Generated<PriceSource>
+  createdAt: Generated<string>
+}
+export type IngredientSpend = {
+  id: GeneratedAlways<number>
+  ingredientId: number
+  /**
+   * First day of the period, inclusive (YYYY-MM-DD)
+   */
+  periodStart: string
+  /**
+   * Last day of the period, inclusive (YYYY-MM-DD)
+   */
+  periodEnd: string
+  /**
+   * Purchases delivered during the period, ex-VAT in pence
+   */
+  purchases: Generated<number>
+  /**
+   * Stock value on hand at the start of the period, in pence
+   */
+  openingStock: Generated<number>
+  /**
+   * Stock value on hand at the end of the period, in pence
+   */
+  closingStock: Generated<number>
+  createdAt: Generated<string>
+}
 export type Recipe = {
   id: GeneratedAlways<number>
   /**
@@ -57,6 +175,26 @@ export type Recipe = {
   targetMargin: Generated<number>
   yieldAmount: number | null
   yieldUnit: string | null
+  /**
+   * Active labour for the recipe as written (a batch for sub-recipes), costed
+   * at the named wage rate from margin.toml
+   */
+  prepMinutes: number | null
+  cookMinutes: number | null
+  labourRole: string | null
+  /**
+   * JSON of the method, `[{ step, holdMinutes }]` in order
+   */
+  methodSteps: string | null
+  /**
+   * JSON list of the equipment needed
+   */
+  equipment: string | null
+  platingNotes: string | null
+  /**
+   * JSON of the photos, `[{ path, caption }]`, stored through the StorageService
+   */
+  photos: string | null
   parentId: number | null
 }
 export type RecipeIngredients = {
@@ -66,6 +204,108 @@ export type RecipeIngredients = {
   subRecipeId: number | null
   unit: string
   notes: string | null
+  /**
+   * Optional: percentage lost while preparing this line (e.g., frying)
+   */
+  wastePercent: number | null
+  /**
+   * How the line applies to what is inherited from the parent recipe
+   */
+  directive: Generated<RecipeLineDirective>
+  /**
+   * Set for non-food cost lines, which are costed apart from the food
+   */
+  costType: RecipeCostType | null
+  /**
+   * Name shown for fixed and percent lines, which have no item to name them
+   */
+  label: string | null
+  /**
+   * Pence for fixed lines, a percentage for percent lines
+   */
+  amount: number | null
+}
+export type RecipePriceBand = {
+  id: GeneratedAlways<number>
+  recipeId: number
+  name: string
+  /**
+   * What the customer pays in pence, VAT inclusive if `includesVat`
+   */
+  price: number
+  includesVat: Generated<number>
+  /**
+   * Overrides the VAT rate from margin.toml, e.g. 0 for zero-rated takeaway
+   */
+  vatRate: number | null
+  /**
+   * Percentage of the customer price taken by a delivery platform
+   */
+  commission: number | null
+}
+export type RecipeRevision = {
+  id: GeneratedAlways<number>
+  recipeId: number
+  /**
+   * Sequential per recipe, starting at 1
+   */
+  revision: number
+  /**
+   * JSON snapshot of the recipe fields
+   */
+  data: string
+  /**
+   * JSON snapshot of the recipe's own ingredient lines
+   */
+  ingredients: string
+  /**
+   * Total cost in pence at save time, null if it could not be calculated
+   */
+  totalCost: number | null
+  /**
+   * Where the change was made, null for revisions recorded before this was kept
+   */
+  source: RevisionSource | null
+  /**
+   * Who made the change, the signed in subject for the web UI and API
+   */
+  author: string | null
+  createdAt: Generated<string>
+}
+export type RecipeSale = {
+  id: GeneratedAlways<number>
+  recipeId: number
+  /**
+   * First day of the period, inclusive (YYYY-MM-DD)
+   */
+  periodStart: string
+  /**
+   * Last day of the period, inclusive (YYYY-MM-DD)
+   */
+  periodEnd: string
+  quantity: number
+  /**
+   * Gross takings over the period in pence, when the POS reports it
+   */
+  revenue: number | null
+  /**
+   * Where the figure came from
+   */
+  source: Generated<SaleSource>
+  createdAt: Generated<string>
+}
+export type SalesItemMapping = {
+  id: GeneratedAlways<number>
+  /**
+   * Item name or PLU exactly as the POS exports it
+   */
+  posItem: string
+  recipeId: number | null
+  /**
+   * Set for items that are not recipes (drinks, service charges) so they stop being reported
+   */
+  ignored: Generated<number>
+  createdAt: Generated<string>
 }
 export type Supplier = {
   id: GeneratedAlways<number>
@@ -80,8 +320,15 @@ export type Supplier = {
   notes: string | null
 }
 export type DB = {
+  ExchangeRate: ExchangeRate
   Ingredient: Ingredient
+  IngredientPrice: IngredientPrice
+  IngredientSpend: IngredientSpend
   Recipe: Recipe
   RecipeIngredients: RecipeIngredients
+  RecipePriceBand: RecipePriceBand
+  RecipeRevision: RecipeRevision
+  RecipeSale: RecipeSale
+  SalesItemMapping: SalesItemMapping
   Supplier: Supplier
 }
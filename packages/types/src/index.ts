@@ -10,17 +10,29 @@ export type { ColumnType, GeneratedAlways } from 'kysely'
 
 // Re-export all generated types
 export {
+  PriceSource,
   RecipeClass,
+  RecipeCostType,
+  RecipeLineDirective,
   // Enums (exported as both const objects and types)
   RecipeStage,
+  RevisionSource,
+  SaleSource,
   // Database schema
   type DB,
+  // Database model types
+  type ExchangeRate,
   // Helper types
   type Generated,
-  // Database model types
   type Ingredient,
+  type IngredientPrice,
+  type IngredientSpend,
   type Recipe,
   type RecipeIngredients,
+  type RecipePriceBand,
+  type RecipeRevision,
+  type RecipeSale,
+  type SalesItemMapping,
   type Supplier,
   type Timestamp,
 } from './generated'